@@ -0,0 +1,440 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../index';
+import { AppError } from '../types';
+import { AuthenticatedRequest } from '../types';
+import { AuditEventFilters, auditService } from '../services/auditService';
+import { jobScheduler } from '../services/jobScheduler';
+import { ledgerService } from '../services/ledgerService';
+import { rateLimitOverrideService } from '../services/rateLimitOverrideService';
+import { toCsvRow } from '../utils/csv';
+import { logger } from '../utils/logger';
+
+const AUDIT_CSV_COLUMNS = [
+  'id', 'createdAt', 'actorWallet', 'action', 'entityType', 'entityId',
+  'before', 'after', 'ip', 'requestId', 'prevHash', 'hash'
+] as const;
+
+const auditFilters = (query: Request['query']): AuditEventFilters => ({
+  actorWallet: query.actor as string | undefined,
+  action: query.action as string | undefined,
+  entityType: query.entityType as string | undefined,
+  entityId: query.entityId as string | undefined,
+  requestId: query.requestId as string | undefined,
+  from: query.from as unknown as Date | undefined,
+  to: query.to as unknown as Date | undefined
+});
+
+export const adminController = {
+  /**
+   * Get the roles assigned to a user
+   */
+  getUserRoles: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { address } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { walletAddress: address },
+        include: {
+          roles: {
+            orderBy: { grantedAt: 'asc' }
+          }
+        }
+      });
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          address,
+          roles: user.roles.map(assignment => ({
+            role: assignment.role,
+            grantedBy: assignment.grantedBy,
+            grantedAt: assignment.grantedAt
+          }))
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Grant a role to a user
+   */
+  grantRole: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { address } = req.params;
+      const { role } = req.body;
+
+      const user = await prisma.user.findUnique({
+        where: { walletAddress: address }
+      });
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      const assignment = await prisma.userRole.upsert({
+        where: {
+          userId_role: { userId: user.id, role }
+        },
+        update: {},
+        create: {
+          userId: user.id,
+          role,
+          grantedBy: req.walletAddress || null
+        }
+      });
+
+      logger.info('Role granted:', {
+        address,
+        role,
+        grantedBy: req.walletAddress
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          address,
+          role: assignment.role,
+          grantedBy: assignment.grantedBy,
+          grantedAt: assignment.grantedAt
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Revoke a role from a user
+   */
+  revokeRole: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { address, role } = req.params;
+
+      if (role === 'admin' && address === req.walletAddress) {
+        throw new AppError('Admins cannot revoke their own admin role', 400);
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { walletAddress: address }
+      });
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      const { count } = await prisma.userRole.deleteMany({
+        where: { userId: user.id, role }
+      });
+
+      if (count === 0) {
+        throw new AppError('User does not have this role', 404);
+      }
+
+      logger.info('Role revoked:', {
+        address,
+        role,
+        revokedBy: req.walletAddress
+      });
+
+      res.json({
+        success: true,
+        message: 'Role revoked successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Compare a user's recorded balances with the ledger journal
+   */
+  reconcileLedger: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { address } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { walletAddress: address }
+      });
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      const accounts = await ledgerService.reconcile(user.id);
+
+      res.json({
+        success: true,
+        data: {
+          address,
+          balanced: accounts.every(account => account.matches),
+          accounts
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Query the audit trail, newest first
+   */
+  getAuditEvents: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const whereClause = auditService.buildWhere(auditFilters(req.query));
+
+      const [events, total] = await Promise.all([
+        prisma.auditEvent.findMany({
+          where: whereClause,
+          orderBy: { id: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.auditEvent.count({ where: whereClause })
+      ]);
+
+      res.json({
+        success: true,
+        data: events,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Export the matching audit events as CSV, oldest first
+   */
+  exportAuditEvents: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const events = auditService.iterate(auditFilters(req.query));
+      // Read the first batch before sending headers, so a failing query still gets a JSON error
+      let result = await events.next();
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-events-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.write(toCsvRow([...AUDIT_CSV_COLUMNS]));
+
+      while (!result.done) {
+        const event = result.value;
+        res.write(toCsvRow(AUDIT_CSV_COLUMNS.map(column => event[column])));
+        result = await events.next();
+      }
+
+      res.end();
+    } catch (error) {
+      // Headers are gone once rows were streamed, cut the response short instead
+      if (res.headersSent) {
+        logger.error('Audit export failed:', error);
+        res.destroy(error as Error);
+      } else {
+        next(error);
+      }
+    }
+  },
+
+  /**
+   * Recompute the audit hash chain to detect tampering
+   */
+  verifyAuditChain: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const verification = await auditService.verifyChain();
+
+      if (!verification.valid) {
+        logger.error('Audit chain verification failed:', verification);
+      }
+
+      res.json({
+        success: true,
+        data: verification
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * List rate limit overrides
+   */
+  getRateLimitOverrides: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const overrides = await rateLimitOverrideService.list();
+
+      res.json({
+        success: true,
+        data: overrides
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Raise, lower or lift the rate limits of a wallet or IP
+   */
+  saveRateLimitOverride: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { walletAddress, ip, policy, maxRequests, reason, expiresAt } = req.body;
+
+      const override = await rateLimitOverrideService.save({
+        subject: walletAddress || `ip:${ip}`,
+        policy,
+        maxRequests,
+        reason,
+        expiresAt
+      }, req.walletAddress || null);
+
+      logger.info('Rate limit override saved:', {
+        subject: override.subject,
+        policy,
+        maxRequests,
+        savedBy: req.walletAddress
+      });
+
+      res.status(201).json({
+        success: true,
+        data: override
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Remove a rate limit override
+   */
+  deleteRateLimitOverride: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      await rateLimitOverrideService.remove(parseInt(id));
+
+      logger.info('Rate limit override removed:', {
+        id: parseInt(id),
+        removedBy: req.walletAddress
+      });
+
+      res.json({
+        success: true,
+        message: 'Rate limit override removed'
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * List registered background jobs with their last run
+   */
+  getJobs: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const definitions = jobScheduler.definitions();
+
+      const lastRuns = await prisma.jobRun.findMany({
+        where: { jobName: { in: definitions.map(definition => definition.name) } },
+        distinct: ['jobName'],
+        orderBy: { startedAt: 'desc' }
+      });
+
+      res.json({
+        success: true,
+        data: definitions.map(({ name, description, schedule, maxAttempts, nextRunAt }) => ({
+          name,
+          description,
+          schedule: schedule || null,
+          maxAttempts: maxAttempts || null,
+          nextRunAt,
+          lastRun: lastRuns.find(run => run.jobName === name) || null
+        }))
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Job run history, newest first
+   */
+  getJobRuns: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const whereClause: any = {};
+      if (req.query.job) {
+        whereClause.jobName = req.query.job;
+      }
+      if (req.query.status) {
+        whereClause.status = req.query.status;
+      }
+
+      const [runs, total] = await Promise.all([
+        prisma.jobRun.findMany({
+          where: whereClause,
+          orderBy: { id: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.jobRun.count({ where: whereClause })
+      ]);
+
+      res.json({
+        success: true,
+        data: runs,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Queue a run of a job right away
+   */
+  runJob: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { name } = req.params;
+
+      if (!jobScheduler.has(name)) {
+        throw new AppError('Job not found', 404);
+      }
+
+      const scheduled = await jobScheduler.schedule(name);
+
+      logger.info('Job run queued:', {
+        job: name,
+        scheduledJobId: scheduled.id,
+        queuedBy: req.walletAddress
+      });
+
+      res.status(202).json({
+        success: true,
+        data: {
+          scheduledJobId: scheduled.id,
+          job: name,
+          runAt: scheduled.runAt,
+          status: scheduled.status
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+};
@@ -1,21 +1,37 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { prisma } from '../index';
 import { AppError } from '../types';
 import { AuthenticatedRequest, CreateUserRequest, WalletSignature } from '../types';
+import { analyticsCache } from '../services/analyticsCache';
+import { sessionService } from '../services/sessionService';
+import { walletAuthService } from '../services/walletAuthService';
 import { logger } from '../utils/logger';
 
 export const authController = {
+  /**
+   * Issue a single-use sign-in challenge for a wallet
+   */
+  getChallenge: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { walletAddress } = req.body;
+
+      const challenge = await walletAuthService.issueChallenge(walletAddress);
+
+      res.json({
+        success: true,
+        data: challenge
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
   /**
    * Connect wallet and authenticate user
    */
   connectWallet: async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { walletAddress, signature, message, timestamp }: WalletSignature = req.body;
-
-      if (!walletAddress || !signature || !message || !timestamp) {
-        throw new AppError('Missing required fields', 400);
-      }
+      const { walletAddress: address, publicKey, signature, message, nonce, timestamp }: WalletSignature = req.body;
 
       // Verify timestamp (within 5 minutes)
       const now = Date.now();
@@ -23,8 +39,13 @@ export const authController = {
         throw new AppError('Request expired', 401);
       }
 
-      // TODO: Implement actual signature verification with Aptos SDK
-      // For now, we'll just check if the user exists or create them
+      const walletAddress = await walletAuthService.verifySignedMessage({
+        address,
+        publicKey,
+        signature,
+        message,
+        nonce
+      });
 
       let user = await prisma.user.findUnique({
         where: { walletAddress }
@@ -38,20 +59,21 @@ export const authController = {
             kycStatus: 'pending'
           }
         });
+        await analyticsCache.invalidate('users');
         logger.info('New user created:', { walletAddress, userId: user.id });
       }
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user.id, walletAddress },
-        process.env.JWT_SECRET!,
-        { expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as jwt.SignOptions
-      );
+      const tokens = await sessionService.createSession(user, {
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip
+      });
 
       res.json({
         success: true,
         data: {
-          token,
+          token: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn,
           user: {
             id: user.id,
             walletAddress: user.walletAddress,
@@ -72,18 +94,20 @@ export const authController = {
    */
   verifySignature: async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { address, signature, message } = req.body;
+      const { address, publicKey, signature, message, nonce } = req.body;
 
-      if (!address || !signature || !message) {
-        throw new AppError('Missing required fields', 400);
-      }
+      const walletAddress = await walletAuthService.verifySignedMessage({
+        address,
+        publicKey,
+        signature,
+        message,
+        nonce
+      });
 
-      // TODO: Implement actual signature verification with Aptos SDK
-      // For now, we'll just return success
-      
       res.json({
         success: true,
-        message: 'Signature verified successfully'
+        message: 'Signature verified successfully',
+        data: { address: walletAddress }
       });
     } catch (error) {
       next(error);
@@ -91,33 +115,23 @@ export const authController = {
   },
 
   /**
-   * Refresh authentication token
+   * Rotate a refresh token into a new access/refresh token pair
    */
-  refreshToken: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  refreshToken: async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!req.user) {
-        throw new AppError('User not authenticated', 401);
-      }
+      const { refreshToken } = req.body;
 
-      // Generate new JWT token
-      const token = jwt.sign(
-        { userId: req.user.id, walletAddress: req.user.walletAddress },
-        process.env.JWT_SECRET!,
-        { expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as jwt.SignOptions
-      );
+      const tokens = await sessionService.rotateRefreshToken(refreshToken, {
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip
+      });
 
       res.json({
         success: true,
         data: {
-          token,
-          user: {
-            id: req.user.id,
-            walletAddress: req.user.walletAddress,
-            email: req.user.email,
-            firstName: req.user.firstName,
-            lastName: req.user.lastName,
-            kycStatus: req.user.kycStatus
-          }
+          token: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn
         }
       });
     } catch (error) {
@@ -126,13 +140,16 @@ export const authController = {
   },
 
   /**
-   * Logout user
+   * Logout user by revoking the current session
    */
   logout: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      // In a more sophisticated implementation, you might want to blacklist the token
-      // For now, we'll just return success
-      
+      if (!req.sessionId) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      await sessionService.revokeSession(req.sessionId, 'logout');
+
       res.json({
         success: true,
         message: 'Logged out successfully'
@@ -140,5 +157,60 @@ export const authController = {
     } catch (error) {
       next(error);
     }
+  },
+
+  /**
+   * List the active sessions of the current user
+   */
+  getSessions: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const sessions = await sessionService.listSessions(req.user.id);
+
+      res.json({
+        success: true,
+        data: sessions.map(session => ({
+          id: session.id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          expiresAt: session.expiresAt,
+          current: session.id === req.sessionId
+        }))
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Revoke one of the current user's sessions
+   */
+  revokeSession: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const sessions = await sessionService.listSessions(req.user.id);
+      if (!sessions.some(session => session.id === parseInt(id))) {
+        throw new AppError('Session not found', 404);
+      }
+
+      await sessionService.revokeSession(parseInt(id), 'user_revoked');
+
+      res.json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
   }
 };
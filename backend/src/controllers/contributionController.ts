@@ -0,0 +1,411 @@
+import { Request, Response, NextFunction } from 'express';
+import { Contribution, ContributionObligation, ContributionPlan } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../types';
+import { AuthenticatedRequest, CreateContributionPlanRequest } from '../types';
+import { analyticsCache } from '../services/analyticsCache';
+import { contributionPlanService, periodKey } from '../services/contributionPlanService';
+import { contributionService } from '../services/contributionService';
+import { logger } from '../utils/logger';
+import { FIAT_DECIMALS, Money } from '../utils/money';
+
+const MONTHS_PER_YEAR = 12;
+
+const describePlan = (plan: ContributionPlan) => ({
+  planId: plan.id,
+  amount: Money.of(plan.amount, 'down', FIAT_DECIMALS),
+  currency: plan.currency,
+  dueDay: plan.dueDay,
+  fundingSource: plan.fundingSource,
+  status: plan.status,
+  startPeriod: periodKey(plan.startPeriod),
+  cancelledAt: plan.cancelledAt,
+  createdAt: plan.createdAt,
+  updatedAt: plan.updatedAt
+});
+
+const describeObligation = (obligation: ContributionObligation) => ({
+  obligationId: obligation.id,
+  planId: obligation.planId,
+  period: periodKey(obligation.period),
+  dueDate: obligation.dueDate,
+  amount: Money.of(obligation.amount, 'down', FIAT_DECIMALS),
+  currency: obligation.currency,
+  status: obligation.status,
+  contributionId: obligation.contributionId,
+  paidAt: obligation.paidAt
+});
+
+const describeContribution = (contribution: Contribution) => ({
+  contributionId: contribution.id,
+  status: contribution.status,
+  currency: contribution.currency,
+  amount: Money.of(contribution.fiatAmount, 'down', FIAT_DECIMALS),
+  exchangeRate: contribution.exchangeRate.toString(),
+  usdAmount: Money.of(contribution.usdAmount, 'down', FIAT_DECIMALS),
+  tokenPrice: contribution.tokenPrice.toString(),
+  tokenAmount: Money.of(contribution.tokenAmount),
+  paymentReference: contribution.paymentReference,
+  rejectionReason: contribution.rejectionReason,
+  contributedAt: contribution.contributedAt,
+  settledAt: contribution.settledAt
+});
+
+const findUser = async (address: string) => {
+  const user = await prisma.user.findUnique({
+    where: { walletAddress: address }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  return user;
+};
+
+const findOwnPlan = async (req: AuthenticatedRequest): Promise<ContributionPlan> => {
+  if (!req.walletAddress) {
+    throw new AppError('Wallet address not found', 401);
+  }
+
+  const plan = await prisma.contributionPlan.findFirst({
+    where: { id: parseInt(req.params.id), user: { walletAddress: req.walletAddress } }
+  });
+
+  if (!plan) {
+    throw new AppError('Contribution plan not found', 404);
+  }
+
+  return plan;
+};
+
+export const contributionController = {
+  /**
+   * Contribute fiat, priced into AFJP that vests for 5 years once the payment is confirmed
+   */
+  createContribution: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { amount, currency } = req.body;
+
+      if (!req.walletAddress) {
+        throw new AppError('Wallet address not found', 401);
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { walletAddress: req.walletAddress }
+      });
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      const contribution = await contributionService.create({
+        userId: user.id,
+        walletAddress: user.walletAddress,
+        amount,
+        currency
+      });
+
+      logger.info('Contribution recorded:', {
+        address: req.walletAddress,
+        contributionId: contribution.id,
+        currency,
+        amount,
+        tokenAmount: contribution.tokenAmount
+      });
+
+      res.status(201).json({
+        success: true,
+        data: describeContribution(contribution)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Confirm that the payment of a contribution settled, which mints its AFJP
+   */
+  confirmContribution: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { contribution, vestingSchedule, mintTransaction, vestingTransaction, obligation } = await contributionService.confirm(parseInt(req.params.id), req.body);
+
+      await analyticsCache.invalidate('transactions');
+
+      logger.info('Contribution confirmed:', {
+        contributionId: contribution.id,
+        paymentReference: contribution.paymentReference,
+        tokenAmount: contribution.tokenAmount
+      });
+
+      res.status(202).json({
+        success: true,
+        data: {
+          ...describeContribution(contribution),
+          vestingSchedule: {
+            scheduleId: vestingSchedule.id,
+            startTime: vestingSchedule.startTime,
+            cliffTime: vestingSchedule.cliffTime,
+            endTime: vestingSchedule.endTime
+          },
+          transactions: {
+            mint: { transactionId: mintTransaction.id, status: mintTransaction.status },
+            vesting: { transactionId: vestingTransaction.id, status: vestingTransaction.status }
+          },
+          obligation: obligation ? describeObligation(obligation) : null
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Reject a contribution whose payment did not settle
+   */
+  rejectContribution: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const contribution = await contributionService.reject(parseInt(req.params.id), req.body);
+
+      logger.info('Contribution rejected:', {
+        contributionId: contribution.id,
+        reason: contribution.rejectionReason
+      });
+
+      res.json({
+        success: true,
+        data: describeContribution(contribution)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Contribution history of an address by calendar year (UTC), newest first
+   */
+  getContributionHistory: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { address } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { walletAddress: address },
+        include: {
+          contributions: {
+            where: { status: { in: ['pending', 'confirmed'] } },
+            orderBy: { contributedAt: 'desc' }
+          }
+        }
+      });
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      const contributions = user.contributions.filter(contribution => contribution.status === 'confirmed');
+      const currentYear = new Date().getUTCFullYear();
+      const years = new Map<number, { months: Set<number>; count: number; usd: Money; tokens: Money }>();
+
+      for (const contribution of contributions) {
+        const year = contribution.contributedAt.getUTCFullYear();
+        const entry = years.get(year) || {
+          months: new Set<number>(),
+          count: 0,
+          usd: Money.zero(FIAT_DECIMALS),
+          tokens: Money.zero()
+        };
+
+        entry.months.add(contribution.contributedAt.getUTCMonth());
+        entry.count++;
+        entry.usd = entry.usd.plus(contribution.usdAmount);
+        entry.tokens = entry.tokens.plus(contribution.tokenAmount);
+        years.set(year, entry);
+      }
+
+      const history = [...years.entries()].map(([year, entry]) => {
+        let status = 'incomplete';
+        if (entry.months.size === MONTHS_PER_YEAR) {
+          status = 'complete';
+        } else if (year === currentYear) {
+          status = 'in_progress';
+        }
+
+        return {
+          year,
+          monthsPaid: entry.months.size,
+          contributionCount: entry.count,
+          usdAmount: entry.usd,
+          tokenAmount: entry.tokens,
+          status
+        };
+      });
+
+      res.json({
+        success: true,
+        data: {
+          years: history,
+          totals: {
+            contributionCount: contributions.length,
+            monthsPaid: history.reduce((sum, year) => sum + year.monthsPaid, 0),
+            usdAmount: Money.sum(history.map(year => year.usdAmount), FIAT_DECIMALS),
+            tokenAmount: Money.sum(history.map(year => year.tokenAmount)),
+            firstContributionAt: contributions.length > 0 ? contributions[contributions.length - 1].contributedAt : null,
+            lastContributionAt: contributions.length > 0 ? contributions[0].contributedAt : null
+          },
+          // Awaiting payment confirmation, not counted above
+          pending: user.contributions
+            .filter(contribution => contribution.status === 'pending')
+            .map(describeContribution)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Start a monthly contribution plan
+   */
+  createPlan: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input: CreateContributionPlanRequest = req.body;
+
+      if (!req.walletAddress) {
+        throw new AppError('Wallet address not found', 401);
+      }
+
+      const user = await findUser(req.walletAddress);
+      const plan = await contributionPlanService.create(user, input);
+
+      logger.info('Contribution plan created:', {
+        address: req.walletAddress,
+        planId: plan.id,
+        amount: input.amount,
+        currency: input.currency
+      });
+
+      res.status(201).json({
+        success: true,
+        data: describePlan(plan)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * List the contribution plans of an address, newest first
+   */
+  getPlans: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await findUser(req.params.address);
+
+      const plans = await prisma.contributionPlan.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      res.json({
+        success: true,
+        data: plans.map(describePlan)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Change the terms of a plan, or pause and resume it
+   */
+  updatePlan: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const plan = await findOwnPlan(req);
+      const updated = await contributionPlanService.update(plan, req.body);
+
+      res.json({
+        success: true,
+        data: describePlan(updated)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Cancel a plan
+   */
+  cancelPlan: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const plan = await findOwnPlan(req);
+      const cancelled = await contributionPlanService.cancel(plan);
+
+      logger.info('Contribution plan cancelled:', {
+        address: req.walletAddress,
+        planId: plan.id
+      });
+
+      res.json({
+        success: true,
+        data: describePlan(cancelled)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Monthly obligations of an address, newest first
+   */
+  getObligations: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const status = (req.query.status as string) || undefined;
+      const user = await findUser(req.params.address);
+
+      const whereClause: any = { userId: user.id };
+      if (status) {
+        whereClause.status = status;
+      }
+
+      const [obligations, total] = await Promise.all([
+        prisma.contributionObligation.findMany({
+          where: whereClause,
+          orderBy: [{ period: 'desc' }, { id: 'desc' }],
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.contributionObligation.count({ where: whereClause })
+      ]);
+
+      res.json({
+        success: true,
+        data: obligations.map(describeObligation),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Contribution streaks, coverage and next payment of an address
+   */
+  getStats: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await findUser(req.params.address);
+
+      res.json({
+        success: true,
+        data: await contributionPlanService.stats(user.id)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+};
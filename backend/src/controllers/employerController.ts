@@ -0,0 +1,424 @@
+import { Response, NextFunction } from 'express';
+import { Employer, EmployerMember, PayrollBatch, User } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../types';
+import { AuthenticatedRequest, PayrollRowError, PayrollUploadRequest } from '../types';
+import { loadRoles } from '../middleware/rbac';
+import { analyticsCache } from '../services/analyticsCache';
+import { periodKey } from '../services/contributionPlanService';
+import { employerService } from '../services/employerService';
+import { hasPermission } from '../utils/permissions';
+import { logger } from '../utils/logger';
+import { FIAT_DECIMALS, Money } from '../utils/money';
+
+const describeEmployer = (employer: Employer) => ({
+  employerId: employer.id,
+  name: employer.name,
+  cuit: employer.cuit,
+  employeeRate: employer.employeeRate.toString(),
+  employerRate: employer.employerRate.toString(),
+  isActive: employer.isActive,
+  createdAt: employer.createdAt,
+  updatedAt: employer.updatedAt
+});
+
+const describeMember = (member: EmployerMember & { user: User }) => ({
+  memberId: member.id,
+  walletAddress: member.user.walletAddress,
+  role: member.role,
+  cuil: member.cuil,
+  isActive: member.isActive,
+  joinedAt: member.joinedAt,
+  leftAt: member.leftAt
+});
+
+const describeBatch = (batch: PayrollBatch) => {
+  const employeeAmount = Money.of(batch.employeeAmount, 'down', FIAT_DECIMALS);
+  const employerAmount = Money.of(batch.employerAmount, 'down', FIAT_DECIMALS);
+
+  return {
+    batchId: batch.id,
+    status: batch.status,
+    currency: batch.currency,
+    checksum: batch.checksum,
+    rowCount: batch.rowCount,
+    processedCount: batch.processedCount,
+    rejectedCount: batch.rowCount - batch.processedCount,
+    rejectedRows: batch.rejectedRows as unknown as PayrollRowError[],
+    grossSalary: Money.of(batch.grossSalary, 'down', FIAT_DECIMALS),
+    employeeAmount,
+    employerAmount,
+    totalAmount: employeeAmount.plus(employerAmount),
+    createdAt: batch.createdAt
+  };
+};
+
+/**
+ * The employer in the path, if the caller manages it. Admins with
+ * `employers:manage` can act on any employer.
+ */
+const findEmployer = async (req: AuthenticatedRequest): Promise<Employer> => {
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const employer = await prisma.employer.findUnique({
+    where: { id: parseInt(req.params.id) }
+  });
+
+  if (!employer) {
+    throw new AppError('Employer not found', 404);
+  }
+
+  if (hasPermission(await loadRoles(req), 'employers:manage')) {
+    return employer;
+  }
+
+  const manager = await prisma.employerMember.findFirst({
+    where: { employerId: employer.id, userId: req.user.id, role: 'manager', isActive: true }
+  });
+
+  if (!manager) {
+    throw new AppError('Insufficient permissions', 403);
+  }
+
+  return employer;
+};
+
+export const employerController = {
+  /**
+   * Register an employer with its first manager
+   */
+  createEmployer: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const employer = await employerService.create(req.body);
+
+      logger.info('Employer created:', {
+        employerId: employer.id,
+        cuit: employer.cuit,
+        manager: req.body.managerAddress
+      });
+
+      res.status(201).json({
+        success: true,
+        data: describeEmployer(employer)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  getEmployer: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const employer = await findEmployer(req);
+
+      const [employees, batches] = await Promise.all([
+        prisma.employerMember.count({ where: { employerId: employer.id, role: 'employee', isActive: true } }),
+        prisma.payrollBatch.count({ where: { employerId: employer.id } })
+      ]);
+
+      res.json({
+        success: true,
+        data: { ...describeEmployer(employer), employees, batches }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Rename an employer, change its contribution rates or deactivate it
+   */
+  updateEmployer: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const employer = await findEmployer(req);
+      const updated = await employerService.update(employer, req.body);
+
+      res.json({
+        success: true,
+        data: describeEmployer(updated)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  getMembers: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const { role, active } = req.query;
+      const employer = await findEmployer(req);
+
+      const whereClause: any = { employerId: employer.id };
+      if (role) {
+        whereClause.role = role;
+      }
+      if (active) {
+        whereClause.isActive = active === 'true';
+      }
+
+      const [members, total] = await Promise.all([
+        prisma.employerMember.findMany({
+          where: whereClause,
+          include: { user: true },
+          orderBy: { id: 'asc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.employerMember.count({ where: whereClause })
+      ]);
+
+      res.json({
+        success: true,
+        data: members.map(describeMember),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  addMember: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const employer = await findEmployer(req);
+      const member = await employerService.addMember(employer, req.body);
+
+      res.status(201).json({
+        success: true,
+        data: describeMember(member)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * End a membership. Past payroll entries stay; the last manager cannot leave.
+   */
+  removeMember: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const employer = await findEmployer(req);
+
+      const member = await prisma.employerMember.findFirst({
+        where: { id: parseInt(req.params.memberId), employerId: employer.id, isActive: true },
+        include: { user: true }
+      });
+
+      if (!member) {
+        throw new AppError('Member not found', 404);
+      }
+
+      if (member.role === 'manager') {
+        const managers = await prisma.employerMember.count({
+          where: { employerId: employer.id, role: 'manager', isActive: true }
+        });
+        if (managers <= 1) {
+          throw new AppError('An employer needs at least one manager', 409);
+        }
+      }
+
+      const removed = await employerService.removeMember(member);
+
+      res.json({
+        success: true,
+        data: describeMember({ ...removed, user: member.user })
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Upload a payroll file. Valid rows become contributions, invalid rows
+   * are reported and skipped; a dry run only reports.
+   */
+  uploadPayroll: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const upload: PayrollUploadRequest = req.body;
+      const employer = await findEmployer(req);
+      const uploader = req.user as User;
+
+      if (!employer.isActive) {
+        throw new AppError('Employer is not active', 409);
+      }
+
+      if (upload.dryRun) {
+        const { rowCount, rows, rejected } = await employerService.validatePayroll(employer, upload.csv, upload.currency);
+
+        res.json({
+          success: true,
+          data: {
+            dryRun: true,
+            currency: upload.currency,
+            rowCount,
+            validCount: rows.length,
+            rejectedCount: rejected.length,
+            rows: rows.map(row => ({
+              row: row.row,
+              walletAddress: row.member.user.walletAddress,
+              cuil: row.member.cuil,
+              period: periodKey(row.period),
+              grossSalary: row.grossSalary,
+              employeeAmount: row.employeeAmount,
+              employerAmount: row.employerAmount,
+              totalAmount: row.totalAmount,
+              tokenAmount: row.tokenAmount
+            })),
+            rejectedRows: rejected
+          }
+        });
+        return;
+      }
+
+      const { batch, created } = await employerService.processPayroll(employer, uploader, upload);
+
+      if (created) {
+        await analyticsCache.invalidate('transactions');
+
+        logger.info('Payroll batch processed:', {
+          employerId: employer.id,
+          batchId: batch.id,
+          processed: batch.processedCount,
+          rejected: batch.rowCount - batch.processedCount
+        });
+      }
+
+      res.status(created ? 201 : 200).json({
+        success: true,
+        data: { ...describeBatch(batch), duplicate: !created }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  getPayrollBatches: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const employer = await findEmployer(req);
+
+      const [batches, total] = await Promise.all([
+        prisma.payrollBatch.findMany({
+          where: { employerId: employer.id },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.payrollBatch.count({ where: { employerId: employer.id } })
+      ]);
+
+      res.json({
+        success: true,
+        data: batches.map(describeBatch),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * A payroll batch with the contribution each row became
+   */
+  getPayrollBatch: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const employer = await findEmployer(req);
+
+      const batch = await prisma.payrollBatch.findFirst({
+        where: { id: parseInt(req.params.batchId), employerId: employer.id },
+        include: {
+          entries: {
+            include: { user: true },
+            orderBy: { rowNumber: 'asc' }
+          }
+        }
+      });
+
+      if (!batch) {
+        throw new AppError('Payroll batch not found', 404);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...describeBatch(batch),
+          entries: batch.entries.map(entry => ({
+            entryId: entry.id,
+            row: entry.rowNumber,
+            walletAddress: entry.user.walletAddress,
+            cuil: entry.cuil,
+            period: periodKey(entry.period),
+            grossSalary: Money.of(entry.grossSalary, 'down', FIAT_DECIMALS),
+            employeeAmount: Money.of(entry.employeeAmount, 'down', FIAT_DECIMALS),
+            employerAmount: Money.of(entry.employerAmount, 'down', FIAT_DECIMALS),
+            contributionId: entry.contributionId
+          }))
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Confirm the employer's payment for a batch, which mints its contributions
+   */
+  confirmPayroll: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const batch = await prisma.payrollBatch.findFirst({
+        where: { id: parseInt(req.params.batchId), employerId: parseInt(req.params.id) }
+      });
+
+      if (!batch) {
+        throw new AppError('Payroll batch not found', 404);
+      }
+
+      const confirmedCount = await employerService.confirmPayroll(batch, req.body);
+
+      await analyticsCache.invalidate('transactions');
+
+      logger.info('Payroll batch confirmed:', {
+        employerId: batch.employerId,
+        batchId: batch.id,
+        paymentReference: req.body.paymentReference,
+        confirmed: confirmedCount
+      });
+
+      res.status(202).json({
+        success: true,
+        data: { ...describeBatch(batch), paymentReference: req.body.paymentReference, confirmedCount }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Payroll contributions of a month against the employees of that month
+   */
+  getReconciliation: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const employer = await findEmployer(req);
+      const period = new Date(`${req.query.period}-01T00:00:00Z`);
+
+      res.json({
+        success: true,
+        data: await employerService.reconcile(employer, period)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+};
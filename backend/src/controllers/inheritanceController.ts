@@ -1,9 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../index';
 import { AppError } from '../types';
-import { AuthenticatedRequest } from '../types';
+import { AuthenticatedRequest, TokenType } from '../types';
 import { aptosService } from '../services/aptosService';
+import { ledgerService } from '../services/ledgerService';
+import { outboxService } from '../services/outboxService';
 import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
 
 export const inheritanceController = {
   /**
@@ -13,10 +16,6 @@ export const inheritanceController = {
     try {
       const { address } = req.params;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       const user = await prisma.user.findUnique({
         where: { walletAddress: address },
         include: {
@@ -65,24 +64,6 @@ export const inheritanceController = {
     try {
       const { primary, secondary, percentages } = req.body;
 
-      if (!primary || !secondary || !percentages) {
-        throw new AppError('Missing required fields', 400);
-      }
-
-      if (!Array.isArray(secondary) || !Array.isArray(percentages)) {
-        throw new AppError('Secondary beneficiaries and percentages must be arrays', 400);
-      }
-
-      if (secondary.length !== percentages.length) {
-        throw new AppError('Secondary beneficiaries and percentages arrays must have the same length', 400);
-      }
-
-      // Check if percentages add up to 100
-      const totalPercentage = percentages.reduce((sum, p) => sum + p, 0);
-      if (totalPercentage !== 100) {
-        throw new AppError('Distribution percentages must add up to 100', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -95,49 +76,56 @@ export const inheritanceController = {
         throw new AppError('User not found', 404);
       }
 
-      // TODO: Execute actual beneficiary designation with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-
-      // Clear existing beneficiaries
-      await prisma.beneficiary.deleteMany({
-        where: { userId: user.id }
-      });
-
-      // Create primary beneficiary
-      await prisma.beneficiary.create({
-        data: {
-          userId: user.id,
-          beneficiaryAddress: primary,
-          isPrimary: true,
-          distributionPercentage: 100
-        }
-      });
+      // There is no inheritance module on-chain yet, designations live in the database
+      await prisma.$transaction(async (tx) => {
+        // Replace existing beneficiaries, their deletion is audited with the previous designation
+        await tx.beneficiary.deleteMany({
+          where: { userId: user.id }
+        });
 
-      // Create secondary beneficiaries
-      for (let i = 0; i < secondary.length; i++) {
-        await prisma.beneficiary.create({
+        // Create primary beneficiary
+        await tx.beneficiary.create({
           data: {
             userId: user.id,
-            beneficiaryAddress: secondary[i],
-            isPrimary: false,
-            distributionPercentage: percentages[i]
+            beneficiaryAddress: primary,
+            isPrimary: true,
+            distributionPercentage: 100
           }
         });
-      }
+
+        // Create secondary beneficiaries
+        for (let i = 0; i < secondary.length; i++) {
+          await tx.beneficiary.create({
+            data: {
+              userId: user.id,
+              beneficiaryAddress: secondary[i],
+              isPrimary: false,
+              distributionPercentage: percentages[i]
+            }
+          });
+        }
+
+        await outboxService.record({
+          type: 'BeneficiariesDesignated',
+          aggregateType: 'user',
+          aggregateId: user.id,
+          data: { address: req.walletAddress, primary, secondary, percentages }
+        }, tx);
+      });
 
       logger.info('Beneficiaries designated:', {
         user: req.walletAddress,
         primary,
         secondary,
-        percentages,
-        txHash: transactionHash
+        percentages
       });
 
       res.json({
         success: true,
         data: {
-          transactionHash
+          primary,
+          secondary,
+          percentages
         }
       });
     } catch (error) {
@@ -152,10 +140,6 @@ export const inheritanceController = {
     try {
       const { deceasedAddress, notes } = req.body;
 
-      if (!deceasedAddress) {
-        throw new AppError('Deceased address is required', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -191,31 +175,37 @@ export const inheritanceController = {
         throw new AppError('You are not a designated beneficiary', 403);
       }
 
-      // TODO: Execute actual inheritance request with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
+      const request = await prisma.$transaction(async (tx) => {
+        // Create inheritance request
+        const request = await tx.inheritanceRequest.create({
+          data: {
+            requesterId: requester.id,
+            deceasedAddress,
+            notes: notes || null
+          }
+        });
 
-      // Create inheritance request
-      const request = await prisma.inheritanceRequest.create({
-        data: {
-          requesterId: requester.id,
-          deceasedAddress,
-          notes: notes || null
-        }
+        await outboxService.record({
+          type: 'InheritanceRequested',
+          aggregateType: 'inheritance_request',
+          aggregateId: request.id,
+          data: { requestId: request.id, requester: req.walletAddress, deceasedAddress }
+        }, tx);
+
+        return request;
       });
 
       logger.info('Inheritance request created:', {
         requestId: request.id,
         requester: req.walletAddress,
-        deceased: deceasedAddress,
-        txHash: transactionHash
+        deceased: deceasedAddress
       });
 
       res.status(201).json({
         success: true,
         data: {
           requestId: request.id,
-          transactionHash
+          status: request.status
         }
       });
     } catch (error) {
@@ -231,10 +221,6 @@ export const inheritanceController = {
       const { address } = req.params;
       const status = req.query.status as string;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       const user = await prisma.user.findUnique({
         where: { walletAddress: address }
       });
@@ -271,16 +257,147 @@ export const inheritanceController = {
   },
 
   /**
-   * Execute inheritance for an approved request
+   * Approve a pending inheritance request so it can be executed
    */
-  executeInheritance: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  approveInheritance: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const { requestId } = req.params;
+      const { notes } = req.body;
 
-      if (!requestId || isNaN(parseInt(requestId))) {
-        throw new AppError('Valid request ID is required', 400);
+      if (!req.walletAddress) {
+        throw new AppError('Wallet address not found', 401);
       }
 
+      const request = await prisma.inheritanceRequest.findUnique({
+        where: { id: parseInt(requestId) },
+        include: {
+          requester: true
+        }
+      });
+
+      if (!request) {
+        throw new AppError('Inheritance request not found', 404);
+      }
+
+      if (request.status !== 'pending') {
+        throw new AppError('Only pending requests can be reviewed', 400);
+      }
+
+      if (request.requester.walletAddress === req.walletAddress) {
+        throw new AppError('Approvers cannot review their own inheritance request', 403);
+      }
+
+      const approvedAt = new Date();
+      await prisma.$transaction(async (tx) => {
+        await tx.inheritanceRequest.update({
+          where: { id: parseInt(requestId) },
+          data: {
+            status: 'approved',
+            approvedBy: req.walletAddress,
+            approvedAt,
+            notes: notes || request.notes
+          }
+        });
+
+        await outboxService.record({
+          type: 'InheritanceApproved',
+          aggregateType: 'inheritance_request',
+          aggregateId: request.id,
+          data: { requestId: request.id, deceasedAddress: request.deceasedAddress, approvedBy: req.walletAddress }
+        }, tx);
+      });
+
+      logger.info('Inheritance request approved:', {
+        requestId: parseInt(requestId),
+        approver: req.walletAddress
+      });
+
+      res.json({
+        success: true,
+        data: {
+          requestId: parseInt(requestId),
+          status: 'approved',
+          approvedBy: req.walletAddress,
+          approvedAt
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Reject a pending inheritance request
+   */
+  rejectInheritance: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { requestId } = req.params;
+      const { notes } = req.body;
+
+      if (!req.walletAddress) {
+        throw new AppError('Wallet address not found', 401);
+      }
+
+      const request = await prisma.inheritanceRequest.findUnique({
+        where: { id: parseInt(requestId) },
+        include: {
+          requester: true
+        }
+      });
+
+      if (!request) {
+        throw new AppError('Inheritance request not found', 404);
+      }
+
+      if (request.status !== 'pending') {
+        throw new AppError('Only pending requests can be reviewed', 400);
+      }
+
+      if (request.requester.walletAddress === req.walletAddress) {
+        throw new AppError('Approvers cannot review their own inheritance request', 403);
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await tx.inheritanceRequest.update({
+          where: { id: parseInt(requestId) },
+          data: {
+            status: 'rejected',
+            notes
+          }
+        });
+
+        await outboxService.record({
+          type: 'InheritanceRejected',
+          aggregateType: 'inheritance_request',
+          aggregateId: request.id,
+          data: { requestId: request.id, deceasedAddress: request.deceasedAddress, rejectedBy: req.walletAddress }
+        }, tx);
+      });
+
+      logger.info('Inheritance request rejected:', {
+        requestId: parseInt(requestId),
+        reviewer: req.walletAddress
+      });
+
+      res.json({
+        success: true,
+        data: {
+          requestId: parseInt(requestId),
+          status: 'rejected'
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Execute inheritance for an approved request
+   */
+  executeInheritance: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { requestId } = req.params;
+
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -304,10 +421,6 @@ export const inheritanceController = {
         throw new AppError('Request must be approved before execution', 400);
       }
 
-      // TODO: Execute actual inheritance with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-
       // Get deceased user's assets (simplified)
       const deceased = await prisma.user.findUnique({
         where: { walletAddress: request.deceasedAddress },
@@ -321,31 +434,73 @@ export const inheritanceController = {
         throw new AppError('Deceased user not found', 404);
       }
 
+      // Secondary beneficiaries are contingent, the primary inherits the estate
+      const primary = deceased.beneficiaries.find(beneficiary => beneficiary.isPrimary);
+
+      if (!primary) {
+        throw new AppError('Deceased user has no primary beneficiary', 400);
+      }
+
+      const heir = await prisma.user.findUnique({
+        where: { walletAddress: primary.beneficiaryAddress }
+      });
+
       // Calculate total assets
-      const totalAssets = deceased.tokenBalances.reduce((sum, balance) => 
-        sum + Number(balance.balance), 0
-      );
+      const estate = deceased.tokenBalances.filter(balance => balance.balance.gt(0));
+      const totalAssets = Money.sum(estate.map(balance => balance.balance));
+
+      await prisma.$transaction(async (tx) => {
+        for (const balance of estate) {
+          await ledgerService.record({
+            entryType: 'inheritance',
+            tokenType: balance.tokenType as TokenType,
+            reference: `inheritance_request:${request.id}`,
+            memo: `Inheritance request ${requestId}`,
+            postings: [{
+              from: { userId: deceased.id, bucket: 'available' },
+              to: heir ? { userId: heir.id, bucket: 'available' } : { external: primary.beneficiaryAddress },
+              amount: balance.balance
+            }]
+          }, tx);
+        }
 
-      // Update request status
-      await prisma.inheritanceRequest.update({
-        where: { id: parseInt(requestId) },
-        data: {
-          status: 'completed'
+        // Update request status, guarding against a concurrent execution
+        const { count } = await tx.inheritanceRequest.updateMany({
+          where: { id: parseInt(requestId), status: 'approved' },
+          data: {
+            status: 'completed'
+          }
+        });
+
+        if (count === 0) {
+          throw new AppError('Request must be approved before execution', 400);
         }
+
+        await outboxService.record({
+          type: 'InheritanceExecuted',
+          aggregateType: 'inheritance_request',
+          aggregateId: request.id,
+          data: {
+            requestId: request.id,
+            deceasedAddress: request.deceasedAddress,
+            heir: primary.beneficiaryAddress,
+            totalAssets: totalAssets.toString()
+          }
+        }, tx);
       });
 
       logger.info('Inheritance executed:', {
         requestId: parseInt(requestId),
         requester: req.walletAddress,
         deceased: request.deceasedAddress,
-        totalAssets,
-        txHash: transactionHash
+        totalAssets
       });
 
       res.json({
         success: true,
         data: {
-          transactionHash,
+          requestId: request.id,
+          status: 'completed',
           distributedAmount: totalAssets
         }
       });
@@ -0,0 +1,184 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../index';
+import { AppError } from '../types';
+import { AuthenticatedRequest, CreateKycSubmissionRequest } from '../types';
+import { kycService } from '../services/kycService';
+
+export const kycController = {
+  /**
+   * Submit identity data and document references for KYC
+   */
+  submitKyc: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const submission: CreateKycSubmissionRequest = req.body;
+
+      if (!req.user) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const created = await kycService.submit(req.user.id, submission);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          submissionId: created.id,
+          status: created.status
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Get the KYC status of the current user
+   */
+  getKycStatus: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const latest = await prisma.kycSubmission.findFirst({
+        where: { userId: req.user.id },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      res.json({
+        success: true,
+        data: {
+          kycStatus: req.user.kycStatus,
+          latestSubmission: latest ? {
+            id: latest.id,
+            status: latest.status,
+            submittedAt: latest.createdAt,
+            reviewedAt: latest.reviewedAt,
+            rejectionReason: latest.rejectionReason
+          } : null
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Get KYC submissions waiting for review
+   */
+  getReviewQueue: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const status = (req.query.status as string) || undefined;
+
+      const whereClause: any = status
+        ? { status }
+        : { status: { in: ['submitted', 'under_review'] } };
+
+      const [submissions, total] = await Promise.all([
+        prisma.kycSubmission.findMany({
+          where: whereClause,
+          include: {
+            user: {
+              select: { walletAddress: true }
+            }
+          },
+          orderBy: { createdAt: 'asc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.kycSubmission.count({ where: whereClause })
+      ]);
+
+      res.json({
+        success: true,
+        data: submissions,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Take a submission into review
+   */
+  startReview: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.walletAddress) {
+        throw new AppError('Wallet address not found', 401);
+      }
+
+      const submission = await kycService.review(parseInt(id), 'under_review', req.walletAddress);
+
+      res.json({
+        success: true,
+        data: {
+          submissionId: submission.id,
+          status: submission.status
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Approve a submission and verify the user
+   */
+  approveKyc: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.walletAddress) {
+        throw new AppError('Wallet address not found', 401);
+      }
+
+      const submission = await kycService.review(parseInt(id), 'verified', req.walletAddress);
+
+      res.json({
+        success: true,
+        data: {
+          submissionId: submission.id,
+          status: submission.status
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Reject a submission with a reason
+   */
+  rejectKyc: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body;
+
+      if (!req.walletAddress) {
+        throw new AppError('Wallet address not found', 401);
+      }
+
+      const submission = await kycService.review(parseInt(id), 'rejected', req.walletAddress, reason);
+
+      res.json({
+        success: true,
+        data: {
+          submissionId: submission.id,
+          status: submission.status,
+          rejectionReason: submission.rejectionReason
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+};
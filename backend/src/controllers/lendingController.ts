@@ -1,9 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../index';
 import { AppError } from '../types';
-import { AuthenticatedRequest } from '../types';
+import { AuthenticatedRequest, LedgerPosting } from '../types';
 import { aptosService } from '../services/aptosService';
+import { analyticsCache } from '../services/analyticsCache';
+import { ledgerService } from '../services/ledgerService';
+import { outboxService } from '../services/outboxService';
 import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
 
 export const lendingController = {
   /**
@@ -14,10 +18,6 @@ export const lendingController = {
       const { address } = req.params;
       const status = req.query.status as string;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       const user = await prisma.user.findUnique({
         where: { walletAddress: address }
       });
@@ -40,8 +40,8 @@ export const lendingController = {
         success: true,
         data: loans.map(loan => ({
           id: loan.id,
-          collateralAmount: Number(loan.collateralAmount),
-          borrowedAmount: Number(loan.borrowedAmount),
+          collateralAmount: Money.of(loan.collateralAmount),
+          borrowedAmount: Money.of(loan.borrowedAmount),
           interestRate: Number(loan.interestRate),
           startTime: loan.startTime,
           dueDate: loan.dueDate,
@@ -60,10 +60,6 @@ export const lendingController = {
     try {
       const { collateralAmount, borrowAmount } = req.body;
 
-      if (!collateralAmount || !borrowAmount || collateralAmount <= 0 || borrowAmount <= 0) {
-        throw new AppError('Invalid loan parameters', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -76,52 +72,78 @@ export const lendingController = {
         throw new AppError('User not found', 404);
       }
 
-      // Check if user has sufficient collateral (simplified check)
-      const userBalance = await prisma.tokenBalance.findFirst({
-        where: {
-          userId: user.id,
-          tokenType: 'AFJP'
-        }
-      });
-
-      if (!userBalance || Number(userBalance.balance) < collateralAmount) {
-        throw new AppError('Insufficient collateral', 400);
-      }
-
       // Calculate interest rate (simplified - 5% annual)
       const interestRate = 5.0;
 
-      // TODO: Execute actual loan creation with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
+      // There is no lending module on-chain yet, loans live in the platform ledger
+      const loan = await prisma.$transaction(async (tx) => {
+        const loan = await tx.loan.create({
+          data: {
+            borrowerId: user.id,
+            collateralAmount: collateralAmount.toDecimal(),
+            borrowedAmount: borrowAmount.toDecimal(),
+            interestRate,
+            startTime: new Date(),
+            dueDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
+            isActive: true
+          }
+        });
+
+        // Lock the collateral (fails atomically if the balance is too low)
+        // and pay out the borrowed amount from the lending pool
+        await ledgerService.record({
+          entryType: 'loan_open',
+          tokenType: 'AFJP',
+          reference: `loan:${loan.id}`,
+          postings: [
+            {
+              from: { userId: user.id, bucket: 'available' },
+              to: { userId: user.id, bucket: 'locked' },
+              amount: collateralAmount
+            },
+            {
+              from: { system: 'lending_pool' },
+              to: { userId: user.id, bucket: 'available' },
+              amount: borrowAmount
+            }
+          ]
+        }, tx);
+
+        await outboxService.record({
+          type: 'LoanCreated',
+          aggregateType: 'loan',
+          aggregateId: loan.id,
+          data: {
+            loanId: loan.id,
+            borrower: req.walletAddress,
+            collateralAmount: collateralAmount.toString(),
+            borrowedAmount: borrowAmount.toString(),
+            interestRate,
+            dueDate: loan.dueDate
+          }
+        }, tx);
 
-      // Create loan
-      const loan = await prisma.loan.create({
-        data: {
-          borrowerId: user.id,
-          collateralAmount,
-          borrowedAmount: borrowAmount,
-          interestRate,
-          startTime: new Date(),
-          dueDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
-          isActive: true
-        }
+        return loan;
       });
 
+      await analyticsCache.invalidate('loans');
+
       logger.info('Loan created:', {
         loanId: loan.id,
         borrower: req.walletAddress,
         collateralAmount,
         borrowAmount,
-        interestRate,
-        txHash: transactionHash
+        interestRate
       });
 
       res.status(201).json({
         success: true,
         data: {
           loanId: loan.id,
-          transactionHash
+          collateralAmount,
+          borrowedAmount: borrowAmount,
+          interestRate,
+          dueDate: loan.dueDate
         }
       });
     } catch (error) {
@@ -136,10 +158,6 @@ export const lendingController = {
     try {
       const { loanId, amount } = req.body;
 
-      if (!loanId || !amount || amount <= 0) {
-        throw new AppError('Invalid repayment parameters', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -168,34 +186,72 @@ export const lendingController = {
         throw new AppError('Loan is not active', 400);
       }
 
-      // TODO: Execute actual loan repayment with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
+      // Never take more than what is still owed
+      const outstanding = Money.of(loan.borrowedAmount);
+      const repaidAmount = Money.min(amount, outstanding);
+      const remainingBalance = outstanding.minus(repaidAmount);
+
+      await prisma.$transaction(async (tx) => {
+        const postings: LedgerPosting[] = [{
+          from: { userId: user.id, bucket: 'available' },
+          to: { system: 'lending_pool' },
+          amount: repaidAmount
+        }];
+
+        // Fully repaid loans release their collateral
+        if (remainingBalance.isZero()) {
+          postings.push({
+            from: { userId: user.id, bucket: 'locked' },
+            to: { userId: user.id, bucket: 'available' },
+            amount: loan.collateralAmount
+          });
+        }
 
-      // Calculate remaining balance
-      const remainingBalance = Math.max(0, Number(loan.borrowedAmount) - amount);
+        await ledgerService.record({
+          entryType: 'loan_repay',
+          tokenType: 'AFJP',
+          reference: `loan:${loanId}`,
+          postings
+        }, tx);
+
+        // Only applies if no concurrent repayment updated the loan since it was read
+        const { count } = await tx.loan.updateMany({
+          where: { id: loanId, isActive: true, borrowedAmount: loan.borrowedAmount },
+          data: {
+            borrowedAmount: remainingBalance.toDecimal(),
+            isActive: remainingBalance.isPositive()
+          }
+        });
 
-      // Update loan
-      await prisma.loan.update({
-        where: { id: loanId },
-        data: {
-          borrowedAmount: remainingBalance,
-          isActive: remainingBalance > 0
+        if (count === 0) {
+          throw new AppError('Loan was updated concurrently, please retry', 409);
         }
+
+        await outboxService.record({
+          type: 'LoanRepaid',
+          aggregateType: 'loan',
+          aggregateId: loanId,
+          data: {
+            loanId,
+            borrower: req.walletAddress,
+            amount: repaidAmount.toString(),
+            remainingBalance: remainingBalance.toString()
+          }
+        }, tx);
       });
 
       logger.info('Loan repaid:', {
         loanId,
         borrower: req.walletAddress,
-        amount,
-        remainingBalance,
-        txHash: transactionHash
+        amount: repaidAmount.toString(),
+        remainingBalance: remainingBalance.toString()
       });
 
       res.json({
         success: true,
         data: {
-          transactionHash,
+          loanId,
+          repaidAmount,
           remainingBalance
         }
       });
@@ -211,10 +267,6 @@ export const lendingController = {
     try {
       const { address } = req.params;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       const user = await prisma.user.findUnique({
         where: { walletAddress: address },
         include: {
@@ -231,16 +283,14 @@ export const lendingController = {
         throw new AppError('User not found', 404);
       }
 
-      const totalCollateral = user.loans.reduce((sum, loan) => 
-        sum + Number(loan.collateralAmount), 0
-      );
+      const totalCollateral = Money.sum(user.loans.map(loan => loan.collateralAmount));
 
-      const availableBalance = user.tokenBalances[0]?.balance || 0;
+      // Collateral is moved to the locked balance when a loan opens
+      const availableCollateral = Money.of(user.tokenBalances[0]?.balance || 0);
       const lockedCollateral = totalCollateral;
-      const availableCollateral = Math.max(0, Number(availableBalance) - lockedCollateral);
 
-      const collateralizationRatio = totalCollateral > 0 ? 
-        (Number(availableBalance) / totalCollateral) * 100 : 0;
+      const collateralizationRatio = totalCollateral.isPositive() ?
+        availableCollateral.ratioTo(totalCollateral) * 100 : 0;
 
       res.json({
         success: true,
@@ -263,10 +313,6 @@ export const lendingController = {
     try {
       const { loanId } = req.body;
 
-      if (!loanId) {
-        throw new AppError('Loan ID is required', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -291,30 +337,54 @@ export const lendingController = {
         throw new AppError('Loan is not eligible for liquidation', 400);
       }
 
-      // TODO: Execute actual collateral liquidation with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
+      await prisma.$transaction(async (tx) => {
+        // The locked collateral is seized by the lending pool
+        await ledgerService.record({
+          entryType: 'loan_liquidation',
+          tokenType: 'AFJP',
+          reference: `loan:${loanId}`,
+          postings: [{
+            from: { userId: loan.borrowerId, bucket: 'locked' },
+            to: { system: 'lending_pool' },
+            amount: loan.collateralAmount
+          }]
+        }, tx);
+
+        // Mark loan as liquidated
+        const { count } = await tx.loan.updateMany({
+          where: { id: loanId, isActive: true },
+          data: {
+            isActive: false
+          }
+        });
 
-      // Mark loan as liquidated
-      await prisma.loan.update({
-        where: { id: loanId },
-        data: {
-          isActive: false
+        if (count === 0) {
+          throw new AppError('Loan is not active', 400);
         }
+
+        await outboxService.record({
+          type: 'LoanLiquidated',
+          aggregateType: 'loan',
+          aggregateId: loanId,
+          data: {
+            loanId,
+            liquidator: req.walletAddress,
+            collateralAmount: loan.collateralAmount.toString()
+          }
+        }, tx);
       });
 
       logger.info('Collateral liquidated:', {
         loanId,
         liquidator: req.walletAddress,
-        collateralAmount: Number(loan.collateralAmount),
-        txHash: transactionHash
+        collateralAmount: loan.collateralAmount.toString()
       });
 
       res.json({
         success: true,
         data: {
-          transactionHash,
-          liquidatedAmount: Number(loan.collateralAmount)
+          loanId,
+          liquidatedAmount: Money.of(loan.collateralAmount)
         }
       });
     } catch (error) {
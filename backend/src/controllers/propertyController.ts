@@ -3,7 +3,10 @@ import { prisma } from '../index';
 import { AppError } from '../types';
 import { AuthenticatedRequest, PropertyType } from '../types';
 import { aptosService } from '../services/aptosService';
+import { analyticsCache } from '../services/analyticsCache';
+import { outboxService } from '../services/outboxService';
 import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
 
 export const propertyController = {
   /**
@@ -14,7 +17,9 @@ export const propertyController = {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
       const propertyType = req.query.propertyType as PropertyType;
-      const isTokenized = req.query.isTokenized === 'true';
+      const isTokenized = req.query.isTokenized === undefined
+        ? undefined
+        : req.query.isTokenized === 'true';
 
       const whereClause: any = {};
       if (propertyType) {
@@ -56,10 +61,6 @@ export const propertyController = {
     try {
       const { id } = req.params;
 
-      if (!id || isNaN(parseInt(id))) {
-        throw new AppError('Valid property ID is required', 400);
-      }
-
       const property = await prisma.property.findUnique({
         where: { id: parseInt(id) },
         include: {
@@ -89,44 +90,55 @@ export const propertyController = {
     try {
       const { name, location, propertyType, value, rentalIncome } = req.body;
 
-      if (!name || !location || !propertyType || !value) {
-        throw new AppError('Missing required fields', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
 
-      // TODO: Execute actual property registration with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
+      // There is no property registry on-chain yet, properties live in the database
+      const property = await prisma.$transaction(async (tx) => {
+        // Create property in database
+        const property = await tx.property.create({
+          data: {
+            name,
+            location,
+            propertyType,
+            totalValue: value.toDecimal(),
+            rentalIncome: rentalIncome ? rentalIncome.toDecimal() : 0,
+            ownerAddress: req.walletAddress
+          }
+        });
+
+        await outboxService.record({
+          type: 'PropertyRegistered',
+          aggregateType: 'property',
+          aggregateId: property.id,
+          data: {
+            propertyId: property.id,
+            name,
+            location,
+            propertyType,
+            value: value.toString(),
+            owner: req.walletAddress
+          }
+        }, tx);
 
-      // Create property in database
-      const property = await prisma.property.create({
-        data: {
-          name,
-          location,
-          propertyType,
-          totalValue: value,
-          rentalIncome: rentalIncome || 0,
-          ownerAddress: req.walletAddress
-        }
+        return property;
       });
 
+      await analyticsCache.invalidate('properties');
+
       logger.info('Property registered:', {
         propertyId: property.id,
         name,
         location,
         value,
-        owner: req.walletAddress,
-        txHash: transactionHash
+        owner: req.walletAddress
       });
 
       res.status(201).json({
         success: true,
         data: {
-          propertyId: property.id,
-          transactionHash
+          propertyId: property.id
         }
       });
     } catch (error) {
@@ -141,10 +153,6 @@ export const propertyController = {
     try {
       const { propertyId, fractions } = req.body;
 
-      if (!propertyId || !fractions || fractions <= 0) {
-        throw new AppError('Invalid tokenization parameters', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -165,34 +173,36 @@ export const propertyController = {
         throw new AppError('Not authorized to tokenize this property', 403);
       }
 
-      // TODO: Execute actual property tokenization with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-      const tokenId = `0x${Math.random().toString(16).substr(2, 64)}`;
-
-      // Update property
-      await prisma.property.update({
-        where: { id: propertyId },
-        data: {
-          isTokenized: true,
-          tokenId,
-          totalFractions: BigInt(fractions)
-        }
+      await prisma.$transaction(async (tx) => {
+        await tx.property.update({
+          where: { id: propertyId },
+          data: {
+            isTokenized: true,
+            totalFractions: BigInt(fractions)
+          }
+        });
+
+        await outboxService.record({
+          type: 'PropertyTokenized',
+          aggregateType: 'property',
+          aggregateId: propertyId,
+          data: { propertyId, fractions, owner: req.walletAddress }
+        }, tx);
       });
 
+      await analyticsCache.invalidate('properties');
+
       logger.info('Property tokenized:', {
         propertyId,
         fractions,
-        tokenId,
-        owner: req.walletAddress,
-        txHash: transactionHash
+        owner: req.walletAddress
       });
 
       res.json({
         success: true,
         data: {
-          tokenId,
-          transactionHash
+          propertyId,
+          fractions
         }
       });
     } catch (error) {
@@ -244,14 +254,6 @@ export const propertyController = {
       const { id } = req.params;
       const { bidAmount } = req.body;
 
-      if (!id || isNaN(parseInt(id))) {
-        throw new AppError('Valid auction ID is required', 400);
-      }
-
-      if (!bidAmount || bidAmount <= 0) {
-        throw new AppError('Invalid bid amount', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -273,34 +275,42 @@ export const propertyController = {
         throw new AppError('Auction has ended', 400);
       }
 
-      if (bidAmount <= (auction.currentBid || auction.startingPrice)) {
+      if (bidAmount.lte(auction.currentBid || auction.startingPrice)) {
         throw new AppError('Bid amount must be higher than current bid', 400);
       }
 
-      // TODO: Execute actual bid placement with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-
-      // Update auction
-      await prisma.propertyAuction.update({
-        where: { id: parseInt(id) },
-        data: {
-          currentBid: bidAmount,
-          highestBidder: req.walletAddress
-        }
+      await prisma.$transaction(async (tx) => {
+        // Update auction
+        await tx.propertyAuction.update({
+          where: { id: parseInt(id) },
+          data: {
+            currentBid: bidAmount.toDecimal(),
+            highestBidder: req.walletAddress
+          }
+        });
+
+        await outboxService.record({
+          type: 'BidPlaced',
+          aggregateType: 'auction',
+          aggregateId: auction.id,
+          data: {
+            auctionId: auction.id,
+            propertyId: auction.propertyId,
+            bidAmount: bidAmount.toString(),
+            bidder: req.walletAddress
+          }
+        }, tx);
       });
 
       logger.info('Bid placed:', {
         auctionId: id,
         bidAmount,
-        bidder: req.walletAddress,
-        txHash: transactionHash
+        bidder: req.walletAddress
       });
 
       res.json({
         success: true,
         data: {
-          transactionHash,
           bidAmount,
           auctionId: parseInt(id)
         }
@@ -317,10 +327,6 @@ export const propertyController = {
     try {
       const { address } = req.params;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       const properties = await prisma.property.findMany({
         where: {
           ownerAddress: address,
@@ -328,9 +334,7 @@ export const propertyController = {
         }
       });
 
-      const totalRentalIncome = properties.reduce((sum, property) => 
-        sum + Number(property.rentalIncome || 0), 0
-      );
+      const totalRentalIncome = Money.sum(properties.map(property => property.rentalIncome || 0));
 
       res.json({
         success: true,
@@ -341,7 +345,7 @@ export const propertyController = {
             id: property.id,
             name: property.name,
             location: property.location,
-            rentalIncome: Number(property.rentalIncome || 0),
+            rentalIncome: Money.of(property.rentalIncome || 0),
             isTokenized: property.isTokenized
           }))
         }
@@ -1,9 +1,31 @@
 import { Request, Response, NextFunction } from 'express';
+import { Prisma, StakingRecord } from '@prisma/client';
 import { prisma } from '../index';
 import { AppError } from '../types';
 import { AuthenticatedRequest } from '../types';
 import { aptosService } from '../services/aptosService';
+import { analyticsCache } from '../services/analyticsCache';
+import { ledgerService } from '../services/ledgerService';
+import { outboxService } from '../services/outboxService';
+import { transactionQueue } from '../services/transactionQueue';
 import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
+
+// Assume 10% annual reward rate
+const ANNUAL_REWARD_RATE = 0.10;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Rewards accrued since the record was staked (simplified calculation),
+ * rounded down so nobody is paid more than was earned
+ */
+const accruedRewards = (record: StakingRecord, now: Date = new Date()): Money =>
+  Money.of(record.stakedAmount).times(
+    new Prisma.Decimal(ANNUAL_REWARD_RATE).mul(Math.max(now.getTime() - record.stakedAt.getTime(), 0)).div(YEAR_MS)
+  );
+
+const unclaimedRewards = (record: StakingRecord, now: Date = new Date()): Money =>
+  Money.max(accruedRewards(record, now).minus(record.rewardClaimed), 0);
 
 export const stakingController = {
   /**
@@ -13,10 +35,6 @@ export const stakingController = {
     try {
       const { address } = req.params;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       const user = await prisma.user.findUnique({
         where: { walletAddress: address },
         include: {
@@ -36,23 +54,12 @@ export const stakingController = {
         throw new AppError('No staking information found', 404);
       }
 
-      // Calculate pending rewards (simplified calculation)
-      const stakedAt = stakingRecord.stakedAt;
-      const now = new Date();
-      const stakingDuration = now.getTime() - stakedAt.getTime();
-      const stakingDurationDays = stakingDuration / (1000 * 60 * 60 * 24);
-      
-      // Assume 10% annual reward rate
-      const annualRewardRate = 0.10;
-      const dailyRewardRate = annualRewardRate / 365;
-      const pendingRewards = Number(stakingRecord.stakedAmount) * dailyRewardRate * stakingDurationDays;
-
       res.json({
         success: true,
         data: {
-          stakedAmount: Number(stakingRecord.stakedAmount),
-          rewardClaimed: Number(stakingRecord.rewardClaimed),
-          pendingRewards: Math.max(0, pendingRewards - Number(stakingRecord.rewardClaimed)),
+          stakedAmount: Money.of(stakingRecord.stakedAmount),
+          rewardClaimed: Money.of(stakingRecord.rewardClaimed),
+          pendingRewards: unclaimedRewards(stakingRecord),
           stakedAt: stakingRecord.stakedAt,
           isActive: stakingRecord.isActive
         }
@@ -69,10 +76,6 @@ export const stakingController = {
     try {
       const { amount } = req.body;
 
-      if (!amount || amount <= 0) {
-        throw new AppError('Invalid staking amount', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -85,41 +88,69 @@ export const stakingController = {
         throw new AppError('User not found', 404);
       }
 
-      // TODO: Execute actual staking with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-
-      // Create staking record
-      await prisma.stakingRecord.create({
-        data: {
+      const chainTransaction = await prisma.$transaction(async (tx) => {
+        const queued = await transactionQueue.enqueue({
           userId: user.id,
-          stakedAmount: amount,
-          isActive: true
-        }
-      });
+          functionName: 'afjp_staking::stake_tokens',
+          arguments: [amount.toBaseUnits()]
+        }, tx);
 
-      // Record transaction
-      await prisma.tokenTransaction.create({
-        data: {
-          userId: user.id,
+        // Staked tokens stay with the user but move to the locked balance
+        await ledgerService.record({
+          entryType: 'stake',
           tokenType: 'AFJP',
-          transactionType: 'stake',
-          amount: amount,
-          txHash: transactionHash,
-          status: 'confirmed'
-        }
+          reference: `chain_tx:${queued.id}`,
+          postings: [{
+            from: { userId: user.id, bucket: 'available' },
+            to: { userId: user.id, bucket: 'locked' },
+            amount
+          }]
+        }, tx);
+
+        // Create staking record
+        await tx.stakingRecord.create({
+          data: {
+            userId: user.id,
+            stakedAmount: amount.toDecimal(),
+            isActive: true
+          }
+        });
+
+        // Record transaction
+        await tx.tokenTransaction.create({
+          data: {
+            userId: user.id,
+            tokenType: 'AFJP',
+            transactionType: 'stake',
+            amount: amount.toDecimal(),
+            status: 'pending',
+            chainTransactionId: queued.id
+          }
+        });
+
+        await outboxService.record({
+          type: 'TokensStaked',
+          aggregateType: 'chain_transaction',
+          aggregateId: queued.id,
+          data: { address: req.walletAddress, amount: amount.toString(), transactionId: queued.id }
+        }, tx);
+
+        return queued;
       });
 
+      await analyticsCache.invalidate('staking', 'transactions');
+
       logger.info('Tokens staked:', {
         address: req.walletAddress,
         amount,
-        txHash: transactionHash
+        chainTransactionId: chainTransaction.id
       });
 
-      res.json({
+      res.status(202).json({
         success: true,
         data: {
-          transactionHash,
+          transactionId: chainTransaction.id,
+          status: chainTransaction.status,
           stakedAmount: amount
         }
       });
@@ -135,10 +166,6 @@ export const stakingController = {
     try {
       const { amount } = req.body;
 
-      if (!amount || amount <= 0) {
-        throw new AppError('Invalid unstaking amount', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
@@ -147,7 +174,8 @@ export const stakingController = {
         where: { walletAddress: req.walletAddress },
         include: {
           stakingRecords: {
-            where: { isActive: true }
+            where: { isActive: true },
+            orderBy: { stakedAt: 'asc' }
           }
         }
       });
@@ -156,51 +184,93 @@ export const stakingController = {
         throw new AppError('User not found', 404);
       }
 
-      const totalStaked = user.stakingRecords.reduce((sum, record) => sum + Number(record.stakedAmount), 0);
-      
-      if (amount > totalStaked) {
+      const totalStaked = Money.sum(user.stakingRecords.map(record => record.stakedAmount));
+
+      if (amount.gt(totalStaked)) {
         throw new AppError('Insufficient staked balance', 400);
       }
 
-      // TODO: Execute actual unstaking with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
+      const chainTransaction = await prisma.$transaction(async (tx) => {
+        const queued = await transactionQueue.enqueue({
+          userId: user.id,
+          functionName: 'afjp_staking::unstake_tokens',
+          arguments: [amount.toBaseUnits()]
+        }, tx);
 
-      // Update staking records (simplified - in reality you'd need more complex logic)
-      const stakingRecord = user.stakingRecords[0];
-      if (stakingRecord) {
-        await prisma.stakingRecord.update({
-          where: { id: stakingRecord.id },
+        await ledgerService.record({
+          entryType: 'unstake',
+          tokenType: 'AFJP',
+          reference: `chain_tx:${queued.id}`,
+          postings: [{
+            from: { userId: user.id, bucket: 'locked' },
+            to: { userId: user.id, bucket: 'available' },
+            amount
+          }]
+        }, tx);
+
+        // Draw down the oldest stakes first, like the indexer does for
+        // unstakes made outside the API
+        let remaining = amount;
+        for (const record of user.stakingRecords) {
+          if (!remaining.isPositive()) {
+            break;
+          }
+
+          const drawn = Money.min(remaining, record.stakedAmount);
+          const left = Money.of(record.stakedAmount).minus(drawn);
+          remaining = remaining.minus(drawn);
+
+          const data = {
+            stakedAmount: left.toDecimal(),
+            ...(left.isZero() && { isActive: false, unstakedAt: new Date() })
+          };
+
+          // Only applies if no concurrent unstake drew on the record since it was read
+          const { count } = await tx.stakingRecord.updateMany({
+            where: { id: record.id, stakedAmount: record.stakedAmount, isActive: true },
+            data
+          });
+
+          if (count === 0) {
+            throw new AppError('Stakes were changed concurrently, please retry', 409);
+          }
+        }
+
+        // Record transaction
+        await tx.tokenTransaction.create({
           data: {
-            stakedAmount: Number(stakingRecord.stakedAmount) - amount,
-            unstakedAt: new Date(),
-            isActive: false
+            userId: user.id,
+            tokenType: 'AFJP',
+            transactionType: 'unstake',
+            amount: amount.toDecimal(),
+            status: 'pending',
+            chainTransactionId: queued.id
           }
         });
-      }
 
-      // Record transaction
-      await prisma.tokenTransaction.create({
-        data: {
-          userId: user.id,
-          tokenType: 'AFJP',
-          transactionType: 'unstake',
-          amount: amount,
-          txHash: transactionHash,
-          status: 'confirmed'
-        }
+        await outboxService.record({
+          type: 'TokensUnstaked',
+          aggregateType: 'chain_transaction',
+          aggregateId: queued.id,
+          data: { address: req.walletAddress, amount: amount.toString(), transactionId: queued.id }
+        }, tx);
+
+        return queued;
       });
 
+      await analyticsCache.invalidate('staking', 'transactions');
+
       logger.info('Tokens unstaked:', {
         address: req.walletAddress,
         amount,
-        txHash: transactionHash
+        chainTransactionId: chainTransaction.id
       });
 
-      res.json({
+      res.status(202).json({
         success: true,
         data: {
-          transactionHash,
+          transactionId: chainTransaction.id,
+          status: chainTransaction.status,
           unstakedAmount: amount
         }
       });
@@ -222,7 +292,8 @@ export const stakingController = {
         where: { walletAddress: req.walletAddress },
         include: {
           stakingRecords: {
-            where: { isActive: true }
+            where: { isActive: true },
+            orderBy: { stakedAt: 'asc' }
           }
         }
       });
@@ -231,60 +302,89 @@ export const stakingController = {
         throw new AppError('User not found', 404);
       }
 
-      const stakingRecord = user.stakingRecords[0];
-      if (!stakingRecord) {
+      if (user.stakingRecords.length === 0) {
         throw new AppError('No active staking found', 404);
       }
 
-      // Calculate pending rewards
-      const stakedAt = stakingRecord.stakedAt;
+      // afjp_staking::claim_rewards pays out every stake at once. Rewards are
+      // paid in whole base units, anything below 1e-8 AFJP stays pending.
       const now = new Date();
-      const stakingDuration = now.getTime() - stakedAt.getTime();
-      const stakingDurationDays = stakingDuration / (1000 * 60 * 60 * 24);
-      
-      const annualRewardRate = 0.10;
-      const dailyRewardRate = annualRewardRate / 365;
-      const totalRewards = Number(stakingRecord.stakedAmount) * dailyRewardRate * stakingDurationDays;
-      const claimableRewards = Math.max(0, totalRewards - Number(stakingRecord.rewardClaimed));
-
-      if (claimableRewards <= 0) {
+      const claims = user.stakingRecords
+        .map(record => ({ record, amount: unclaimedRewards(record, now) }))
+        .filter(claim => claim.amount.isPositive());
+      const claimableRewards = Money.sum(claims.map(claim => claim.amount));
+
+      if (claimableRewards.isZero()) {
         throw new AppError('No rewards available to claim', 400);
       }
 
-      // TODO: Execute actual reward claim with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-
-      // Update staking record
-      await prisma.stakingRecord.update({
-        where: { id: stakingRecord.id },
-        data: {
-          rewardClaimed: Number(stakingRecord.rewardClaimed) + claimableRewards
-        }
-      });
-
-      // Record transaction
-      await prisma.tokenTransaction.create({
-        data: {
+      const chainTransaction = await prisma.$transaction(async (tx) => {
+        const queued = await transactionQueue.enqueue({
           userId: user.id,
+          functionName: 'afjp_staking::claim_rewards',
+          arguments: []
+        }, tx);
+
+        await ledgerService.record({
+          entryType: 'staking_reward',
           tokenType: 'AFJP',
-          transactionType: 'claim',
-          amount: claimableRewards,
-          txHash: transactionHash,
-          status: 'confirmed'
+          reference: `chain_tx:${queued.id}`,
+          postings: [{
+            from: { system: 'staking_rewards' },
+            to: { userId: user.id, bucket: 'available' },
+            amount: claimableRewards
+          }]
+        }, tx);
+
+        for (const { record, amount } of claims) {
+          // Only applies if no concurrent claim updated the record since it was read
+          const { count } = await tx.stakingRecord.updateMany({
+            where: { id: record.id, rewardClaimed: record.rewardClaimed },
+            data: {
+              rewardClaimed: { increment: amount.toDecimal() }
+            }
+          });
+
+          if (count === 0) {
+            throw new AppError('Rewards were claimed concurrently, please retry', 409);
+          }
         }
+
+        // Record transaction
+        await tx.tokenTransaction.create({
+          data: {
+            userId: user.id,
+            tokenType: 'AFJP',
+            transactionType: 'claim',
+            amount: claimableRewards.toDecimal(),
+            status: 'pending',
+            chainTransactionId: queued.id
+          }
+        });
+
+        await outboxService.record({
+          type: 'RewardsClaimed',
+          aggregateType: 'chain_transaction',
+          aggregateId: queued.id,
+          data: { address: req.walletAddress, amount: claimableRewards.toString(), transactionId: queued.id }
+        }, tx);
+
+        return queued;
       });
 
+      await analyticsCache.invalidate('transactions');
+
       logger.info('Staking rewards claimed:', {
         address: req.walletAddress,
         amount: claimableRewards,
-        txHash: transactionHash
+        chainTransactionId: chainTransaction.id
       });
 
-      res.json({
+      res.status(202).json({
         success: true,
         data: {
-          transactionHash,
+          transactionId: chainTransaction.id,
+          status: chainTransaction.status,
           claimedAmount: claimableRewards
         }
       });
@@ -300,15 +400,12 @@ export const stakingController = {
     try {
       const { address } = req.params;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       const user = await prisma.user.findUnique({
         where: { walletAddress: address },
         include: {
           stakingRecords: {
-            where: { isActive: true }
+            where: { isActive: true },
+            orderBy: { stakedAt: 'desc' }
           }
         }
       });
@@ -317,29 +414,21 @@ export const stakingController = {
         throw new AppError('User not found', 404);
       }
 
-      const stakingRecord = user.stakingRecords[0];
-      if (!stakingRecord) {
+      const latest = user.stakingRecords[0];
+      if (!latest) {
         throw new AppError('No staking information found', 404);
       }
 
-      // Calculate pending rewards
-      const stakedAt = stakingRecord.stakedAt;
+      // Summed over every active stake, as claimRewards pays them all out
       const now = new Date();
-      const stakingDuration = now.getTime() - stakedAt.getTime();
-      const stakingDurationDays = stakingDuration / (1000 * 60 * 60 * 24);
-      
-      const annualRewardRate = 0.10;
-      const dailyRewardRate = annualRewardRate / 365;
-      const totalRewards = Number(stakingRecord.stakedAmount) * dailyRewardRate * stakingDurationDays;
-      const pendingRewards = Math.max(0, totalRewards - Number(stakingRecord.rewardClaimed));
 
       res.json({
         success: true,
         data: {
-          pendingRewards,
-          totalStaked: Number(stakingRecord.stakedAmount),
-          rewardRate: annualRewardRate,
-          lastClaimTime: stakingRecord.stakedAt
+          pendingRewards: Money.sum(user.stakingRecords.map(record => unclaimedRewards(record, now))),
+          totalStaked: Money.sum(user.stakingRecords.map(record => record.stakedAmount)),
+          rewardRate: ANNUAL_REWARD_RATE,
+          lastClaimTime: latest.stakedAt
         }
       });
     } catch (error) {
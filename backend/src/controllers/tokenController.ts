@@ -2,8 +2,13 @@ import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../index';
 import { AppError } from '../types';
 import { AuthenticatedRequest, TokenType } from '../types';
-import { aptosService } from '../services/aptosService';
+import { chainAdapter } from '../services/chainAdapter';
+import { analyticsCache } from '../services/analyticsCache';
+import { ledgerService } from '../services/ledgerService';
+import { outboxService } from '../services/outboxService';
+import { transactionQueue } from '../services/transactionQueue';
 import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
 
 export const tokenController = {
   /**
@@ -13,12 +18,8 @@ export const tokenController = {
     try {
       const { address } = req.params;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       // Get balance from blockchain
-      const blockchainBalance = await aptosService.getTokenBalance(address, 'AFJP');
+      const blockchainBalance = await chainAdapter.getTokenBalance(address, 'AFJP');
       
       // Get balance from database
       const user = await prisma.user.findUnique({
@@ -42,7 +43,7 @@ export const tokenController = {
           address,
           tokenType: 'AFJP',
           balance: blockchainBalance,
-          lockedBalance: user.tokenBalances[0]?.lockedBalance || 0,
+          lockedBalance: Money.of(user.tokenBalances[0]?.lockedBalance || 0),
           lastUpdated: new Date().toISOString()
         }
       });
@@ -58,12 +59,8 @@ export const tokenController = {
     try {
       const { address } = req.params;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       // Get balance from blockchain
-      const blockchainBalance = await aptosService.getTokenBalance(address, 'JUVENTUD');
+      const blockchainBalance = await chainAdapter.getTokenBalance(address, 'JUVENTUD');
       
       // Get balance from database
       const user = await prisma.user.findUnique({
@@ -85,7 +82,7 @@ export const tokenController = {
           address,
           tokenType: 'JUVENTUD',
           balance: blockchainBalance,
-          lockedBalance: user.tokenBalances[0]?.lockedBalance || 0,
+          lockedBalance: Money.of(user.tokenBalances[0]?.lockedBalance || 0),
           lastUpdated: new Date().toISOString()
         }
       });
@@ -101,12 +98,8 @@ export const tokenController = {
     try {
       const { address } = req.params;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       // Get balance from blockchain
-      const blockchainBalance = await aptosService.getTokenBalance(address, 'LADRILLO');
+      const blockchainBalance = await chainAdapter.getTokenBalance(address, 'LADRILLO');
       
       // Get balance from database
       const user = await prisma.user.findUnique({
@@ -128,7 +121,7 @@ export const tokenController = {
           address,
           tokenType: 'LADRILLO',
           balance: blockchainBalance,
-          lockedBalance: user.tokenBalances[0]?.lockedBalance || 0,
+          lockedBalance: Money.of(user.tokenBalances[0]?.lockedBalance || 0),
           lastUpdated: new Date().toISOString()
         }
       });
@@ -144,18 +137,10 @@ export const tokenController = {
     try {
       const { to, amount } = req.body;
 
-      if (!to || !amount || amount <= 0) {
-        throw new AppError('Invalid transfer parameters', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
 
-      // TODO: Implement actual token transfer with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-
       // Record transaction in database
       const user = await prisma.user.findUnique({
         where: { walletAddress: req.walletAddress }
@@ -165,32 +150,66 @@ export const tokenController = {
         throw new AppError('User not found', 404);
       }
 
-      await prisma.tokenTransaction.create({
-        data: {
+      const recipient = await prisma.user.findUnique({
+        where: { walletAddress: to }
+      });
+
+      const chainTransaction = await prisma.$transaction(async (tx) => {
+        const queued = await transactionQueue.enqueue({
           userId: user.id,
+          functionName: 'afjp_token::transfer',
+          arguments: [to, amount.toBaseUnits()]
+        }, tx);
+
+        await ledgerService.record({
+          entryType: 'transfer',
           tokenType: 'AFJP',
-          transactionType: 'transfer',
-          amount: amount,
-          txHash: transactionHash,
-          status: 'confirmed'
-        }
+          reference: `chain_tx:${queued.id}`,
+          postings: [{
+            from: { userId: user.id, bucket: 'available' },
+            to: recipient ? { userId: recipient.id, bucket: 'available' } : { external: to },
+            amount
+          }]
+        }, tx);
+
+        await tx.tokenTransaction.create({
+          data: {
+            userId: user.id,
+            tokenType: 'AFJP',
+            transactionType: 'transfer',
+            amount: amount.toDecimal(),
+            status: 'pending',
+            chainTransactionId: queued.id
+          }
+        });
+
+        await outboxService.record({
+          type: 'TokensTransferred',
+          aggregateType: 'chain_transaction',
+          aggregateId: queued.id,
+          data: { from: req.walletAddress, to, amount: amount.toString(), tokenType: 'AFJP', transactionId: queued.id }
+        }, tx);
+
+        return queued;
       });
 
-      logger.info('AFJP transfer recorded:', {
+      await analyticsCache.invalidate('transactions');
+
+      logger.info('AFJP transfer queued:', {
         from: req.walletAddress,
         to,
         amount,
-        txHash: transactionHash
+        chainTransactionId: chainTransaction.id
       });
 
-      res.json({
+      res.status(202).json({
         success: true,
         data: {
-          transactionHash,
+          transactionId: chainTransaction.id,
           from: req.walletAddress,
           to,
           amount,
-          status: 'confirmed'
+          status: chainTransaction.status
         }
       });
     } catch (error) {
@@ -205,18 +224,10 @@ export const tokenController = {
     try {
       const { amount } = req.body;
 
-      if (!amount || amount <= 0) {
-        throw new AppError('Invalid burn amount', 400);
-      }
-
       if (!req.walletAddress) {
         throw new AppError('Wallet address not found', 401);
       }
 
-      // TODO: Implement actual token burn with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-
       // Record transaction in database
       const user = await prisma.user.findUnique({
         where: { walletAddress: req.walletAddress }
@@ -226,30 +237,60 @@ export const tokenController = {
         throw new AppError('User not found', 404);
       }
 
-      await prisma.tokenTransaction.create({
-        data: {
+      const chainTransaction = await prisma.$transaction(async (tx) => {
+        const queued = await transactionQueue.enqueue({
           userId: user.id,
+          functionName: 'afjp_token::burn',
+          arguments: [amount.toBaseUnits()]
+        }, tx);
+
+        await ledgerService.record({
+          entryType: 'burn',
           tokenType: 'AFJP',
-          transactionType: 'burn',
-          amount: amount,
-          txHash: transactionHash,
-          status: 'confirmed'
-        }
+          reference: `chain_tx:${queued.id}`,
+          postings: [{
+            from: { userId: user.id, bucket: 'available' },
+            to: { system: 'burned' },
+            amount
+          }]
+        }, tx);
+
+        await tx.tokenTransaction.create({
+          data: {
+            userId: user.id,
+            tokenType: 'AFJP',
+            transactionType: 'burn',
+            amount: amount.toDecimal(),
+            status: 'pending',
+            chainTransactionId: queued.id
+          }
+        });
+
+        await outboxService.record({
+          type: 'TokensBurned',
+          aggregateType: 'chain_transaction',
+          aggregateId: queued.id,
+          data: { address: req.walletAddress, amount: amount.toString(), tokenType: 'AFJP', transactionId: queued.id }
+        }, tx);
+
+        return queued;
       });
 
-      logger.info('AFJP burn recorded:', {
+      await analyticsCache.invalidate('transactions');
+
+      logger.info('AFJP burn queued:', {
         address: req.walletAddress,
         amount,
-        txHash: transactionHash
+        chainTransactionId: chainTransaction.id
       });
 
-      res.json({
+      res.status(202).json({
         success: true,
         data: {
-          transactionHash,
+          transactionId: chainTransaction.id,
           address: req.walletAddress,
           amount,
-          status: 'confirmed'
+          status: chainTransaction.status
         }
       });
     } catch (error) {
@@ -267,10 +308,6 @@ export const tokenController = {
       const limit = parseInt(req.query.limit as string) || 10;
       const tokenType = req.query.tokenType as TokenType;
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
       const user = await prisma.user.findUnique({
         where: { walletAddress: address }
       });
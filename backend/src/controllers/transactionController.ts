@@ -0,0 +1,99 @@
+import { Response, NextFunction } from 'express';
+import { HexString } from 'aptos';
+import { ChainTransaction } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../types';
+import { AuthenticatedRequest } from '../types';
+import { transactionQueue } from '../services/transactionQueue';
+import { config } from '../utils/config';
+
+// Entry function payload for the user's wallet to sign
+const signingPayload = (transaction: ChainTransaction) => ({
+  type: 'entry_function_payload',
+  function: `${config.afjpModuleAddress}::${transaction.functionName}`,
+  type_arguments: transaction.typeArguments,
+  arguments: transaction.arguments
+});
+
+export const transactionController = {
+  /**
+   * Get the status of a queued on-chain transaction
+   */
+  getTransactionStatus: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const transaction = await prisma.chainTransaction.findUnique({
+        where: { id: parseInt(id) }
+      });
+
+      // Transactions of other users are reported as missing
+      if (!transaction || transaction.userId !== req.user.id) {
+        throw new AppError('Transaction not found', 404);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          id: transaction.id,
+          function: transaction.functionName,
+          status: transaction.status,
+          txHash: transaction.txHash,
+          version: transaction.version?.toString() ?? null,
+          vmStatus: transaction.vmStatus,
+          attempts: transaction.attempts,
+          error: transaction.lastError,
+          createdAt: transaction.createdAt,
+          submittedAt: transaction.submittedAt,
+          finalizedAt: transaction.finalizedAt,
+          payload: transaction.status === 'awaiting_signature' ? signingPayload(transaction) : null
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Relay the user's signed transaction for a queued transaction awaiting their signature
+   */
+  submitSignedTransaction: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { signedTransaction } = req.body;
+
+      if (!req.user) {
+        throw new AppError('Authentication required', 401);
+      }
+
+      const transaction = await prisma.chainTransaction.findUnique({
+        where: { id: parseInt(id) }
+      });
+
+      if (!transaction || transaction.userId !== req.user.id) {
+        throw new AppError('Transaction not found', 404);
+      }
+
+      const submitted = await transactionQueue.submitSigned(
+        transaction,
+        req.user.walletAddress,
+        HexString.ensure(signedTransaction).toUint8Array()
+      );
+
+      res.status(202).json({
+        success: true,
+        data: {
+          id: submitted.id,
+          status: submitted.status,
+          txHash: submitted.txHash
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+};
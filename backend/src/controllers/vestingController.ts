@@ -1,63 +1,137 @@
 import { Request, Response, NextFunction } from 'express';
+import { VestingSchedule } from '@prisma/client';
 import { prisma } from '../index';
 import { AppError } from '../types';
 import { AuthenticatedRequest } from '../types';
 import { aptosService } from '../services/aptosService';
+import { analyticsCache } from '../services/analyticsCache';
+import { ledgerService } from '../services/ledgerService';
+import { outboxService } from '../services/outboxService';
+import { transactionQueue } from '../services/transactionQueue';
 import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
+import { VestingCalculator, allocateRelease } from '../utils/vestingCalculator';
+
+const describeSchedule = (schedule: VestingSchedule, now: Date) => {
+  const calculator = VestingCalculator.for(schedule);
+  const totalAmount = Money.of(schedule.totalAmount);
+  const releasedAmount = Money.of(schedule.releasedAmount);
+
+  return {
+    scheduleId: schedule.id,
+    curveType: schedule.curveType,
+    totalAmount,
+    releasedAmount,
+    vestedAmount: calculator.vestedAmount(now),
+    releasableAmount: calculator.releasableAmount(now),
+    remainingAmount: totalAmount.minus(releasedAmount),
+    startTime: schedule.startTime,
+    endTime: schedule.endTime,
+    cliffTime: schedule.cliffTime,
+    isActive: schedule.isActive,
+    vestingProgress: calculator.vestedFraction(now).mul(100).toNumber(),
+    nextUnlockAt: calculator.nextUnlockAt(now)
+  };
+};
+
+type ScheduleView = ReturnType<typeof describeSchedule>;
+
+/**
+ * Totals across schedules, progress is weighted by amount
+ */
+const summarizeSchedules = (views: ScheduleView[]) => {
+  const totalAmount = Money.sum(views.map(view => view.totalAmount));
+  const vestedAmount = Money.sum(views.map(view => view.vestedAmount));
+  const unlocks = views
+    .map(view => view.nextUnlockAt)
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return {
+    scheduleCount: views.length,
+    totalAmount,
+    releasedAmount: Money.sum(views.map(view => view.releasedAmount)),
+    vestedAmount,
+    releasableAmount: Money.sum(views.map(view => view.releasableAmount)),
+    remainingAmount: Money.sum(views.map(view => view.remainingAmount)),
+    vestingProgress: totalAmount.isPositive() ? vestedAmount.ratioTo(totalAmount) * 100 : 0,
+    nextUnlockAt: unlocks[0] || null
+  };
+};
+
+/**
+ * Active schedules of a wallet, oldest first
+ */
+const findActiveSchedules = async (walletAddress: string) => {
+  const user = await prisma.user.findUnique({
+    where: { walletAddress },
+    include: {
+      vestingSchedules: {
+        where: { isActive: true },
+        orderBy: [{ startTime: 'asc' }, { id: 'asc' }]
+      }
+    }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  return user;
+};
 
 export const vestingController = {
   /**
-   * Get vesting schedule for an address
+   * Get the combined vesting schedule for an address
    */
   getVestingSchedule: async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { address } = req.params;
+      const { vestingSchedules } = await findActiveSchedules(req.params.address);
 
-      if (!address) {
-        throw new AppError('Address is required', 400);
+      if (vestingSchedules.length === 0) {
+        throw new AppError('No vesting schedule found', 404);
       }
 
-      const user = await prisma.user.findUnique({
-        where: { walletAddress: address },
-        include: {
-          vestingSchedules: {
-            where: { isActive: true },
-            orderBy: { createdAt: 'desc' }
-          }
+      const now = new Date();
+      const summary = summarizeSchedules(vestingSchedules.map(schedule => describeSchedule(schedule, now)));
+
+      res.json({
+        success: true,
+        data: {
+          ...summary,
+          startTime: vestingSchedules[0].startTime,
+          endTime: new Date(Math.max(...vestingSchedules.map(schedule => schedule.endTime.getTime()))),
+          isActive: true
         }
       });
+    } catch (error) {
+      next(error);
+    }
+  },
 
-      if (!user) {
-        throw new AppError('User not found', 404);
-      }
-
-      const vestingSchedule = user.vestingSchedules[0];
-      if (!vestingSchedule) {
-        throw new AppError('No vesting schedule found', 404);
-      }
+  /**
+   * List the vesting schedules of an address with totals across all of them
+   */
+  getVestingSchedules: async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const { vestingSchedules } = await findActiveSchedules(req.params.address);
 
       const now = new Date();
-      const startTime = vestingSchedule.startTime;
-      const endTime = vestingSchedule.endTime;
-      const totalDuration = endTime.getTime() - startTime.getTime();
-      const elapsed = now.getTime() - startTime.getTime();
-      const progress = Math.min(elapsed / totalDuration, 1);
-
-      const vestedAmount = Number(vestingSchedule.totalAmount) * progress;
-      const remainingAmount = Number(vestingSchedule.totalAmount) - Number(vestingSchedule.releasedAmount);
+      const views = vestingSchedules.map(schedule => describeSchedule(schedule, now));
 
       res.json({
         success: true,
         data: {
-          totalAmount: Number(vestingSchedule.totalAmount),
-          releasedAmount: Number(vestingSchedule.releasedAmount),
-          remainingAmount,
-          vestedAmount,
-          startTime: vestingSchedule.startTime,
-          endTime: vestingSchedule.endTime,
-          cliffTime: vestingSchedule.cliffTime,
-          isActive: vestingSchedule.isActive,
-          vestingProgress: progress * 100
+          summary: summarizeSchedules(views),
+          schedules: views.slice((page - 1) * limit, page * limit)
+        },
+        pagination: {
+          page,
+          limit,
+          total: views.length,
+          totalPages: Math.ceil(views.length / limit)
         }
       });
     } catch (error) {
@@ -66,7 +140,7 @@ export const vestingController = {
   },
 
   /**
-   * Release vested tokens
+   * Release vested tokens from every active schedule in one transaction
    */
   releaseVestedTokens: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
@@ -74,75 +148,100 @@ export const vestingController = {
         throw new AppError('Wallet address not found', 401);
       }
 
-      const user = await prisma.user.findUnique({
-        where: { walletAddress: req.walletAddress },
-        include: {
-          vestingSchedules: {
-            where: { isActive: true }
-          }
-        }
-      });
-
-      if (!user) {
-        throw new AppError('User not found', 404);
-      }
+      const user = await findActiveSchedules(req.walletAddress);
 
-      const vestingSchedule = user.vestingSchedules[0];
-      if (!vestingSchedule) {
+      if (user.vestingSchedules.length === 0) {
         throw new AppError('No active vesting schedule found', 404);
       }
 
-      // Calculate vested amount
       const now = new Date();
-      const startTime = vestingSchedule.startTime;
-      const endTime = vestingSchedule.endTime;
-      const totalDuration = endTime.getTime() - startTime.getTime();
-      const elapsed = now.getTime() - startTime.getTime();
-      const progress = Math.min(elapsed / totalDuration, 1);
+      const views = user.vestingSchedules.map(schedule => describeSchedule(schedule, now));
+      const summary = summarizeSchedules(views);
+      const releasableAmount = summary.releasableAmount;
+      const releases = allocateRelease(user.vestingSchedules, releasableAmount, now);
 
-      const totalVestedAmount = Number(vestingSchedule.totalAmount) * progress;
-      const releasableAmount = totalVestedAmount - Number(vestingSchedule.releasedAmount);
-
-      if (releasableAmount <= 0) {
+      if (!releasableAmount.isPositive()) {
         throw new AppError('No tokens available for release', 400);
       }
 
-      // TODO: Execute actual token release with Aptos SDK
-      // For now, we'll simulate the transaction
-      const transactionHash = `0x${Math.random().toString(16).substr(2, 64)}`;
-
-      // Update vesting schedule
-      await prisma.vestingSchedule.update({
-        where: { id: vestingSchedule.id },
-        data: {
-          releasedAmount: Number(vestingSchedule.releasedAmount) + releasableAmount
-        }
-      });
-
-      // Record transaction
-      await prisma.tokenTransaction.create({
-        data: {
+      // The module releases every grant of the sender in one call
+      const chainTransaction = await prisma.$transaction(async (tx) => {
+        const queued = await transactionQueue.enqueue({
           userId: user.id,
+          functionName: 'afjp_vesting::release_vested_tokens',
+          arguments: []
+        }, tx);
+
+        // Unvested tokens are held in escrow until released to the user
+        await ledgerService.record({
+          entryType: 'vesting_release',
           tokenType: 'AFJP',
-          transactionType: 'claim',
-          amount: releasableAmount,
-          txHash: transactionHash,
-          status: 'confirmed'
+          reference: `chain_tx:${queued.id}`,
+          postings: [{
+            from: { system: 'vesting_escrow' },
+            to: { userId: user.id, bucket: 'available' },
+            amount: releasableAmount
+          }]
+        }, tx);
+
+        for (const { schedule, amount } of releases) {
+          // Only applies if no concurrent release updated the schedule since it was read
+          const { count } = await tx.vestingSchedule.updateMany({
+            where: { id: schedule.id, releasedAmount: schedule.releasedAmount },
+            data: {
+              releasedAmount: { increment: amount.toDecimal() }
+            }
+          });
+
+          if (count === 0) {
+            throw new AppError('Tokens were released concurrently, please retry', 409);
+          }
+
+          await outboxService.record({
+            type: 'VestingReleased',
+            aggregateType: 'vesting_schedule',
+            aggregateId: schedule.id,
+            data: { address: req.walletAddress, amount: amount.toString(), transactionId: queued.id }
+          }, tx);
         }
+
+        // Record transaction
+        await tx.tokenTransaction.create({
+          data: {
+            userId: user.id,
+            tokenType: 'AFJP',
+            transactionType: 'claim',
+            amount: releasableAmount.toDecimal(),
+            status: 'pending',
+            chainTransactionId: queued.id
+          }
+        });
+
+        return queued;
       });
 
+      await analyticsCache.invalidate('transactions');
+
       logger.info('Vested tokens released:', {
         address: req.walletAddress,
         amount: releasableAmount,
-        txHash: transactionHash
+        schedules: releases.length,
+        chainTransactionId: chainTransaction.id
       });
 
-      res.json({
+      res.status(202).json({
         success: true,
         data: {
-          transactionHash,
+          transactionId: chainTransaction.id,
+          status: chainTransaction.status,
           releasedAmount: releasableAmount,
-          remainingAmount: Number(vestingSchedule.totalAmount) - (Number(vestingSchedule.releasedAmount) + releasableAmount)
+          remainingAmount: summary.remainingAmount.minus(releasableAmount),
+          nextUnlockAt: summary.nextUnlockAt,
+          schedules: releases.map(({ schedule, amount }) => ({
+            scheduleId: schedule.id,
+            releasedAmount: amount,
+            remainingAmount: Money.of(schedule.totalAmount).minus(schedule.releasedAmount).minus(amount)
+          }))
         }
       });
     } catch (error) {
@@ -151,55 +250,21 @@ export const vestingController = {
   },
 
   /**
-   * Calculate vested amount for an address
+   * Calculate the vested amount across the active schedules of an address
    */
   calculateVestedAmount: async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { address } = req.params;
-
-      if (!address) {
-        throw new AppError('Address is required', 400);
-      }
-
-      const user = await prisma.user.findUnique({
-        where: { walletAddress: address },
-        include: {
-          vestingSchedules: {
-            where: { isActive: true }
-          }
-        }
-      });
-
-      if (!user) {
-        throw new AppError('User not found', 404);
-      }
+      const { vestingSchedules } = await findActiveSchedules(req.params.address);
 
-      const vestingSchedule = user.vestingSchedules[0];
-      if (!vestingSchedule) {
+      if (vestingSchedules.length === 0) {
         throw new AppError('No vesting schedule found', 404);
       }
 
       const now = new Date();
-      const startTime = vestingSchedule.startTime;
-      const endTime = vestingSchedule.endTime;
-      const totalDuration = endTime.getTime() - startTime.getTime();
-      const elapsed = now.getTime() - startTime.getTime();
-      const progress = Math.min(elapsed / totalDuration, 1);
-
-      const totalAmount = Number(vestingSchedule.totalAmount);
-      const releasedAmount = Number(vestingSchedule.releasedAmount);
-      const vestedAmount = totalAmount * progress;
-      const remainingAmount = totalAmount - releasedAmount;
 
       res.json({
         success: true,
-        data: {
-          vestedAmount,
-          totalAmount,
-          releasedAmount,
-          remainingAmount,
-          vestingProgress: progress * 100
-        }
+        data: summarizeSchedules(vestingSchedules.map(schedule => describeSchedule(schedule, now)))
       });
     } catch (error) {
       next(error);
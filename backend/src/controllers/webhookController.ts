@@ -0,0 +1,235 @@
+import { Response, NextFunction } from 'express';
+import { WebhookSubscription } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError } from '../types';
+import { AuthenticatedRequest, CreateWebhookSubscriptionRequest } from '../types';
+import { generateWebhookSecret } from '../services/webhookDispatcher';
+import { logger } from '../utils/logger';
+
+// The signing secret is only returned when the subscription is created
+const toResponse = ({ secret, ...subscription }: WebhookSubscription) => subscription;
+
+const findOwnSubscription = async (req: AuthenticatedRequest): Promise<WebhookSubscription> => {
+  if (!req.user) {
+    throw new AppError('User not authenticated', 401);
+  }
+
+  const subscription = await prisma.webhookSubscription.findFirst({
+    where: { id: parseInt(req.params.id), userId: req.user.id }
+  });
+
+  if (!subscription) {
+    throw new AppError('Webhook subscription not found', 404);
+  }
+
+  return subscription;
+};
+
+export const webhookController = {
+  /**
+   * List the webhook subscriptions of the current user
+   */
+  getSubscriptions: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const subscriptions = await prisma.webhookSubscription.findMany({
+        where: { userId: req.user.id },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      res.json({
+        success: true,
+        data: subscriptions.map(toResponse)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Get a webhook subscription
+   */
+  getSubscription: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const subscription = await findOwnSubscription(req);
+
+      res.json({
+        success: true,
+        data: toResponse(subscription)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Subscribe a URL to domain events
+   */
+  createSubscription: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { url, eventTypes, description }: CreateWebhookSubscriptionRequest = req.body;
+
+      if (!req.user) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const subscription = await prisma.webhookSubscription.create({
+        data: {
+          userId: req.user.id,
+          url,
+          secret: generateWebhookSecret(),
+          eventTypes,
+          description: description || null
+        }
+      });
+
+      logger.info('Webhook subscription created:', {
+        subscriptionId: subscription.id,
+        user: req.walletAddress,
+        eventTypes
+      });
+
+      res.status(201).json({
+        success: true,
+        data: subscription
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Change the URL, events or state of a webhook subscription
+   */
+  updateSubscription: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { url, eventTypes, description, isActive } = req.body;
+      const subscription = await findOwnSubscription(req);
+
+      const updated = await prisma.webhookSubscription.update({
+        where: { id: subscription.id },
+        data: { url, eventTypes, description, isActive }
+      });
+
+      res.json({
+        success: true,
+        data: toResponse(updated)
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Delete a webhook subscription and its delivery history
+   */
+  deleteSubscription: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const subscription = await findOwnSubscription(req);
+
+      await prisma.webhookSubscription.delete({
+        where: { id: subscription.id }
+      });
+
+      logger.info('Webhook subscription deleted:', {
+        subscriptionId: subscription.id,
+        user: req.walletAddress
+      });
+
+      res.json({
+        success: true,
+        message: 'Webhook subscription deleted'
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Get the deliveries of a subscription, use status=dead for the dead letters
+   */
+  getDeliveries: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const status = (req.query.status as string) || undefined;
+      const subscription = await findOwnSubscription(req);
+
+      const whereClause: any = { subscriptionId: subscription.id };
+      if (status) {
+        whereClause.status = status;
+      }
+
+      const [deliveries, total] = await Promise.all([
+        prisma.webhookDelivery.findMany({
+          where: whereClause,
+          include: {
+            outboxEvent: {
+              select: { eventType: true, aggregateType: true, aggregateId: true, createdAt: true }
+            }
+          },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.webhookDelivery.count({ where: whereClause })
+      ]);
+
+      res.json({
+        success: true,
+        data: deliveries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+
+  /**
+   * Put a dead-lettered delivery back in the queue
+   */
+  retryDelivery: async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user) {
+        throw new AppError('User not authenticated', 401);
+      }
+
+      const delivery = await prisma.webhookDelivery.findFirst({
+        where: { id: parseInt(id), subscription: { userId: req.user.id } }
+      });
+
+      if (!delivery) {
+        throw new AppError('Webhook delivery not found', 404);
+      }
+
+      if (delivery.status !== 'dead') {
+        throw new AppError('Only dead-lettered deliveries can be retried', 409);
+      }
+
+      const updated = await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'pending', attempts: 0, nextAttemptAt: new Date() }
+      });
+
+      res.json({
+        success: true,
+        data: {
+          deliveryId: updated.id,
+          status: updated.status
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+};
@@ -1,17 +1,26 @@
-import express from 'express';
+import express, { Router } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
-import dotenv from 'dotenv';
 import { PrismaClient } from '@prisma/client';
 import { createClient } from 'redis';
 
+import { config, maskConfig } from './utils/config';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
-import { healthCheck } from './middleware/healthCheck';
+import { httpMetrics, metricsEndpoint } from './middleware/metrics';
+import { rateLimit } from './middleware/rateLimit';
+import { requestContext } from './middleware/requestContext';
 import { swaggerSetup } from './utils/swagger';
+import { getRequestContext } from './utils/requestContext';
+import { eventIndexer } from './services/eventIndexer';
+import { jobScheduler } from './services/jobScheduler';
+import { transactionQueue } from './services/transactionQueue';
+import { webhookDispatcher } from './services/webhookDispatcher';
+import { registerJobs } from './jobs';
+import { auditExtension } from './services/auditService';
 
 // Import routes
+import healthRoutes from './routes/health';
 import authRoutes from './routes/auth';
 import tokenRoutes from './routes/tokens';
 import vestingRoutes from './routes/vesting';
@@ -20,57 +29,83 @@ import propertyRoutes from './routes/properties';
 import lendingRoutes from './routes/lending';
 import inheritanceRoutes from './routes/inheritance';
 import analyticsRoutes from './routes/analytics';
-
-// Load environment variables
-dotenv.config();
+import adminRoutes from './routes/admin';
+import kycRoutes from './routes/kyc';
+import transactionRoutes from './routes/transactions';
+import webhookRoutes from './routes/webhooks';
+import contributionRoutes from './routes/contributions';
+import employerRoutes from './routes/employers';
 
 const app = express();
-const PORT = process.env.PORT || 3000;
+const PORT = config.port;
 
-// Initialize Prisma client
-export const prisma = new PrismaClient();
+// Initialize Prisma client, every mutation made through it is audited
+export const prisma = new PrismaClient({
+  datasources: { db: { url: config.databaseUrl } }
+}).$extends(auditExtension);
 
 // Initialize Redis client
 export const redis = createClient({
-  url: process.env.REDIS_URL || 'redis://localhost:6379'
+  url: config.redisUrl
 });
 
+// Number of proxies in front of the app, so req.ip is the client and not the load balancer
+if (config.trustProxyHops !== null) {
+  app.set('trust proxy', config.trustProxyHops);
+}
+
+// Time-driven fund operations, registered on every instance so admins can list and trigger them
+registerJobs(jobScheduler);
+
 // Security middleware
 app.use(helmet());
 
 // CORS configuration
 app.use(cors({
-  origin: process.env.CORS_ORIGIN || 'http://localhost:5173',
+  origin: config.corsOrigin,
   credentials: true
 }));
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
-  max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'),
-  message: 'Too many requests from this IP, please try again later.'
-});
-app.use(limiter);
+// Request latency and status for every route
+app.use(httpMetrics);
+
+// Health probes and metrics, before rate limiting so orchestrators and scrapers are never throttled
+app.use('/health', healthRoutes);
+app.get('/metrics', metricsEndpoint);
 
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
-// Health check
-app.use('/health', healthCheck);
+// Request ID, client IP, wallet and route for logs and audit events
+app.use(requestContext);
 
-// Swagger documentation
-swaggerSetup(app);
+// Rate limiting per client IP, routes add their own policies. After the request
+// context so throttled responses carry the request ID too.
+app.use(rateLimit('global'));
 
 // API routes
-app.use('/api/auth', authRoutes);
-app.use('/api/tokens', tokenRoutes);
-app.use('/api/vesting', vestingRoutes);
-app.use('/api/staking', stakingRoutes);
-app.use('/api/properties', propertyRoutes);
-app.use('/api/lending', lendingRoutes);
-app.use('/api/inheritance', inheritanceRoutes);
-app.use('/api/analytics', analyticsRoutes);
+const apiRoutes: Record<string, Router> = {
+  '/api/auth': authRoutes,
+  '/api/tokens': tokenRoutes,
+  '/api/vesting': vestingRoutes,
+  '/api/contributions': contributionRoutes,
+  '/api/employers': employerRoutes,
+  '/api/staking': stakingRoutes,
+  '/api/properties': propertyRoutes,
+  '/api/lending': lendingRoutes,
+  '/api/inheritance': inheritanceRoutes,
+  '/api/analytics': analyticsRoutes,
+  '/api/admin': adminRoutes,
+  '/api/kyc': kycRoutes,
+  '/api/transactions': transactionRoutes,
+  '/api/webhooks': webhookRoutes
+};
+
+Object.entries(apiRoutes).forEach(([path, router]) => app.use(path, router));
+
+// Swagger documentation, request schemas come from the routes' validators
+swaggerSetup(app, apiRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -87,7 +122,8 @@ app.use('*', (req, res) => {
   res.status(404).json({
     error: 'Route not found',
     path: req.originalUrl,
-    method: req.method
+    method: req.method,
+    requestId: getRequestContext()?.requestId
   });
 });
 
@@ -97,6 +133,10 @@ app.use(errorHandler);
 // Graceful shutdown
 process.on('SIGINT', async () => {
   logger.info('Received SIGINT, shutting down gracefully...');
+  eventIndexer.stop();
+  transactionQueue.stop();
+  webhookDispatcher.stop();
+  jobScheduler.stop();
   await prisma.$disconnect();
   await redis.quit();
   process.exit(0);
@@ -104,6 +144,10 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM, shutting down gracefully...');
+  eventIndexer.stop();
+  transactionQueue.stop();
+  webhookDispatcher.stop();
+  jobScheduler.stop();
   await prisma.$disconnect();
   await redis.quit();
   process.exit(0);
@@ -112,6 +156,8 @@ process.on('SIGTERM', async () => {
 // Start server
 const startServer = async () => {
   try {
+    logger.info('Configuration loaded:', maskConfig(config));
+
     // Connect to Redis
     await redis.connect();
     logger.info('Connected to Redis');
@@ -125,6 +171,26 @@ const startServer = async () => {
       logger.info(`📚 API Documentation: http://localhost:${PORT}/api-docs`);
       logger.info(`🏥 Health Check: http://localhost:${PORT}/health`);
     });
+
+    // Submit queued transactions and track their finality
+    if (config.txQueueEnabled) {
+      transactionQueue.start();
+    }
+
+    // Deliver outbox events to webhook subscribers
+    if (config.webhooksEnabled) {
+      webhookDispatcher.start();
+    }
+
+    // Queue cron jobs and run due jobs, one instance at a time per job
+    if (config.jobsEnabled) {
+      jobScheduler.start();
+    }
+
+    // Sync on-chain events into the database
+    if (config.indexerEnabled) {
+      eventIndexer.start();
+    }
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,72 @@
+import { prisma } from '../index';
+import { JobHandler } from '../types';
+import { analyticsCache } from '../services/analyticsCache';
+import { outboxService } from '../services/outboxService';
+import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
+
+const BATCH_SIZE = 100;
+
+/**
+ * Close auctions whose end time passed. The highest bidder becomes the
+ * property owner, auctions without bids simply close. Anything left over
+ * is settled by the next run.
+ */
+export const settleEndedAuctions: JobHandler = async () => {
+  const ended = await prisma.propertyAuction.findMany({
+    where: { isActive: true, endTime: { lte: new Date() } },
+    orderBy: { endTime: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let settled = 0;
+
+  for (const auction of ended) {
+    const settledAt = new Date();
+    const winner = auction.highestBidder;
+
+    const applied = await prisma.$transaction(async (tx) => {
+      // A concurrent run may have settled it already
+      const { count } = await tx.propertyAuction.updateMany({
+        where: { id: auction.id, isActive: true },
+        data: { isActive: false, settledAt }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      if (winner) {
+        await tx.property.update({
+          where: { id: auction.propertyId },
+          data: { ownerAddress: winner }
+        });
+      }
+
+      await outboxService.record({
+        type: 'AuctionSettled',
+        aggregateType: 'auction',
+        aggregateId: auction.id,
+        data: {
+          auctionId: auction.id,
+          propertyId: auction.propertyId,
+          winner,
+          winningBid: auction.currentBid ? Money.of(auction.currentBid).toString() : null
+        }
+      }, tx);
+
+      return true;
+    });
+
+    if (applied) {
+      settled++;
+      logger.info('Auction settled:', { auctionId: auction.id, propertyId: auction.propertyId, winner });
+    }
+  }
+
+  if (settled > 0) {
+    await analyticsCache.invalidate('auctions', 'properties');
+  }
+
+  return { settled };
+};
@@ -0,0 +1,141 @@
+import { prisma } from '../index';
+import { JobHandler } from '../types';
+import { contributionService } from '../services/contributionService';
+import { dueDateOf, periodKey, periodOf, startOfDay } from '../services/contributionPlanService';
+import { outboxService } from '../services/outboxService';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { FIAT_DECIMALS, Money } from '../utils/money';
+
+const BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Issue this month's obligation of every active plan, paid right away by a
+ * contribution the member already made this month
+ */
+const issueObligations = async (today: Date): Promise<number> => {
+  const period = periodOf(today);
+  let issued = 0;
+
+  for (;;) {
+    const plans = await prisma.contributionPlan.findMany({
+      where: { status: 'active', startPeriod: { lte: period }, obligations: { none: { period } } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    for (const plan of plans) {
+      await prisma.$transaction(async (tx) => {
+        const obligation = await tx.contributionObligation.create({
+          data: {
+            planId: plan.id,
+            userId: plan.userId,
+            period,
+            dueDate: dueDateOf(period, plan.dueDay),
+            amount: plan.amount,
+            currency: plan.currency
+          }
+        });
+
+        const prepaid = await tx.contribution.findFirst({
+          where: { userId: plan.userId, status: 'confirmed', contributedAt: { gte: period }, obligation: null },
+          orderBy: { contributedAt: 'asc' }
+        });
+
+        if (prepaid && contributionService.coversObligation(prepaid, obligation)) {
+          await tx.contributionObligation.update({
+            where: { id: obligation.id },
+            data: { status: 'paid', contributionId: prepaid.id, paidAt: prepaid.contributedAt }
+          });
+        }
+      });
+    }
+
+    issued += plans.length;
+    if (plans.length < BATCH_SIZE) {
+      return issued;
+    }
+  }
+};
+
+/**
+ * Flag unpaid obligations past their due date as late, and as missed once
+ * the grace period is over too. Members and partners learn about a missed
+ * payment through the ContributionMissed event.
+ */
+const markUnpaidObligations = async (today: Date): Promise<{ late: number; missed: number }> => {
+  const { count: late } = await prisma.contributionObligation.updateMany({
+    where: { status: 'pending', dueDate: { lt: today } },
+    data: { status: 'late' }
+  });
+
+  const graceStart = new Date(today.getTime() - config.contributionGraceDays * DAY_MS);
+  let missed = 0;
+
+  // Obligations leave `late` once handled, so each batch picks up where the last one stopped
+  for (;;) {
+    const unpaid = await prisma.contributionObligation.findMany({
+      where: { status: 'late', dueDate: { lt: graceStart } },
+      include: { user: true },
+      orderBy: { dueDate: 'asc' },
+      take: BATCH_SIZE
+    });
+
+    for (const { user, ...obligation } of unpaid) {
+      const applied = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.contributionObligation.updateMany({
+          where: { id: obligation.id, status: 'late' },
+          data: { status: 'missed' }
+        });
+
+        if (count === 0) {
+          return false;
+        }
+
+        await outboxService.record({
+          type: 'ContributionMissed',
+          aggregateType: 'contribution_obligation',
+          aggregateId: obligation.id,
+          data: {
+            obligationId: obligation.id,
+            planId: obligation.planId,
+            address: user.walletAddress,
+            period: periodKey(obligation.period),
+            amount: Money.of(obligation.amount, 'down', FIAT_DECIMALS).toString(),
+            currency: obligation.currency,
+            dueDate: obligation.dueDate
+          }
+        }, tx);
+
+        return true;
+      });
+
+      if (applied) {
+        missed++;
+      }
+    }
+
+    if (unpaid.length < BATCH_SIZE) {
+      return { late, missed };
+    }
+  }
+};
+
+/**
+ * Keep contribution plans' obligations up to date as of the day the run was
+ * due. Issuing is keyed by plan and month, so a retry or a manual run
+ * issues nothing twice.
+ */
+export const trackContributionObligations: JobHandler = async ({ scheduledFor }) => {
+  const today = startOfDay(scheduledFor);
+
+  const issued = await issueObligations(today);
+  const { late, missed } = await markUnpaidObligations(today);
+
+  if (issued > 0 || late > 0 || missed > 0) {
+    logger.info('Contribution obligations updated:', { period: periodKey(periodOf(today)), issued, late, missed });
+  }
+
+  return { issued, late, missed };
+};
@@ -0,0 +1,65 @@
+import { prisma } from '../index';
+import { JobHandler } from '../types';
+import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
+
+/**
+ * Record the day's fund totals and the net asset value per AFJP, i.e. the
+ * property value and outstanding loan principal backing each token held by
+ * users. Keyed by the UTC date the run was due, so a retry or a manual run
+ * on the same day replaces the snapshot.
+ */
+export const takeFundSnapshot: JobHandler = async ({ scheduledFor }) => {
+  const snapshotDate = new Date(Date.UTC(scheduledFor.getUTCFullYear(), scheduledFor.getUTCMonth(), scheduledFor.getUTCDate()));
+
+  const [userCount, balances, staked, vesting, loans, properties] = await Promise.all([
+    prisma.user.count(),
+    prisma.tokenBalance.aggregate({
+      where: { tokenType: 'AFJP' },
+      _sum: { balance: true, lockedBalance: true }
+    }),
+    prisma.stakingRecord.aggregate({
+      where: { isActive: true },
+      _sum: { stakedAmount: true }
+    }),
+    prisma.vestingSchedule.aggregate({
+      where: { isActive: true },
+      _sum: { totalAmount: true, releasedAmount: true }
+    }),
+    prisma.loan.aggregate({
+      where: { isActive: true },
+      _sum: { borrowedAmount: true, collateralAmount: true }
+    }),
+    prisma.property.aggregate({
+      _sum: { totalValue: true }
+    })
+  ]);
+
+  const afjpSupply = Money.sum([balances._sum.balance || 0, balances._sum.lockedBalance || 0]);
+  const loansOutstanding = Money.of(loans._sum.borrowedAmount || 0);
+  const propertyValue = Money.of(properties._sum.totalValue || 0);
+  const navPerToken = afjpSupply.isPositive()
+    ? propertyValue.plus(loansOutstanding).dividedBy(afjpSupply.toDecimal(), 'half-even')
+    : Money.zero();
+
+  const totals = {
+    userCount,
+    afjpSupply: afjpSupply.toDecimal(),
+    totalStaked: Money.of(staked._sum.stakedAmount || 0).toDecimal(),
+    vestingUnreleased: Money.of(vesting._sum.totalAmount || 0).minus(vesting._sum.releasedAmount || 0).toDecimal(),
+    loansOutstanding: loansOutstanding.toDecimal(),
+    collateralLocked: Money.of(loans._sum.collateralAmount || 0).toDecimal(),
+    propertyValue: propertyValue.toDecimal(),
+    navPerToken: navPerToken.toDecimal()
+  };
+
+  const snapshot = await prisma.fundSnapshot.upsert({
+    where: { snapshotDate },
+    create: { snapshotDate, ...totals },
+    update: totals
+  });
+
+  logger.info('Fund snapshot taken:', { snapshotDate: snapshotDate.toISOString().slice(0, 10), navPerToken: navPerToken.toString() });
+
+  return { snapshotId: snapshot.id, snapshotDate: snapshotDate.toISOString().slice(0, 10), navPerToken: navPerToken.toString() };
+};
@@ -0,0 +1,38 @@
+import { JobScheduler } from '../services/jobScheduler';
+import { settleEndedAuctions } from './auctionSettlement';
+import { trackContributionObligations } from './contributionObligations';
+import { takeFundSnapshot } from './fundSnapshot';
+import { markOverdueLoans } from './overdueLoans';
+
+/**
+ * Register the time-driven fund operations. Schedules are UTC.
+ */
+export const registerJobs = (scheduler: JobScheduler) => {
+  scheduler.register({
+    name: 'auction-settlement',
+    description: 'Close ended auctions and hand the property to the highest bidder',
+    schedule: '* * * * *',
+    handler: settleEndedAuctions
+  });
+
+  scheduler.register({
+    name: 'overdue-loans',
+    description: 'Flag active loans past their due date',
+    schedule: '0 * * * *',
+    handler: markOverdueLoans
+  });
+
+  scheduler.register({
+    name: 'fund-snapshot',
+    description: 'Record daily fund totals and the net asset value per AFJP',
+    schedule: '5 0 * * *',
+    handler: takeFundSnapshot
+  });
+
+  scheduler.register({
+    name: 'contribution-obligations',
+    description: 'Issue the monthly obligations of contribution plans and flag unpaid ones late or missed',
+    schedule: '15 0 * * *',
+    handler: trackContributionObligations
+  });
+};
@@ -0,0 +1,62 @@
+import { prisma } from '../index';
+import { JobHandler } from '../types';
+import { analyticsCache } from '../services/analyticsCache';
+import { outboxService } from '../services/outboxService';
+import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
+
+const BATCH_SIZE = 500;
+
+/**
+ * Flag active loans past their due date, once per loan. Borrowers and
+ * partners learn about it through the LoanOverdue event.
+ */
+export const markOverdueLoans: JobHandler = async () => {
+  const now = new Date();
+  const overdue = await prisma.loan.findMany({
+    where: { isActive: true, overdueAt: null, dueDate: { lt: now } },
+    include: { borrower: true },
+    orderBy: { dueDate: 'asc' },
+    take: BATCH_SIZE
+  });
+
+  let marked = 0;
+
+  for (const { borrower, ...loan } of overdue) {
+    const applied = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.loan.updateMany({
+        where: { id: loan.id, isActive: true, overdueAt: null },
+        data: { overdueAt: now }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await outboxService.record({
+        type: 'LoanOverdue',
+        aggregateType: 'loan',
+        aggregateId: loan.id,
+        data: {
+          loanId: loan.id,
+          borrower: borrower.walletAddress,
+          outstanding: Money.of(loan.borrowedAmount).toString(),
+          dueDate: loan.dueDate
+        }
+      }, tx);
+
+      return true;
+    });
+
+    if (applied) {
+      marked++;
+    }
+  }
+
+  if (marked > 0) {
+    await analyticsCache.invalidate('loans');
+    logger.info('Overdue loans marked:', { count: marked });
+  }
+
+  return { marked };
+};
@@ -3,6 +3,8 @@ import jwt from 'jsonwebtoken';
 import { prisma } from '../index';
 import { AppError } from '../types';
 import { AuthenticatedRequest } from '../types';
+import { sessionService } from '../services/sessionService';
+import { walletAuthService } from '../services/walletAuthService';
 
 export const authenticateToken = async (
   req: AuthenticatedRequest,
@@ -17,25 +19,19 @@ export const authenticateToken = async (
       throw new AppError('Access token required', 401);
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    
-    // Get user from database
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId }
-    });
-
-    if (!user) {
-      throw new AppError('User not found', 401);
-    }
+    // Rejects tokens whose session was logged out or revoked
+    const { user, sessionId } = await sessionService.verifyAccessToken(token);
 
     req.user = user;
     req.walletAddress = user.walletAddress;
+    req.sessionId = sessionId;
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      next(new AppError('Invalid token', 401));
-    } else if (error instanceof jwt.TokenExpiredError) {
+    // TokenExpiredError extends JsonWebTokenError, so it has to be checked first
+    if (error instanceof jwt.TokenExpiredError) {
       next(new AppError('Token expired', 401));
+    } else if (error instanceof jwt.JsonWebTokenError) {
+      next(new AppError('Invalid token', 401));
     } else {
       next(error);
     }
@@ -50,10 +46,12 @@ export const authenticateWallet = async (
   try {
     const signature = req.headers['x-wallet-signature'] as string;
     const address = req.headers['x-wallet-address'] as string;
-    const message = req.headers['x-wallet-message'] as string;
+    const publicKey = req.headers['x-wallet-public-key'] as string;
+    const encodedMessage = req.headers['x-wallet-message'] as string;
+    const nonce = req.headers['x-wallet-nonce'] as string;
     const timestamp = req.headers['x-wallet-timestamp'] as string;
 
-    if (!signature || !address || !message || !timestamp) {
+    if (!signature || !address || !publicKey || !encodedMessage || !nonce || !timestamp) {
       throw new AppError('Wallet authentication required', 401);
     }
 
@@ -64,10 +62,19 @@ export const authenticateWallet = async (
       throw new AppError('Request expired', 401);
     }
 
-    // TODO: Implement actual signature verification with Aptos SDK
-    // For now, we'll just check if the user exists
+    // Signed messages span several lines, so they travel base64-encoded in the header
+    const message = Buffer.from(encodedMessage, 'base64').toString('utf8');
+
+    const walletAddress = await walletAuthService.verifySignedMessage({
+      address,
+      publicKey,
+      signature,
+      message,
+      nonce
+    });
+
     const user = await prisma.user.findUnique({
-      where: { walletAddress: address }
+      where: { walletAddress }
     });
 
     if (!user) {
@@ -75,7 +82,7 @@ export const authenticateWallet = async (
     }
 
     req.user = user;
-    req.walletAddress = address;
+    req.walletAddress = walletAddress;
     next();
   } catch (error) {
     next(error);
@@ -92,15 +99,10 @@ export const optionalAuth = async (
     const token = authHeader && authHeader.split(' ')[1];
 
     if (token) {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.userId }
-      });
-
-      if (user) {
-        req.user = user;
-        req.walletAddress = user.walletAddress;
-      }
+      const { user, sessionId } = await sessionService.verifyAccessToken(token);
+      req.user = user;
+      req.walletAddress = user.walletAddress;
+      req.sessionId = sessionId;
     }
 
     next();
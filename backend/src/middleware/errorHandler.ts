@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import { config } from '../utils/config';
 import { logger } from '../utils/logger';
-import { AppError } from '../types';
+import { getRequestContext } from '../utils/requestContext';
+import { AppError, PayrollValidationError, RequestValidationError } from '../types';
 
 export const errorHandler = (
   err: Error | AppError,
@@ -69,6 +71,9 @@ export const errorHandler = (
   res.status(error.statusCode || 500).json({
     success: false,
     error: error.message || 'Server Error',
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
+    requestId: getRequestContext()?.requestId,
+    ...(err instanceof RequestValidationError && { errors: err.errors }),
+    ...(err instanceof PayrollValidationError && { rows: err.rows }),
+    ...(config.nodeEnv === 'development' && { stack: err.stack })
   });
 };
@@ -1,58 +1,24 @@
 import { Request, Response } from 'express';
-import { prisma, redis } from '../index';
+import { healthService } from '../services/healthService';
 import { logger } from '../utils/logger';
 
+/**
+ * Liveness probe, answers as long as the process serves requests
+ */
+export const liveness = (req: Request, res: Response) => {
+  res.status(200).json(healthService.live());
+};
+
+/**
+ * Readiness probe, checks every dependency. Degraded still answers 200 so
+ * the instance keeps receiving traffic; only an unhealthy database takes it out.
+ */
 export const healthCheck = async (req: Request, res: Response) => {
-  const startTime = Date.now();
-  
-  try {
-    // Check database connection
-    await prisma.$queryRaw`SELECT 1`;
-    const dbStatus = 'healthy';
-    
-    // Check Redis connection
-    await redis.ping();
-    const redisStatus = 'healthy';
-    
-    // Check Aptos connection (basic check)
-    const aptosStatus = 'healthy'; // This would be implemented with actual Aptos client
-    
-    const responseTime = Date.now() - startTime;
-    
-    const health = {
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      responseTime: `${responseTime}ms`,
-      services: {
-        database: dbStatus,
-        redis: redisStatus,
-        aptos: aptosStatus
-      },
-      version: '1.0.0',
-      environment: process.env.NODE_ENV || 'development'
-    };
-    
-    logger.info('Health check completed', { health });
-    
-    res.status(200).json(health);
-  } catch (error) {
-    logger.error('Health check failed:', error);
-    
-    const health = {
-      status: 'unhealthy',
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      error: error instanceof Error ? error.message : 'Unknown error',
-      services: {
-        database: 'unhealthy',
-        redis: 'unhealthy',
-        aptos: 'unhealthy'
-      },
-      version: '1.0.0',
-      environment: process.env.NODE_ENV || 'development'
-    };
-    
-    res.status(503).json(health);
+  const health = await healthService.ready();
+
+  if (health.status !== 'healthy') {
+    logger.warn('Health check not healthy:', { status: health.status, components: health.components });
   }
+
+  res.status(health.status === 'unhealthy' ? 503 : 200).json(health);
 };
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { Response, NextFunction, RequestHandler } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma, redis } from '../index';
+import { AppError, AuthenticatedRequest } from '../types';
+import { canonicalJson } from '../utils/canonicalJson';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+const KEY_PREFIX = 'idempotency:';
+const LOCK_TTL_SECONDS = 60;
+const RECORD_TTL_SECONDS = config.idempotencyTtlHours * 3600;
+
+// Visible ASCII only, the header is echoed into logs and cache keys
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+interface IdempotencyScope {
+  key: string;
+  owner: string;
+  method: string;
+  path: string;
+}
+
+interface StoredResponse {
+  requestHash: string;
+  statusCode: number;
+  body: unknown;
+}
+
+// Marks the middleware so the OpenAPI spec documents the header (see utils/openapi.ts)
+export type IdempotencyMiddleware = RequestHandler & { idempotent: true };
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+const hashBody = (body: unknown): string => sha256(canonicalJson(body ?? {}));
+
+const findStored = async (scope: IdempotencyScope, cacheKey: string): Promise<StoredResponse | null> => {
+  const cached = await redis.get(cacheKey);
+  if (cached) {
+    return JSON.parse(cached);
+  }
+
+  const record = await prisma.idempotencyRecord.findUnique({
+    where: { key_owner_method_path: scope }
+  });
+
+  if (!record || record.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const stored = { requestHash: record.requestHash, statusCode: record.statusCode, body: record.responseBody };
+  const ttl = Math.ceil((record.expiresAt.getTime() - Date.now()) / 1000);
+  await redis.set(cacheKey, JSON.stringify(stored), { EX: ttl });
+
+  return stored;
+};
+
+const store = async (scope: IdempotencyScope, cacheKey: string, stored: StoredResponse) => {
+  const expiresAt = new Date(Date.now() + RECORD_TTL_SECONDS * 1000);
+  const data = {
+    requestHash: stored.requestHash,
+    statusCode: stored.statusCode,
+    responseBody: (stored.body ?? null) as Prisma.InputJsonValue,
+    expiresAt
+  };
+
+  // An expired record for the same scope is replaced
+  await prisma.idempotencyRecord.upsert({
+    where: { key_owner_method_path: scope },
+    create: { ...scope, ...data },
+    update: data
+  });
+  await redis.set(cacheKey, JSON.stringify(stored), { EX: RECORD_TTL_SECONDS });
+};
+
+/**
+ * Honour the Idempotency-Key header on mutating routes. The first response
+ * for a key, caller and route is stored and replayed for retries with the
+ * same body; reusing the key with a different body is a 409. Requests
+ * without the header are not affected. Must run after authentication so the
+ * key is scoped to the wallet.
+ */
+export const idempotent: IdempotencyMiddleware = Object.assign(
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const key = req.get('Idempotency-Key');
+
+    if (key === undefined) {
+      return next();
+    }
+
+    try {
+      if (!KEY_PATTERN.test(key)) {
+        throw new AppError('Idempotency-Key must be 1 to 255 visible ASCII characters', 400);
+      }
+
+      const scope: IdempotencyScope = {
+        key,
+        owner: req.walletAddress || `ip:${req.ip}`,
+        method: req.method,
+        path: `${req.baseUrl}${req.path}`
+      };
+      const cacheKey = `${KEY_PREFIX}${sha256(JSON.stringify(scope))}`;
+      const requestHash = hashBody(req.body);
+
+      const stored = await findStored(scope, cacheKey);
+
+      if (stored) {
+        if (stored.requestHash !== requestHash) {
+          throw new AppError('Idempotency-Key was already used with a different request body', 409);
+        }
+
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(stored.statusCode).json(stored.body);
+      }
+
+      const lockKey = `${cacheKey}:lock`;
+      const locked = await redis.set(lockKey, '1', { NX: true, EX: LOCK_TTL_SECONDS });
+
+      if (!locked) {
+        throw new AppError('A request with this Idempotency-Key is still being processed', 409);
+      }
+
+      res.once('close', () => {
+        redis.del(lockKey).catch(error => logger.error('Failed to release idempotency lock:', error));
+      });
+
+      // Store the response before it is sent, so a retry can never miss it.
+      // Server errors are not stored and can be retried with the same key.
+      const send = res.json.bind(res);
+      res.json = (body: unknown) => {
+        const saved = res.statusCode < 500
+          ? store(scope, cacheKey, { requestHash, statusCode: res.statusCode, body })
+          : Promise.resolve();
+
+        saved
+          .catch(error => logger.error('Failed to store idempotent response:', { key, error }))
+          .finally(() => send(body));
+
+        return res;
+      };
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  },
+  { idempotent: true as const }
+);
@@ -0,0 +1,23 @@
+import { Response, NextFunction } from 'express';
+import { AppError, AuthenticatedRequest, KycGate } from '../types';
+import { isKycRequired } from '../services/kycService';
+
+/**
+ * Block a feature until the authenticated user's KYC is verified.
+ * Must run after authenticateWallet or authenticateToken.
+ */
+export const requireKyc = (gate: KycGate) => (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.user) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  if (isKycRequired(gate) && req.user.kycStatus !== 'verified') {
+    return next(new AppError('KYC verification required', 403));
+  }
+
+  next();
+};
@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../types';
+import { config } from '../utils/config';
+import { httpRequestDuration, registry } from '../utils/metrics';
+
+/**
+ * Record the latency and status of every request. Requests are labelled by
+ * route template, such as /api/lending/loans/:id, so IDs do not create new
+ * series; requests that match no route share the 'unmatched' label.
+ */
+export const httpMetrics = (req: Request, res: Response, next: NextFunction) => {
+  const stopTimer = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    stopTimer({
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched',
+      status_code: String(res.statusCode)
+    });
+  });
+
+  next();
+};
+
+// Compare digests so the time taken does not reveal how much of the token matched
+const sameSecret = (given: string, expected: string): boolean =>
+  crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(given).digest(),
+    crypto.createHash('sha256').update(expected).digest()
+  );
+
+/**
+ * Serve the metrics in Prometheus text format, behind a bearer token when
+ * a metrics token is configured
+ */
+export const metricsEndpoint = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = config.metricsToken;
+    if (token && !sameSecret(req.get('Authorization') || '', `Bearer ${token}`)) {
+      throw new AppError('Invalid metrics token', 401);
+    }
+
+    res.set('Content-Type', registry.contentType);
+    res.send(await registry.metrics());
+  } catch (error) {
+    next(error);
+  }
+};
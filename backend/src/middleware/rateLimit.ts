@@ -0,0 +1,88 @@
+import { Response, NextFunction, RequestHandler } from 'express';
+import { redis } from '../index';
+import { AppError, AuthenticatedRequest, RateLimitPolicyName } from '../types';
+import { rateLimitOverrideService } from '../services/rateLimitOverrideService';
+import { RATE_LIMIT_POLICIES } from '../utils/rateLimitPolicies';
+import { logger } from '../utils/logger';
+
+const KEY_PREFIX = 'ratelimit:';
+
+// Count the hit and start the window on the first one, atomically
+const HIT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+if count == 1 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return {count, redis.call('PTTL', KEYS[1])}
+`;
+
+// Marks the middleware so the OpenAPI spec documents the 429 (see utils/openapi.ts)
+export type RateLimitMiddleware = RequestHandler & { rateLimitPolicy: RateLimitPolicyName };
+
+// IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+const clientIp = (req: AuthenticatedRequest): string => (req.ip || '').replace(/^::ffff:/, '');
+
+const hit = async (key: string, windowMs: number): Promise<{ count: number; resetMs: number }> => {
+  const [count, ttl] = await redis.eval(HIT_SCRIPT, {
+    keys: [key],
+    arguments: [String(windowMs)]
+  }) as [number, number];
+
+  return { count, resetMs: ttl > 0 ? ttl : windowMs };
+};
+
+/**
+ * Limit requests per client under the named policy, counted in Redis so the
+ * budget is shared by all instances. Sets the RateLimit-* headers of the most
+ * restrictive policy on the route and answers 429 with Retry-After once the
+ * budget is spent. Wallet-keyed policies must run after authentication.
+ * If Redis is unavailable requests are let through.
+ */
+export const rateLimit = (name: RateLimitPolicyName): RateLimitMiddleware => {
+  const policy = RATE_LIMIT_POLICIES[name];
+
+  const middleware = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const subject = policy.keyBy === 'wallet' && req.walletAddress
+        ? req.walletAddress.toLowerCase()
+        : `ip:${clientIp(req)}`;
+
+      const override = await rateLimitOverrideService.find(subject, name);
+      if (override && override.maxRequests === null) {
+        return next();
+      }
+
+      const limit = override?.maxRequests ?? policy.max;
+      const { count, resetMs } = await hit(`${KEY_PREFIX}${name}:${subject}`, policy.windowMs);
+      const remaining = Math.max(limit - count, 0);
+      const resetSeconds = Math.ceil(resetMs / 1000);
+
+      // An earlier policy on the same request may have less left
+      if (res.locals.rateLimitRemaining === undefined || remaining <= res.locals.rateLimitRemaining) {
+        res.locals.rateLimitRemaining = remaining;
+        res.set({
+          'RateLimit-Policy': `${limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+          'RateLimit-Limit': String(limit),
+          'RateLimit-Remaining': String(remaining),
+          'RateLimit-Reset': String(resetSeconds)
+        });
+      }
+
+      if (count > limit) {
+        res.set('Retry-After', String(resetSeconds));
+        throw new AppError('Too many requests, please try again later', 429);
+      }
+
+      next();
+    } catch (error) {
+      if (error instanceof AppError) {
+        return next(error);
+      }
+
+      logger.error('Rate limiter unavailable, allowing request:', { policy: name, error });
+      next();
+    }
+  };
+
+  return Object.assign(middleware, { rateLimitPolicy: name });
+};
@@ -0,0 +1,71 @@
+import { Response, NextFunction } from 'express';
+import { prisma } from '../index';
+import { AppError, AuthenticatedRequest, Permission, Role } from '../types';
+import { hasPermission, isBootstrapAdmin, isRole } from '../utils/permissions';
+
+/**
+ * Load the roles of the authenticated user onto the request (once per request)
+ */
+export const loadRoles = async (req: AuthenticatedRequest): Promise<Role[]> => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  if (!req.roles) {
+    const assignments = await prisma.userRole.findMany({
+      where: { userId: req.user.id }
+    });
+
+    const roles = assignments.map(assignment => assignment.role).filter(isRole);
+    if (isBootstrapAdmin(req.user.walletAddress) && !roles.includes('admin')) {
+      roles.push('admin');
+    }
+    req.roles = roles;
+  }
+
+  return req.roles;
+};
+
+/**
+ * Require the user to hold at least one of the given roles.
+ * Must run after authenticateWallet or authenticateToken.
+ */
+export const requireRole = (...allowed: Role[]) => async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const roles = await loadRoles(req);
+
+    if (!roles.some(role => allowed.includes(role))) {
+      throw new AppError('Insufficient permissions', 403);
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Require the user to hold a role that grants the given permission.
+ * Must run after authenticateWallet or authenticateToken.
+ */
+export const requirePermission = (permission: Permission) => async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const roles = await loadRoles(req);
+
+    if (!hasPermission(roles, permission)) {
+      throw new AppError('Insufficient permissions', 403);
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
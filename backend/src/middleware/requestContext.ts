@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { runWithContext } from '../utils/requestContext';
+
+// Accept caller IDs that are safe to echo into headers and logs
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,100}$/;
+
+/**
+ * Give every request an ID, taken from X-Request-Id when the caller sent a
+ * valid one, and echo it in the response. Must run after the body parsers,
+ * so their callbacks do not lose the context.
+ *
+ * The wallet and route are read when a line is logged, because they are only
+ * known once authentication ran and the router matched.
+ */
+export const requestContext = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+
+  res.set('X-Request-Id', requestId);
+  runWithContext({
+    requestId,
+    ip: req.ip,
+    get walletAddress() {
+      return req.walletAddress;
+    },
+    get route() {
+      return req.route ? `${req.method} ${req.baseUrl}${req.route.path}` : undefined;
+    }
+  }, next);
+};
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ZodTypeAny } from 'zod';
+import { FieldError, RequestValidationError } from '../types';
+
+export interface RequestSchemas {
+  body?: ZodTypeAny;
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+}
+
+// The schemas stay attached to the middleware so the OpenAPI spec can be
+// generated from the same definitions (see utils/openapi.ts).
+export type ValidationMiddleware = RequestHandler & { schemas: RequestSchemas };
+
+const LOCATIONS: FieldError['location'][] = ['params', 'query', 'body'];
+
+/**
+ * Validate and coerce req.params, req.query and req.body against zod schemas.
+ * The parsed values replace the raw ones, so handlers receive normalized input.
+ */
+export const validate = (schemas: RequestSchemas): ValidationMiddleware => {
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const errors: FieldError[] = [];
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+
+      const result = schema.safeParse(req[location] ?? {});
+
+      if (result.success) {
+        req[location] = result.data;
+      } else {
+        errors.push(...result.error.issues.map(issue => ({
+          location,
+          field: issue.path.join('.'),
+          message: issue.message,
+          code: issue.code
+        })));
+      }
+    }
+
+    if (errors.length > 0) {
+      return next(new RequestValidationError(errors));
+    }
+
+    next();
+  };
+
+  return Object.assign(middleware, { schemas });
+};
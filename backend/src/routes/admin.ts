@@ -0,0 +1,272 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { requirePermission } from '../middleware/rbac';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
+import { adminController } from '../controllers/adminController';
+import { adminSchemas } from '../schemas/admin';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/users/{address}/roles:
+ *   get:
+ *     summary: Get the roles assigned to a user
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.get('/users/:address/roles', authenticateToken, requirePermission('roles:manage'), validate(adminSchemas.getUserRoles), adminController.getUserRoles);
+
+/**
+ * @swagger
+ * /api/admin/users/{address}/roles:
+ *   post:
+ *     summary: Grant a role to a user
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Role granted successfully
+ *       400:
+ *         description: Invalid role
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.post('/users/:address/roles', authenticateToken, requirePermission('roles:manage'), validate(adminSchemas.grantRole), idempotent, adminController.grantRole);
+
+/**
+ * @swagger
+ * /api/admin/users/{address}/roles/{role}:
+ *   delete:
+ *     summary: Revoke a role from a user
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Role revoked successfully
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User or role assignment not found
+ */
+router.delete('/users/:address/roles/:role', authenticateToken, requirePermission('roles:manage'), validate(adminSchemas.revokeRole), idempotent, adminController.revokeRole);
+
+/**
+ * @swagger
+ * /api/admin/ledger/{address}/reconcile:
+ *   get:
+ *     summary: Compare a user's token balances with the ledger journal
+ *     description: Reports, per token type, the available and locked balance derived from journal lines next to the recorded TokenBalance.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reconciliation report
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: User not found
+ */
+router.get('/ledger/:address/reconcile', authenticateToken, requirePermission('ledger:audit'), validate(adminSchemas.reconcileLedger), adminController.reconcileLedger);
+
+/**
+ * @swagger
+ * /api/admin/audit-events:
+ *   get:
+ *     summary: Query the audit trail
+ *     description: Every state-changing action, newest first, with the acting wallet, before/after snapshots, IP and request ID.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Audit events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AuditEvent'
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/audit-events', authenticateToken, requirePermission('audit:read'), validate(adminSchemas.getAuditEvents), adminController.getAuditEvents);
+
+/**
+ * @swagger
+ * /api/admin/audit-events/export:
+ *   get:
+ *     summary: Export the audit trail as CSV
+ *     description: Same filters as the query endpoint, oldest first and without pagination.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/audit-events/export', authenticateToken, requirePermission('audit:read'), validate(adminSchemas.exportAuditEvents), adminController.exportAuditEvents);
+
+/**
+ * @swagger
+ * /api/admin/audit-events/verify:
+ *   get:
+ *     summary: Verify the audit hash chain
+ *     description: Recomputes every event hash and reports the first event that was modified, removed or reordered.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         valid:
+ *                           type: boolean
+ *                         checked:
+ *                           type: integer
+ *                         brokenAt:
+ *                           type: integer
+ *                         reason:
+ *                           type: string
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/audit-events/verify', authenticateToken, requirePermission('audit:read'), adminController.verifyAuditChain);
+
+/**
+ * @swagger
+ * /api/admin/rate-limits/overrides:
+ *   get:
+ *     summary: List rate limit overrides
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Overrides retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/rate-limits/overrides', authenticateToken, requirePermission('rate_limits:manage'), adminController.getRateLimitOverrides);
+
+/**
+ * @swagger
+ * /api/admin/rate-limits/overrides:
+ *   post:
+ *     summary: Raise, lower or lift the rate limits of a wallet or IP
+ *     description: Replaces the existing override for the same subject and policy. A null maxRequests exempts the subject.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Override saved
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/rate-limits/overrides', authenticateToken, requirePermission('rate_limits:manage'), validate(adminSchemas.saveRateLimitOverride), idempotent, adminController.saveRateLimitOverride);
+
+/**
+ * @swagger
+ * /api/admin/rate-limits/overrides/{id}:
+ *   delete:
+ *     summary: Remove a rate limit override
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Override removed
+ *       404:
+ *         description: Override not found
+ */
+router.delete('/rate-limits/overrides/:id', authenticateToken, requirePermission('rate_limits:manage'), validate(adminSchemas.deleteRateLimitOverride), idempotent, adminController.deleteRateLimitOverride);
+
+/**
+ * @swagger
+ * /api/admin/jobs:
+ *   get:
+ *     summary: List background jobs
+ *     description: Registered jobs with their cron schedule (UTC), the next run this instance will queue and the last run.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Jobs retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/jobs', authenticateToken, requirePermission('jobs:manage'), adminController.getJobs);
+
+/**
+ * @swagger
+ * /api/admin/jobs/runs:
+ *   get:
+ *     summary: Query the job run history
+ *     description: Every attempt of every job, newest first, with its result or error.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Job runs retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/jobs/runs', authenticateToken, requirePermission('jobs:manage'), validate(adminSchemas.getJobRuns), adminController.getJobRuns);
+
+/**
+ * @swagger
+ * /api/admin/jobs/{name}/run:
+ *   post:
+ *     summary: Run a job now
+ *     description: Queues a run for the next scheduler pass. It still waits for the job's lock, so it never overlaps a scheduled run.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Run queued
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Job not found
+ */
+router.post('/jobs/:name/run', authenticateToken, requirePermission('jobs:manage'), validate(adminSchemas.runJob), idempotent, adminController.runJob);
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { authenticateToken, optionalAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
 import { analyticsController } from '../controllers/analyticsController';
+import { analyticsSchemas } from '../schemas/analytics';
 
 const router = Router();
 
@@ -10,14 +13,6 @@ const router = Router();
  *   get:
  *     summary: Get fund performance analytics
  *     tags: [Analytics]
- *     parameters:
- *       - in: query
- *         name: period
- *         schema:
- *           type: string
- *           enum: [1d, 7d, 30d, 90d, 1y]
- *           default: 30d
- *         description: Time period for analytics
  *     responses:
  *       200:
  *         description: Fund performance data retrieved successfully
@@ -32,11 +27,11 @@ const router = Router();
  *                       type: object
  *                       properties:
  *                         totalValue:
- *                           type: number
+ *                           type: string
  *                         totalContributions:
- *                           type: number
+ *                           type: string
  *                         totalReturns:
- *                           type: number
+ *                           type: string
  *                         returnRate:
  *                           type: number
  *                         activeUsers:
@@ -54,13 +49,13 @@ const router = Router();
  *                                 type: string
  *                                 format: date
  *                               value:
- *                                 type: number
+ *                                 type: string
  *                               contributions:
- *                                 type: number
+ *                                 type: string
  *                               returns:
- *                                 type: number
+ *                                 type: string
  */
-router.get('/fund-performance', analyticsController.getFundPerformance);
+router.get('/fund-performance', optionalAuth, rateLimit('analytics'), validate(analyticsSchemas.getFundPerformance), analyticsController.getFundPerformance);
 
 /**
  * @swagger
@@ -68,13 +63,6 @@ router.get('/fund-performance', analyticsController.getFundPerformance);
  *   get:
  *     summary: Get user portfolio analytics
  *     tags: [Analytics]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: User portfolio data retrieved successfully
@@ -89,22 +77,22 @@ router.get('/fund-performance', analyticsController.getFundPerformance);
  *                       type: object
  *                       properties:
  *                         totalValue:
- *                           type: number
+ *                           type: string
  *                         tokenBalances:
  *                           type: object
  *                           properties:
  *                             AFJP:
- *                               type: number
+ *                               type: string
  *                             JUVENTUD:
- *                               type: number
+ *                               type: string
  *                             LADRILLO:
- *                               type: number
+ *                               type: string
  *                         stakedAmount:
- *                           type: number
+ *                           type: string
  *                         pendingRewards:
- *                           type: number
+ *                           type: string
  *                         vestedAmount:
- *                           type: number
+ *                           type: string
  *                         propertyInvestments:
  *                           type: array
  *                           items:
@@ -115,24 +103,26 @@ router.get('/fund-performance', analyticsController.getFundPerformance);
  *                               propertyName:
  *                                 type: string
  *                               investmentAmount:
- *                                 type: number
+ *                                 type: string
  *                               currentValue:
- *                                 type: number
+ *                                 type: string
  *                               rentalIncome:
- *                                 type: number
+ *                                 type: string
  *                         performanceMetrics:
  *                           type: object
  *                           properties:
  *                             totalReturn:
- *                               type: number
+ *                               type: string
  *                             returnRate:
  *                               type: number
  *                             riskScore:
  *                               type: number
+ *                         contributions:
+ *                           $ref: '#/components/schemas/ContributionStats'
  *       404:
  *         description: User not found
  */
-router.get('/user-portfolio/:address', analyticsController.getUserPortfolio);
+router.get('/user-portfolio/:address', optionalAuth, rateLimit('analytics'), validate(analyticsSchemas.getUserPortfolio), analyticsController.getUserPortfolio);
 
 /**
  * @swagger
@@ -140,18 +130,6 @@ router.get('/user-portfolio/:address', analyticsController.getUserPortfolio);
  *   get:
  *     summary: Get property valuation analytics
  *     tags: [Analytics]
- *     parameters:
- *       - in: query
- *         name: propertyType
- *         schema:
- *           type: string
- *           enum: [building, home, tourism]
- *         description: Filter by property type
- *       - in: query
- *         name: location
- *         schema:
- *           type: string
- *         description: Filter by location
  *     responses:
  *       200:
  *         description: Property valuation data retrieved successfully
@@ -168,11 +146,11 @@ router.get('/user-portfolio/:address', analyticsController.getUserPortfolio);
  *                         totalProperties:
  *                           type: integer
  *                         totalValue:
- *                           type: number
+ *                           type: string
  *                         averageValue:
- *                           type: number
+ *                           type: string
  *                         medianValue:
- *                           type: number
+ *                           type: string
  *                         tokenizedProperties:
  *                           type: integer
  *                         tokenizationRate:
@@ -186,27 +164,27 @@ router.get('/user-portfolio/:address', analyticsController.getUserPortfolio);
  *                                 count:
  *                                   type: integer
  *                                 totalValue:
- *                                   type: number
+ *                                   type: string
  *                                 averageValue:
- *                                   type: number
+ *                                   type: string
  *                             home:
  *                               type: object
  *                               properties:
  *                                 count:
  *                                   type: integer
  *                                 totalValue:
- *                                   type: number
+ *                                   type: string
  *                                 averageValue:
- *                                   type: number
+ *                                   type: string
  *                             tourism:
  *                               type: object
  *                               properties:
  *                                 count:
  *                                   type: integer
  *                                 totalValue:
- *                                   type: number
+ *                                   type: string
  *                                 averageValue:
- *                                   type: number
+ *                                   type: string
  *                         topProperties:
  *                           type: array
  *                           items:
@@ -219,13 +197,13 @@ router.get('/user-portfolio/:address', analyticsController.getUserPortfolio);
  *                               location:
  *                                 type: string
  *                               value:
- *                                 type: number
+ *                                 type: string
  *                               rentalIncome:
- *                                 type: number
+ *                                 type: string
  *                               isTokenized:
  *                                 type: boolean
  */
-router.get('/property-valuations', analyticsController.getPropertyValuations);
+router.get('/property-valuations', optionalAuth, rateLimit('analytics'), validate(analyticsSchemas.getPropertyValuations), analyticsController.getPropertyValuations);
 
 /**
  * @swagger
@@ -233,14 +211,6 @@ router.get('/property-valuations', analyticsController.getPropertyValuations);
  *   get:
  *     summary: Get market trends and statistics
  *     tags: [Analytics]
- *     parameters:
- *       - in: query
- *         name: period
- *         schema:
- *           type: string
- *           enum: [1d, 7d, 30d, 90d, 1y]
- *           default: 30d
- *         description: Time period for trends
  *     responses:
  *       200:
  *         description: Market trends data retrieved successfully
@@ -289,13 +259,13 @@ router.get('/property-valuations', analyticsController.getPropertyValuations);
  *                           type: object
  *                           properties:
  *                             total:
- *                               type: number
+ *                               type: string
  *                             daily:
- *                               type: number
+ *                               type: string
  *                             weekly:
- *                               type: number
+ *                               type: string
  *                             monthly:
- *                               type: number
+ *                               type: string
  *                         activeUsers:
  *                           type: object
  *                           properties:
@@ -317,6 +287,50 @@ router.get('/property-valuations', analyticsController.getPropertyValuations);
  *                             sales:
  *                               type: integer
  */
-router.get('/market-trends', analyticsController.getMarketTrends);
+router.get('/market-trends', optionalAuth, rateLimit('analytics'), validate(analyticsSchemas.getMarketTrends), analyticsController.getMarketTrends);
+
+/**
+ * @swagger
+ * /api/analytics/fund-snapshots:
+ *   get:
+ *     summary: Get daily fund snapshots
+ *     description: Fund totals and net asset value per AFJP recorded once a day by the fund-snapshot job, newest first.
+ *     tags: [Analytics]
+ *     responses:
+ *       200:
+ *         description: Snapshots retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           date:
+ *                             type: string
+ *                             format: date
+ *                           userCount:
+ *                             type: integer
+ *                           afjpSupply:
+ *                             type: string
+ *                           totalStaked:
+ *                             type: string
+ *                           vestingUnreleased:
+ *                             type: string
+ *                           loansOutstanding:
+ *                             type: string
+ *                           collateralLocked:
+ *                             type: string
+ *                           propertyValue:
+ *                             type: string
+ *                           navPerToken:
+ *                             type: string
+ */
+router.get('/fund-snapshots', optionalAuth, rateLimit('analytics'), validate(analyticsSchemas.getFundSnapshots), analyticsController.getFundSnapshots);
 
 export default router;
@@ -1,39 +1,50 @@
 import { Router } from 'express';
 import { authenticateWallet, authenticateToken } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
 import { authController } from '../controllers/authController';
+import { authSchemas } from '../schemas/auth';
 
 const router = Router();
 
+/**
+ * @swagger
+ * /api/auth/challenge:
+ *   post:
+ *     summary: Request a single-use sign-in challenge for a wallet
+ *     tags: [Authentication]
+ *     responses:
+ *       200:
+ *         description: Challenge issued, valid for 5 minutes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         nonce:
+ *                           type: string
+ *                         message:
+ *                           type: string
+ *                         expiresAt:
+ *                           type: string
+ *                           format: date-time
+ *       400:
+ *         description: Invalid wallet address
+ */
+router.post('/challenge', rateLimit('auth'), validate(authSchemas.getChallenge), idempotent, authController.getChallenge);
+
 /**
  * @swagger
  * /api/auth/wallet-connect:
  *   post:
  *     summary: Connect wallet and authenticate user
  *     tags: [Authentication]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - walletAddress
- *               - signature
- *               - message
- *               - timestamp
- *             properties:
- *               walletAddress:
- *                 type: string
- *                 description: User's wallet address
- *               signature:
- *                 type: string
- *                 description: Wallet signature
- *               message:
- *                 type: string
- *                 description: Signed message
- *               timestamp:
- *                 type: number
- *                 description: Timestamp of the request
  *     responses:
  *       200:
  *         description: Wallet connected successfully
@@ -46,7 +57,8 @@ const router = Router();
  *       400:
  *         description: Invalid request
  */
-router.post('/wallet-connect', authController.connectWallet);
+// Not idempotent: a stored response would keep the issued tokens in plaintext
+router.post('/wallet-connect', rateLimit('auth'), validate(authSchemas.connectWallet), authController.connectWallet);
 
 /**
  * @swagger
@@ -54,52 +66,35 @@ router.post('/wallet-connect', authController.connectWallet);
  *   post:
  *     summary: Verify wallet signature
  *     tags: [Authentication]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - address
- *               - signature
- *               - message
- *             properties:
- *               address:
- *                 type: string
- *               signature:
- *                 type: string
- *               message:
- *                 type: string
  *     responses:
  *       200:
  *         description: Signature verified successfully
  *       401:
  *         description: Invalid signature
  */
-router.post('/verify-signature', authController.verifySignature);
+router.post('/verify-signature', rateLimit('auth'), validate(authSchemas.verifySignature), idempotent, authController.verifySignature);
 
 /**
  * @swagger
  * /api/auth/refresh:
  *   post:
- *     summary: Refresh authentication token
+ *     summary: Rotate a refresh token into a new token pair
+ *     description: Each refresh token can be used once. Reusing one revokes the whole session.
  *     tags: [Authentication]
- *     security:
- *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Token refreshed successfully
  *       401:
- *         description: Invalid token
+ *         description: Invalid, expired, revoked or reused refresh token
  */
-router.post('/refresh', authenticateToken, authController.refreshToken);
+// Not idempotent for the same reason as /wallet-connect
+router.post('/refresh', rateLimit('auth'), validate(authSchemas.refreshToken), authController.refreshToken);
 
 /**
  * @swagger
  * /api/auth/logout:
  *   post:
- *     summary: Logout user
+ *     summary: Logout user and revoke the current session
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
@@ -107,6 +102,65 @@ router.post('/refresh', authenticateToken, authController.refreshToken);
  *       200:
  *         description: Logged out successfully
  */
-router.post('/logout', authenticateToken, authController.logout);
+router.post('/logout', authenticateToken, idempotent, authController.logout);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List active sessions of the current user
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           userAgent:
+ *                             type: string
+ *                           ipAddress:
+ *                             type: string
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                           lastUsedAt:
+ *                             type: string
+ *                             format: date-time
+ *                           expiresAt:
+ *                             type: string
+ *                             format: date-time
+ *                           current:
+ *                             type: boolean
+ */
+router.get('/sessions', authenticateToken, authController.getSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: Revoke one of the current user's sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       404:
+ *         description: Session not found
+ */
+router.delete('/sessions/:id', authenticateToken, validate(authSchemas.revokeSession), idempotent, authController.revokeSession);
 
 export default router;
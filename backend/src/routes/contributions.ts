@@ -0,0 +1,340 @@
+import { Router } from 'express';
+import { authenticateWallet } from '../middleware/auth';
+import { requirePermission } from '../middleware/rbac';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
+import { contributionController } from '../controllers/contributionController';
+import { contributionSchemas } from '../schemas/contributions';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/contributions:
+ *   post:
+ *     summary: Contribute to the fund
+ *     description: Prices the amount into AFJP at the latest net asset value and records the contribution as pending. ARS is converted at the configured rate. Once the payment is confirmed the AFJP is minted and locked in a new vesting schedule (1 year cliff, fully vested after 5 years).
+ *     tags: [Contributions]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       201:
+ *         description: Contribution recorded, awaiting payment confirmation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Contribution'
+ *       400:
+ *         description: Contribution is too small to buy any AFJP
+ *       401:
+ *         description: Authentication required
+ */
+router.post('/', authenticateWallet, rateLimit('money'), validate(contributionSchemas.create), idempotent, contributionController.createContribution);
+
+/**
+ * @swagger
+ * /api/contributions/{id}/confirm:
+ *   post:
+ *     summary: Confirm that the payment of a contribution settled
+ *     description: Requires the contributions:confirm permission. Mints the AFJP the contribution bought to the module account, locks it in a new vesting schedule for the contributor and pays the member's oldest open plan obligation it covers.
+ *     tags: [Contributions]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       202:
+ *         description: Contribution confirmed, the mint and vesting transactions are queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/Contribution'
+ *                         - type: object
+ *                           properties:
+ *                             vestingSchedule:
+ *                               type: object
+ *                               properties:
+ *                                 scheduleId:
+ *                                   type: integer
+ *                                 startTime:
+ *                                   type: string
+ *                                   format: date-time
+ *                                 cliffTime:
+ *                                   type: string
+ *                                   format: date-time
+ *                                 endTime:
+ *                                   type: string
+ *                                   format: date-time
+ *                             transactions:
+ *                               type: object
+ *                               properties:
+ *                                 mint:
+ *                                   type: object
+ *                                 vesting:
+ *                                   type: object
+ *                             obligation:
+ *                               description: Plan obligation the contribution paid, if any
+ *                               nullable: true
+ *                               allOf:
+ *                                 - $ref: '#/components/schemas/ContributionObligation'
+ *       403:
+ *         description: Requires the contributions:confirm permission
+ *       404:
+ *         description: Contribution not found
+ *       409:
+ *         description: Contribution is not pending
+ */
+router.post('/:id/confirm', authenticateWallet, requirePermission('contributions:confirm'), validate(contributionSchemas.confirm), idempotent, contributionController.confirmContribution);
+
+/**
+ * @swagger
+ * /api/contributions/{id}/reject:
+ *   post:
+ *     summary: Reject a contribution whose payment did not settle
+ *     description: Requires the contributions:confirm permission. Nothing was minted for a pending contribution, so nothing is undone.
+ *     tags: [Contributions]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Contribution rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Contribution'
+ *       403:
+ *         description: Requires the contributions:confirm permission
+ *       404:
+ *         description: Contribution not found
+ *       409:
+ *         description: Contribution is not pending
+ */
+router.post('/:id/reject', authenticateWallet, requirePermission('contributions:confirm'), validate(contributionSchemas.reject), idempotent, contributionController.rejectContribution);
+
+/**
+ * @swagger
+ * /api/contributions/plans:
+ *   post:
+ *     summary: Start a monthly contribution plan
+ *     description: The monthly amount must be at least the configured minimum (in USD, converted for ARS). The first obligation is for the current month while its due day has not passed, otherwise for the next one. A member has at most one plan that is not cancelled.
+ *     tags: [Contributions]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       201:
+ *         description: Plan created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ContributionPlan'
+ *       400:
+ *         description: Monthly amount is below the minimum
+ *       401:
+ *         description: Authentication required
+ *       409:
+ *         description: The member already has an open plan
+ */
+router.post('/plans', authenticateWallet, validate(contributionSchemas.createPlan), idempotent, contributionController.createPlan);
+
+/**
+ * @swagger
+ * /api/contributions/plans/{address}:
+ *   get:
+ *     summary: List the contribution plans of an address, newest first
+ *     tags: [Contributions]
+ *     responses:
+ *       200:
+ *         description: Plans retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ContributionPlan'
+ *       404:
+ *         description: User not found
+ */
+router.get('/plans/:address', validate(contributionSchemas.getByAddress), contributionController.getPlans);
+
+/**
+ * @swagger
+ * /api/contributions/plans/{id}:
+ *   patch:
+ *     summary: Change the terms of a contribution plan, or pause and resume it
+ *     description: New terms apply from the next obligation. A paused plan issues no obligations.
+ *     tags: [Contributions]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Plan updated
+ *       400:
+ *         description: Monthly amount is below the minimum
+ *       404:
+ *         description: Plan not found
+ *       409:
+ *         description: Plan is cancelled
+ */
+router.patch('/plans/:id', authenticateWallet, validate(contributionSchemas.updatePlan), idempotent, contributionController.updatePlan);
+
+/**
+ * @swagger
+ * /api/contributions/plans/{id}:
+ *   delete:
+ *     summary: Cancel a contribution plan
+ *     description: Withdraws the pending obligation of the plan. Late obligations stay and are missed if left unpaid.
+ *     tags: [Contributions]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Plan cancelled
+ *       404:
+ *         description: Plan not found
+ *       409:
+ *         description: Plan is already cancelled
+ */
+router.delete('/plans/:id', authenticateWallet, validate(contributionSchemas.getPlan), idempotent, contributionController.cancelPlan);
+
+/**
+ * @swagger
+ * /api/contributions/obligations/{address}:
+ *   get:
+ *     summary: Get the monthly obligations of an address, newest first
+ *     description: An obligation is pending until its due date, late after it and missed once the grace period has passed too. A contribution pays the oldest pending or late obligation it covers.
+ *     tags: [Contributions]
+ *     responses:
+ *       200:
+ *         description: Obligations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ContributionObligation'
+ *       404:
+ *         description: User not found
+ */
+router.get('/obligations/:address', validate(contributionSchemas.getObligations), contributionController.getObligations);
+
+/**
+ * @swagger
+ * /api/contributions/stats/{address}:
+ *   get:
+ *     summary: Get the contribution streaks, coverage and next payment of an address
+ *     tags: [Contributions]
+ *     responses:
+ *       200:
+ *         description: Stats retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ContributionStats'
+ *       404:
+ *         description: User not found
+ */
+router.get('/stats/:address', validate(contributionSchemas.getByAddress), contributionController.getStats);
+
+/**
+ * @swagger
+ * /api/contributions/{address}:
+ *   get:
+ *     summary: Get the confirmed contribution history of an address by year
+ *     tags: [Contributions]
+ *     responses:
+ *       200:
+ *         description: Contribution history retrieved successfully, newest year first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         years:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               year:
+ *                                 type: integer
+ *                               monthsPaid:
+ *                                 type: integer
+ *                                 description: Calendar months (UTC) with at least one contribution
+ *                               contributionCount:
+ *                                 type: integer
+ *                               usdAmount:
+ *                                 type: string
+ *                               tokenAmount:
+ *                                 type: string
+ *                               status:
+ *                                 type: string
+ *                                 enum: [complete, in_progress, incomplete]
+ *                         totals:
+ *                           type: object
+ *                           properties:
+ *                             contributionCount:
+ *                               type: integer
+ *                             monthsPaid:
+ *                               type: integer
+ *                             usdAmount:
+ *                               type: string
+ *                             tokenAmount:
+ *                               type: string
+ *                             firstContributionAt:
+ *                               type: string
+ *                               format: date-time
+ *                               nullable: true
+ *                             lastContributionAt:
+ *                               type: string
+ *                               format: date-time
+ *                               nullable: true
+ *                         pending:
+ *                           type: array
+ *                           description: Contributions awaiting payment confirmation, not counted in the years and totals
+ *                           items:
+ *                             $ref: '#/components/schemas/Contribution'
+ *       404:
+ *         description: User not found
+ */
+router.get('/:address', validate(contributionSchemas.getByAddress), contributionController.getContributionHistory);
+
+export default router;
@@ -0,0 +1,330 @@
+import { Router } from 'express';
+import { authenticateWallet } from '../middleware/auth';
+import { requirePermission } from '../middleware/rbac';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
+import { employerController } from '../controllers/employerController';
+import { employerSchemas } from '../schemas/employers';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/employers:
+ *   post:
+ *     summary: Register an employer
+ *     description: Creates the employer with the user at managerAddress as its first manager. Of each gross salary in a payroll file, employeeRate percent is withheld from the employee and employerRate percent is added by the employer; both go into the employee's contribution.
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       201:
+ *         description: Employer created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Employer'
+ *       401:
+ *         description: Authentication required
+ *       403:
+ *         description: Requires the employers:manage permission
+ *       404:
+ *         description: Manager not found
+ *       409:
+ *         description: An employer with this CUIT already exists
+ */
+router.post('/', authenticateWallet, requirePermission('employers:manage'), validate(employerSchemas.createEmployer), idempotent, employerController.createEmployer);
+
+/**
+ * @swagger
+ * /api/employers/{id}:
+ *   get:
+ *     summary: Get an employer with its number of active employees and payroll batches
+ *     description: Available to the employer's managers and to holders of employers:manage, like every route below.
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Employer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/Employer'
+ *                         - type: object
+ *                           properties:
+ *                             employees:
+ *                               type: integer
+ *                             batches:
+ *                               type: integer
+ *       403:
+ *         description: Not a manager of this employer
+ *       404:
+ *         description: Employer not found
+ */
+router.get('/:id', authenticateWallet, validate(employerSchemas.getEmployer), employerController.getEmployer);
+
+/**
+ * @swagger
+ * /api/employers/{id}:
+ *   patch:
+ *     summary: Update an employer
+ *     description: New rates apply to payroll files uploaded afterwards. An inactive employer cannot upload payroll.
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Employer updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Employer'
+ *       403:
+ *         description: Requires the employers:manage permission
+ *       404:
+ *         description: Employer not found
+ */
+router.patch('/:id', authenticateWallet, requirePermission('employers:manage'), validate(employerSchemas.updateEmployer), idempotent, employerController.updateEmployer);
+
+/**
+ * @swagger
+ * /api/employers/{id}/members:
+ *   get:
+ *     summary: List the managers and employees of an employer
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Paginated list of members
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/EmployerMember'
+ *       403:
+ *         description: Not a manager of this employer
+ */
+router.get('/:id/members', authenticateWallet, validate(employerSchemas.getMembers), employerController.getMembers);
+
+/**
+ * @swagger
+ * /api/employers/{id}/members:
+ *   post:
+ *     summary: Add a manager or employee
+ *     description: Employees need a CUIL, which payroll rows can use to name them. A former member can be added again.
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       201:
+ *         description: Member added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/EmployerMember'
+ *       403:
+ *         description: Not a manager of this employer
+ *       404:
+ *         description: User not found
+ *       409:
+ *         description: The user is already a member, or another member has the CUIL
+ */
+router.post('/:id/members', authenticateWallet, validate(employerSchemas.addMember), idempotent, employerController.addMember);
+
+/**
+ * @swagger
+ * /api/employers/{id}/members/{memberId}:
+ *   delete:
+ *     summary: Remove a member
+ *     description: The member stays on record with leftAt set, and past payroll entries are kept.
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/EmployerMember'
+ *       403:
+ *         description: Not a manager of this employer
+ *       404:
+ *         description: Member not found
+ *       409:
+ *         description: The member is the last manager
+ */
+router.delete('/:id/members/:memberId', authenticateWallet, validate(employerSchemas.removeMember), idempotent, employerController.removeMember);
+
+/**
+ * @swagger
+ * /api/employers/{id}/payroll:
+ *   post:
+ *     summary: Upload a payroll file
+ *     description: |
+ *       The CSV has a header row with a cuil and/or wallet column, gross_salary and period (YYYY-MM), and at most 500 rows. Every row is validated: it must name an active employee, have a positive salary and a month that has started, and the employee must not have been paid for that month already, by this file or an earlier one.
+ *
+ *       Each valid row becomes a contribution of the employee and employer parts of the salary, minted and locked in a vesting schedule like any other contribution; all of them are created in one transaction. Invalid rows are skipped and reported. Uploading the same file again returns the batch it created. With dryRun the file is only validated.
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Dry run report, or the batch this file already created (duplicate is true)
+ *       201:
+ *         description: Batch processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/PayrollBatch'
+ *                         - type: object
+ *                           properties:
+ *                             duplicate:
+ *                               type: boolean
+ *       400:
+ *         description: The file is not valid CSV, misses a column, or has no rows or too many
+ *       403:
+ *         description: Not a manager of this employer
+ *       409:
+ *         description: Employer is not active
+ *       422:
+ *         description: No row is valid, the errors of each row are in `rows`
+ */
+router.post('/:id/payroll', authenticateWallet, rateLimit('money'), validate(employerSchemas.uploadPayroll), idempotent, employerController.uploadPayroll);
+
+/**
+ * @swagger
+ * /api/employers/{id}/payroll:
+ *   get:
+ *     summary: List the payroll batches of an employer, newest first
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Paginated list of batches
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/PayrollBatch'
+ *       403:
+ *         description: Not a manager of this employer
+ */
+router.get('/:id/payroll', authenticateWallet, validate(employerSchemas.getPayrollBatches), employerController.getPayrollBatches);
+
+/**
+ * @swagger
+ * /api/employers/{id}/payroll/{batchId}:
+ *   get:
+ *     summary: Get a payroll batch with the contribution of each row
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Payroll batch with its entries
+ *       403:
+ *         description: Not a manager of this employer
+ *       404:
+ *         description: Payroll batch not found
+ */
+router.get('/:id/payroll/:batchId', authenticateWallet, validate(employerSchemas.getPayrollBatch), employerController.getPayrollBatch);
+
+/**
+ * @swagger
+ * /api/employers/{id}/payroll/{batchId}/confirm:
+ *   post:
+ *     summary: Confirm the employer's payment for a payroll batch
+ *     description: Payroll contributions are recorded as pending. Once the employer's payment has settled, an operator confirms the batch, which mints every pending contribution of it and opens their vesting schedules. Contributions can also be rejected one by one through the contributions API.
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [paymentReference]
+ *             properties:
+ *               paymentReference:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       202:
+ *         description: Contributions confirmed, their chain transactions are queued
+ *       403:
+ *         description: Missing the contributions:confirm permission
+ *       404:
+ *         description: Payroll batch not found
+ *       409:
+ *         description: No contributions of the batch are awaiting payment
+ */
+router.post('/:id/payroll/:batchId/confirm', authenticateWallet, requirePermission('contributions:confirm'), validate(employerSchemas.confirmPayroll), idempotent, employerController.confirmPayroll);
+
+/**
+ * @swagger
+ * /api/employers/{id}/reconciliation:
+ *   get:
+ *     summary: Reconcile the payroll of a month
+ *     description: Lists the payroll entries of the month with their amounts and status (awaiting_payment until the batch is confirmed, rejected if the payment was, then confirmed once both the mint and the vesting transaction are, failed if either failed), totals per currency, and the employees of that month with no payroll contribution.
+ *     tags: [Employers]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Reconciliation report
+ *       403:
+ *         description: Not a manager of this employer
+ */
+router.get('/:id/reconciliation', authenticateWallet, validate(employerSchemas.getReconciliation), employerController.getReconciliation);
+
+export default router;
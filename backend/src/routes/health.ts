@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { healthCheck, liveness } from '../middleware/healthCheck';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /health/live:
+ *   get:
+ *     summary: Liveness probe, the process is serving requests
+ *     tags: [Health]
+ *     responses:
+ *       200:
+ *         description: Process is alive
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HealthReport'
+ */
+router.get('/live', liveness);
+
+/**
+ * @swagger
+ * /health/ready:
+ *   get:
+ *     summary: Readiness probe with a check per dependency
+ *     tags: [Health]
+ *     responses:
+ *       200:
+ *         description: Ready, possibly with degraded components
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HealthReport'
+ *       503:
+ *         description: The database is unavailable
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HealthReport'
+ */
+router.get('/ready', healthCheck);
+
+/**
+ * @swagger
+ * /health:
+ *   get:
+ *     summary: Same report as the readiness probe
+ *     tags: [Health]
+ *     responses:
+ *       200:
+ *         description: Ready, possibly with degraded components
+ *       503:
+ *         description: The database is unavailable
+ */
+router.get('/', healthCheck);
+
+export default router;
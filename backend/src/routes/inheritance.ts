@@ -1,6 +1,12 @@
 import { Router } from 'express';
 import { authenticateWallet, authenticateToken } from '../middleware/auth';
+import { requirePermission } from '../middleware/rbac';
+import { requireKyc } from '../middleware/kyc';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
 import { inheritanceController } from '../controllers/inheritanceController';
+import { inheritanceSchemas } from '../schemas/inheritance';
 
 const router = Router();
 
@@ -10,13 +16,6 @@ const router = Router();
  *   get:
  *     summary: Get beneficiaries for an address
  *     tags: [Inheritance]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Beneficiaries retrieved successfully
@@ -43,7 +42,7 @@ const router = Router();
  *       404:
  *         description: No beneficiaries found
  */
-router.get('/beneficiaries/:address', inheritanceController.getBeneficiaries);
+router.get('/beneficiaries/:address', validate(inheritanceSchemas.getBeneficiaries), inheritanceController.getBeneficiaries);
 
 /**
  * @swagger
@@ -53,30 +52,6 @@ router.get('/beneficiaries/:address', inheritanceController.getBeneficiaries);
  *     tags: [Inheritance]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - primary
- *               - secondary
- *               - percentages
- *             properties:
- *               primary:
- *                 type: string
- *                 description: Primary beneficiary address
- *               secondary:
- *                 type: array
- *                 items:
- *                   type: string
- *                 description: Secondary beneficiary addresses
- *               percentages:
- *                 type: array
- *                 items:
- *                   type: number
- *                 description: Distribution percentages for each beneficiary
  *     responses:
  *       200:
  *         description: Beneficiaries designated successfully
@@ -90,38 +65,32 @@ router.get('/beneficiaries/:address', inheritanceController.getBeneficiaries);
  *                     data:
  *                       type: object
  *                       properties:
- *                         transactionHash:
+ *                         primary:
  *                           type: string
+ *                         secondary:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         percentages:
+ *                           type: array
+ *                           items:
+ *                             type: number
  *       400:
  *         description: Invalid request or percentages don't add up to 100
  *       401:
  *         description: Authentication required
  */
-router.post('/designate', authenticateWallet, inheritanceController.designateBeneficiaries);
+router.post('/designate', authenticateWallet, validate(inheritanceSchemas.designateBeneficiaries), idempotent, inheritanceController.designateBeneficiaries);
 
 /**
  * @swagger
  * /api/inheritance/request:
  *   post:
  *     summary: Request inheritance for a deceased user
+ *     description: Requires verified KYC.
  *     tags: [Inheritance]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - deceasedAddress
- *             properties:
- *               deceasedAddress:
- *                 type: string
- *                 description: Address of the deceased user
- *               notes:
- *                 type: string
- *                 description: Additional notes or documentation
  *     responses:
  *       201:
  *         description: Inheritance request created successfully
@@ -137,14 +106,14 @@ router.post('/designate', authenticateWallet, inheritanceController.designateBen
  *                       properties:
  *                         requestId:
  *                           type: integer
- *                         transactionHash:
+ *                         status:
  *                           type: string
  *       400:
  *         description: Invalid request or deceased user not found
  *       401:
  *         description: Authentication required
  */
-router.post('/request', authenticateWallet, inheritanceController.requestInheritance);
+router.post('/request', authenticateWallet, requireKyc('inheritance_claims'), validate(inheritanceSchemas.requestInheritance), idempotent, inheritanceController.requestInheritance);
 
 /**
  * @swagger
@@ -152,19 +121,6 @@ router.post('/request', authenticateWallet, inheritanceController.requestInherit
  *   get:
  *     summary: Get inheritance requests for an address
  *     tags: [Inheritance]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
- *       - in: query
- *         name: status
- *         schema:
- *           type: string
- *           enum: [pending, approved, rejected]
- *         description: Filter by request status
  *     responses:
  *       200:
  *         description: Inheritance requests retrieved successfully
@@ -197,23 +153,59 @@ router.post('/request', authenticateWallet, inheritanceController.requestInherit
  *                           notes:
  *                             type: string
  */
-router.get('/requests/:address', inheritanceController.getInheritanceRequests);
+router.get('/requests/:address', validate(inheritanceSchemas.getInheritanceRequests), inheritanceController.getInheritanceRequests);
+
+/**
+ * @swagger
+ * /api/inheritance/requests/{requestId}/approve:
+ *   post:
+ *     summary: Approve a pending inheritance request
+ *     description: Requires the inheritance_approver or admin role.
+ *     tags: [Inheritance]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Request approved
+ *       400:
+ *         description: Request is not pending
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Request not found
+ */
+router.post('/requests/:requestId/approve', authenticateWallet, requirePermission('inheritance:review'), validate(inheritanceSchemas.approveInheritance), idempotent, inheritanceController.approveInheritance);
+
+/**
+ * @swagger
+ * /api/inheritance/requests/{requestId}/reject:
+ *   post:
+ *     summary: Reject a pending inheritance request
+ *     description: Requires the inheritance_approver or admin role.
+ *     tags: [Inheritance]
+ *     security:
+ *       - walletAuth: []
+ *     responses:
+ *       200:
+ *         description: Request rejected
+ *       400:
+ *         description: Request is not pending or reason missing
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Request not found
+ */
+router.post('/requests/:requestId/reject', authenticateWallet, requirePermission('inheritance:review'), validate(inheritanceSchemas.rejectInheritance), idempotent, inheritanceController.rejectInheritance);
 
 /**
  * @swagger
  * /api/inheritance/execute/{requestId}:
  *   post:
  *     summary: Execute inheritance for an approved request
+ *     description: Requires verified KYC.
  *     tags: [Inheritance]
  *     security:
  *       - walletAuth: []
- *     parameters:
- *       - in: path
- *         name: requestId
- *         required: true
- *         schema:
- *           type: integer
- *         description: Inheritance request ID
  *     responses:
  *       200:
  *         description: Inheritance executed successfully
@@ -227,7 +219,9 @@ router.get('/requests/:address', inheritanceController.getInheritanceRequests);
  *                     data:
  *                       type: object
  *                       properties:
- *                         transactionHash:
+ *                         requestId:
+ *                           type: integer
+ *                         status:
  *                           type: string
  *                         distributedAmount:
  *                           type: number
@@ -238,6 +232,6 @@ router.get('/requests/:address', inheritanceController.getInheritanceRequests);
  *       404:
  *         description: Request not found
  */
-router.post('/execute/:requestId', authenticateWallet, inheritanceController.executeInheritance);
+router.post('/execute/:requestId', authenticateWallet, rateLimit('money'), requireKyc('inheritance_claims'), validate(inheritanceSchemas.executeInheritance), idempotent, inheritanceController.executeInheritance);
 
 export default router;
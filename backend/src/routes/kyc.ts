@@ -0,0 +1,108 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { requirePermission } from '../middleware/rbac';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
+import { kycController } from '../controllers/kycController';
+import { kycSchemas } from '../schemas/kyc';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/kyc/submissions:
+ *   post:
+ *     summary: Submit identity data and document references for KYC
+ *     tags: [KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: KYC submitted
+ *       400:
+ *         description: Invalid request
+ *       409:
+ *         description: KYC already submitted or verified
+ */
+router.post('/submissions', authenticateToken, validate(kycSchemas.submitKyc), idempotent, kycController.submitKyc);
+
+/**
+ * @swagger
+ * /api/kyc/status:
+ *   get:
+ *     summary: Get the KYC status of the current user
+ *     tags: [KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: KYC status retrieved successfully
+ */
+router.get('/status', authenticateToken, kycController.getKycStatus);
+
+/**
+ * @swagger
+ * /api/kyc/review-queue:
+ *   get:
+ *     summary: Get KYC submissions waiting for review
+ *     description: Requires the kyc_reviewer or admin role.
+ *     tags: [KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Review queue retrieved successfully
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/review-queue', authenticateToken, requirePermission('kyc:review'), validate(kycSchemas.getReviewQueue), kycController.getReviewQueue);
+
+/**
+ * @swagger
+ * /api/kyc/submissions/{id}/start-review:
+ *   post:
+ *     summary: Take a KYC submission into review
+ *     tags: [KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Submission under review
+ *       409:
+ *         description: Invalid status transition
+ */
+router.post('/submissions/:id/start-review', authenticateToken, requirePermission('kyc:review'), validate(kycSchemas.reviewSubmission), idempotent, kycController.startReview);
+
+/**
+ * @swagger
+ * /api/kyc/submissions/{id}/approve:
+ *   post:
+ *     summary: Approve a KYC submission and verify the user
+ *     tags: [KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User verified
+ *       409:
+ *         description: Invalid status transition
+ */
+router.post('/submissions/:id/approve', authenticateToken, requirePermission('kyc:review'), validate(kycSchemas.reviewSubmission), idempotent, kycController.approveKyc);
+
+/**
+ * @swagger
+ * /api/kyc/submissions/{id}/reject:
+ *   post:
+ *     summary: Reject a KYC submission
+ *     tags: [KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Submission rejected
+ *       409:
+ *         description: Invalid status transition
+ */
+router.post('/submissions/:id/reject', authenticateToken, requirePermission('kyc:review'), validate(kycSchemas.rejectSubmission), idempotent, kycController.rejectKyc);
+
+export default router;
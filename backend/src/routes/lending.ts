@@ -1,6 +1,12 @@
 import { Router } from 'express';
 import { authenticateWallet, authenticateToken } from '../middleware/auth';
+import { requirePermission } from '../middleware/rbac';
+import { requireKyc } from '../middleware/kyc';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
 import { lendingController } from '../controllers/lendingController';
+import { lendingSchemas } from '../schemas/lending';
 
 const router = Router();
 
@@ -10,19 +16,6 @@ const router = Router();
  *   get:
  *     summary: Get loans for an address
  *     tags: [Lending]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
- *       - in: query
- *         name: status
- *         schema:
- *           type: string
- *           enum: [active, completed, liquidated]
- *         description: Filter by loan status
  *     responses:
  *       200:
  *         description: Loans retrieved successfully
@@ -55,32 +48,17 @@ const router = Router();
  *                           isActive:
  *                             type: boolean
  */
-router.get('/loans/:address', lendingController.getLoans);
+router.get('/loans/:address', validate(lendingSchemas.getLoans), lendingController.getLoans);
 
 /**
  * @swagger
  * /api/lending/create-loan:
  *   post:
  *     summary: Create a new loan
+ *     description: Requires verified KYC.
  *     tags: [Lending]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - collateralAmount
- *               - borrowAmount
- *             properties:
- *               collateralAmount:
- *                 type: number
- *                 description: Amount of collateral to provide
- *               borrowAmount:
- *                 type: number
- *                 description: Amount to borrow
  *     responses:
  *       201:
  *         description: Loan created successfully
@@ -96,14 +74,23 @@ router.get('/loans/:address', lendingController.getLoans);
  *                       properties:
  *                         loanId:
  *                           type: integer
- *                         transactionHash:
+ *                         collateralAmount:
+ *                           type: number
+ *                         borrowedAmount:
+ *                           type: number
+ *                         interestRate:
+ *                           type: number
+ *                         dueDate:
  *                           type: string
+ *                           format: date-time
  *       400:
  *         description: Invalid request or insufficient collateral
  *       401:
  *         description: Authentication required
+ *       403:
+ *         description: KYC verification required
  */
-router.post('/create-loan', authenticateWallet, lendingController.createLoan);
+router.post('/create-loan', authenticateWallet, rateLimit('money'), requireKyc('lending'), validate(lendingSchemas.createLoan), idempotent, lendingController.createLoan);
 
 /**
  * @swagger
@@ -113,22 +100,6 @@ router.post('/create-loan', authenticateWallet, lendingController.createLoan);
  *     tags: [Lending]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - loanId
- *               - amount
- *             properties:
- *               loanId:
- *                 type: integer
- *                 description: Loan ID to repay
- *               amount:
- *                 type: number
- *                 description: Amount to repay
  *     responses:
  *       200:
  *         description: Loan repaid successfully
@@ -142,8 +113,10 @@ router.post('/create-loan', authenticateWallet, lendingController.createLoan);
  *                     data:
  *                       type: object
  *                       properties:
- *                         transactionHash:
- *                           type: string
+ *                         loanId:
+ *                           type: integer
+ *                         repaidAmount:
+ *                           type: number
  *                         remainingBalance:
  *                           type: number
  *       400:
@@ -151,7 +124,7 @@ router.post('/create-loan', authenticateWallet, lendingController.createLoan);
  *       401:
  *         description: Authentication required
  */
-router.post('/repay', authenticateWallet, lendingController.repayLoan);
+router.post('/repay', authenticateWallet, rateLimit('money'), validate(lendingSchemas.repayLoan), idempotent, lendingController.repayLoan);
 
 /**
  * @swagger
@@ -159,13 +132,6 @@ router.post('/repay', authenticateWallet, lendingController.repayLoan);
  *   get:
  *     summary: Get collateral information for an address
  *     tags: [Lending]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Collateral information retrieved successfully
@@ -188,28 +154,17 @@ router.post('/repay', authenticateWallet, lendingController.repayLoan);
  *                         collateralizationRatio:
  *                           type: number
  */
-router.get('/collateral/:address', lendingController.getCollateral);
+router.get('/collateral/:address', validate(lendingSchemas.getCollateral), lendingController.getCollateral);
 
 /**
  * @swagger
  * /api/lending/liquidate:
  *   post:
  *     summary: Liquidate collateral for a loan
+ *     description: Requires the admin role.
  *     tags: [Lending]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - loanId
- *             properties:
- *               loanId:
- *                 type: integer
- *                 description: Loan ID to liquidate
  *     responses:
  *       200:
  *         description: Collateral liquidated successfully
@@ -217,7 +172,9 @@ router.get('/collateral/:address', lendingController.getCollateral);
  *         description: Invalid loan ID or loan not eligible for liquidation
  *       401:
  *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
  */
-router.post('/liquidate', authenticateWallet, lendingController.liquidateCollateral);
+router.post('/liquidate', authenticateWallet, rateLimit('money'), requirePermission('loans:liquidate'), validate(lendingSchemas.liquidate), idempotent, lendingController.liquidateCollateral);
 
 export default router;
@@ -1,6 +1,12 @@
 import { Router } from 'express';
 import { authenticateWallet, authenticateToken, optionalAuth } from '../middleware/auth';
+import { requirePermission } from '../middleware/rbac';
+import { requireKyc } from '../middleware/kyc';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
 import { propertyController } from '../controllers/propertyController';
+import { propertySchemas } from '../schemas/properties';
 
 const router = Router();
 
@@ -10,30 +16,6 @@ const router = Router();
  *   get:
  *     summary: Get all properties
  *     tags: [Properties]
- *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *         description: Page number
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 10
- *         description: Number of items per page
- *       - in: query
- *         name: propertyType
- *         schema:
- *           type: string
- *           enum: [building, home, tourism]
- *         description: Filter by property type
- *       - in: query
- *         name: isTokenized
- *         schema:
- *           type: boolean
- *         description: Filter by tokenization status
  *     responses:
  *       200:
  *         description: Properties retrieved successfully
@@ -60,74 +42,17 @@ const router = Router();
  *                         totalPages:
  *                           type: integer
  */
-router.get('/', propertyController.getProperties);
-
-/**
- * @swagger
- * /api/properties/{id}:
- *   get:
- *     summary: Get property by ID
- *     tags: [Properties]
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: Property ID
- *     responses:
- *       200:
- *         description: Property retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               allOf:
- *                 - $ref: '#/components/schemas/ApiResponse'
- *                 - type: object
- *                   properties:
- *                     data:
- *                       $ref: '#/components/schemas/Property'
- *       404:
- *         description: Property not found
- */
-router.get('/:id', propertyController.getPropertyById);
+router.get('/', validate(propertySchemas.getProperties), propertyController.getProperties);
 
 /**
  * @swagger
  * /api/properties/register:
  *   post:
  *     summary: Register a new property
+ *     description: Requires the property_manager or admin role.
  *     tags: [Properties]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - name
- *               - location
- *               - propertyType
- *               - value
- *             properties:
- *               name:
- *                 type: string
- *                 description: Property name
- *               location:
- *                 type: string
- *                 description: Property location
- *               propertyType:
- *                 type: string
- *                 enum: [building, home, tourism]
- *                 description: Type of property
- *               value:
- *                 type: number
- *                 description: Property value
- *               rentalIncome:
- *                 type: number
- *                 description: Monthly rental income
  *     responses:
  *       201:
  *         description: Property registered successfully
@@ -143,39 +68,24 @@ router.get('/:id', propertyController.getPropertyById);
  *                       properties:
  *                         propertyId:
  *                           type: integer
- *                         transactionHash:
- *                           type: string
  *       400:
  *         description: Invalid request data
  *       401:
  *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
  */
-router.post('/register', authenticateWallet, propertyController.registerProperty);
+router.post('/register', authenticateWallet, requirePermission('properties:register'), validate(propertySchemas.registerProperty), idempotent, propertyController.registerProperty);
 
 /**
  * @swagger
  * /api/properties/tokenize:
  *   post:
  *     summary: Tokenize a property
+ *     description: Requires the property_manager or admin role and verified KYC.
  *     tags: [Properties]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - propertyId
- *               - fractions
- *             properties:
- *               propertyId:
- *                 type: integer
- *                 description: Property ID to tokenize
- *               fractions:
- *                 type: integer
- *                 description: Number of fractions to create
  *     responses:
  *       200:
  *         description: Property tokenized successfully
@@ -189,16 +99,18 @@ router.post('/register', authenticateWallet, propertyController.registerProperty
  *                     data:
  *                       type: object
  *                       properties:
- *                         tokenId:
- *                           type: string
- *                         transactionHash:
- *                           type: string
+ *                         propertyId:
+ *                           type: integer
+ *                         fractions:
+ *                           type: integer
  *       400:
  *         description: Invalid request or property already tokenized
  *       401:
  *         description: Authentication required
+ *       403:
+ *         description: Insufficient permissions
  */
-router.post('/tokenize', authenticateWallet, propertyController.tokenizeProperty);
+router.post('/tokenize', authenticateWallet, requirePermission('properties:tokenize'), requireKyc('property_tokenization'), validate(propertySchemas.tokenizeProperty), idempotent, propertyController.tokenizeProperty);
 
 /**
  * @swagger
@@ -206,24 +118,34 @@ router.post('/tokenize', authenticateWallet, propertyController.tokenizeProperty
  *   get:
  *     summary: Get active property auctions
  *     tags: [Properties]
- *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *         description: Page number
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 10
- *         description: Number of items per page
  *     responses:
  *       200:
  *         description: Auctions retrieved successfully
  */
-router.get('/auctions', propertyController.getAuctions);
+router.get('/auctions', validate(propertySchemas.getAuctions), propertyController.getAuctions);
+
+/**
+ * @swagger
+ * /api/properties/{id}:
+ *   get:
+ *     summary: Get property by ID
+ *     tags: [Properties]
+ *     responses:
+ *       200:
+ *         description: Property retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/Property'
+ *       404:
+ *         description: Property not found
+ */
+router.get('/:id', validate(propertySchemas.getPropertyById), propertyController.getPropertyById);
 
 /**
  * @swagger
@@ -233,25 +155,6 @@ router.get('/auctions', propertyController.getAuctions);
  *     tags: [Properties]
  *     security:
  *       - walletAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: integer
- *         description: Auction ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - bidAmount
- *             properties:
- *               bidAmount:
- *                 type: number
- *                 description: Bid amount
  *     responses:
  *       200:
  *         description: Bid placed successfully
@@ -260,7 +163,7 @@ router.get('/auctions', propertyController.getAuctions);
  *       401:
  *         description: Authentication required
  */
-router.post('/auctions/:id/bid', authenticateWallet, propertyController.placeBid);
+router.post('/auctions/:id/bid', authenticateWallet, rateLimit('money'), validate(propertySchemas.placeBid), idempotent, propertyController.placeBid);
 
 /**
  * @swagger
@@ -268,17 +171,10 @@ router.post('/auctions/:id/bid', authenticateWallet, propertyController.placeBid
  *   get:
  *     summary: Get rental income for an address
  *     tags: [Properties]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Rental income retrieved successfully
  */
-router.get('/rental-income/:address', propertyController.getRentalIncome);
+router.get('/rental-income/:address', validate(propertySchemas.getRentalIncome), propertyController.getRentalIncome);
 
 export default router;
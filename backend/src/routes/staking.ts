@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { authenticateWallet, authenticateToken } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
 import { stakingController } from '../controllers/stakingController';
+import { stakingSchemas } from '../schemas/staking';
 
 const router = Router();
 
@@ -10,13 +14,6 @@ const router = Router();
  *   get:
  *     summary: Get staking information for an address
  *     tags: [Staking]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Staking information retrieved successfully
@@ -44,7 +41,7 @@ const router = Router();
  *       404:
  *         description: No staking information found
  */
-router.get('/info/:address', stakingController.getStakingInfo);
+router.get('/info/:address', validate(stakingSchemas.getByAddress), stakingController.getStakingInfo);
 
 /**
  * @swagger
@@ -54,20 +51,8 @@ router.get('/info/:address', stakingController.getStakingInfo);
  *     tags: [Staking]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - amount
- *             properties:
- *               amount:
- *                 type: number
- *                 description: Amount to stake
  *     responses:
- *       200:
+ *       202:
  *         description: Tokens staked successfully
  *         content:
  *           application/json:
@@ -79,7 +64,9 @@ router.get('/info/:address', stakingController.getStakingInfo);
  *                     data:
  *                       type: object
  *                       properties:
- *                         transactionHash:
+ *                         transactionId:
+ *                           type: integer
+ *                         status:
  *                           type: string
  *                         stakedAmount:
  *                           type: number
@@ -88,7 +75,7 @@ router.get('/info/:address', stakingController.getStakingInfo);
  *       401:
  *         description: Authentication required
  */
-router.post('/stake', authenticateWallet, stakingController.stakeTokens);
+router.post('/stake', authenticateWallet, rateLimit('money'), validate(stakingSchemas.stake), idempotent, stakingController.stakeTokens);
 
 /**
  * @swagger
@@ -98,18 +85,6 @@ router.post('/stake', authenticateWallet, stakingController.stakeTokens);
  *     tags: [Staking]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - amount
- *             properties:
- *               amount:
- *                 type: number
- *                 description: Amount to unstake
  *     responses:
  *       200:
  *         description: Tokens unstaked successfully
@@ -118,7 +93,7 @@ router.post('/stake', authenticateWallet, stakingController.stakeTokens);
  *       401:
  *         description: Authentication required
  */
-router.post('/unstake', authenticateWallet, stakingController.unstakeTokens);
+router.post('/unstake', authenticateWallet, rateLimit('money'), validate(stakingSchemas.unstake), idempotent, stakingController.unstakeTokens);
 
 /**
  * @swagger
@@ -129,7 +104,7 @@ router.post('/unstake', authenticateWallet, stakingController.unstakeTokens);
  *     security:
  *       - walletAuth: []
  *     responses:
- *       200:
+ *       202:
  *         description: Rewards claimed successfully
  *         content:
  *           application/json:
@@ -141,7 +116,9 @@ router.post('/unstake', authenticateWallet, stakingController.unstakeTokens);
  *                     data:
  *                       type: object
  *                       properties:
- *                         transactionHash:
+ *                         transactionId:
+ *                           type: integer
+ *                         status:
  *                           type: string
  *                         claimedAmount:
  *                           type: number
@@ -150,7 +127,7 @@ router.post('/unstake', authenticateWallet, stakingController.unstakeTokens);
  *       401:
  *         description: Authentication required
  */
-router.post('/claim-rewards', authenticateWallet, stakingController.claimRewards);
+router.post('/claim-rewards', authenticateWallet, rateLimit('money'), idempotent, stakingController.claimRewards);
 
 /**
  * @swagger
@@ -158,13 +135,6 @@ router.post('/claim-rewards', authenticateWallet, stakingController.claimRewards
  *   get:
  *     summary: Get pending rewards for an address
  *     tags: [Staking]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Pending rewards retrieved successfully
@@ -188,6 +158,6 @@ router.post('/claim-rewards', authenticateWallet, stakingController.claimRewards
  *                           type: string
  *                           format: date-time
  */
-router.get('/rewards/:address', stakingController.getPendingRewards);
+router.get('/rewards/:address', validate(stakingSchemas.getByAddress), stakingController.getPendingRewards);
 
 export default router;
@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { authenticateWallet, authenticateToken } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
 import { tokenController } from '../controllers/tokenController';
+import { tokenSchemas } from '../schemas/tokens';
 
 const router = Router();
 
@@ -10,13 +14,6 @@ const router = Router();
  *   get:
  *     summary: Get AFJP token balance for an address
  *     tags: [Tokens]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Token balance retrieved successfully
@@ -32,7 +29,7 @@ const router = Router();
  *       404:
  *         description: Address not found
  */
-router.get('/afjp/balance/:address', tokenController.getAFJPBalance);
+router.get('/afjp/balance/:address', validate(tokenSchemas.getBalance), tokenController.getAFJPBalance);
 
 /**
  * @swagger
@@ -40,18 +37,11 @@ router.get('/afjp/balance/:address', tokenController.getAFJPBalance);
  *   get:
  *     summary: Get Juventud token balance for an address
  *     tags: [Tokens]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Token balance retrieved successfully
  */
-router.get('/juventud/balance/:address', tokenController.getJuventudBalance);
+router.get('/juventud/balance/:address', validate(tokenSchemas.getBalance), tokenController.getJuventudBalance);
 
 /**
  * @swagger
@@ -59,18 +49,11 @@ router.get('/juventud/balance/:address', tokenController.getJuventudBalance);
  *   get:
  *     summary: Get Ladrillo token balance for an address
  *     tags: [Tokens]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Token balance retrieved successfully
  */
-router.get('/ladrillo/balance/:address', tokenController.getLadrilloBalance);
+router.get('/ladrillo/balance/:address', validate(tokenSchemas.getBalance), tokenController.getLadrilloBalance);
 
 /**
  * @swagger
@@ -80,31 +63,15 @@ router.get('/ladrillo/balance/:address', tokenController.getLadrilloBalance);
  *     tags: [Tokens]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - to
- *               - amount
- *             properties:
- *               to:
- *                 type: string
- *                 description: Recipient address
- *               amount:
- *                 type: number
- *                 description: Amount to transfer
  *     responses:
- *       200:
- *         description: Transfer successful
+ *       202:
+ *         description: Transfer queued
  *       400:
  *         description: Invalid request
  *       401:
  *         description: Authentication required
  */
-router.post('/afjp/transfer', authenticateWallet, tokenController.transferAFJP);
+router.post('/afjp/transfer', authenticateWallet, rateLimit('money'), validate(tokenSchemas.transfer), idempotent, tokenController.transferAFJP);
 
 /**
  * @swagger
@@ -114,23 +81,11 @@ router.post('/afjp/transfer', authenticateWallet, tokenController.transferAFJP);
  *     tags: [Tokens]
  *     security:
  *       - walletAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - amount
- *             properties:
- *               amount:
- *                 type: number
- *                 description: Amount to burn
  *     responses:
- *       200:
- *         description: Burn successful
+ *       202:
+ *         description: Burn queued
  */
-router.post('/afjp/burn', authenticateWallet, tokenController.burnAFJP);
+router.post('/afjp/burn', authenticateWallet, rateLimit('money'), validate(tokenSchemas.burn), idempotent, tokenController.burnAFJP);
 
 /**
  * @swagger
@@ -138,35 +93,10 @@ router.post('/afjp/burn', authenticateWallet, tokenController.burnAFJP);
  *   get:
  *     summary: Get transaction history for an address
  *     tags: [Tokens]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           default: 1
- *         description: Page number
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 10
- *         description: Number of items per page
- *       - in: query
- *         name: tokenType
- *         schema:
- *           type: string
- *           enum: [AFJP, JUVENTUD, LADRILLO]
- *         description: Filter by token type
  *     responses:
  *       200:
  *         description: Transaction history retrieved successfully
  */
-router.get('/transactions/:address', tokenController.getTransactions);
+router.get('/transactions/:address', validate(tokenSchemas.getTransactions), tokenController.getTransactions);
 
 export default router;
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
+import { transactionController } from '../controllers/transactionController';
+import { transactionSchemas } from '../schemas/transactions';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/transactions/{id}/status:
+ *   get:
+ *     summary: Get the status of a queued on-chain transaction
+ *     description: Operations that write to the chain respond with a transactionId. Transactions the user signs start as awaiting_signature and carry the entry function payload to sign; the operator's start as pending. A transaction moves to submitted once the node accepts it and ends as confirmed or failed; failed transactions carry the VM status or submission error.
+ *     tags: [Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Transaction status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ChainTransaction'
+ *       404:
+ *         description: Transaction not found
+ */
+router.get('/:id/status', authenticateToken, validate(transactionSchemas.getStatus), transactionController.getTransactionStatus);
+
+/**
+ * @swagger
+ * /api/transactions/{id}/submit:
+ *   post:
+ *     summary: Submit the signed transaction for a transaction awaiting the user's signature
+ *     description: Sign the payload from the status endpoint with the requesting wallet and send the BCS-encoded signed transaction. It must call the queued function with the queued arguments. If the node rejects it, sign again; the transaction fails after the configured attempts or when it is not signed in time.
+ *     tags: [Transactions]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Transaction submitted to the node
+ *       400:
+ *         description: Invalid signed transaction, or it does not match the queued transaction
+ *       404:
+ *         description: Transaction not found
+ *       409:
+ *         description: Transaction is not awaiting a signature
+ */
+router.post('/:id/submit', authenticateToken, rateLimit('money'), validate(transactionSchemas.submitSigned), idempotent, transactionController.submitSignedTransaction);
+
+export default router;
@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { authenticateWallet, authenticateToken } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
 import { vestingController } from '../controllers/vestingController';
+import { vestingSchemas } from '../schemas/vesting';
 
 const router = Router();
 
@@ -8,15 +12,9 @@ const router = Router();
  * @swagger
  * /api/vesting/schedule/{address}:
  *   get:
- *     summary: Get vesting schedule for an address
+ *     summary: Get the combined vesting schedule for an address
+ *     description: Totals across all active vesting schedules of the address
  *     tags: [Vesting]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Vesting schedule retrieved successfully
@@ -30,38 +28,115 @@ const router = Router();
  *                     data:
  *                       type: object
  *                       properties:
+ *                         scheduleCount:
+ *                           type: integer
  *                         totalAmount:
- *                           type: number
+ *                           type: string
  *                         releasedAmount:
- *                           type: number
+ *                           type: string
+ *                         vestedAmount:
+ *                           type: string
+ *                         releasableAmount:
+ *                           type: string
  *                         remainingAmount:
+ *                           type: string
+ *                         vestingProgress:
  *                           type: number
- *                         startTime:
+ *                           description: Percentage of vesting completed, weighted by amount
+ *                         nextUnlockAt:
  *                           type: string
  *                           format: date-time
- *                         endTime:
+ *                           nullable: true
+ *                           description: When more tokens become releasable, now while schedules vest and null once all are fully vested
+ *                         startTime:
  *                           type: string
  *                           format: date-time
- *                         cliffTime:
+ *                           description: Start of the oldest schedule
+ *                         endTime:
  *                           type: string
  *                           format: date-time
+ *                           description: When the last schedule is fully vested
  *                         isActive:
  *                           type: boolean
  *       404:
  *         description: No vesting schedule found
  */
-router.get('/schedule/:address', vestingController.getVestingSchedule);
+router.get('/schedule/:address', validate(vestingSchemas.getByAddress), vestingController.getVestingSchedule);
+
+/**
+ * @swagger
+ * /api/vesting/schedules/{address}:
+ *   get:
+ *     summary: List the vesting schedules of an address
+ *     description: Every contribution vests on its own schedule. The summary covers all active schedules, not only the page.
+ *     tags: [Vesting]
+ *     responses:
+ *       200:
+ *         description: Vesting schedules retrieved successfully, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         summary:
+ *                           type: object
+ *                         schedules:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               scheduleId:
+ *                                 type: integer
+ *                               curveType:
+ *                                 type: string
+ *                                 enum: [linear, monthly_step, graded_yearly, all_at_end, custom]
+ *                               totalAmount:
+ *                                 type: string
+ *                               releasedAmount:
+ *                                 type: string
+ *                               vestedAmount:
+ *                                 type: string
+ *                               releasableAmount:
+ *                                 type: string
+ *                               remainingAmount:
+ *                                 type: string
+ *                               startTime:
+ *                                 type: string
+ *                                 format: date-time
+ *                               endTime:
+ *                                 type: string
+ *                                 format: date-time
+ *                               cliffTime:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *                               vestingProgress:
+ *                                 type: number
+ *                               nextUnlockAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                                 nullable: true
+ *       404:
+ *         description: User not found
+ */
+router.get('/schedules/:address', validate(vestingSchemas.getSchedules), vestingController.getVestingSchedules);
 
 /**
  * @swagger
  * /api/vesting/release:
  *   post:
  *     summary: Release vested tokens
+ *     description: Releases what has vested on every active schedule in one transaction
  *     tags: [Vesting]
  *     security:
  *       - walletAuth: []
  *     responses:
- *       200:
+ *       202:
  *         description: Vested tokens released successfully
  *         content:
  *           application/json:
@@ -73,30 +148,46 @@ router.get('/schedule/:address', vestingController.getVestingSchedule);
  *                     data:
  *                       type: object
  *                       properties:
- *                         transactionHash:
+ *                         transactionId:
+ *                           type: integer
+ *                         status:
  *                           type: string
  *                         releasedAmount:
- *                           type: number
+ *                           type: string
+ *                         remainingAmount:
+ *                           type: string
+ *                         nextUnlockAt:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ *                         schedules:
+ *                           type: array
+ *                           description: Schedules tokens were released from
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               scheduleId:
+ *                                 type: integer
+ *                               releasedAmount:
+ *                                 type: string
+ *                               remainingAmount:
+ *                                 type: string
  *       400:
  *         description: No tokens available for release
  *       401:
  *         description: Authentication required
+ *       409:
+ *         description: Tokens were released concurrently
  */
-router.post('/release', authenticateWallet, vestingController.releaseVestedTokens);
+router.post('/release', authenticateWallet, rateLimit('money'), idempotent, vestingController.releaseVestedTokens);
 
 /**
  * @swagger
  * /api/vesting/calculate/{address}:
  *   get:
  *     summary: Calculate vested amount for an address
+ *     description: Totals across all active vesting schedules of the address
  *     tags: [Vesting]
- *     parameters:
- *       - in: path
- *         name: address
- *         required: true
- *         schema:
- *           type: string
- *         description: Wallet address
  *     responses:
  *       200:
  *         description: Vested amount calculated successfully
@@ -110,18 +201,27 @@ router.post('/release', authenticateWallet, vestingController.releaseVestedToken
  *                     data:
  *                       type: object
  *                       properties:
- *                         vestedAmount:
- *                           type: number
+ *                         scheduleCount:
+ *                           type: integer
  *                         totalAmount:
- *                           type: number
+ *                           type: string
  *                         releasedAmount:
- *                           type: number
+ *                           type: string
+ *                         vestedAmount:
+ *                           type: string
+ *                         releasableAmount:
+ *                           type: string
  *                         remainingAmount:
- *                           type: number
+ *                           type: string
  *                         vestingProgress:
  *                           type: number
- *                           description: Percentage of vesting completed
+ *                           description: Percentage of vesting completed, weighted by amount
+ *                         nextUnlockAt:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ *                           description: When more tokens become releasable, now while schedules vest and null once all are fully vested
  */
-router.get('/calculate/:address', vestingController.calculateVestedAmount);
+router.get('/calculate/:address', validate(vestingSchemas.getByAddress), vestingController.calculateVestedAmount);
 
 export default router;
@@ -0,0 +1,165 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { requirePermission } from '../middleware/rbac';
+import { validate } from '../middleware/validation';
+import { idempotent } from '../middleware/idempotency';
+import { webhookController } from '../controllers/webhookController';
+import { webhookSchemas } from '../schemas/webhooks';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/webhooks/subscriptions:
+ *   get:
+ *     summary: List the webhook subscriptions of the current user
+ *     description: Requires the partner or admin role.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Subscriptions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WebhookSubscription'
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.get('/subscriptions', authenticateToken, requirePermission('webhooks:manage'), webhookController.getSubscriptions);
+
+/**
+ * @swagger
+ * /api/webhooks/subscriptions:
+ *   post:
+ *     summary: Subscribe a URL to domain events
+ *     description: The response contains the signing secret, it is not returned again.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Subscription created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/WebhookSubscription'
+ *                         - type: object
+ *                           properties:
+ *                             secret:
+ *                               type: string
+ *                               example: whsec_3f2a...
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/subscriptions', authenticateToken, requirePermission('webhooks:manage'), validate(webhookSchemas.createSubscription), idempotent, webhookController.createSubscription);
+
+/**
+ * @swagger
+ * /api/webhooks/subscriptions/{id}:
+ *   get:
+ *     summary: Get a webhook subscription
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Subscription retrieved successfully
+ *       404:
+ *         description: Subscription not found
+ */
+router.get('/subscriptions/:id', authenticateToken, requirePermission('webhooks:manage'), validate(webhookSchemas.getSubscription), webhookController.getSubscription);
+
+/**
+ * @swagger
+ * /api/webhooks/subscriptions/{id}:
+ *   patch:
+ *     summary: Change the URL, events or state of a webhook subscription
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Subscription updated
+ *       404:
+ *         description: Subscription not found
+ */
+router.patch('/subscriptions/:id', authenticateToken, requirePermission('webhooks:manage'), validate(webhookSchemas.updateSubscription), idempotent, webhookController.updateSubscription);
+
+/**
+ * @swagger
+ * /api/webhooks/subscriptions/{id}:
+ *   delete:
+ *     summary: Delete a webhook subscription and its delivery history
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Subscription deleted
+ *       404:
+ *         description: Subscription not found
+ */
+router.delete('/subscriptions/:id', authenticateToken, requirePermission('webhooks:manage'), validate(webhookSchemas.getSubscription), idempotent, webhookController.deleteSubscription);
+
+/**
+ * @swagger
+ * /api/webhooks/subscriptions/{id}/deliveries:
+ *   get:
+ *     summary: Get the deliveries of a subscription
+ *     description: Filter with status=dead to list the dead letters.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Subscription not found
+ */
+router.get('/subscriptions/:id/deliveries', authenticateToken, requirePermission('webhooks:manage'), validate(webhookSchemas.getDeliveries), webhookController.getDeliveries);
+
+/**
+ * @swagger
+ * /api/webhooks/deliveries/{id}/retry:
+ *   post:
+ *     summary: Put a dead-lettered delivery back in the queue
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Delivery queued again
+ *       404:
+ *         description: Delivery not found
+ *       409:
+ *         description: Delivery is not dead-lettered
+ */
+router.post('/deliveries/:id/retry', authenticateToken, requirePermission('webhooks:manage'), validate(webhookSchemas.retryDelivery), idempotent, webhookController.retryDelivery);
+
+export default router;
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { ALL_POLICIES, RATE_LIMIT_POLICY_NAMES } from '../utils/rateLimitPolicies';
+import { addressParams, aptosAddress, idParam, paginationQuery, positiveInt, role } from './common';
+
+const auditEventFilters = z.object({
+  actor: aptosAddress.optional().describe('Wallet that performed the action'),
+  action: z.string().max(50).optional().describe('e.g. loan.update'),
+  entityType: z.string().max(50).optional(),
+  entityId: z.string().max(100).optional(),
+  requestId: z.string().max(100).optional(),
+  from: z.coerce.date().optional().describe('Only events at or after this time'),
+  to: z.coerce.date().optional().describe('Only events at or before this time')
+});
+
+export const adminSchemas = {
+  getUserRoles: {
+    params: addressParams
+  },
+
+  grantRole: {
+    params: addressParams,
+    body: z.object({
+      role
+    })
+  },
+
+  reconcileLedger: {
+    params: addressParams
+  },
+
+  getAuditEvents: {
+    query: paginationQuery.merge(auditEventFilters)
+  },
+
+  exportAuditEvents: {
+    query: auditEventFilters
+  },
+
+  saveRateLimitOverride: {
+    body: z
+      .object({
+        walletAddress: aptosAddress.optional(),
+        ip: z.string().ip().optional(),
+        policy: z
+          .enum([ALL_POLICIES, ...RATE_LIMIT_POLICY_NAMES] as [string, ...string[]])
+          .default(ALL_POLICIES)
+          .describe("Policy to override, '*' for all"),
+        maxRequests: positiveInt.nullable().describe('Requests per window, null to lift the limit'),
+        reason: z.string().trim().min(1).max(500),
+        expiresAt: z.coerce.date().optional()
+      })
+      .refine(body => Boolean(body.walletAddress) !== Boolean(body.ip), {
+        message: 'Provide either walletAddress or ip'
+      })
+  },
+
+  deleteRateLimitOverride: {
+    params: z.object({
+      id: idParam.describe('Override ID')
+    })
+  },
+
+  revokeRole: {
+    params: addressParams.extend({
+      role
+    })
+  },
+
+  getJobRuns: {
+    query: paginationQuery.extend({
+      job: z.string().max(100).optional().describe('Job name, e.g. auction-settlement'),
+      status: z.enum(['running', 'succeeded', 'failed']).optional()
+    })
+  },
+
+  runJob: {
+    params: z.object({
+      name: z.string().max(100).describe('Job name')
+    })
+  }
+};
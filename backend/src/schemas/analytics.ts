@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { addressParams, analyticsPeriod, paginationQuery, propertyType } from './common';
+
+export const analyticsSchemas = {
+  getFundPerformance: {
+    query: z.object({
+      period: analyticsPeriod.default('30d').describe('Time period for analytics')
+    })
+  },
+
+  getUserPortfolio: {
+    params: addressParams
+  },
+
+  getPropertyValuations: {
+    query: z.object({
+      propertyType: propertyType.optional().describe('Filter by property type'),
+      location: z.string().trim().min(1).optional().describe('Filter by location')
+    })
+  },
+
+  getMarketTrends: {
+    query: z.object({
+      period: analyticsPeriod.default('30d').describe('Time period for trends')
+    })
+  },
+
+  getFundSnapshots: {
+    query: paginationQuery.extend({
+      limit: z.coerce.number().int().min(1).max(366).default(30).describe('Number of days per page'),
+      from: z.coerce.date().optional().describe('First day to include'),
+      to: z.coerce.date().optional().describe('Last day to include')
+    })
+  }
+};
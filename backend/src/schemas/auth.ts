@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { aptosAddress, hexString, idParam } from './common';
+
+const signedMessage = {
+  publicKey: hexString.describe('Hex-encoded Ed25519 public key of the account'),
+  signature: hexString.describe('Hex-encoded Ed25519 signature of the message'),
+  message: z.string().min(1).describe('Signed message, must contain the challenge nonce'),
+  nonce: z.string().min(1).describe('Nonce issued by /api/auth/challenge')
+};
+
+export const authSchemas = {
+  getChallenge: {
+    body: z.object({
+      walletAddress: aptosAddress.describe("User's wallet address")
+    })
+  },
+
+  connectWallet: {
+    body: z.object({
+      walletAddress: aptosAddress.describe("User's wallet address"),
+      ...signedMessage,
+      timestamp: z.number().int().positive().describe('Timestamp of the request in milliseconds')
+    })
+  },
+
+  verifySignature: {
+    body: z.object({
+      address: aptosAddress.describe("User's wallet address"),
+      ...signedMessage
+    })
+  },
+
+  refreshToken: {
+    body: z.object({
+      refreshToken: z.string().min(1)
+    })
+  },
+
+  revokeSession: {
+    params: z.object({
+      id: idParam.describe('Session ID')
+    })
+  }
+};
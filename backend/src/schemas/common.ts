@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { Role } from '../types';
+import { Money, TOKEN_DECIMALS } from '../utils/money';
+import { ROLES } from '../utils/permissions';
+
+const APTOS_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const HEX_PATTERN = /^(0x)?[0-9a-fA-F]+$/;
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Aptos account address, normalized to lowercase
+ */
+export const aptosAddress = z
+  .string()
+  .trim()
+  .regex(APTOS_ADDRESS_PATTERN, 'Must be a 0x-prefixed Aptos address')
+  .transform(address => address.toLowerCase());
+
+export const hexString = z.string().regex(HEX_PATTERN, 'Must be a hex string');
+
+/**
+ * Strictly positive amount, given as a JSON number or a decimal string,
+ * with at most `decimals` fractional digits, parsed into Money
+ */
+export const positiveAmount = (decimals: number = TOKEN_DECIMALS) => {
+  const pattern = new RegExp(`^\\d+(\\.\\d{1,${decimals}})?$`);
+
+  return z
+    .union([
+      z.number(),
+      z.string().trim().regex(DECIMAL_PATTERN, 'Must be a decimal number')
+    ])
+    .refine(value => pattern.test(String(value)), {
+      message: `Must have at most ${decimals} decimal places`
+    })
+    .transform(value => Money.of(value, 'down', decimals))
+    .refine(value => value.isPositive(), { message: 'Must be greater than 0' });
+};
+
+export const positiveInt = z.number().int().positive();
+
+// Path and query values arrive as strings
+export const idParam = z.coerce.number().int().positive();
+
+export const booleanQuery = z.enum(['true', 'false']);
+
+export const tokenType = z.enum(['AFJP', 'JUVENTUD', 'LADRILLO']);
+export const propertyType = z.enum(['building', 'home', 'tourism']);
+export const loanStatus = z.enum(['active', 'completed', 'liquidated']);
+export const inheritanceStatus = z.enum(['pending', 'approved', 'rejected', 'completed']);
+export const analyticsPeriod = z.enum(['1d', '7d', '30d', '90d', '1y']);
+export const role = z.enum(ROLES as [Role, ...Role[]]);
+
+export const addressParams = z.object({
+  address: aptosAddress.describe('Wallet address')
+});
+
+export const paginationQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1).describe('Page number'),
+  limit: z.coerce.number().int().min(1).max(100).default(10).describe('Number of items per page')
+});
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { FIAT_DECIMALS } from '../utils/money';
+import { addressParams, idParam, paginationQuery, positiveAmount } from './common';
+
+const currency = z.enum(['USD', 'ARS']);
+const fundingSource = z.enum(['bank_transfer', 'debit_card', 'credit_card', 'payroll']).describe('How the member pays in');
+const dueDay = z.number().int().min(1).max(28).describe('Day of the month payments are due, at most 28 so every month has it');
+
+const contributionParams = z.object({
+  id: idParam.describe('Contribution ID')
+});
+
+const planParams = z.object({
+  id: idParam.describe('Contribution plan ID')
+});
+
+export const contributionSchemas = {
+  getByAddress: {
+    params: addressParams
+  },
+
+  create: {
+    body: z.object({
+      amount: positiveAmount(FIAT_DECIMALS).describe('Amount paid in, in the given currency'),
+      currency: currency.describe('Currency of the amount')
+    })
+  },
+
+  confirm: {
+    params: contributionParams,
+    body: z.object({
+      paymentReference: z.string().trim().min(1).max(100).describe('Settlement of the payment, e.g. the bank transfer ID')
+    })
+  },
+
+  reject: {
+    params: contributionParams,
+    body: z.object({
+      reason: z.string().trim().min(1).max(1000)
+    })
+  },
+
+  createPlan: {
+    body: z.object({
+      amount: positiveAmount(FIAT_DECIMALS).describe('Monthly amount, in the given currency'),
+      currency: currency.describe('Currency of the amount'),
+      dueDay,
+      fundingSource
+    })
+  },
+
+  updatePlan: {
+    params: planParams,
+    body: z
+      .object({
+        amount: positiveAmount(FIAT_DECIMALS).optional().describe('Monthly amount, in the given currency'),
+        currency: currency.optional().describe('Currency of the amount'),
+        dueDay: dueDay.optional(),
+        fundingSource: fundingSource.optional(),
+        status: z.enum(['active', 'paused']).optional().describe('Pause or resume the plan')
+      })
+      .refine(body => Object.keys(body).length > 0, { message: 'At least one field must be provided' })
+  },
+
+  getPlan: {
+    params: planParams
+  },
+
+  getObligations: {
+    params: addressParams,
+    query: paginationQuery.extend({
+      status: z.enum(['pending', 'late', 'paid', 'missed']).optional().describe('Filter by obligation status')
+    })
+  }
+};
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { normalizeCuil } from '../utils/cuil';
+import { aptosAddress, booleanQuery, idParam, paginationQuery } from './common';
+
+// CUIL or CUIT with or without dashes, normalized to its 11 digits
+const cuil = z
+  .string()
+  .transform((value, ctx) => {
+    const digits = normalizeCuil(value);
+    if (!digits) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a valid CUIL/CUIT, e.g. 20-12345678-6' });
+      return z.NEVER;
+    }
+    return digits;
+  });
+
+const rate = z.number().min(0).max(100).multipleOf(0.01);
+
+const employerParams = z.object({
+  id: idParam.describe('Employer ID')
+});
+
+export const employerSchemas = {
+  createEmployer: {
+    body: z
+      .object({
+        name: z.string().trim().min(1).max(200),
+        cuit: cuil.describe('Tax ID of the employer'),
+        employeeRate: rate.describe('Percent of the gross salary withheld from the employee'),
+        employerRate: rate.describe('Percent of the gross salary the employer adds'),
+        managerAddress: aptosAddress.describe('Wallet of the first manager')
+      })
+      .refine(body => body.employeeRate + body.employerRate > 0, { message: 'The rates cannot both be 0' })
+  },
+
+  updateEmployer: {
+    params: employerParams,
+    body: z
+      .object({
+        name: z.string().trim().min(1).max(200).optional(),
+        employeeRate: rate.optional(),
+        employerRate: rate.optional(),
+        isActive: z.boolean().optional()
+      })
+      .refine(body => Object.keys(body).length > 0, { message: 'At least one field must be provided' })
+  },
+
+  getEmployer: {
+    params: employerParams
+  },
+
+  getMembers: {
+    params: employerParams,
+    query: paginationQuery.extend({
+      role: z.enum(['manager', 'employee']).optional().describe('Filter by role'),
+      active: booleanQuery.optional().describe('Filter by whether the member is still with the employer')
+    })
+  },
+
+  addMember: {
+    params: employerParams,
+    body: z
+      .object({
+        address: aptosAddress.describe('Wallet of the user'),
+        role: z.enum(['manager', 'employee']).default('employee'),
+        cuil: cuil.optional().describe('Labor ID of the employee, matches payroll rows')
+      })
+      .refine(body => body.role !== 'employee' || body.cuil, { message: 'Employees need a CUIL', path: ['cuil'] })
+  },
+
+  removeMember: {
+    params: employerParams.extend({
+      memberId: idParam.describe('Employer member ID')
+    })
+  },
+
+  uploadPayroll: {
+    params: employerParams,
+    body: z.object({
+      csv: z.string().min(1).max(1024 * 1024).describe('Payroll file with a header row: cuil and/or wallet, gross_salary, period (YYYY-MM)'),
+      currency: z.enum(['USD', 'ARS']).default('ARS').describe('Currency of the salaries'),
+      dryRun: z.boolean().default(false).describe('Only validate the file')
+    })
+  },
+
+  getPayrollBatches: {
+    params: employerParams,
+    query: paginationQuery
+  },
+
+  getPayrollBatch: {
+    params: employerParams.extend({
+      batchId: idParam.describe('Payroll batch ID')
+    })
+  },
+
+  confirmPayroll: {
+    params: employerParams.extend({
+      batchId: idParam.describe('Payroll batch ID')
+    }),
+    body: z.object({
+      paymentReference: z.string().trim().min(1).max(100).describe('Settlement of the employer\'s payment, e.g. the bank transfer ID')
+    })
+  },
+
+  getReconciliation: {
+    params: employerParams,
+    query: z.object({
+      period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Must be a month as YYYY-MM').describe('Month to reconcile')
+    })
+  }
+};
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { addressParams, aptosAddress, idParam, inheritanceStatus } from './common';
+
+const requestIdParams = z.object({
+  requestId: idParam.describe('Inheritance request ID')
+});
+
+export const inheritanceSchemas = {
+  getBeneficiaries: {
+    params: addressParams
+  },
+
+  designateBeneficiaries: {
+    body: z
+      .object({
+        primary: aptosAddress.describe('Primary beneficiary address'),
+        secondary: z.array(aptosAddress).describe('Secondary beneficiary addresses'),
+        percentages: z
+          .array(z.number().positive().max(100))
+          .describe('Distribution percentages for each beneficiary')
+      })
+      .superRefine((body, ctx) => {
+        if (body.secondary.length !== body.percentages.length) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['percentages'],
+            message: 'Must have one percentage per secondary beneficiary'
+          });
+        }
+
+        const total = body.percentages.reduce((sum, percentage) => sum + percentage, 0);
+        if (total !== 100) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['percentages'],
+            message: 'Distribution percentages must add up to 100'
+          });
+        }
+      })
+  },
+
+  requestInheritance: {
+    body: z.object({
+      deceasedAddress: aptosAddress.describe('Address of the deceased user'),
+      notes: z.string().max(2000).optional().describe('Additional notes or documentation')
+    })
+  },
+
+  getInheritanceRequests: {
+    params: addressParams,
+    query: z.object({
+      status: inheritanceStatus.optional().describe('Filter by request status')
+    })
+  },
+
+  approveInheritance: {
+    params: requestIdParams,
+    body: z.object({
+      notes: z.string().max(2000).optional().describe('Review notes')
+    })
+  },
+
+  rejectInheritance: {
+    params: requestIdParams,
+    body: z.object({
+      notes: z.string().trim().min(1).max(2000).describe('Rejection reason')
+    })
+  },
+
+  executeInheritance: {
+    params: requestIdParams
+  }
+};
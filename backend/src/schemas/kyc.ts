@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { idParam, paginationQuery } from './common';
+
+export const kycSchemas = {
+  submitKyc: {
+    body: z.object({
+      firstName: z.string().trim().min(1).max(100),
+      lastName: z.string().trim().min(1).max(100),
+      dateOfBirth: z
+        .string()
+        .date()
+        .refine(value => new Date(value) < new Date(), { message: 'Must be in the past' }),
+      nationality: z.string().length(2).describe('ISO 3166-1 alpha-2 country code'),
+      documentType: z.enum(['dni', 'passport']),
+      documentNumber: z.string().trim().min(1).max(50),
+      cuil: z.string().regex(/^\d{2}-?\d{8}-?\d$/, 'Must be a valid CUIL/CUIT').optional().describe('Argentine CUIL/CUIT'),
+      address: z.string().max(300).optional(),
+      documents: z
+        .array(z.object({
+          type: z.enum(['id_front', 'id_back', 'selfie', 'proof_of_address']),
+          reference: z.string().min(1).describe('Storage reference of the uploaded document'),
+          sha256: z.string().regex(/^[0-9a-f]{64}$/i, 'Must be a SHA-256 hex digest').optional()
+        }))
+        .min(1)
+    })
+  },
+
+  getReviewQueue: {
+    query: paginationQuery.extend({
+      status: z
+        .enum(['submitted', 'under_review', 'verified', 'rejected'])
+        .optional()
+        .describe('Filter by status (defaults to submitted and under_review)')
+    })
+  },
+
+  reviewSubmission: {
+    params: z.object({
+      id: idParam.describe('KYC submission ID')
+    })
+  },
+
+  rejectSubmission: {
+    params: z.object({
+      id: idParam.describe('KYC submission ID')
+    }),
+    body: z.object({
+      reason: z.string().trim().min(1).max(1000)
+    })
+  }
+};
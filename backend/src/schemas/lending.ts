@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { addressParams, loanStatus, positiveAmount, positiveInt } from './common';
+
+export const lendingSchemas = {
+  getLoans: {
+    params: addressParams,
+    query: z.object({
+      status: loanStatus.optional().describe('Filter by loan status')
+    })
+  },
+
+  createLoan: {
+    body: z.object({
+      collateralAmount: positiveAmount().describe('Amount of collateral to provide'),
+      borrowAmount: positiveAmount().describe('Amount to borrow')
+    })
+  },
+
+  repayLoan: {
+    body: z.object({
+      loanId: positiveInt.describe('Loan ID to repay'),
+      amount: positiveAmount().describe('Amount to repay')
+    })
+  },
+
+  getCollateral: {
+    params: addressParams
+  },
+
+  liquidate: {
+    body: z.object({
+      loanId: positiveInt.describe('Loan ID to liquidate')
+    })
+  }
+};
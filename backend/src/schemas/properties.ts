@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { addressParams, booleanQuery, idParam, paginationQuery, positiveAmount, positiveInt, propertyType } from './common';
+
+export const propertySchemas = {
+  getProperties: {
+    query: paginationQuery.extend({
+      propertyType: propertyType.optional().describe('Filter by property type'),
+      isTokenized: booleanQuery.optional().describe('Filter by tokenization status')
+    })
+  },
+
+  getPropertyById: {
+    params: z.object({
+      id: idParam.describe('Property ID')
+    })
+  },
+
+  registerProperty: {
+    body: z.object({
+      name: z.string().trim().min(1).max(200).describe('Property name'),
+      location: z.string().trim().min(1).max(200).describe('Property location'),
+      propertyType: propertyType.describe('Type of property'),
+      value: positiveAmount().describe('Property value'),
+      rentalIncome: positiveAmount().optional().describe('Monthly rental income')
+    })
+  },
+
+  tokenizeProperty: {
+    body: z.object({
+      propertyId: positiveInt.describe('Property ID to tokenize'),
+      fractions: positiveInt.describe('Number of fractions to create')
+    })
+  },
+
+  getAuctions: {
+    query: paginationQuery
+  },
+
+  placeBid: {
+    params: z.object({
+      id: idParam.describe('Auction ID')
+    }),
+    body: z.object({
+      bidAmount: positiveAmount().describe('Bid amount')
+    })
+  },
+
+  getRentalIncome: {
+    params: addressParams
+  }
+};
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { addressParams, positiveAmount } from './common';
+
+export const stakingSchemas = {
+  getByAddress: {
+    params: addressParams
+  },
+
+  stake: {
+    body: z.object({
+      amount: positiveAmount().describe('Amount to stake')
+    })
+  },
+
+  unstake: {
+    body: z.object({
+      amount: positiveAmount().describe('Amount to unstake')
+    })
+  }
+};
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { addressParams, aptosAddress, paginationQuery, positiveAmount, tokenType } from './common';
+
+export const tokenSchemas = {
+  getBalance: {
+    params: addressParams
+  },
+
+  transfer: {
+    body: z.object({
+      to: aptosAddress.describe('Recipient address'),
+      amount: positiveAmount().describe('Amount to transfer')
+    })
+  },
+
+  burn: {
+    body: z.object({
+      amount: positiveAmount().describe('Amount to burn')
+    })
+  },
+
+  getTransactions: {
+    params: addressParams,
+    query: paginationQuery.extend({
+      tokenType: tokenType.optional().describe('Filter by token type')
+    })
+  }
+};
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { hexString, idParam } from './common';
+
+export const transactionSchemas = {
+  getStatus: {
+    params: z.object({
+      id: idParam.describe('Transaction ID returned when the operation was queued')
+    })
+  },
+
+  submitSigned: {
+    params: z.object({
+      id: idParam.describe('Transaction ID returned when the operation was queued')
+    }),
+    body: z.object({
+      signedTransaction: hexString.max(20000).describe('BCS-encoded signed transaction of the payload, as hex')
+    })
+  }
+};
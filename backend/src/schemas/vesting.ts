@@ -0,0 +1,12 @@
+import { addressParams, paginationQuery } from './common';
+
+export const vestingSchemas = {
+  getByAddress: {
+    params: addressParams
+  },
+
+  getSchedules: {
+    params: addressParams,
+    query: paginationQuery
+  }
+};
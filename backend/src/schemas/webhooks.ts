@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { DomainEventType } from '../types';
+import { DOMAIN_EVENT_TYPES } from '../utils/domainEvents';
+import { webhookUrlProblem } from '../utils/webhookUrl';
+import { idParam, paginationQuery } from './common';
+
+const webhookUrl = z
+  .string()
+  .trim()
+  .max(500)
+  .url()
+  .superRefine((url, ctx) => {
+    const problem = webhookUrlProblem(url);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }
+  });
+
+const eventTypes = z
+  .array(z.enum(DOMAIN_EVENT_TYPES as [DomainEventType, ...DomainEventType[]]))
+  .min(1)
+  .transform(types => Array.from(new Set(types)))
+  .describe('Domain events to deliver');
+
+const subscriptionParams = z.object({
+  id: idParam.describe('Webhook subscription ID')
+});
+
+export const webhookSchemas = {
+  createSubscription: {
+    body: z.object({
+      url: webhookUrl,
+      eventTypes,
+      description: z.string().trim().max(200).optional()
+    })
+  },
+
+  updateSubscription: {
+    params: subscriptionParams,
+    body: z
+      .object({
+        url: webhookUrl.optional(),
+        eventTypes: eventTypes.optional(),
+        description: z.string().trim().max(200).optional(),
+        isActive: z.boolean().optional()
+      })
+      .refine(body => Object.keys(body).length > 0, { message: 'At least one field must be provided' })
+  },
+
+  getSubscription: {
+    params: subscriptionParams
+  },
+
+  getDeliveries: {
+    params: subscriptionParams,
+    query: paginationQuery.extend({
+      status: z.enum(['pending', 'delivered', 'dead']).optional().describe('Filter by delivery status')
+    })
+  },
+
+  retryDelivery: {
+    params: z.object({
+      id: idParam.describe('Webhook delivery ID')
+    })
+  }
+};
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { redis } from '../index';
+import { AnalyticsPeriod, AnalyticsReport, AnalyticsSource } from '../types';
+import { canonicalJson } from '../utils/canonicalJson';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+const KEY_PREFIX = 'analytics:';
+
+// Data each report reads, a write to any of them invalidates the report
+const REPORT_SOURCES: Record<AnalyticsReport, AnalyticsSource[]> = {
+  fundPerformance: ['users', 'properties', 'transactions', 'staking', 'loans'],
+  propertyValuations: ['properties'],
+  marketTrends: ['users', 'properties', 'transactions', 'auctions']
+};
+
+// Longer periods move less with each new row, so they can be kept longer
+export const PERIOD_TTL_SECONDS: Record<AnalyticsPeriod, number> = {
+  '1d': 60,
+  '7d': 300,
+  '30d': 900,
+  '90d': 1800,
+  '1y': 3600
+};
+
+// Release the lock only if it is still ours, it may have expired and been taken over
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export interface AnalyticsCacheOptions {
+  enabled: boolean;
+  // How long one instance may compute a report before others stop waiting for it
+  lockMs: number;
+  pollMs: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Redis cache for analytics reports. Every source has a generation counter
+ * that writes bump, and the generations of a report's sources are part of its
+ * key, so invalidated entries are never read again and simply expire. A miss
+ * is computed once: concurrent requests on an instance share the computation
+ * and other instances wait for the one holding the lock. If Redis is
+ * unavailable reports are computed on every request.
+ */
+export class AnalyticsCache {
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(private options: AnalyticsCacheOptions) {}
+
+  async getOrCompute<T>(
+    report: AnalyticsReport,
+    params: Record<string, unknown>,
+    ttlSeconds: number,
+    compute: () => Promise<T>
+  ): Promise<T> {
+    if (!this.options.enabled) {
+      return compute();
+    }
+
+    let key: string;
+    try {
+      key = await this.keyFor(report, params);
+    } catch (error) {
+      logger.error('Analytics cache unavailable, computing report:', { report, error });
+      return compute();
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const loading = this.load(key, ttlSeconds, compute).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, loading);
+
+    return loading;
+  }
+
+  /**
+   * Invalidate the reports computed from the given sources. Call it after the
+   * write commits, otherwise a concurrent miss can cache the old data again.
+   */
+  async invalidate(...sources: AnalyticsSource[]): Promise<void> {
+    if (!this.options.enabled) {
+      return;
+    }
+
+    try {
+      await Promise.all(sources.map(source => redis.incr(`${KEY_PREFIX}generation:${source}`)));
+    } catch (error) {
+      logger.error('Failed to invalidate analytics cache:', { sources, error });
+    }
+  }
+
+  private async keyFor(report: AnalyticsReport, params: Record<string, unknown>): Promise<string> {
+    const generations = await redis.mGet(
+      REPORT_SOURCES[report].map(source => `${KEY_PREFIX}generation:${source}`)
+    );
+    const paramsHash = crypto.createHash('sha256').update(canonicalJson(params)).digest('hex').slice(0, 16);
+
+    return `${KEY_PREFIX}${report}:${generations.map(generation => generation || '0').join('.')}:${paramsHash}`;
+  }
+
+  private async load<T>(key: string, ttlSeconds: number, compute: () => Promise<T>): Promise<T> {
+    const cached = await this.read<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const lockKey = `${key}:lock`;
+    const token = crypto.randomUUID();
+    const locked = await this.lock(lockKey, token);
+
+    if (!locked) {
+      // Another instance is computing the report, wait for it before computing it here
+      const deadline = Date.now() + this.options.lockMs;
+      while (Date.now() < deadline) {
+        await sleep(this.options.pollMs);
+        const value = await this.read<T>(key);
+        if (value !== undefined) {
+          return value;
+        }
+      }
+    }
+
+    try {
+      const value = await compute();
+      await this.write(key, value, ttlSeconds);
+      return value;
+    } finally {
+      if (locked) {
+        await redis.eval(RELEASE_SCRIPT, { keys: [lockKey], arguments: [token] })
+          .catch(error => logger.error('Failed to release analytics cache lock:', { key, error }));
+      }
+    }
+  }
+
+  private async read<T>(key: string): Promise<T | undefined> {
+    try {
+      const cached = await redis.get(key);
+      return cached === null ? undefined : JSON.parse(cached) as T;
+    } catch (error) {
+      logger.error('Failed to read analytics cache:', { key, error });
+      return undefined;
+    }
+  }
+
+  private async write(key: string, value: unknown, ttlSeconds: number) {
+    try {
+      await redis.set(key, JSON.stringify(value), { EX: ttlSeconds });
+    } catch (error) {
+      logger.error('Failed to write analytics cache:', { key, error });
+    }
+  }
+
+  // True when the lock was taken, or when Redis is down and there is nobody to wait for
+  private async lock(lockKey: string, token: string): Promise<boolean> {
+    try {
+      return await redis.set(lockKey, token, { NX: true, PX: this.options.lockMs }) === 'OK';
+    } catch (error) {
+      logger.error('Failed to lock analytics cache:', { lockKey, error });
+      return true;
+    }
+  }
+}
+
+// Export singleton instance
+export const analyticsCache = new AnalyticsCache({
+  enabled: config.analyticsCacheEnabled,
+  lockMs: config.analyticsCacheLockMs,
+  pollMs: 100
+});
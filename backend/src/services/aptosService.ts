@@ -1,41 +1,65 @@
-import { AptosClient, AptosAccount, Types } from 'aptos';
+import { AptosClient, AptosAccount, ApiError, HexString, Types } from 'aptos';
 import { logger } from '../utils/logger';
-import { AppError } from '../types';
+import { config } from '../utils/config';
+import { Money } from '../utils/money';
+import { AppConfig, AppError, ChainAdapter, ChainTransactionMeta, ChainTransactionResult, EntryFunctionArgument, LedgerInfo } from '../types';
 
-export class AptosService {
+export class AptosService implements ChainAdapter {
   private client: AptosClient;
   private moduleAddress: string;
 
-  constructor(nodeUrl: string, moduleAddress: string) {
-    this.client = new AptosClient(nodeUrl);
-    this.moduleAddress = moduleAddress;
+  constructor(
+    options: Pick<AppConfig, 'aptosNodeUrl' | 'afjpModuleAddress'>,
+    client: AptosClient = new AptosClient(options.aptosNodeUrl)
+  ) {
+    this.client = client;
+    this.moduleAddress = options.afjpModuleAddress;
   }
 
   /**
    * Get token balance for a specific address and token type
    */
-  async getTokenBalance(address: string, tokenType: string): Promise<number> {
+  async getTokenBalance(address: string, tokenType: string): Promise<Money> {
     try {
       const resource = await this.client.getAccountResource(
         address,
         `${this.moduleAddress}::${tokenType.toLowerCase()}_token::${tokenType}Token`
       );
       
-      return (resource.data as any).coin.value || 0;
+      // Coin values are u64 base units
+      return Money.fromBaseUnits((resource.data as any).coin.value || 0);
     } catch (error) {
       logger.error('Failed to get token balance:', error);
-      return 0;
+      return Money.zero();
     }
   }
 
   /**
-   * Execute a transaction on the blockchain
+   * Get the current on-chain authentication key for an account.
+   * Accounts that have not been created on-chain yet still use their address as auth key.
+   */
+  async getAuthenticationKey(address: string): Promise<string> {
+    try {
+      const account = await this.client.getAccount(address);
+      return HexString.ensure(account.authentication_key).toShortString();
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return HexString.ensure(address).toShortString();
+      }
+      logger.error('Failed to get authentication key:', error);
+      throw new AppError('Unable to fetch account from Aptos node', 502);
+    }
+  }
+
+  /**
+   * Sign and submit a transaction, returns its hash as soon as the node accepts it.
+   * Finality is tracked separately (see getTransactionStatus).
    */
   async executeTransaction(
     account: AptosAccount,
     functionName: string,
     typeArguments: string[] = [],
-    args: any[] = []
+    args: EntryFunctionArgument[] = []
   ): Promise<string> {
     try {
       const payload: Types.TransactionPayload = {
@@ -52,9 +76,8 @@ export class AptosService {
 
       const signedTxn = await this.client.signTransaction(account, txnRequest);
       const result = await this.client.submitTransaction(signedTxn);
-      await this.client.waitForTransaction(result.hash);
 
-      logger.info('Transaction executed successfully:', {
+      logger.info('Transaction submitted:', {
         hash: result.hash,
         function: functionName,
         address: account.address()
@@ -63,31 +86,100 @@ export class AptosService {
       return result.hash;
     } catch (error) {
       logger.error('Transaction failed:', error);
-      throw new AppError('Transaction failed', 500);
+      throw new AppError(error instanceof ApiError ? `Transaction failed: ${error.message}` : 'Transaction failed', 500);
+    }
+  }
+
+  /**
+   * Submit a transaction a wallet signed, returns its hash as soon as the
+   * node accepts it. The node checks the signature and sequence number.
+   */
+  async submitSignedTransaction(signedTransaction: Uint8Array): Promise<string> {
+    try {
+      const result = await this.client.submitSignedBCSTransaction(signedTransaction);
+
+      logger.info('Signed transaction submitted:', {
+        hash: result.hash,
+        address: result.sender
+      });
+
+      return result.hash;
+    } catch (error) {
+      logger.error('Signed transaction was rejected:', error);
+      throw error instanceof ApiError
+        ? new AppError(`Transaction rejected: ${error.message}`, 400)
+        : new AppError('Transaction failed', 500);
+    }
+  }
+
+  /**
+   * Get whether a submitted transaction has been committed and with which VM status.
+   * Transactions the node does not know yet are reported as pending.
+   */
+  async getTransactionStatus(hash: string): Promise<ChainTransactionResult> {
+    try {
+      const transaction = await this.client.getTransactionByHash(hash);
+
+      if (transaction.type === 'pending_transaction') {
+        return { status: 'pending' };
+      }
+
+      const committed = transaction as Types.UserTransaction;
+      return {
+        status: committed.success ? 'confirmed' : 'failed',
+        vmStatus: committed.vm_status,
+        version: committed.version
+      };
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return { status: 'pending' };
+      }
+      logger.error('Failed to get transaction status:', error);
+      throw new AppError('Unable to fetch transaction from Aptos node', 502);
+    }
+  }
+
+  /**
+   * Call a view function on the AFJP modules
+   */
+  async view(
+    functionName: string,
+    typeArguments: string[] = [],
+    args: EntryFunctionArgument[] = []
+  ): Promise<Types.MoveValue[]> {
+    try {
+      return await this.client.view({
+        function: `${this.moduleAddress}::${functionName}`,
+        type_arguments: typeArguments,
+        arguments: args
+      });
+    } catch (error) {
+      logger.error('View function failed:', error);
+      throw new AppError(error instanceof ApiError ? `View function failed: ${error.message}` : 'View function failed', 502);
     }
   }
 
   /**
    * Contribute to the fund (create vesting schedule)
    */
-  async contribute(account: AptosAccount, amount: number): Promise<string> {
+  async contribute(account: AptosAccount, amount: Money): Promise<string> {
     return this.executeTransaction(
       account,
       'afjp_vesting::create_vesting_schedule',
       [],
-      [amount]
+      [amount.toBaseUnits()]
     );
   }
 
   /**
    * Burn AFJP for Juventud tokens
    */
-  async burnAFJPForJuventud(account: AptosAccount, afjpAmount: number): Promise<string> {
+  async burnAFJPForJuventud(account: AptosAccount, afjpAmount: Money): Promise<string> {
     return this.executeTransaction(
       account,
       'juventud_token::burn_afjp_for_juventud',
       [],
-      [afjpAmount]
+      [afjpAmount.toBaseUnits()]
     );
   }
 
@@ -96,7 +188,7 @@ export class AptosService {
    */
   async burnAFJPForLadrillo(
     account: AptosAccount,
-    afjpAmount: number,
+    afjpAmount: Money,
     propertyId: number,
     fractions: number
   ): Promise<string> {
@@ -104,31 +196,31 @@ export class AptosService {
       account,
       'ladrillo_token::burn_afjp_for_ladrillo',
       [],
-      [afjpAmount, propertyId, fractions]
+      [afjpAmount.toBaseUnits(), propertyId, fractions]
     );
   }
 
   /**
    * Stake tokens
    */
-  async stakeTokens(account: AptosAccount, amount: number): Promise<string> {
+  async stakeTokens(account: AptosAccount, amount: Money): Promise<string> {
     return this.executeTransaction(
       account,
       'afjp_staking::stake_tokens',
       [],
-      [amount]
+      [amount.toBaseUnits()]
     );
   }
 
   /**
    * Unstake tokens
    */
-  async unstakeTokens(account: AptosAccount, amount: number): Promise<string> {
+  async unstakeTokens(account: AptosAccount, amount: Money): Promise<string> {
     return this.executeTransaction(
       account,
       'afjp_staking::unstake_tokens',
       [],
-      [amount]
+      [amount.toBaseUnits()]
     );
   }
 
@@ -161,26 +253,26 @@ export class AptosService {
    */
   async createLoan(
     account: AptosAccount,
-    collateralAmount: number,
-    borrowAmount: number
+    collateralAmount: Money,
+    borrowAmount: Money
   ): Promise<string> {
     return this.executeTransaction(
       account,
       'afjp_lending::create_loan',
       [],
-      [collateralAmount, borrowAmount]
+      [collateralAmount.toBaseUnits(), borrowAmount.toBaseUnits()]
     );
   }
 
   /**
    * Repay a loan
    */
-  async repayLoan(account: AptosAccount, loanId: number, amount: number): Promise<string> {
+  async repayLoan(account: AptosAccount, loanId: number, amount: Money): Promise<string> {
     return this.executeTransaction(
       account,
       'afjp_lending::repay_loan',
       [],
-      [loanId, amount]
+      [loanId, amount.toBaseUnits()]
     );
   }
 
@@ -281,6 +373,74 @@ export class AptosService {
     }
   }
 
+  /**
+   * Page through an event handle held by the module account, oldest first.
+   * Handles that were never created on-chain have no events yet.
+   */
+  async getModuleEvents(
+    handleStruct: string,
+    fieldName: string,
+    start: bigint,
+    limit: number
+  ): Promise<Types.VersionedEvent[]> {
+    try {
+      // The node returns versioned events even though the SDK types them as plain events
+      const events = await this.client.getEventsByEventHandle(
+        this.moduleAddress,
+        `${this.moduleAddress}::${handleStruct}`,
+        fieldName,
+        { start, limit }
+      );
+      return events as Types.VersionedEvent[];
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        return [];
+      }
+      logger.error('Failed to get module events:', error);
+      throw new AppError('Unable to fetch events from Aptos node', 502);
+    }
+  }
+
+  /**
+   * Get the hash and block height of the transaction committed at a ledger version
+   */
+  async getTransactionMeta(version: string): Promise<ChainTransactionMeta> {
+    try {
+      const [transaction, block] = await Promise.all([
+        this.client.getTransactionByVersion(BigInt(version)),
+        this.client.getBlockByVersion(Number(version))
+      ]);
+
+      return {
+        hash: transaction.hash,
+        blockHeight: block.block_height
+      };
+    } catch (error) {
+      logger.error('Failed to get transaction metadata:', error);
+      throw new AppError('Unable to fetch transaction from Aptos node', 502);
+    }
+  }
+
+  /**
+   * Get the latest committed version and block height of the node
+   */
+  async getLedgerInfo(): Promise<LedgerInfo> {
+    try {
+      const ledger = await this.client.getLedgerInfo();
+
+      return {
+        chainId: ledger.chain_id,
+        ledgerVersion: ledger.ledger_version,
+        blockHeight: ledger.block_height,
+        // Ledger timestamps are in microseconds
+        ledgerTimestamp: new Date(Number(BigInt(ledger.ledger_timestamp) / BigInt(1000)))
+      };
+    } catch (error) {
+      logger.error('Failed to get ledger info:', error);
+      throw new AppError('Unable to fetch ledger info from Aptos node', 502);
+    }
+  }
+
   /**
    * Get property information
    */
@@ -297,7 +457,4 @@ export class AptosService {
 }
 
 // Export singleton instance
-export const aptosService = new AptosService(
-  process.env.APTOS_NODE_URL || 'https://fullnode.devnet.aptoslabs.com',
-  process.env.AFJP_MODULE_ADDRESS || '0x1234567890abcdef1234567890abcdef12345678'
-);
+export const aptosService = new AptosService(config);
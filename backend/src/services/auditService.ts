@@ -0,0 +1,408 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditEvent, Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../index';
+import { AuditChainVerification, AuditEntry } from '../types';
+import { canonicalJson } from '../utils/canonicalJson';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Advisory lock that serializes appends, so the chain never forks
+const CHAIN_LOCK_KEY = 7310001;
+
+const BATCH_SIZE = 500;
+
+// Bookkeeping that is not fund state, or is derived from a change audited on its own
+const UNAUDITED_MODELS = new Set([
+  'AuditEvent',
+  'IdempotencyRecord',
+  'IndexerCursor',
+  'JobRun',
+  'OutboxEvent',
+  'RefreshToken',
+  'WebhookDelivery'
+]);
+
+// Fields left out of snapshots: secrets, and identity data, since the trail can never be erased
+const REDACTED_FIELDS: Record<string, string[]> = {
+  EmployerMember: ['cuil'],
+  KycSubmission: ['firstName', 'lastName', 'dateOfBirth', 'nationality', 'documentNumber', 'cuil', 'address', 'documents'],
+  PayrollEntry: ['cuil'],
+  User: ['email', 'firstName', 'lastName'],
+  WebhookSubscription: ['secret']
+};
+
+type Row = Record<string, unknown> & { id: number };
+
+interface ModelDelegate {
+  findUnique(args: object): Promise<Row | null>;
+  findMany(args: object): Promise<Row[]>;
+}
+
+export interface AuditedOperation {
+  model: string;
+  operation: string;
+  args: any;
+  query: (args: any) => Promise<any>;
+}
+
+type TransactionRun<R> = (tx: Prisma.TransactionClient) => Promise<R>;
+
+// Changes made inside an interactive transaction, appended once it commits
+interface AuditScope {
+  tx: Prisma.TransactionClient;
+  pending: AuditEntry[];
+}
+
+const auditScope = new AsyncLocalStorage<AuditScope>();
+
+// e.g. 'StakingRecord' -> 'staking_record'
+const entityTypeOf = (model: string): string => model.replace(/(?<!^)([A-Z])/g, '_$1').toLowerCase();
+
+const delegateOf = (client: object, model: string): ModelDelegate =>
+  (client as unknown as Record<string, ModelDelegate>)[model.charAt(0).toLowerCase() + model.slice(1)];
+
+// The row IDs are needed to read back full rows when the caller selected only some fields
+const withId = (args: any) => (args.select ? { ...args, select: { ...args.select, id: true } } : args);
+
+const redact = (model: string, row: Row | null): Row | null => {
+  const fields = REDACTED_FIELDS[model];
+  if (!row || !fields) {
+    return row;
+  }
+
+  const copy = { ...row };
+  fields.forEach(field => delete copy[field]);
+  return copy;
+};
+
+export interface AuditEventFilters {
+  actorWallet?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Everything the hash covers, snapshots as they read back from the database
+interface ChainedFields {
+  actorWallet: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before: unknown;
+  after: unknown;
+  ip: string | null;
+  requestId: string | null;
+  prevHash: string;
+  createdAt: Date;
+}
+
+/**
+ * Snapshot a row or value as plain JSON (Decimals and BigInts as strings,
+ * dates as ISO strings), which is also how it reads back from the database
+ */
+export const toSnapshot = (value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull => {
+  if (value === undefined || value === null) {
+    return Prisma.DbNull;
+  }
+
+  return JSON.parse(JSON.stringify(value, (key, field) =>
+    typeof field === 'bigint' ? field.toString() : field
+  ));
+};
+
+export const hashAuditEvent = (event: ChainedFields): string =>
+  crypto.createHash('sha256').update(canonicalJson({
+    actorWallet: event.actorWallet,
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    before: event.before,
+    after: event.after,
+    ip: event.ip,
+    requestId: event.requestId,
+    prevHash: event.prevHash,
+    createdAt: event.createdAt.toISOString()
+  })).digest('hex');
+
+export class AuditService {
+  async record(entry: AuditEntry): Promise<AuditEvent> {
+    const [event] = await this.append([entry]);
+    return event;
+  }
+
+  /**
+   * Append events to the audit trail in a short transaction of their own,
+   * which holds the chain lock only while they are inserted. The request ID
+   * and IP come from the request context.
+   */
+  async append(entries: AuditEntry[]): Promise<AuditEvent[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const context = getRequestContext();
+
+    return prisma.$transaction(async tx => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_KEY})`;
+
+      const last = await tx.auditEvent.findFirst({
+        orderBy: { id: 'desc' },
+        select: { hash: true }
+      });
+
+      let prevHash = last?.hash || GENESIS_HASH;
+      const events: AuditEvent[] = [];
+
+      for (const entry of entries) {
+        const before = toSnapshot(entry.before);
+        const after = toSnapshot(entry.after);
+        const fields = {
+          actorWallet: entry.actorWallet,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: String(entry.entityId),
+          ip: context?.ip || null,
+          requestId: context?.requestId || null,
+          prevHash,
+          createdAt: new Date()
+        };
+
+        const event = await tx.auditEvent.create({
+          data: {
+            ...fields,
+            before,
+            after,
+            hash: hashAuditEvent({
+              ...fields,
+              before: before === Prisma.DbNull ? null : before,
+              after: after === Prisma.DbNull ? null : after
+            })
+          }
+        });
+
+        events.push(event);
+        prevHash = event.hash;
+      }
+
+      return events;
+    });
+  }
+
+  /**
+   * Audit one Prisma operation, called by `auditExtension` for every model
+   * operation. Mutations are run with their rows read before and after, and
+   * recorded as '<entity>.create', '<entity>.update' or '<entity>.delete'
+   * under the wallet of the request or job. Inside an interactive
+   * transaction the events wait for it to commit, so rolled back changes are
+   * never recorded; anything else is appended as soon as it returns.
+   */
+  async audit({ model, operation, args, query }: AuditedOperation): Promise<any> {
+    if (UNAUDITED_MODELS.has(model)) {
+      return query(args);
+    }
+
+    const scope = auditScope.getStore();
+    const rows = delegateOf(scope?.tx || prisma, model);
+    const changes: [Row | null, Row | null][] = [];
+    let result: any;
+
+    switch (operation) {
+      case 'create':
+      case 'update':
+      case 'upsert': {
+        const before = operation === 'create' ? null : await rows.findUnique({ where: args.where });
+        result = await query(withId(args));
+        const after = args.select || args.include ? await rows.findUnique({ where: { id: result.id } }) : result;
+        changes.push([before, after]);
+        break;
+      }
+      case 'delete': {
+        const before = await rows.findUnique({ where: args.where });
+        result = await query(args);
+        changes.push([before, null]);
+        break;
+      }
+      case 'createManyAndReturn': {
+        result = await query(withId(args));
+        const after = args.select
+          ? await rows.findMany({ where: { id: { in: result.map((row: Row) => row.id) } } })
+          : result;
+        after.forEach((row: Row) => changes.push([null, row]));
+        break;
+      }
+      case 'updateMany': {
+        const before = await rows.findMany({ where: args.where });
+        result = await query(args);
+        if (result.count > 0 && before.length > 0) {
+          const after = new Map((await rows.findMany({ where: { id: { in: before.map(row => row.id) } } }))
+            .map(row => [row.id, row]));
+          before.forEach(row => changes.push([row, after.get(row.id) || null]));
+        }
+        break;
+      }
+      case 'deleteMany': {
+        const before = await rows.findMany({ where: args.where });
+        result = await query(args);
+        if (result.count > 0) {
+          before.forEach(row => changes.push([row, null]));
+        }
+        break;
+      }
+      case 'createMany':
+        // Its result has no IDs to tell the new rows apart
+        throw new Error(`${model}.createMany is not audited, use createManyAndReturn`);
+      default:
+        return query(args);
+    }
+
+    const entityType = entityTypeOf(model);
+    const actorWallet = getRequestContext()?.walletAddress || null;
+    const entries = changes
+      // No-ops, e.g. an upsert of a row that already exists
+      .filter(([before, after]) => !before || !after || canonicalJson(toSnapshot(before)) !== canonicalJson(toSnapshot(after)))
+      .map(([before, after]): AuditEntry => ({
+        actorWallet,
+        action: `${entityType}.${!before ? 'create' : after ? 'update' : 'delete'}`,
+        entityType,
+        entityId: (after || before)!.id,
+        before: redact(model, before),
+        after: redact(model, after)
+      }));
+
+    if (scope) {
+      scope.pending.push(...entries);
+    } else {
+      await this.appendCommitted(entries);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run an interactive transaction in an audit scope, and append the changes
+   * made in it once it committed
+   */
+  async transaction<R>(run: TransactionRun<R>, start: (run: TransactionRun<R>) => Promise<R>): Promise<R> {
+    const pending: AuditEntry[] = [];
+    const result = await start(tx => auditScope.run({ tx, pending }, () => run(tx)));
+
+    await this.appendCommitted(pending);
+    return result;
+  }
+
+  // The change is already committed, so a failed append is logged rather than failing the caller
+  private async appendCommitted(entries: AuditEntry[]): Promise<void> {
+    try {
+      await this.append(entries);
+    } catch (error) {
+      logger.error('Failed to append audit events:', { entries, error });
+    }
+  }
+
+  /**
+   * Recompute the chain from the first event and report the first event
+   * whose hash or link to its predecessor does not match
+   */
+  async verifyChain(): Promise<AuditChainVerification> {
+    let prevHash = GENESIS_HASH;
+    let cursor = 0;
+    let checked = 0;
+
+    for (;;) {
+      const events = await prisma.auditEvent.findMany({
+        where: { id: { gt: cursor } },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE
+      });
+
+      for (const event of events) {
+        if (event.prevHash !== prevHash) {
+          return { valid: false, checked, brokenAt: event.id, reason: 'Previous hash does not match, an event was removed or reordered' };
+        }
+        if (hashAuditEvent(event) !== event.hash) {
+          return { valid: false, checked, brokenAt: event.id, reason: 'Hash does not match the event, it was modified' };
+        }
+
+        prevHash = event.hash;
+        checked++;
+      }
+
+      if (events.length < BATCH_SIZE) {
+        return { valid: true, checked };
+      }
+
+      cursor = events[events.length - 1].id;
+    }
+  }
+
+  buildWhere(filters: AuditEventFilters): Prisma.AuditEventWhereInput {
+    const where: Prisma.AuditEventWhereInput = {
+      actorWallet: filters.actorWallet,
+      action: filters.action,
+      entityType: filters.entityType,
+      entityId: filters.entityId,
+      requestId: filters.requestId
+    };
+
+    if (filters.from || filters.to) {
+      where.createdAt = { gte: filters.from, lte: filters.to };
+    }
+
+    return where;
+  }
+
+  /**
+   * Iterate matching events oldest first, in batches, for exports
+   */
+  async *iterate(filters: AuditEventFilters, batchSize: number = BATCH_SIZE): AsyncGenerator<AuditEvent> {
+    let cursor = 0;
+
+    for (;;) {
+      const events = await prisma.auditEvent.findMany({
+        where: { ...this.buildWhere(filters), id: { gt: cursor } },
+        orderBy: { id: 'asc' },
+        take: batchSize
+      });
+
+      yield* events;
+
+      if (events.length < batchSize) {
+        return;
+      }
+
+      cursor = events[events.length - 1].id;
+    }
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
+
+/**
+ * Audits every mutation made through the Prisma client, see `AuditService.audit`.
+ * Raw SQL and rows removed by cascading deletes are not audited.
+ */
+export const auditExtension = Prisma.defineExtension({
+  name: 'audit',
+  query: {
+    $allModels: {
+      $allOperations: operation => auditService.audit(operation)
+    }
+  },
+  client: {
+    $transaction: function (this: unknown, arg: unknown, options?: unknown) {
+      const client = Prisma.getExtensionContext(this);
+      const start = (run: unknown) => PrismaClient.prototype.$transaction.call(client, run as any, options as any);
+
+      return typeof arg === 'function'
+        ? auditService.transaction(arg as TransactionRun<unknown>, start)
+        : start(arg);
+    } as PrismaClient['$transaction']
+  }
+});
@@ -0,0 +1,34 @@
+import { AptosAccount, HexString } from 'aptos';
+import { aptosService } from './aptosService';
+import { SimulatedChain } from './simulatedChain';
+import { ChainAdapter } from '../types';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { instrumentChainAdapter } from '../utils/metrics';
+
+const createSimulatedChain = (): { chain: ChainAdapter; operator: AptosAccount } => {
+  const chain = new SimulatedChain(config.afjpModuleAddress, {
+    genesis: config.simulatedChainGenesis
+  });
+
+  logger.info('Using the in-process simulated Aptos ledger');
+  return { chain, operator: chain.operator() };
+};
+
+const createAptosChain = (): { chain: ChainAdapter; operator: AptosAccount | null } => {
+  const operatorKey = config.aptosOperatorPrivateKey;
+
+  if (!operatorKey) {
+    return { chain: aptosService, operator: null };
+  }
+
+  return { chain: aptosService, operator: new AptosAccount(new HexString(operatorKey).toUint8Array()) };
+};
+
+const selected = config.chainAdapter === 'simulated' ? createSimulatedChain() : createAptosChain();
+
+// Export singleton instances, CHAIN_ADAPTER=aptos|simulated picks the ledger
+export const chainAdapter: ChainAdapter = instrumentChainAdapter(selected.chain);
+
+// Signs platform transactions such as mints, users sign their own transactions
+export const operatorAccount: AptosAccount | null = selected.operator;
@@ -0,0 +1,242 @@
+import { ContributionPlan, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import {
+  AppError,
+  ContributionCurrency,
+  ContributionObligationStatus,
+  ContributionStats,
+  CreateContributionPlanRequest
+} from '../types';
+import { contributionService } from './contributionService';
+import { config } from '../utils/config';
+import { FIAT_DECIMALS, Money } from '../utils/money';
+import { addMonths } from '../utils/vestingCalculator';
+
+// A member has at most one plan that is not cancelled
+const OPEN_PLAN_STATUSES = ['active', 'paused'];
+
+export type ContributionPlanChanges = Partial<CreateContributionPlanRequest> & { status?: 'active' | 'paused' };
+
+/**
+ * First day of the month of `date`, in UTC
+ */
+export const periodOf = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+// 'YYYY-MM'
+export const periodKey = (period: Date): string => period.toISOString().slice(0, 7);
+
+export const dueDateOf = (period: Date, dueDay: number): Date =>
+  new Date(Date.UTC(period.getUTCFullYear(), period.getUTCMonth(), dueDay));
+
+// Midnight UTC of `date`, obligations are due by calendar day
+export const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export class ContributionPlanService {
+  /**
+   * Smallest monthly amount in `currency`, rounded up to the cent
+   */
+  minimumAmount(currency: ContributionCurrency): Money {
+    const minimum = new Prisma.Decimal(config.contributionPlanMinUsd).mul(contributionService.exchangeRate(currency));
+    return Money.of(minimum, 'up', FIAT_DECIMALS);
+  }
+
+  /**
+   * First month a new plan owes: the current one while its due day has not
+   * passed, the next one otherwise
+   */
+  firstPeriod(dueDay: number, now: Date = new Date()): Date {
+    const current = periodOf(now);
+    return startOfDay(now) <= dueDateOf(current, dueDay) ? current : addMonths(current, 1);
+  }
+
+  async findOpenPlan(userId: number, tx?: Prisma.TransactionClient): Promise<ContributionPlan | null> {
+    return (tx || prisma).contributionPlan.findFirst({
+      where: { userId, status: { in: OPEN_PLAN_STATUSES } },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  async create(user: { id: number; walletAddress: string }, input: CreateContributionPlanRequest): Promise<ContributionPlan> {
+    this.assertMinimum(input.amount, input.currency);
+
+    return prisma.$transaction(async (tx) => {
+      // Locks the member so concurrent requests check for an open plan one at a time
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${user.id} FOR UPDATE`;
+
+      if (await this.findOpenPlan(user.id, tx)) {
+        throw new AppError('A contribution plan is already open, update or cancel it first', 409);
+      }
+
+      const plan = await tx.contributionPlan.create({
+        data: {
+          userId: user.id,
+          amount: input.amount.toDecimal(),
+          currency: input.currency,
+          dueDay: input.dueDay,
+          fundingSource: input.fundingSource,
+          startPeriod: this.firstPeriod(input.dueDay)
+        }
+      });
+
+      return plan;
+    });
+  }
+
+  /**
+   * Change the terms of a plan or pause and resume it. New terms apply from
+   * the next obligation, the ones already issued keep theirs.
+   */
+  async update(plan: ContributionPlan, changes: ContributionPlanChanges): Promise<ContributionPlan> {
+    if (plan.status === 'cancelled') {
+      throw new AppError('Contribution plan is cancelled', 409);
+    }
+
+    const currency = changes.currency || (plan.currency as ContributionCurrency);
+    const amount = changes.amount || Money.of(plan.amount, 'down', FIAT_DECIMALS);
+    if (changes.amount || changes.currency) {
+      this.assertMinimum(amount, currency);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.contributionPlan.updateMany({
+        where: { id: plan.id, status: plan.status },
+        data: {
+          amount: changes.amount ? amount.toDecimal() : undefined,
+          currency: changes.currency,
+          dueDay: changes.dueDay,
+          fundingSource: changes.fundingSource,
+          status: changes.status
+        }
+      });
+
+      if (count === 0) {
+        throw new AppError('Contribution plan changed concurrently, try again', 409);
+      }
+
+      const updated = await tx.contributionPlan.findUniqueOrThrow({ where: { id: plan.id } });
+
+      return updated;
+    });
+  }
+
+  /**
+   * Cancel a plan. Its pending obligation is withdrawn, late ones still
+   * count as missed when their grace period ends.
+   */
+  async cancel(plan: ContributionPlan): Promise<ContributionPlan> {
+    if (plan.status === 'cancelled') {
+      throw new AppError('Contribution plan is already cancelled', 409);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.contributionPlan.updateMany({
+        where: { id: plan.id, status: plan.status },
+        data: { status: 'cancelled', cancelledAt: new Date() }
+      });
+
+      if (count === 0) {
+        throw new AppError('Contribution plan changed concurrently, try again', 409);
+      }
+
+      await tx.contributionObligation.deleteMany({
+        where: { planId: plan.id, status: 'pending' }
+      });
+
+      const cancelled = await tx.contributionPlan.findUniqueOrThrow({ where: { id: plan.id } });
+
+      return cancelled;
+    });
+  }
+
+  /**
+   * Streaks and coverage of a member's payment record. Open obligations
+   * neither extend nor break a streak until they are paid or missed.
+   */
+  async stats(userId: number, now: Date = new Date()): Promise<ContributionStats> {
+    const [obligations, contributions, plan] = await Promise.all([
+      prisma.contributionObligation.findMany({
+        where: { userId },
+        orderBy: [{ period: 'asc' }, { id: 'asc' }]
+      }),
+      prisma.contribution.findMany({
+        where: { userId, status: 'confirmed' },
+        select: { contributedAt: true }
+      }),
+      this.findOpenPlan(userId)
+    ]);
+
+    const counts: Record<ContributionObligationStatus, number> = { pending: 0, late: 0, paid: 0, missed: 0 };
+    let currentStreak = 0;
+    let longestStreak = 0;
+
+    for (const obligation of obligations) {
+      const status = obligation.status as ContributionObligationStatus;
+      counts[status]++;
+
+      if (status === 'paid') {
+        currentStreak++;
+        longestStreak = Math.max(longestStreak, currentStreak);
+      } else if (status === 'missed') {
+        currentStreak = 0;
+      }
+    }
+
+    const settled = counts.paid + counts.missed;
+    const monthsPaid = new Set(contributions.map(({ contributedAt }) => periodKey(periodOf(contributedAt)))).size;
+
+    return {
+      monthsPaid,
+      yearsAccumulated: Math.round((monthsPaid / 12) * 10) / 10,
+      currentStreak,
+      longestStreak,
+      coverage: settled > 0 ? Math.round((counts.paid / settled) * 1000) / 10 : 0,
+      obligations: counts,
+      nextPayment: this.nextPayment(obligations, plan, now)
+    };
+  }
+
+  // The oldest open obligation, or the next one the plan will issue
+  private nextPayment(
+    obligations: Array<{ planId: number; period: Date; dueDate: Date; amount: Prisma.Decimal; currency: string; status: string }>,
+    plan: ContributionPlan | null,
+    now: Date
+  ): ContributionStats['nextPayment'] {
+    const open = obligations.find(obligation => obligation.status === 'pending' || obligation.status === 'late');
+
+    if (open) {
+      return {
+        period: periodKey(open.period),
+        dueDate: open.dueDate,
+        amount: Money.of(open.amount, 'down', FIAT_DECIMALS),
+        currency: open.currency as ContributionCurrency
+      };
+    }
+
+    if (!plan || plan.status !== 'active') {
+      return null;
+    }
+
+    let period = plan.startPeriod > periodOf(now) ? plan.startPeriod : periodOf(now);
+    if (obligations.some(obligation => obligation.planId === plan.id && obligation.period.getTime() === period.getTime())) {
+      period = addMonths(period, 1);
+    }
+
+    return {
+      period: periodKey(period),
+      dueDate: dueDateOf(period, plan.dueDay),
+      amount: Money.of(plan.amount, 'down', FIAT_DECIMALS),
+      currency: plan.currency as ContributionCurrency
+    };
+  }
+
+  private assertMinimum(amount: Money, currency: ContributionCurrency) {
+    const minimum = this.minimumAmount(currency);
+    if (!amount.gte(minimum)) {
+      throw new AppError(`Monthly amount must be at least ${minimum.toString()} ${currency}`, 400);
+    }
+  }
+}
+
+// Export singleton instance
+export const contributionPlanService = new ContributionPlanService();
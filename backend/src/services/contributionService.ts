@@ -0,0 +1,313 @@
+import { ChainTransaction, Contribution, ContributionObligation, Prisma, User, VestingSchedule } from '@prisma/client';
+import { prisma } from '../index';
+import {
+  AppError,
+  ConfirmContributionRequest,
+  ContributionCurrency,
+  ContributionQuote,
+  ContributionStatus,
+  CreateContributionInput,
+  RejectContributionRequest
+} from '../types';
+import { ledgerService } from './ledgerService';
+import { outboxService } from './outboxService';
+import { transactionQueue } from './transactionQueue';
+import { config } from '../utils/config';
+import { FIAT_DECIMALS, Money } from '../utils/money';
+
+// Timeline of afjp_vesting::create_vesting_schedule
+const SECOND_MS = 1000;
+const CLIFF_DURATION_MS = 31536000 * SECOND_MS;
+const VESTING_DURATION_MS = 157680000 * SECOND_MS;
+
+export interface ContributionResult {
+  contribution: Contribution;
+  vestingSchedule: VestingSchedule;
+  mintTransaction: ChainTransaction;
+  vestingTransaction: ChainTransaction;
+  // Obligation of the member's contribution plan the contribution paid
+  obligation: ContributionObligation | null;
+}
+
+type ContributionWithUser = Contribution & { user: User };
+
+export class ContributionService {
+  /**
+   * AFJP price in USD: the net asset value per token of the latest fund
+   * snapshot, or the configured reference price until there is one
+   */
+  async tokenPriceUsd(): Promise<Prisma.Decimal> {
+    const snapshot = await prisma.fundSnapshot.findFirst({
+      where: { navPerToken: { gt: 0 } },
+      orderBy: { snapshotDate: 'desc' }
+    });
+
+    return new Prisma.Decimal(snapshot ? snapshot.navPerToken : config.afjpReferencePriceUsd);
+  }
+
+  // Currency units per USD
+  exchangeRate(currency: ContributionCurrency): Prisma.Decimal {
+    return new Prisma.Decimal(currency === 'USD' ? 1 : config.arsPerUsd);
+  }
+
+  /**
+   * Whether a contribution pays an obligation: the same amount or more in
+   * the obligation's currency, compared in USD across currencies
+   */
+  coversObligation(
+    contribution: Pick<Contribution, 'currency' | 'fiatAmount' | 'usdAmount'>,
+    obligation: Pick<ContributionObligation, 'currency' | 'amount'>
+  ): boolean {
+    if (contribution.currency === obligation.currency) {
+      return Money.of(contribution.fiatAmount, 'down', FIAT_DECIMALS).gte(obligation.amount);
+    }
+
+    const owedUsd = Money.of(
+      new Prisma.Decimal(obligation.amount).div(this.exchangeRate(obligation.currency as ContributionCurrency)),
+      'half-even',
+      FIAT_DECIMALS
+    );
+    return Money.of(contribution.usdAmount, 'down', FIAT_DECIMALS).gte(owedUsd);
+  }
+
+  /**
+   * Price a fiat contribution. The USD value rounds to the cent and the
+   * AFJP amount rounds down, so the fund never issues more than was paid for.
+   */
+  async quote(amount: Money, currency: ContributionCurrency): Promise<ContributionQuote> {
+    const exchangeRate = this.exchangeRate(currency);
+    const tokenPrice = await this.tokenPriceUsd();
+    const usdAmount = Money.of(amount.toDecimal().div(exchangeRate), 'half-even', FIAT_DECIMALS);
+
+    return {
+      currency,
+      fiatAmount: amount,
+      exchangeRate,
+      usdAmount,
+      tokenPrice,
+      tokenAmount: Money.of(usdAmount.toDecimal().div(tokenPrice), 'down')
+    };
+  }
+
+  /**
+   * Record a contribution as `pending` at the current price. Nothing is
+   * minted until the payment settles and the contribution is confirmed.
+   * Pass `tx` to join a transaction the caller already opened.
+   */
+  async create(input: CreateContributionInput, tx?: Prisma.TransactionClient): Promise<Contribution> {
+    const quote = await this.quote(input.amount, input.currency);
+
+    if (!quote.tokenAmount.isPositive()) {
+      throw new AppError('Contribution is too small to buy any AFJP', 400);
+    }
+
+    if (!tx) {
+      return prisma.$transaction(client => this.record(input, quote, client));
+    }
+    return this.record(input, quote, tx);
+  }
+
+  private async record(input: CreateContributionInput, quote: ContributionQuote, tx: Prisma.TransactionClient): Promise<Contribution> {
+    const contribution = await tx.contribution.create({
+      data: {
+        userId: input.userId,
+        currency: quote.currency,
+        fiatAmount: quote.fiatAmount.toDecimal(),
+        exchangeRate: quote.exchangeRate,
+        usdAmount: quote.usdAmount.toDecimal(),
+        tokenPrice: quote.tokenPrice,
+        tokenAmount: quote.tokenAmount.toDecimal(),
+        status: 'pending',
+        employerId: input.employerId,
+        contributedAt: new Date()
+      }
+    });
+
+    return contribution;
+  }
+
+  /**
+   * Confirm that the payment of a pending contribution settled: mint the
+   * AFJP it bought to the module account and lock it in a new 5-year vesting
+   * schedule for the contributor. The chain calls are queued, the schedule
+   * and ledger entry are written right away. The contribution pays the
+   * member's oldest open plan obligation if it covers it.
+   * Pass `tx` to join a transaction the caller already opened.
+   */
+  async confirm(
+    id: number,
+    input: ConfirmContributionRequest,
+    tx?: Prisma.TransactionClient
+  ): Promise<ContributionResult> {
+    if (!tx) {
+      return prisma.$transaction(client => this.settle(id, input, client));
+    }
+    return this.settle(id, input, tx);
+  }
+
+  private async settle(
+    id: number,
+    input: ConfirmContributionRequest,
+    tx: Prisma.TransactionClient
+  ): Promise<ContributionResult> {
+    const pending = await this.claim(id, 'confirmed', tx);
+    const tokenAmount = Money.of(pending.tokenAmount);
+    const now = new Date();
+
+    // Signed by the operator, which mints and escrows on the fund's behalf
+    const mintTransaction = await transactionQueue.enqueue({
+      functionName: 'afjp_token::mint',
+      arguments: [config.afjpModuleAddress, tokenAmount.toBaseUnits()]
+    }, tx);
+
+    const vestingTransaction = await transactionQueue.enqueue({
+      functionName: 'afjp_vesting::create_vesting_schedule',
+      arguments: [pending.user.walletAddress, tokenAmount.toBaseUnits()]
+    }, tx);
+
+    // Same timeline as the module, the indexer aligns it with the chain's timestamps
+    const vestingSchedule = await tx.vestingSchedule.create({
+      data: {
+        userId: pending.userId,
+        totalAmount: tokenAmount.toDecimal(),
+        startTime: now,
+        cliffTime: new Date(now.getTime() + CLIFF_DURATION_MS),
+        endTime: new Date(now.getTime() + VESTING_DURATION_MS),
+        curveType: 'linear',
+        isActive: true
+      }
+    });
+
+    const contribution = await tx.contribution.update({
+      where: { id },
+      data: {
+        paymentReference: input.paymentReference,
+        settledAt: now,
+        vestingScheduleId: vestingSchedule.id,
+        mintTransactionId: mintTransaction.id,
+        vestingTransactionId: vestingTransaction.id
+      }
+    });
+
+    // Minted tokens sit in escrow until they vest and are released
+    await ledgerService.record({
+      entryType: 'contribution',
+      tokenType: 'AFJP',
+      reference: `contribution:${contribution.id}`,
+      postings: [{
+        from: { system: 'contributions' },
+        to: { system: 'vesting_escrow' },
+        amount: tokenAmount
+      }]
+    }, tx);
+
+    await tx.tokenTransaction.create({
+      data: {
+        userId: contribution.userId,
+        tokenType: 'AFJP',
+        transactionType: 'mint',
+        amount: tokenAmount.toDecimal(),
+        status: 'pending',
+        chainTransactionId: mintTransaction.id
+      }
+    });
+
+    await outboxService.record({
+      type: 'ContributionReceived',
+      aggregateType: 'contribution',
+      aggregateId: contribution.id,
+      data: {
+        address: pending.user.walletAddress,
+        currency: contribution.currency,
+        amount: Money.of(contribution.fiatAmount, 'down', FIAT_DECIMALS).toString(),
+        tokenAmount: tokenAmount.toString(),
+        vestingScheduleId: vestingSchedule.id,
+        transactionId: vestingTransaction.id,
+        employerId: contribution.employerId
+      }
+    }, tx);
+
+    const obligation = await this.settleObligation(contribution, tx);
+
+    return { contribution, vestingSchedule, mintTransaction, vestingTransaction, obligation };
+  }
+
+  /**
+   * Reject a pending contribution whose payment did not settle. Nothing was
+   * minted for it, so there is nothing to undo.
+   */
+  async reject(id: number, input: RejectContributionRequest): Promise<Contribution> {
+    return prisma.$transaction(async (tx) => {
+      const pending = await this.claim(id, 'rejected', tx);
+
+      const contribution = await tx.contribution.update({
+        where: { id },
+        data: { rejectionReason: input.reason, settledAt: new Date() }
+      });
+
+      await outboxService.record({
+        type: 'ContributionRejected',
+        aggregateType: 'contribution',
+        aggregateId: contribution.id,
+        data: {
+          address: pending.user.walletAddress,
+          currency: contribution.currency,
+          amount: Money.of(contribution.fiatAmount, 'down', FIAT_DECIMALS).toString(),
+          reason: input.reason,
+          employerId: contribution.employerId
+        }
+      }, tx);
+
+      return contribution;
+    });
+  }
+
+  // Move a pending contribution to `status`, once even under concurrent requests
+  private async claim(id: number, status: ContributionStatus, tx: Prisma.TransactionClient): Promise<ContributionWithUser> {
+    const contribution = await tx.contribution.findUnique({
+      where: { id },
+      include: { user: true }
+    });
+
+    if (!contribution) {
+      throw new AppError('Contribution not found', 404);
+    }
+
+    const { count } = await tx.contribution.updateMany({
+      where: { id, status: 'pending' },
+      data: { status }
+    });
+
+    if (count === 0) {
+      throw new AppError(`Contribution is ${contribution.status}, only pending contributions can be settled`, 409);
+    }
+
+    return contribution;
+  }
+
+  /**
+   * Mark the member's oldest pending or late obligation paid by `contribution`.
+   * Missed obligations stay missed, later payments count for the next one.
+   */
+  async settleObligation(contribution: Contribution, tx: Prisma.TransactionClient): Promise<ContributionObligation | null> {
+    const open = await tx.contributionObligation.findFirst({
+      where: { userId: contribution.userId, status: { in: ['pending', 'late'] } },
+      orderBy: [{ period: 'asc' }, { id: 'asc' }]
+    });
+
+    if (!open || !this.coversObligation(contribution, open)) {
+      return null;
+    }
+
+    const paid = { status: 'paid', contributionId: contribution.id, paidAt: contribution.contributedAt };
+    const { count } = await tx.contributionObligation.updateMany({
+      where: { id: open.id, status: open.status, contributionId: null },
+      data: paid
+    });
+
+    return count > 0 ? { ...open, ...paid } : null;
+  }
+}
+
+// Export singleton instance
+export const contributionService = new ContributionService();
@@ -0,0 +1,517 @@
+import crypto from 'crypto';
+import { Employer, EmployerMember, PayrollBatch, Prisma, User } from '@prisma/client';
+import { prisma } from '../index';
+import {
+  AddEmployerMemberRequest,
+  AppError,
+  ConfirmContributionRequest,
+  ContributionCurrency,
+  CreateEmployerRequest,
+  EmployerChanges,
+  PayrollBatchStatus,
+  PayrollRowError,
+  PayrollUploadRequest,
+  PayrollValidationError
+} from '../types';
+import { contributionService } from './contributionService';
+import { periodKey, periodOf } from './contributionPlanService';
+import { outboxService } from './outboxService';
+import { normalizeCuil } from '../utils/cuil';
+import { parseCsv } from '../utils/csv';
+import { FIAT_DECIMALS, Money } from '../utils/money';
+import { addMonths } from '../utils/vestingCalculator';
+
+// Confirming a batch queues two chain transactions and opens a vesting schedule per row
+export const MAX_PAYROLL_ROWS = 500;
+const PAYROLL_TRANSACTION_TIMEOUT_MS = 120000;
+
+const APTOS_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const SALARY_PATTERN = /^\d+(\.\d{1,2})?$/;
+const PERIOD_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+type EmployeeWithUser = EmployerMember & { user: User };
+
+// A row that passed validation, ready to become a contribution
+export interface PayrollRow {
+  row: number;
+  member: EmployeeWithUser;
+  period: Date;
+  grossSalary: Money;
+  employeeAmount: Money;
+  employerAmount: Money;
+  totalAmount: Money;
+  tokenAmount: Money;
+}
+
+export interface PayrollValidation {
+  rowCount: number;
+  rows: PayrollRow[];
+  rejected: PayrollRowError[];
+}
+
+export interface PayrollResult {
+  batch: PayrollBatch;
+  // False when the same file was processed before and its batch is returned
+  created: boolean;
+}
+
+const sha256 = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+export class EmployerService {
+  /**
+   * Employee and employer parts of a gross salary, each rounded to the cent
+   */
+  split(employer: Pick<Employer, 'employeeRate' | 'employerRate'>, grossSalary: Money) {
+    const employeeAmount = grossSalary.times(new Prisma.Decimal(employer.employeeRate).div(100), 'half-even');
+    const employerAmount = grossSalary.times(new Prisma.Decimal(employer.employerRate).div(100), 'half-even');
+
+    return { employeeAmount, employerAmount, totalAmount: employeeAmount.plus(employerAmount) };
+  }
+
+  /**
+   * Register an employer with its first manager
+   */
+  async create(input: CreateEmployerRequest): Promise<Employer> {
+    const manager = await prisma.user.findUnique({
+      where: { walletAddress: input.managerAddress }
+    });
+
+    if (!manager) {
+      throw new AppError('Manager not found', 404);
+    }
+
+    if (await prisma.employer.findUnique({ where: { cuit: input.cuit } })) {
+      throw new AppError('An employer with this CUIT already exists', 409);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const employer = await tx.employer.create({
+        data: {
+          name: input.name,
+          cuit: input.cuit,
+          employeeRate: input.employeeRate,
+          employerRate: input.employerRate
+        }
+      });
+
+      await tx.employerMember.create({
+        data: { employerId: employer.id, userId: manager.id, role: 'manager' }
+      });
+
+      return employer;
+    });
+  }
+
+  /**
+   * Rename an employer, change its rates for later payrolls or deactivate it
+   */
+  async update(employer: Employer, changes: EmployerChanges): Promise<Employer> {
+    const employeeRate = changes.employeeRate ?? Number(employer.employeeRate);
+    const employerRate = changes.employerRate ?? Number(employer.employerRate);
+    if (employeeRate + employerRate <= 0) {
+      throw new AppError('The rates cannot both be 0', 400);
+    }
+
+    return prisma.employer.update({
+      where: { id: employer.id },
+      data: changes
+    });
+  }
+
+  /**
+   * Link a user to an employer as manager or employee. Someone who left
+   * can be linked again.
+   */
+  async addMember(employer: Employer, input: AddEmployerMemberRequest): Promise<EmployeeWithUser> {
+    const user = await prisma.user.findUnique({
+      where: { walletAddress: input.address }
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const [existing, cuilHolder] = await Promise.all([
+      prisma.employerMember.findUnique({
+        where: { employerId_userId: { employerId: employer.id, userId: user.id } }
+      }),
+      input.cuil
+        ? prisma.employerMember.findUnique({ where: { employerId_cuil: { employerId: employer.id, cuil: input.cuil } } })
+        : null
+    ]);
+
+    if (existing?.isActive) {
+      throw new AppError('User is already a member of this employer', 409);
+    }
+    if (cuilHolder && cuilHolder.userId !== user.id) {
+      throw new AppError('Another member has this CUIL', 409);
+    }
+
+    const data = { role: input.role, cuil: input.cuil || null, isActive: true, joinedAt: new Date(), leftAt: null };
+    return existing
+      ? prisma.employerMember.update({ where: { id: existing.id }, data, include: { user: true } })
+      : prisma.employerMember.create({ data: { employerId: employer.id, userId: user.id, ...data }, include: { user: true } });
+  }
+
+  async removeMember(member: EmployerMember): Promise<EmployerMember> {
+    return prisma.employerMember.update({
+      where: { id: member.id },
+      data: { isActive: false, leftAt: new Date() }
+    });
+  }
+
+  /**
+   * Check every row of a payroll file. A row names an active employee by
+   * CUIL, wallet or both, a gross salary and a month that has started; each
+   * employee is paid once per month, across files too. Problems with the
+   * file itself throw, problems with a row reject just that row.
+   */
+  async validatePayroll(employer: Employer, csv: string, currency: ContributionCurrency, now: Date = new Date()): Promise<PayrollValidation> {
+    let records: string[][];
+    try {
+      records = parseCsv(csv);
+    } catch (error) {
+      throw new AppError(`Payroll file is not valid CSV: ${(error as Error).message}`, 400);
+    }
+
+    const [header = [], ...lines] = records;
+    const columns = header.map(column => column.trim().toLowerCase());
+    const index = (name: string) => columns.indexOf(name);
+
+    if (index('gross_salary') < 0 || index('period') < 0 || (index('cuil') < 0 && index('wallet') < 0)) {
+      throw new AppError('Payroll file needs a header with gross_salary, period and cuil or wallet columns', 400);
+    }
+    if (lines.length === 0) {
+      throw new AppError('Payroll file has no rows', 400);
+    }
+    if (lines.length > MAX_PAYROLL_ROWS) {
+      throw new AppError(`Payroll file has more than ${MAX_PAYROLL_ROWS} rows, split it into several files`, 400);
+    }
+
+    const employees = await prisma.employerMember.findMany({
+      where: { employerId: employer.id, role: 'employee', isActive: true },
+      include: { user: true }
+    });
+    const byCuil = new Map(employees.filter(member => member.cuil).map(member => [member.cuil as string, member]));
+    const byWallet = new Map(employees.map(member => [member.user.walletAddress, member]));
+    const currentPeriod = periodOf(now);
+
+    const parsed = lines.map((fields, i) => {
+      const row = i + 2;
+      const errors: string[] = [];
+      const value = (name: string) => (index(name) >= 0 ? (fields[index(name)] || '').trim() : '');
+
+      if (fields.length !== columns.length) {
+        errors.push(`Expected ${columns.length} fields, got ${fields.length}`);
+      }
+
+      const cuil = value('cuil') ? normalizeCuil(value('cuil')) : null;
+      const wallet = value('wallet').toLowerCase();
+      if (value('cuil') && !cuil) {
+        errors.push('Invalid CUIL');
+      }
+      if (wallet && !APTOS_ADDRESS_PATTERN.test(wallet)) {
+        errors.push('Invalid wallet address');
+      }
+
+      let member: EmployeeWithUser | undefined;
+      if (!value('cuil') && !wallet) {
+        errors.push('A CUIL or wallet address is required');
+      } else if (errors.length === 0) {
+        const fromCuil = cuil ? byCuil.get(cuil) : undefined;
+        const fromWallet = wallet ? byWallet.get(wallet) : undefined;
+        if (cuil && wallet && fromCuil !== fromWallet) {
+          errors.push('CUIL and wallet do not belong to the same employee');
+        } else {
+          member = fromCuil || fromWallet;
+          if (!member) {
+            errors.push('Not an employee of this employer');
+          }
+        }
+      }
+
+      let grossSalary: Money | null = null;
+      if (SALARY_PATTERN.test(value('gross_salary')) && Number(value('gross_salary')) > 0) {
+        grossSalary = Money.of(value('gross_salary'), 'down', FIAT_DECIMALS);
+      } else {
+        errors.push('Gross salary must be a positive amount with at most 2 decimals');
+      }
+
+      let period: Date | null = null;
+      const match = PERIOD_PATTERN.exec(value('period'));
+      if (!match) {
+        errors.push('Period must be a month as YYYY-MM');
+      } else {
+        period = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1));
+        if (period > currentPeriod) {
+          errors.push('Period has not started yet');
+        }
+      }
+
+      return { row, errors, member, grossSalary, period };
+    });
+
+    // Employee months paid by earlier files, unless their payment was rejected
+    const candidates = parsed.filter(({ member, period }) => member && period);
+    const paid = await prisma.payrollEntry.findMany({
+      where: {
+        employerId: employer.id,
+        contribution: { status: { not: 'rejected' } },
+        userId: { in: candidates.map(({ member }) => member!.userId) },
+        period: { in: candidates.map(({ period }) => period!) }
+      },
+      select: { userId: true, period: true }
+    });
+    const paidKeys = new Set(paid.map(entry => `${entry.userId}:${periodKey(entry.period)}`));
+    const seen = new Map<string, number>();
+
+    const rows: PayrollRow[] = [];
+    const rejected: PayrollRowError[] = [];
+
+    for (const { row, errors, member, grossSalary, period } of parsed) {
+      if (errors.length === 0 && member && period) {
+        const key = `${member.userId}:${periodKey(period)}`;
+        if (seen.has(key)) {
+          errors.push(`Duplicate of row ${seen.get(key)}`);
+        } else if (paidKeys.has(key)) {
+          errors.push(`Already contributed for ${periodKey(period)}`);
+        } else {
+          seen.set(key, row);
+        }
+      }
+
+      if (errors.length > 0 || !member || !grossSalary || !period) {
+        rejected.push({ row, errors });
+        continue;
+      }
+
+      const amounts = this.split(employer, grossSalary);
+      const { tokenAmount } = await contributionService.quote(amounts.totalAmount, currency);
+      if (!tokenAmount.isPositive()) {
+        rejected.push({ row, errors: ['Contribution is too small to buy any AFJP'] });
+        continue;
+      }
+
+      rows.push({ row, member, period, grossSalary, ...amounts, tokenAmount });
+    }
+
+    return { rowCount: lines.length, rows, rejected };
+  }
+
+  /**
+   * Turn a payroll file into one pending contribution per valid row, all in
+   * one transaction. They mint once the employer's payment is confirmed.
+   * Uploading the same file again returns the batch it already created.
+   */
+  async processPayroll(employer: Employer, uploader: User, upload: PayrollUploadRequest): Promise<PayrollResult> {
+    const checksum = sha256(upload.csv);
+    const existing = await prisma.payrollBatch.findUnique({
+      where: { employerId_checksum: { employerId: employer.id, checksum } }
+    });
+
+    if (existing) {
+      return { batch: existing, created: false };
+    }
+
+    const { rowCount, rows, rejected } = await this.validatePayroll(employer, upload.csv, upload.currency);
+    if (rows.length === 0) {
+      throw new PayrollValidationError(rejected);
+    }
+
+    const status: PayrollBatchStatus = rejected.length > 0 ? 'partially_processed' : 'processed';
+
+    const batch = await prisma.$transaction(async (tx) => {
+      const created = await tx.payrollBatch.create({
+        data: {
+          employerId: employer.id,
+          uploadedById: uploader.id,
+          checksum,
+          currency: upload.currency,
+          status,
+          rowCount,
+          processedCount: rows.length,
+          rejectedRows: rejected as unknown as Prisma.InputJsonArray,
+          grossSalary: Money.sum(rows.map(row => row.grossSalary), FIAT_DECIMALS).toDecimal(),
+          employeeAmount: Money.sum(rows.map(row => row.employeeAmount), FIAT_DECIMALS).toDecimal(),
+          employerAmount: Money.sum(rows.map(row => row.employerAmount), FIAT_DECIMALS).toDecimal()
+        }
+      });
+
+      for (const row of rows) {
+        const contribution = await contributionService.create({
+          userId: row.member.userId,
+          walletAddress: row.member.user.walletAddress,
+          amount: row.totalAmount,
+          currency: upload.currency,
+          employerId: employer.id
+        }, tx);
+
+        await tx.payrollEntry.create({
+          data: {
+            batchId: created.id,
+            employerId: employer.id,
+            userId: row.member.userId,
+            rowNumber: row.row,
+            cuil: row.member.cuil,
+            period: row.period,
+            grossSalary: row.grossSalary.toDecimal(),
+            employeeAmount: row.employeeAmount.toDecimal(),
+            employerAmount: row.employerAmount.toDecimal(),
+            contributionId: contribution.id
+          }
+        });
+      }
+
+      await outboxService.record({
+        type: 'PayrollBatchProcessed',
+        aggregateType: 'payroll_batch',
+        aggregateId: created.id,
+        data: {
+          batchId: created.id,
+          employerId: employer.id,
+          status,
+          processedCount: rows.length,
+          rejectedCount: rejected.length,
+          currency: upload.currency,
+          totalAmount: Money.of(created.employeeAmount, 'down', FIAT_DECIMALS).plus(created.employerAmount).toString()
+        }
+      }, tx);
+
+      return created;
+    }, { timeout: PAYROLL_TRANSACTION_TIMEOUT_MS });
+
+    return { batch, created: true };
+  }
+
+  /**
+   * Confirm that the employer's payment for a batch settled: every pending
+   * contribution of the batch is confirmed against it in one transaction.
+   * Returns how many were confirmed.
+   */
+  async confirmPayroll(batch: PayrollBatch, input: ConfirmContributionRequest): Promise<number> {
+    const entries = await prisma.payrollEntry.findMany({
+      where: { batchId: batch.id, contribution: { status: 'pending' } },
+      orderBy: { rowNumber: 'asc' }
+    });
+
+    if (entries.length === 0) {
+      throw new AppError('Payroll batch has no contributions awaiting payment', 409);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const entry of entries) {
+        await contributionService.confirm(entry.contributionId, input, tx);
+      }
+
+    }, { timeout: PAYROLL_TRANSACTION_TIMEOUT_MS });
+
+    return entries.length;
+  }
+
+  /**
+   * What an employer paid for a month against who it employed: payroll
+   * entries with their amounts and chain status, and the employees with
+   * no contribution for the month
+   */
+  async reconcile(employer: Employer, period: Date) {
+    const nextPeriod = addMonths(period, 1);
+
+    const [employees, entries] = await Promise.all([
+      prisma.employerMember.findMany({
+        where: {
+          employerId: employer.id,
+          role: 'employee',
+          joinedAt: { lt: nextPeriod },
+          OR: [{ leftAt: null }, { leftAt: { gte: period } }]
+        },
+        include: { user: true },
+        orderBy: { id: 'asc' }
+      }),
+      prisma.payrollEntry.findMany({
+        where: { employerId: employer.id, period },
+        include: {
+          user: true,
+          contribution: {
+            include: { mintTransaction: true, vestingTransaction: true }
+          }
+        },
+        orderBy: [{ batchId: 'asc' }, { rowNumber: 'asc' }]
+      })
+    ]);
+
+    const transactions = { awaiting_payment: 0, confirmed: 0, pending: 0, failed: 0, rejected: 0 };
+    const totals = new Map<string, { grossSalary: Money; employeeAmount: Money; employerAmount: Money; totalAmount: Money; tokenAmount: Money }>();
+
+    const rows = entries.map(entry => {
+      const { contribution } = entry;
+      const statuses = [contribution.mintTransaction?.status, contribution.vestingTransaction?.status];
+      let status: keyof typeof transactions = 'pending';
+      if (contribution.status === 'pending') {
+        status = 'awaiting_payment';
+      } else if (contribution.status === 'rejected') {
+        status = 'rejected';
+      } else if (statuses.includes('failed')) {
+        status = 'failed';
+      } else if (statuses.every(value => value === 'confirmed')) {
+        status = 'confirmed';
+      }
+      transactions[status]++;
+
+      const totalAmount = Money.of(entry.employeeAmount, 'down', FIAT_DECIMALS).plus(entry.employerAmount);
+      // A rejected payment was never made, the month is still owed
+      if (status !== 'rejected') {
+        const sums = totals.get(contribution.currency) || {
+          grossSalary: Money.zero(FIAT_DECIMALS),
+          employeeAmount: Money.zero(FIAT_DECIMALS),
+          employerAmount: Money.zero(FIAT_DECIMALS),
+          totalAmount: Money.zero(FIAT_DECIMALS),
+          tokenAmount: Money.zero()
+        };
+        totals.set(contribution.currency, {
+          grossSalary: sums.grossSalary.plus(entry.grossSalary),
+          employeeAmount: sums.employeeAmount.plus(entry.employeeAmount),
+          employerAmount: sums.employerAmount.plus(entry.employerAmount),
+          totalAmount: sums.totalAmount.plus(totalAmount),
+          tokenAmount: sums.tokenAmount.plus(contribution.tokenAmount)
+        });
+      }
+
+      return {
+        entryId: entry.id,
+        batchId: entry.batchId,
+        rowNumber: entry.rowNumber,
+        walletAddress: entry.user.walletAddress,
+        cuil: entry.cuil,
+        currency: contribution.currency,
+        grossSalary: Money.of(entry.grossSalary, 'down', FIAT_DECIMALS),
+        employeeAmount: Money.of(entry.employeeAmount, 'down', FIAT_DECIMALS),
+        employerAmount: Money.of(entry.employerAmount, 'down', FIAT_DECIMALS),
+        totalAmount,
+        tokenAmount: Money.of(contribution.tokenAmount),
+        contributionId: contribution.id,
+        status
+      };
+    });
+
+    const contributed = new Set(entries
+      .filter(entry => entry.contribution.status !== 'rejected')
+      .map(entry => entry.userId));
+
+    return {
+      period: periodKey(period),
+      employees: {
+        expected: employees.length,
+        contributed: employees.filter(member => contributed.has(member.userId)).length,
+        missing: employees
+          .filter(member => !contributed.has(member.userId))
+          .map(member => ({ walletAddress: member.user.walletAddress, cuil: member.cuil }))
+      },
+      totals: [...totals.entries()].map(([currency, sums]) => ({ currency, ...sums })),
+      transactions,
+      entries: rows
+    };
+  }
+}
+
+// Export singleton instance
+export const employerService = new EmployerService();
@@ -0,0 +1,525 @@
+import { Prisma } from '@prisma/client';
+import { HexString, Types } from 'aptos';
+import { prisma } from '../index';
+import { analyticsCache } from './analyticsCache';
+import { chainAdapter } from './chainAdapter';
+import { ChainAdapter, ChainEventType, ChainTransactionMeta, DecodedChainEvent } from '../types';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
+import { allocateRelease } from '../utils/vestingCalculator';
+
+interface EventHandleSpec {
+  type: ChainEventType;
+  struct: string;
+  field: string;
+}
+
+// Event handles of the AFJP modules, all stored on the module account
+export const EVENT_HANDLES: EventHandleSpec[] = [
+  { type: 'MintEvent', struct: 'afjp_token::TokenEvents', field: 'mint_events' },
+  { type: 'BurnEvent', struct: 'afjp_token::TokenEvents', field: 'burn_events' },
+  { type: 'TransferEvent', struct: 'afjp_token::TokenEvents', field: 'transfer_events' },
+  { type: 'StakeEvent', struct: 'afjp_staking::StakingEvents', field: 'stake_events' },
+  { type: 'UnstakeEvent', struct: 'afjp_staking::StakingEvents', field: 'unstake_events' },
+  { type: 'ClaimEvent', struct: 'afjp_staking::StakingEvents', field: 'claim_events' },
+  { type: 'ScheduleCreatedEvent', struct: 'afjp_vesting::VestingEvents', field: 'schedule_created_events' },
+  { type: 'TokensReleasedEvent', struct: 'afjp_vesting::VestingEvents', field: 'tokens_released_events' }
+];
+
+export interface EventIndexerOptions {
+  startVersion: bigint;
+  pageSize: number;
+  pollIntervalMs: number;
+}
+
+type EventSource = Pick<ChainAdapter, 'getModuleEvents' | 'getTransactionMeta' | 'getLedgerInfo'>;
+
+// Cursor row holding the ledger version every handle was last indexed up to, for lag checks
+export const INDEXER_SYNC_HANDLE = 'ledger';
+
+// u64 base units to whole tokens
+const toAmount = (baseUnits: string): string => Money.fromBaseUnits(baseUnits).toString();
+
+// Move timestamps are in seconds
+const toDate = (seconds: string): Date => new Date(Number(seconds) * 1000);
+
+const toAddress = (address: string): string => HexString.ensure(address).toShortString().toLowerCase();
+
+// Wallets may have been registered with either the short or the zero-padded address
+const addressForms = (address: string): string[] => {
+  const short = toAddress(address);
+  return [...new Set([short, `0x${short.slice(2).padStart(64, '0')}`])];
+};
+
+/**
+ * Decode a raw node event into its typed form
+ */
+export const decodeEvent = (spec: EventHandleSpec, event: Types.VersionedEvent): DecodedChainEvent => {
+  const handle = `${spec.struct}/${spec.field}`;
+  const meta = {
+    key: `${handle}#${event.sequence_number}`,
+    handle,
+    sequenceNumber: event.sequence_number,
+    version: event.version
+  };
+  const data = event.data;
+
+  switch (spec.type) {
+    case 'MintEvent':
+      return { ...meta, type: spec.type, recipient: toAddress(data.recipient), amount: toAmount(data.amount), timestamp: toDate(data.timestamp) };
+    case 'BurnEvent':
+      return { ...meta, type: spec.type, burner: toAddress(data.burner), amount: toAmount(data.amount), timestamp: toDate(data.timestamp) };
+    case 'TransferEvent':
+      return {
+        ...meta,
+        type: spec.type,
+        from: toAddress(data.from),
+        to: toAddress(data.to),
+        amount: toAmount(data.amount),
+        timestamp: toDate(data.timestamp)
+      };
+    case 'StakeEvent':
+    case 'UnstakeEvent':
+      return { ...meta, type: spec.type, user: toAddress(data.user), amount: toAmount(data.amount), timestamp: toDate(data.timestamp) };
+    case 'ClaimEvent':
+      return { ...meta, type: spec.type, user: toAddress(data.user), rewardAmount: toAmount(data.reward_amount), timestamp: toDate(data.timestamp) };
+    case 'ScheduleCreatedEvent':
+      return {
+        ...meta,
+        type: spec.type,
+        beneficiary: toAddress(data.beneficiary),
+        creator: toAddress(data.creator),
+        amount: toAmount(data.amount),
+        startTime: toDate(data.start_time),
+        cliffTime: toDate(data.cliff_time),
+        endTime: toDate(data.end_time)
+      };
+    case 'TokensReleasedEvent':
+      return {
+        ...meta,
+        type: spec.type,
+        beneficiary: toAddress(data.beneficiary),
+        amount: toAmount(data.amount),
+        totalReleased: toAmount(data.total_released),
+        timestamp: toDate(data.timestamp)
+      };
+  }
+};
+
+export class EventIndexer {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private source: EventSource, private options: EventIndexerOptions) {}
+
+  /**
+   * Poll the node on an interval until stopped
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.options.pollIntervalMs);
+    this.tick();
+    logger.info('Event indexer started:', {
+      startVersion: this.options.startVersion.toString(),
+      pollIntervalMs: this.options.pollIntervalMs
+    });
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Index every handle up to the node's latest event, returns how many events were applied.
+   * Afterwards everything up to the ledger version read at the start is indexed.
+   */
+  async runOnce(): Promise<number> {
+    const ledger = await this.source.getLedgerInfo();
+    let applied = 0;
+
+    for (const spec of EVENT_HANDLES) {
+      applied += await this.indexHandle(spec);
+    }
+
+    const syncedVersion = BigInt(ledger.ledgerVersion);
+    await prisma.indexerCursor.upsert({
+      where: { eventHandle: INDEXER_SYNC_HANDLE },
+      update: { lastVersion: syncedVersion },
+      create: { eventHandle: INDEXER_SYNC_HANDLE, lastVersion: syncedVersion }
+    });
+
+    return applied;
+  }
+
+  /**
+   * Index one handle from its stored cursor. Each event is applied in the
+   * same transaction that advances the cursor, so a crash never skips or
+   * double-applies an event. Events below the start version only move the cursor.
+   */
+  async indexHandle(spec: EventHandleSpec): Promise<number> {
+    const handle = `${spec.struct}/${spec.field}`;
+    const cursor = await prisma.indexerCursor.findUnique({
+      where: { eventHandle: handle }
+    });
+
+    let nextSequence = cursor?.nextSequence ?? BigInt(0);
+    let applied = 0;
+
+    for (;;) {
+      const events = await this.source.getModuleEvents(spec.struct, spec.field, nextSequence, this.options.pageSize);
+      const transactions = new Map<string, ChainTransactionMeta>();
+
+      for (const event of events) {
+        const decoded = decodeEvent(spec, event);
+        const inRange = BigInt(decoded.version) >= this.options.startVersion;
+
+        let meta: ChainTransactionMeta | undefined;
+        if (inRange) {
+          meta = transactions.get(decoded.version) ?? await this.source.getTransactionMeta(decoded.version);
+          transactions.set(decoded.version, meta);
+        }
+
+        nextSequence = BigInt(decoded.sequenceNumber) + BigInt(1);
+
+        await prisma.$transaction(async (tx) => {
+          if (meta && await this.apply(tx, decoded, meta)) {
+            applied++;
+          }
+
+          await tx.indexerCursor.upsert({
+            where: { eventHandle: handle },
+            update: { nextSequence, lastVersion: BigInt(decoded.version) },
+            create: { eventHandle: handle, nextSequence, lastVersion: BigInt(decoded.version) }
+          });
+        });
+      }
+
+      if (events.length < this.options.pageSize) {
+        break;
+      }
+    }
+
+    if (applied > 0) {
+      await analyticsCache.invalidate('transactions', 'staking');
+      logger.info('Indexed chain events:', { handle, applied, nextSequence: nextSequence.toString() });
+    }
+
+    return applied;
+  }
+
+  private async tick() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runOnce();
+    } catch (error) {
+      logger.error('Event indexer run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Apply a decoded event to the database, returns false if it was already indexed
+   */
+  private async apply(tx: Prisma.TransactionClient, event: DecodedChainEvent, meta: ChainTransactionMeta): Promise<boolean> {
+    switch (event.type) {
+      case 'MintEvent':
+        return this.applyTokenMovement(tx, event, meta, event.recipient, 'mint', event.amount);
+      case 'BurnEvent':
+        return this.applyTokenMovement(tx, event, meta, event.burner, 'burn', event.amount);
+      case 'TransferEvent':
+        // Recorded on the sender, like transfers made through the API
+        return this.applyTokenMovement(tx, event, meta, event.from, 'transfer', event.amount);
+      case 'StakeEvent':
+        return this.applyStake(tx, event, meta);
+      case 'UnstakeEvent':
+        return this.applyUnstake(tx, event, meta);
+      case 'ClaimEvent':
+        return this.applyClaim(tx, event, meta);
+      case 'ScheduleCreatedEvent':
+        return this.applyScheduleCreated(tx, event, meta);
+      case 'TokensReleasedEvent':
+        return this.applyTokensReleased(tx, event, meta);
+    }
+  }
+
+  private async applyTokenMovement(
+    tx: Prisma.TransactionClient,
+    event: DecodedChainEvent,
+    meta: ChainTransactionMeta,
+    address: string,
+    transactionType: string,
+    amount: string
+  ): Promise<boolean> {
+    const user = await this.findUser(tx, address, event);
+    if (!user || await this.transactionState(tx, event, meta, transactionType) !== 'new') {
+      return false;
+    }
+
+    await this.recordTransaction(tx, event, meta, user.id, transactionType, amount);
+    return true;
+  }
+
+  private async applyStake(
+    tx: Prisma.TransactionClient,
+    event: Extract<DecodedChainEvent, { type: 'StakeEvent' }>,
+    meta: ChainTransactionMeta
+  ): Promise<boolean> {
+    const user = await this.findUser(tx, event.user, event);
+    if (!user || await this.transactionState(tx, event, meta, 'stake') !== 'new') {
+      return false;
+    }
+
+    await tx.stakingRecord.upsert({
+      where: { eventKey: event.key },
+      update: {},
+      create: {
+        userId: user.id,
+        stakedAmount: event.amount,
+        stakedAt: event.timestamp,
+        isActive: true,
+        eventKey: event.key
+      }
+    });
+
+    await this.recordTransaction(tx, event, meta, user.id, 'stake', event.amount);
+    return true;
+  }
+
+  private async applyUnstake(
+    tx: Prisma.TransactionClient,
+    event: Extract<DecodedChainEvent, { type: 'UnstakeEvent' }>,
+    meta: ChainTransactionMeta
+  ): Promise<boolean> {
+    const user = await this.findUser(tx, event.user, event);
+    if (!user || await this.transactionState(tx, event, meta, 'unstake') !== 'new') {
+      return false;
+    }
+
+    // Unstaking draws down the oldest active stakes first
+    const records = await tx.stakingRecord.findMany({
+      where: { userId: user.id, isActive: true },
+      orderBy: { stakedAt: 'asc' }
+    });
+
+    let remaining = new Prisma.Decimal(event.amount);
+    for (const record of records) {
+      if (remaining.lte(0)) {
+        break;
+      }
+
+      const drawn = Prisma.Decimal.min(remaining, record.stakedAmount);
+      const left = new Prisma.Decimal(record.stakedAmount).minus(drawn);
+      remaining = remaining.minus(drawn);
+
+      await tx.stakingRecord.update({
+        where: { id: record.id },
+        data: {
+          stakedAmount: left,
+          ...(left.isZero() && { isActive: false, unstakedAt: event.timestamp })
+        }
+      });
+    }
+
+    await this.recordTransaction(tx, event, meta, user.id, 'unstake', event.amount);
+    return true;
+  }
+
+  private async applyClaim(
+    tx: Prisma.TransactionClient,
+    event: Extract<DecodedChainEvent, { type: 'ClaimEvent' }>,
+    meta: ChainTransactionMeta
+  ): Promise<boolean> {
+    const user = await this.findUser(tx, event.user, event);
+    if (!user || await this.transactionState(tx, event, meta, 'claim') !== 'new') {
+      return false;
+    }
+
+    const record = await tx.stakingRecord.findFirst({
+      where: { userId: user.id, isActive: true },
+      orderBy: { stakedAt: 'desc' }
+    });
+
+    if (record) {
+      await tx.stakingRecord.update({
+        where: { id: record.id },
+        data: { rewardClaimed: { increment: event.rewardAmount } }
+      });
+    }
+
+    await this.recordTransaction(tx, event, meta, user.id, 'claim', event.rewardAmount);
+    return true;
+  }
+
+  private async applyScheduleCreated(
+    tx: Prisma.TransactionClient,
+    event: Extract<DecodedChainEvent, { type: 'ScheduleCreatedEvent' }>,
+    meta: ChainTransactionMeta
+  ): Promise<boolean> {
+    const user = await this.findUser(tx, event.beneficiary, event);
+    if (!user) {
+      return false;
+    }
+
+    const existing = await tx.vestingSchedule.findUnique({
+      where: { eventKey: event.key }
+    });
+
+    // A contribution wrote the schedule when it queued the transaction, adopt
+    // it with the chain's timestamps instead of adding a second one
+    if (!existing) {
+      const { count } = await tx.vestingSchedule.updateMany({
+        where: {
+          userId: user.id,
+          eventKey: null,
+          contribution: { vestingTransaction: { txHash: meta.hash } }
+        },
+        data: {
+          startTime: event.startTime,
+          cliffTime: event.cliffTime,
+          endTime: event.endTime,
+          eventKey: event.key
+        }
+      });
+
+      if (count > 0) {
+        return false;
+      }
+    }
+
+    await tx.vestingSchedule.upsert({
+      where: { eventKey: event.key },
+      update: {},
+      create: {
+        userId: user.id,
+        totalAmount: event.amount,
+        startTime: event.startTime,
+        cliffTime: event.cliffTime,
+        endTime: event.endTime,
+        isActive: true,
+        eventKey: event.key
+      }
+    });
+
+    return !existing;
+  }
+
+  private async applyTokensReleased(
+    tx: Prisma.TransactionClient,
+    event: Extract<DecodedChainEvent, { type: 'TokensReleasedEvent' }>,
+    meta: ChainTransactionMeta
+  ): Promise<boolean> {
+    const user = await this.findUser(tx, event.beneficiary, event);
+    if (!user || await this.transactionState(tx, event, meta, 'claim') !== 'new') {
+      return false;
+    }
+
+    const schedules = await tx.vestingSchedule.findMany({
+      where: { userId: user.id, isActive: true },
+      orderBy: [{ startTime: 'asc' }, { id: 'asc' }]
+    });
+
+    // One release covers every grant of the beneficiary, split like the release endpoint does
+    const releases = allocateRelease(schedules, event.amount, event.timestamp);
+    for (const { schedule, amount } of releases) {
+      await tx.vestingSchedule.update({
+        where: { id: schedule.id },
+        data: { releasedAmount: { increment: amount.toDecimal() } }
+      });
+    }
+
+    const unallocated = Money.of(event.amount).minus(Money.sum(releases.map(release => release.amount)));
+    if (unallocated.isPositive()) {
+      logger.warn('Indexed release exceeds the unreleased vesting schedules:', {
+        eventKey: event.key,
+        unallocated: unallocated.toString()
+      });
+    }
+
+    await this.recordTransaction(tx, event, meta, user.id, 'claim', event.amount);
+    return true;
+  }
+
+  /**
+   * Whether the event still has to be applied: 'indexed' if a previous run
+   * recorded it, 'recorded' if the API already wrote a row for the same
+   * transaction hash (that row is adopted instead of duplicated)
+   */
+  private async transactionState(
+    tx: Prisma.TransactionClient,
+    event: DecodedChainEvent,
+    meta: ChainTransactionMeta,
+    transactionType: string
+  ): Promise<'new' | 'indexed' | 'recorded'> {
+    const indexed = await tx.tokenTransaction.findUnique({
+      where: { eventKey: event.key }
+    });
+
+    if (indexed) {
+      return 'indexed';
+    }
+
+    const { count } = await tx.tokenTransaction.updateMany({
+      where: { txHash: meta.hash, transactionType, eventKey: null },
+      data: {
+        eventKey: event.key,
+        blockNumber: BigInt(meta.blockHeight),
+        status: 'confirmed'
+      }
+    });
+
+    return count > 0 ? 'recorded' : 'new';
+  }
+
+  private async recordTransaction(
+    tx: Prisma.TransactionClient,
+    event: DecodedChainEvent,
+    meta: ChainTransactionMeta,
+    userId: number,
+    transactionType: string,
+    amount: string
+  ) {
+    await tx.tokenTransaction.create({
+      data: {
+        userId,
+        tokenType: 'AFJP',
+        transactionType,
+        amount,
+        txHash: meta.hash,
+        blockNumber: BigInt(meta.blockHeight),
+        status: 'confirmed',
+        eventKey: event.key
+      }
+    });
+  }
+
+  private async findUser(tx: Prisma.TransactionClient, address: string, event: DecodedChainEvent) {
+    const user = await tx.user.findFirst({
+      where: { walletAddress: { in: addressForms(address) } }
+    });
+
+    if (!user) {
+      logger.debug('Skipping chain event for unknown wallet:', { key: event.key, address });
+    }
+
+    return user;
+  }
+}
+
+// Export singleton instance
+export const eventIndexer = new EventIndexer(chainAdapter, {
+  startVersion: BigInt(config.indexerStartVersion),
+  pageSize: config.indexerPageSize,
+  pollIntervalMs: config.indexerPollIntervalMs
+});
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import { prisma, redis } from '../index';
+import { chainAdapter } from './chainAdapter';
+import { INDEXER_SYNC_HANDLE } from './eventIndexer';
+import { BuildInfo, ComponentHealth, HealthReport, HealthStatus } from '../types';
+import { config } from '../utils/config';
+
+export interface HealthServiceOptions {
+  // A check that takes longer fails
+  timeoutMs: number;
+  // A check that takes longer passes as degraded
+  slowMs: number;
+  // Oldest acceptable ledger timestamp, a node that stopped syncing falls behind it
+  maxLedgerAgeMs: number;
+  // Longest acceptable time since the indexer last caught up with the chain
+  maxIndexerLagMs: number;
+  indexerEnabled: boolean;
+}
+
+interface CheckResult {
+  status?: HealthStatus;
+  details?: Record<string, unknown>;
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+// package.json sits two levels up from both src/services and dist/services
+const packageVersion = (): string => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '../../package.json'), 'utf8')).version;
+  } catch (error) {
+    return 'unknown';
+  }
+};
+
+export const readBuildInfo = (): BuildInfo => ({
+  version: config.appVersion || packageVersion(),
+  commit: config.gitCommit,
+  builtAt: config.buildTime,
+  node: process.version,
+  environment: config.nodeEnv
+});
+
+export class HealthService {
+  constructor(private options: HealthServiceOptions, private build: BuildInfo = readBuildInfo()) {}
+
+  /**
+   * Liveness only says the process is serving requests, it checks no dependencies
+   */
+  live(): HealthReport {
+    return {
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+      build: this.build
+    };
+  }
+
+  /**
+   * Check every dependency in parallel. The service is unhealthy when the
+   * database is, and degraded when any other component is not healthy.
+   */
+  async ready(): Promise<HealthReport> {
+    const [database, cache, aptos] = await Promise.all([
+      this.run(true, () => this.checkDatabase()),
+      this.run(false, () => this.checkRedis()),
+      this.run(false, () => this.checkAptos())
+    ]);
+    const components = { database, redis: cache, aptos };
+
+    return {
+      ...this.live(),
+      status: this.overall(Object.values(components)),
+      components
+    };
+  }
+
+  private async run(critical: boolean, check: () => Promise<CheckResult>): Promise<ComponentHealth> {
+    const startedAt = Date.now();
+
+    try {
+      const result = await withTimeout(check(), this.options.timeoutMs);
+      const latencyMs = Date.now() - startedAt;
+      const status = result.status === undefined || result.status === 'healthy'
+        ? (latencyMs > this.options.slowMs ? 'degraded' : 'healthy')
+        : result.status;
+
+      return { status, critical, latencyMs, ...(result.details && { details: result.details }) };
+    } catch (error) {
+      return {
+        status: 'unhealthy',
+        critical,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private overall(components: ComponentHealth[]): HealthStatus {
+    if (components.some(component => component.critical && component.status === 'unhealthy')) {
+      return 'unhealthy';
+    }
+
+    return components.every(component => component.status === 'healthy') ? 'healthy' : 'degraded';
+  }
+
+  private async checkDatabase(): Promise<CheckResult> {
+    await prisma.$queryRaw`SELECT 1`;
+    return {};
+  }
+
+  private async checkRedis(): Promise<CheckResult> {
+    await redis.ping();
+    return {};
+  }
+
+  private async checkAptos(): Promise<CheckResult> {
+    const ledger = await chainAdapter.getLedgerInfo();
+    const ledgerAgeMs = Date.now() - ledger.ledgerTimestamp.getTime();
+    const details: Record<string, unknown> = {
+      chainId: ledger.chainId,
+      ledgerVersion: ledger.ledgerVersion,
+      blockHeight: ledger.blockHeight,
+      ledgerAgeSeconds: Math.round(ledgerAgeMs / 1000)
+    };
+    let status: HealthStatus = ledgerAgeMs > this.options.maxLedgerAgeMs ? 'degraded' : 'healthy';
+
+    if (this.options.indexerEnabled) {
+      const sync = await prisma.indexerCursor.findUnique({
+        where: { eventHandle: INDEXER_SYNC_HANDLE }
+      });
+
+      if (!sync || sync.lastVersion === null) {
+        details.indexer = { synced: false };
+        status = 'degraded';
+      } else {
+        const lagMs = Date.now() - sync.updatedAt.getTime();
+        details.indexer = {
+          synced: true,
+          syncedVersion: sync.lastVersion.toString(),
+          lagVersions: (BigInt(ledger.ledgerVersion) - sync.lastVersion).toString(),
+          lagSeconds: Math.round(lagMs / 1000)
+        };
+        if (lagMs > this.options.maxIndexerLagMs) {
+          status = 'degraded';
+        }
+      }
+    }
+
+    return { status, details };
+  }
+}
+
+// Export singleton instance
+export const healthService = new HealthService({
+  timeoutMs: config.healthCheckTimeoutMs,
+  slowMs: config.healthCheckSlowMs,
+  maxLedgerAgeMs: config.healthMaxLedgerAgeMs,
+  maxIndexerLagMs: config.healthMaxIndexerLagMs,
+  indexerEnabled: config.indexerEnabled
+});
@@ -0,0 +1,316 @@
+import crypto from 'crypto';
+import { JobRun, Prisma, ScheduledJob } from '@prisma/client';
+import { prisma, redis } from '../index';
+import { JobDefinition, ScheduleJobOptions } from '../types';
+import { config } from '../utils/config';
+import { CronSchedule, parseCron } from '../utils/cron';
+import { logger } from '../utils/logger';
+import { jobRunDuration } from '../utils/metrics';
+import { currentRequestId, runAsJob } from '../utils/requestContext';
+
+const LOCK_PREFIX = 'jobs:lock:';
+
+// Delete the lock only while we still own it, it may have expired and been taken over
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export interface JobSchedulerOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+  // How long a run may take before another instance can pick the job up
+  lockTtlMs: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+}
+
+// Mutual exclusion across instances, resolves with a token to release the lock or null if it is held
+export interface JobLock {
+  acquire(name: string, ttlMs: number): Promise<string | null>;
+  release(name: string, token: string): Promise<void>;
+}
+
+export const redisJobLock: JobLock = {
+  async acquire(name, ttlMs) {
+    const token = crypto.randomUUID();
+    const acquired = await redis.set(`${LOCK_PREFIX}${name}`, token, { NX: true, PX: ttlMs });
+    return acquired === 'OK' ? token : null;
+  },
+
+  async release(name, token) {
+    await redis.eval(RELEASE_SCRIPT, { keys: [`${LOCK_PREFIX}${name}`], arguments: [token] });
+  }
+};
+
+interface RegisteredJob {
+  definition: JobDefinition;
+  cron: CronSchedule | null;
+  nextRunAt: Date | null;
+}
+
+export class JobScheduler {
+  private jobs = new Map<string, RegisteredJob>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private options: JobSchedulerOptions, private lock: JobLock = redisJobLock) {}
+
+  /**
+   * Make a job available to run. Jobs with a cron schedule are queued every
+   * time the schedule matches while the scheduler runs.
+   */
+  register(definition: JobDefinition, now: Date = new Date()) {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job ${definition.name} is already registered`);
+    }
+
+    const cron = definition.schedule ? parseCron(definition.schedule) : null;
+    this.jobs.set(definition.name, { definition, cron, nextRunAt: cron ? cron.next(now) : null });
+  }
+
+  definitions(): Array<JobDefinition & { nextRunAt: Date | null }> {
+    return [...this.jobs.values()].map(({ definition, nextRunAt }) => ({ ...definition, nextRunAt }));
+  }
+
+  has(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  /**
+   * Queue a run of a registered job, now or at `runAt`. Pass `tx` so the
+   * run is only queued if the change that needs it commits.
+   */
+  async schedule(name: string, options: ScheduleJobOptions = {}, tx?: Prisma.TransactionClient): Promise<ScheduledJob> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job ${name}`);
+    }
+
+    const client = tx || prisma;
+    const runAt = options.runAt || new Date();
+    const data = {
+      jobName: name,
+      payload: (options.payload || {}) as Prisma.InputJsonObject,
+      runAt,
+      scheduledFor: runAt,
+      maxAttempts: job.definition.maxAttempts || this.options.maxAttempts,
+      dedupeKey: options.dedupeKey,
+      requestId: currentRequestId()
+    };
+
+    if (!options.dedupeKey) {
+      return client.scheduledJob.create({ data });
+    }
+
+    return client.scheduledJob.upsert({
+      where: { dedupeKey: options.dedupeKey },
+      create: data,
+      update: {}
+    });
+  }
+
+  /**
+   * Queue and run due jobs on an interval until stopped
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.options.pollIntervalMs);
+    logger.info('Job scheduler started', { jobs: [...this.jobs.keys()] });
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runOnce(now: Date = new Date()): Promise<{ queued: number; ran: number }> {
+    const queued = await this.queueCronJobs(now);
+    const ran = await this.runDue(now);
+    return { queued, ran };
+  }
+
+  /**
+   * Queue a run for every cron slot that came up. Every instance computes the
+   * same slots and the run is keyed by job and slot, so it is queued once.
+   * Slots missed while no instance was running are skipped.
+   */
+  async queueCronJobs(now: Date = new Date()): Promise<number> {
+    let queued = 0;
+
+    for (const job of this.jobs.values()) {
+      if (!job.cron || !job.nextRunAt || job.nextRunAt > now) {
+        continue;
+      }
+
+      const slot = job.nextRunAt;
+      await this.schedule(job.definition.name, {
+        runAt: slot,
+        dedupeKey: `${job.definition.name}@${slot.toISOString()}`
+      });
+
+      job.nextRunAt = job.cron.next(now);
+      queued++;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Run due jobs, returns how many succeeded. Each job holds a distributed
+   * lock while it runs so two instances never run the same job at once, and
+   * its row is leased past the lock TTL so a crashed instance's run is
+   * picked up again.
+   */
+  async runDue(now: Date = new Date()): Promise<number> {
+    const due = await prisma.scheduledJob.findMany({
+      where: { status: 'pending', runAt: { lte: now } },
+      orderBy: { runAt: 'asc' },
+      take: this.options.batchSize
+    });
+
+    let succeeded = 0;
+
+    for (const scheduled of due) {
+      const token = await this.lock.acquire(scheduled.jobName, this.options.lockTtlMs);
+      if (!token) {
+        continue;
+      }
+
+      try {
+        const { count } = await prisma.scheduledJob.updateMany({
+          where: { id: scheduled.id, status: 'pending', runAt: scheduled.runAt },
+          data: {
+            attempts: { increment: 1 },
+            runAt: new Date(Date.now() + this.options.lockTtlMs)
+          }
+        });
+
+        if (count === 0) {
+          continue;
+        }
+
+        if (await runAsJob(scheduled.jobName, scheduled.requestId, () => this.execute(scheduled))) {
+          succeeded++;
+        }
+      } finally {
+        await this.lock.release(scheduled.jobName, token).catch(error =>
+          logger.warn('Failed to release job lock:', { job: scheduled.jobName, error })
+        );
+      }
+    }
+
+    return succeeded;
+  }
+
+  private async execute(scheduled: ScheduledJob): Promise<boolean> {
+    const attempt = scheduled.attempts + 1;
+    const stopTimer = jobRunDuration.startTimer({ job: scheduled.jobName });
+    const run: JobRun = await prisma.jobRun.create({
+      data: {
+        scheduledJobId: scheduled.id,
+        jobName: scheduled.jobName,
+        attempt,
+        requestId: currentRequestId()
+      }
+    });
+
+    let lastError: string;
+
+    try {
+      const job = this.jobs.get(scheduled.jobName);
+      if (!job) {
+        throw new Error(`Unknown job ${scheduled.jobName}`);
+      }
+
+      const result = await job.definition.handler({
+        scheduledJobId: scheduled.id,
+        attempt,
+        scheduledFor: scheduled.scheduledFor,
+        payload: scheduled.payload as Record<string, unknown>
+      });
+
+      await prisma.$transaction([
+        prisma.jobRun.update({
+          where: { id: run.id },
+          data: { status: 'succeeded', result: (result || undefined) as Prisma.InputJsonObject | undefined, finishedAt: new Date() }
+        }),
+        prisma.scheduledJob.update({
+          where: { id: scheduled.id },
+          data: { status: 'completed', lastError: null, completedAt: new Date() }
+        })
+      ]);
+
+      stopTimer({ status: 'succeeded' });
+      logger.info('Job succeeded:', { jobRunId: run.id, attempt, result });
+      return true;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    const failed = attempt >= scheduled.maxAttempts;
+
+    await prisma.$transaction([
+      prisma.jobRun.update({
+        where: { id: run.id },
+        data: { status: 'failed', error: lastError, finishedAt: new Date() }
+      }),
+      prisma.scheduledJob.update({
+        where: { id: scheduled.id },
+        data: {
+          status: failed ? 'failed' : 'pending',
+          lastError,
+          runAt: new Date(Date.now() + this.retryDelay(attempt))
+        }
+      })
+    ]);
+
+    stopTimer({ status: 'failed' });
+    logger.error(failed ? 'Job failed, giving up:' : 'Job failed, will retry:', {
+      jobRunId: run.id,
+      attempt,
+      maxAttempts: scheduled.maxAttempts,
+      error: lastError
+    });
+
+    return false;
+  }
+
+  // Exponential backoff: base, 2x base, 4x base, ... capped at retryMaxMs
+  private retryDelay(attempts: number): number {
+    return Math.min(this.options.retryBaseMs * 2 ** (attempts - 1), this.options.retryMaxMs);
+  }
+
+  private async tick() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runOnce();
+    } catch (error) {
+      logger.error('Job scheduler run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const jobScheduler = new JobScheduler({
+  pollIntervalMs: config.jobsPollIntervalMs,
+  batchSize: config.jobsBatchSize,
+  lockTtlMs: config.jobsLockTtlMs,
+  maxAttempts: config.jobsMaxAttempts,
+  retryBaseMs: config.jobsRetryBaseMs,
+  retryMaxMs: config.jobsRetryMaxMs
+});
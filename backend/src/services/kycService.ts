@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError, CreateKycSubmissionRequest, KycGate, KycStatus } from '../types';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+// Allowed User.kycStatus transitions
+export const KYC_TRANSITIONS: Record<KycStatus, KycStatus[]> = {
+  pending: ['submitted'],
+  submitted: ['under_review', 'verified', 'rejected'],
+  under_review: ['verified', 'rejected'],
+  verified: ['rejected'],
+  rejected: ['submitted']
+};
+
+export const canTransition = (from: string, to: KycStatus): boolean =>
+  (KYC_TRANSITIONS[from as KycStatus] || []).includes(to);
+
+/**
+ * Gates that require a verified user, configured with KYC_REQUIRED_FOR
+ * (comma-separated). All gates are enforced when it is not set.
+ */
+export const isKycRequired = (gate: KycGate): boolean => config.kycRequiredFor.includes(gate);
+
+export class KycService {
+  /**
+   * Record a new KYC submission and move the user to 'submitted'
+   */
+  async submit(userId: number, data: CreateKycSubmissionRequest) {
+    return prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({ where: { id: userId } });
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      this.assertTransition(user.kycStatus, 'submitted');
+
+      const submission = await tx.kycSubmission.create({
+        data: {
+          userId,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          dateOfBirth: new Date(data.dateOfBirth),
+          nationality: data.nationality.toUpperCase(),
+          documentType: data.documentType,
+          documentNumber: data.documentNumber,
+          cuil: data.cuil || null,
+          address: data.address || null,
+          documents: data.documents as unknown as Prisma.InputJsonValue
+        }
+      });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          kycStatus: 'submitted',
+          firstName: data.firstName,
+          lastName: data.lastName
+        }
+      });
+
+      logger.info('KYC submitted:', { userId, submissionId: submission.id });
+
+      return submission;
+    });
+  }
+
+  /**
+   * Move a submission (and its user) to a review status
+   */
+  async review(
+    submissionId: number,
+    to: Extract<KycStatus, 'under_review' | 'verified' | 'rejected'>,
+    reviewer: string,
+    reason?: string
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const submission = await tx.kycSubmission.findUnique({
+        where: { id: submissionId },
+        include: { user: true }
+      });
+
+      if (!submission) {
+        throw new AppError('KYC submission not found', 404);
+      }
+
+      this.assertTransition(submission.status, to);
+      this.assertTransition(submission.user.kycStatus, to);
+
+      if (submission.user.walletAddress === reviewer) {
+        throw new AppError('Reviewers cannot review their own KYC submission', 403);
+      }
+
+      const updated = await tx.kycSubmission.update({
+        where: { id: submissionId },
+        data: {
+          status: to,
+          reviewedBy: reviewer,
+          reviewedAt: new Date(),
+          rejectionReason: to === 'rejected' ? reason : null
+        }
+      });
+
+      await tx.user.update({
+        where: { id: submission.userId },
+        data: { kycStatus: to }
+      });
+
+      logger.info('KYC status changed:', {
+        submissionId,
+        userId: submission.userId,
+        from: submission.status,
+        to,
+        reviewer
+      });
+
+      return updated;
+    });
+  }
+
+  private assertTransition(from: string, to: KycStatus): void {
+    if (!canTransition(from, to)) {
+      throw new AppError(`Cannot change KYC status from '${from}' to '${to}'`, 409);
+    }
+  }
+}
+
+// Export singleton instance
+export const kycService = new KycService();
@@ -0,0 +1,270 @@
+import { JournalEntry, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError, JournalEntryInput, LedgerAccount, LedgerBucket, LedgerPosting, SystemAccount, TokenType } from '../types';
+import { logger } from '../utils/logger';
+import { Money, MoneyInput, TOKEN_DECIMALS } from '../utils/money';
+
+const BUCKET_FIELDS: Record<LedgerBucket, 'balance' | 'lockedBalance'> = {
+  available: 'balance',
+  locked: 'lockedBalance'
+};
+
+export interface ReconciliationResult {
+  tokenType: string;
+  bucket: LedgerBucket;
+  journalBalance: string;
+  recordedBalance: string;
+  matches: boolean;
+}
+
+export const accountCode = (account: LedgerAccount): string => {
+  if ('userId' in account) {
+    return `user:${account.userId}:${account.bucket}`;
+  }
+  if ('system' in account) {
+    return `system:${account.system}`;
+  }
+  return `external:${account.external}`;
+};
+
+export const parseAccountCode = (code: string): LedgerAccount => {
+  const [kind, ...rest] = code.split(':');
+
+  if (kind === 'user') {
+    return { userId: parseInt(rest[0]), bucket: rest[1] as LedgerBucket };
+  }
+  if (kind === 'system') {
+    return { system: rest.join(':') as SystemAccount };
+  }
+  return { external: rest.join(':') };
+};
+
+/**
+ * Convert to a ledger amount, truncated to the token's 8 decimals so
+ * computed amounts (rewards, vesting) never credit more than was earned
+ */
+export const toLedgerAmount = (value: MoneyInput): Prisma.Decimal => {
+  const amount = Money.of(value, 'down');
+
+  if (!amount.isPositive()) {
+    throw new AppError('Ledger amounts must be positive', 400);
+  }
+
+  return amount.toDecimal();
+};
+
+export class LedgerService {
+  /**
+   * Record a balanced journal entry and apply it to TokenBalance.
+   *
+   * Every posting debits `from` and credits `to` for the same amount, so an
+   * entry always balances. User accounts are debited with a conditional
+   * update, which makes the insufficient-balance check atomic with the write.
+   * Pass `tx` to join a transaction the caller already opened.
+   */
+  async record(input: JournalEntryInput, tx?: Prisma.TransactionClient): Promise<JournalEntry> {
+    if (!tx) {
+      return prisma.$transaction(client => this.record(input, client));
+    }
+
+    if (input.postings.length === 0) {
+      throw new AppError('Journal entry has no postings', 400);
+    }
+
+    const lines: Prisma.JournalLineCreateWithoutEntryInput[] = [];
+
+    for (const posting of input.postings) {
+      const amount = toLedgerAmount(posting.amount);
+
+      await this.debit(tx, posting.from, input.tokenType, amount);
+      await this.credit(tx, posting.to, input.tokenType, amount);
+
+      lines.push(
+        this.line(posting.from, input.tokenType, { debit: amount }),
+        this.line(posting.to, input.tokenType, { credit: amount })
+      );
+    }
+
+    const entry = await tx.journalEntry.create({
+      data: {
+        entryType: input.entryType,
+        reference: input.reference,
+        memo: input.memo,
+        lines: { create: lines }
+      }
+    });
+
+    logger.info('Journal entry recorded:', {
+      entryId: entry.id,
+      entryType: input.entryType,
+      tokenType: input.tokenType,
+      reference: input.reference
+    });
+
+    return entry;
+  }
+
+  /**
+   * Undo the entries recorded under a reference, e.g. for a chain
+   * transaction that failed. Each entry gets a reversal with its postings
+   * swapped under the same reference, so a reference is only reversed once.
+   * Throws like `record` when a balance the entries credited was spent since.
+   */
+  async reverse(reference: string, tx?: Prisma.TransactionClient): Promise<JournalEntry[]> {
+    if (!tx) {
+      return prisma.$transaction(client => this.reverse(reference, client));
+    }
+
+    const entries = await tx.journalEntry.findMany({
+      where: { reference },
+      include: { lines: { orderBy: { id: 'asc' } } },
+      orderBy: { id: 'asc' }
+    });
+
+    if (entries.some(entry => entry.entryType === 'reversal')) {
+      return [];
+    }
+
+    const reversals: JournalEntry[] = [];
+
+    for (const entry of entries) {
+      const postings: LedgerPosting[] = [];
+
+      // Lines were written in pairs, the debit of a posting then its credit
+      for (let i = 0; i + 1 < entry.lines.length; i += 2) {
+        postings.push({
+          from: parseAccountCode(entry.lines[i + 1].account),
+          to: parseAccountCode(entry.lines[i].account),
+          amount: entry.lines[i].debit
+        });
+      }
+
+      reversals.push(await this.record({
+        entryType: 'reversal',
+        tokenType: entry.lines[0].tokenType as TokenType,
+        reference,
+        memo: `Reverses journal entry #${entry.id}`,
+        postings
+      }, tx));
+    }
+
+    return reversals;
+  }
+
+  /**
+   * Balance of every bucket of a user as derived from the journal
+   */
+  async getJournalBalances(userId: number) {
+    const sums = await prisma.journalLine.groupBy({
+      by: ['account', 'tokenType'],
+      where: { userId },
+      _sum: { debit: true, credit: true }
+    });
+
+    return sums.map(sum => ({
+      bucket: sum.account.split(':')[2] as LedgerBucket,
+      tokenType: sum.tokenType,
+      balance: new Prisma.Decimal(sum._sum.credit || 0).minus(sum._sum.debit || 0)
+    }));
+  }
+
+  /**
+   * Compare TokenBalance rows with the balances derived from the journal
+   */
+  async reconcile(userId: number): Promise<ReconciliationResult[]> {
+    const [journalBalances, tokenBalances] = await Promise.all([
+      this.getJournalBalances(userId),
+      prisma.tokenBalance.findMany({ where: { userId } })
+    ]);
+
+    const tokenTypes = new Set<string>([
+      ...journalBalances.map(balance => balance.tokenType),
+      ...tokenBalances.map(balance => balance.tokenType)
+    ]);
+
+    const results: ReconciliationResult[] = [];
+
+    for (const tokenType of tokenTypes) {
+      const recorded = tokenBalances.find(balance => balance.tokenType === tokenType);
+
+      for (const bucket of Object.keys(BUCKET_FIELDS) as LedgerBucket[]) {
+        const journalBalance = journalBalances.find(
+          balance => balance.tokenType === tokenType && balance.bucket === bucket
+        )?.balance || new Prisma.Decimal(0);
+        const recordedBalance = new Prisma.Decimal(recorded?.[BUCKET_FIELDS[bucket]] || 0);
+
+        results.push({
+          tokenType,
+          bucket,
+          journalBalance: journalBalance.toFixed(TOKEN_DECIMALS),
+          recordedBalance: recordedBalance.toFixed(TOKEN_DECIMALS),
+          matches: journalBalance.eq(recordedBalance)
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private async debit(tx: Prisma.TransactionClient, account: LedgerAccount, tokenType: TokenType, amount: Prisma.Decimal) {
+    if (!('userId' in account)) {
+      return;
+    }
+
+    const field = BUCKET_FIELDS[account.bucket];
+    const { count } = await tx.tokenBalance.updateMany({
+      where: {
+        userId: account.userId,
+        tokenType,
+        [field]: { gte: amount }
+      },
+      data: {
+        [field]: { decrement: amount }
+      }
+    });
+
+    if (count === 0) {
+      throw new AppError(
+        account.bucket === 'locked' ? `Insufficient locked ${tokenType} balance` : `Insufficient ${tokenType} balance`,
+        400
+      );
+    }
+  }
+
+  private async credit(tx: Prisma.TransactionClient, account: LedgerAccount, tokenType: TokenType, amount: Prisma.Decimal) {
+    if (!('userId' in account)) {
+      return;
+    }
+
+    const field = BUCKET_FIELDS[account.bucket];
+    await tx.tokenBalance.upsert({
+      where: {
+        userId_tokenType: { userId: account.userId, tokenType }
+      },
+      update: {
+        [field]: { increment: amount }
+      },
+      create: {
+        userId: account.userId,
+        tokenType,
+        [field]: amount
+      }
+    });
+  }
+
+  private line(
+    account: LedgerAccount,
+    tokenType: TokenType,
+    amounts: { debit?: Prisma.Decimal; credit?: Prisma.Decimal }
+  ): Prisma.JournalLineCreateWithoutEntryInput {
+    return {
+      account: accountCode(account),
+      tokenType,
+      ...amounts,
+      ...('userId' in account && { user: { connect: { id: account.userId } } })
+    };
+  }
+}
+
+// Export singleton instance
+export const ledgerService = new LedgerService();
@@ -0,0 +1,27 @@
+import { OutboxEvent, Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { DomainEvent } from '../types';
+import { currentRequestId } from '../utils/requestContext';
+
+export class OutboxService {
+  /**
+   * Write a domain event to the outbox. Pass `tx` so the event is only
+   * published if the change it describes commits.
+   */
+  async record(event: DomainEvent, tx?: Prisma.TransactionClient): Promise<OutboxEvent> {
+    const client = tx || prisma;
+
+    return client.outboxEvent.create({
+      data: {
+        eventType: event.type,
+        aggregateType: event.aggregateType,
+        aggregateId: String(event.aggregateId),
+        payload: event.data as Prisma.InputJsonObject,
+        requestId: currentRequestId()
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const outboxService = new OutboxService();
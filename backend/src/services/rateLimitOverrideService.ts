@@ -0,0 +1,103 @@
+import { RateLimitOverride } from '@prisma/client';
+import { prisma } from '../index';
+import { AppError, RateLimitPolicyName } from '../types';
+import { config } from '../utils/config';
+import { ALL_POLICIES } from '../utils/rateLimitPolicies';
+
+export interface RateLimitOverrideInput {
+  subject: string;
+  policy: RateLimitPolicyName | typeof ALL_POLICIES;
+  maxRequests: number | null;
+  reason: string;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Rate limit overrides, looked up on every limited request. They are cached
+ * in memory and reloaded every `refreshMs`, so changes made through another
+ * instance apply within that interval.
+ */
+export class RateLimitOverrideService {
+  private cache: Map<string, RateLimitOverride> | null = null;
+  private loadedAt = 0;
+
+  constructor(private refreshMs: number) {}
+
+  /**
+   * The override for a subject and policy, a policy-specific one wins over '*'
+   */
+  async find(subject: string, policy: RateLimitPolicyName): Promise<RateLimitOverride | null> {
+    const overrides = await this.load();
+    const now = new Date();
+
+    for (const key of [`${subject}|${policy}`, `${subject}|${ALL_POLICIES}`]) {
+      const override = overrides.get(key);
+      if (override && (!override.expiresAt || override.expiresAt > now)) {
+        return override;
+      }
+    }
+
+    return null;
+  }
+
+  async list(): Promise<RateLimitOverride[]> {
+    return prisma.rateLimitOverride.findMany({
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Create or replace the override for a subject and policy
+   */
+  async save(input: RateLimitOverrideInput, actorWallet: string | null): Promise<RateLimitOverride> {
+    const data = {
+      maxRequests: input.maxRequests,
+      reason: input.reason,
+      createdBy: actorWallet,
+      expiresAt: input.expiresAt || null
+    };
+
+    const override = await prisma.rateLimitOverride.upsert({
+      where: { subject_policy: { subject: input.subject, policy: input.policy } },
+      create: { subject: input.subject, policy: input.policy, ...data },
+      update: data
+    });
+
+    this.invalidate();
+    return override;
+  }
+
+  async remove(id: number): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const override = await tx.rateLimitOverride.findUnique({ where: { id } });
+
+      if (!override) {
+        throw new AppError('Rate limit override not found', 404);
+      }
+
+      await tx.rateLimitOverride.delete({ where: { id } });
+    });
+
+    this.invalidate();
+  }
+
+  // Drop the cache after a change so this instance applies it right away
+  invalidate() {
+    this.cache = null;
+  }
+
+  private async load(): Promise<Map<string, RateLimitOverride>> {
+    if (this.cache && Date.now() - this.loadedAt < this.refreshMs) {
+      return this.cache;
+    }
+
+    const overrides = await prisma.rateLimitOverride.findMany();
+    this.cache = new Map(overrides.map(override => [`${override.subject}|${override.policy}`, override]));
+    this.loadedAt = Date.now();
+
+    return this.cache;
+  }
+}
+
+// Export singleton instance
+export const rateLimitOverrideService = new RateLimitOverrideService(config.rateLimitOverrideRefreshMs);
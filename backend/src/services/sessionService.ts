@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../index';
+import { AppConfig, AppError, AccessTokenPayload, SessionTokens, User } from '../types';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+export type SessionOptions = Pick<AppConfig, 'jwtSecret' | 'jwtExpiresIn' | 'refreshTokenTtlDays'>;
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export class SessionService {
+  constructor(private options: SessionOptions) {}
+
+  /**
+   * Start a new device session and issue its first token pair
+   */
+  async createSession(user: User, context: SessionContext): Promise<SessionTokens> {
+    const expiresAt = new Date(Date.now() + this.options.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        userAgent: context.userAgent?.slice(0, 255) || null,
+        ipAddress: context.ipAddress || null,
+        expiresAt
+      }
+    });
+
+    const refreshToken = await this.issueRefreshToken(session.id, expiresAt);
+
+    logger.info('Session created:', { userId: user.id, sessionId: session.id });
+
+    return {
+      accessToken: this.signAccessToken(user, session.id),
+      refreshToken,
+      expiresIn: this.options.jwtExpiresIn,
+      sessionId: session.id
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Each refresh token works once;
+   * presenting a used one means it leaked, so the whole session is revoked.
+   */
+  async rotateRefreshToken(refreshToken: string, context: SessionContext): Promise<SessionTokens> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: {
+        session: {
+          include: { user: true }
+        }
+      }
+    });
+
+    if (!stored) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    const { session } = stored;
+
+    if (session.revokedAt) {
+      throw new AppError('Session has been revoked', 401);
+    }
+
+    const now = new Date();
+    if (stored.expiresAt < now || session.expiresAt < now) {
+      throw new AppError('Refresh token expired', 401);
+    }
+
+    const nextToken = this.generateRefreshToken();
+
+    const rotated = !stored.usedAt && await prisma.$transaction(async (tx) => {
+      // Only one caller can mark the token used, even with concurrent refreshes
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: stored.id, usedAt: null },
+        data: { usedAt: now }
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.refreshToken.create({
+        data: {
+          sessionId: session.id,
+          tokenHash: this.hashToken(nextToken),
+          expiresAt: session.expiresAt
+        }
+      });
+
+      await tx.session.update({
+        where: { id: session.id },
+        data: {
+          lastUsedAt: now,
+          ipAddress: context.ipAddress || session.ipAddress
+        }
+      });
+
+      return true;
+    });
+
+    if (!rotated) {
+      await this.revokeSession(session.id, 'refresh_token_reuse');
+      logger.warn('Refresh token reuse detected, session revoked:', {
+        userId: session.userId,
+        sessionId: session.id
+      });
+      throw new AppError('Refresh token reuse detected', 401);
+    }
+
+    return {
+      accessToken: this.signAccessToken(session.user, session.id),
+      refreshToken: nextToken,
+      expiresIn: this.options.jwtExpiresIn,
+      sessionId: session.id
+    };
+  }
+
+  /**
+   * Verify an access token and make sure its session is still live
+   */
+  async verifyAccessToken(token: string): Promise<{ user: User; sessionId: number }> {
+    const decoded = jwt.verify(token, this.options.jwtSecret) as AccessTokenPayload;
+
+    const session = await prisma.session.findUnique({
+      where: { id: decoded.sid },
+      include: { user: true }
+    });
+
+    if (!session || session.userId !== decoded.userId) {
+      throw new AppError('Session not found', 401);
+    }
+
+    if (session.revokedAt || session.expiresAt < new Date()) {
+      throw new AppError('Session has been revoked', 401);
+    }
+
+    return { user: session.user, sessionId: session.id };
+  }
+
+  /**
+   * List the live sessions of a user
+   */
+  async listSessions(userId: number) {
+    return prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { lastUsedAt: 'desc' }
+    });
+  }
+
+  /**
+   * Revoke a session; every token of its family stops working
+   */
+  async revokeSession(sessionId: number, reason: string): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason
+      }
+    });
+  }
+
+  private signAccessToken(user: User, sessionId: number): string {
+    const payload: AccessTokenPayload = {
+      userId: user.id,
+      walletAddress: user.walletAddress,
+      sid: sessionId
+    };
+
+    return jwt.sign(payload, this.options.jwtSecret, {
+      expiresIn: this.options.jwtExpiresIn
+    } as jwt.SignOptions);
+  }
+
+  private async issueRefreshToken(sessionId: number, expiresAt: Date): Promise<string> {
+    const token = this.generateRefreshToken();
+
+    await prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: this.hashToken(token),
+        expiresAt
+      }
+    });
+
+    return token;
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService(config);
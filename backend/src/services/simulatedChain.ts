@@ -0,0 +1,665 @@
+import crypto from 'crypto';
+import { AptosAccount, AptosClient, HexString, TxnBuilderTypes, Types } from 'aptos';
+import { AppError, ChainAdapter, ChainTransactionMeta, ChainTransactionResult, EntryFunctionArgument, LedgerInfo } from '../types';
+import {
+  SignedEntryFunction,
+  authenticationKey,
+  decodeArguments,
+  decodeSignedTransaction,
+  encodeArguments,
+  verifyEd25519
+} from '../utils/entryFunctions';
+import { logger } from '../utils/logger';
+import { Money } from '../utils/money';
+
+// Constants of the Move modules in contracts/sources
+const MIN_STAKE_AMOUNT = BigInt(100);
+const MIN_BURN_AMOUNT = BigInt(100);
+const AFJP_TO_JUVENTUD_RATE = BigInt(10);
+const BASE_APY_BP = BigInt(1200);
+const SECONDS_PER_YEAR = BigInt(31536000);
+const CLIFF_DURATION_SECONDS = BigInt(31536000);
+const VESTING_DURATION_SECONDS = BigInt(157680000);
+
+// The module account's authentication key is rotated to this operator key
+const SIMULATED_OPERATOR_KEY = new Uint8Array(32).fill(1);
+
+// Chain id of an Aptos local testnet
+const SIMULATED_CHAIN_ID = 4;
+
+// Gas is not charged, the values only fill the transactions the simulator signs
+const MAX_GAS_AMOUNT = BigInt(200000);
+const GAS_UNIT_PRICE = BigInt(100);
+const TRANSACTION_TTL_SECONDS = BigInt(600);
+
+export type SimulatedCoin = 'AFJP' | 'JUVENTUD';
+
+export interface SimulatedChainOptions {
+  // Whole AFJP minted by the module account before the first transaction, keyed by address
+  genesis?: Record<string, string>;
+  // Wall clock in milliseconds, injectable so tests control staking and vesting time
+  now?: () => number;
+}
+
+interface StakePosition {
+  staked: bigint;
+  pendingRewards: bigint;
+  totalClaimed: bigint;
+  lastUpdate: bigint;
+  lastStakeTime: bigint;
+}
+
+interface VestingGrant {
+  amount: bigint;
+  released: bigint;
+  startTime: bigint;
+  cliffTime: bigint;
+  endTime: bigint;
+}
+
+interface SimulatedAccount {
+  sequenceNumber: bigint;
+  coins: Record<SimulatedCoin, bigint>;
+  stake: StakePosition | null;
+  vesting: VestingGrant[];
+}
+
+interface CommittedTransaction {
+  hash: string;
+  version: bigint;
+  sender: string;
+  sequenceNumber: bigint;
+  success: boolean;
+  vmStatus: string;
+}
+
+interface PendingEvent {
+  handle: string;
+  type: string;
+  data: Record<string, string>;
+}
+
+interface ExecutionContext {
+  sender: string;
+  now: bigint;
+  args: EntryFunctionArgument[];
+  events: PendingEvent[];
+}
+
+type EntryFunction = (context: ExecutionContext) => void;
+
+// Raised by entry functions, aborts the transaction without touching state
+class MoveAbort extends Error {
+  constructor(public moduleName: string, public code: string, public value: number) {
+    super(`${code}(0x${value.toString(16)})`);
+  }
+}
+
+// Raised for payloads the node would reject before execution
+class InvalidPayload extends Error {}
+
+const toAddress = (address: string): string =>
+  `0x${HexString.ensure(address).noPrefix().toLowerCase().padStart(64, '0')}`;
+
+/**
+ * Deterministic in-process stand-in for the Aptos node running the AFJP modules.
+ *
+ * Entry functions commit immediately, one transaction per block. Signed
+ * transactions are validated like a node does: signature, authentication
+ * key, chain id, sequence number and expiry. Aborted transactions are
+ * committed as failed and still consume a sequence number, like on-chain.
+ * Where the Move modules are placeholders the simulator models the intended
+ * economics: unstaking returns the staked coins, claims mint rewards at the
+ * base APY and vesting releases linearly after the cliff.
+ */
+export class SimulatedChain implements ChainAdapter {
+  private moduleAddress: string;
+  private operatorAccount: AptosAccount;
+  private now: () => number;
+  private accounts = new Map<string, SimulatedAccount>();
+  private transactions: CommittedTransaction[] = [];
+  private events = new Map<string, Types.VersionedEvent[]>();
+  private entryFunctions: Record<string, EntryFunction>;
+
+  constructor(moduleAddress: string, options: SimulatedChainOptions = {}) {
+    this.moduleAddress = toAddress(moduleAddress);
+    this.operatorAccount = new AptosAccount(SIMULATED_OPERATOR_KEY, this.moduleAddress);
+    this.now = options.now || Date.now;
+    this.entryFunctions = {
+      'afjp_token::mint': context => this.mint(context),
+      'afjp_token::transfer': context => this.transfer(context),
+      'afjp_token::burn': context => this.burn(context),
+      'juventud_token::burn_afjp_for_juventud': context => this.burnForJuventud(context),
+      'afjp_staking::stake_tokens': context => this.stake(context),
+      'afjp_staking::unstake_tokens': context => this.unstake(context),
+      'afjp_staking::claim_rewards': context => this.claimRewards(context),
+      'afjp_vesting::create_vesting_schedule': context => this.createVestingSchedule(context),
+      'afjp_vesting::release_vested_tokens': context => this.releaseVestedTokens(context)
+    };
+
+    // Genesis mints are committed at version 0 so the indexer picks them up
+    const genesis = Object.entries(options.genesis || {});
+    if (genesis.length > 0) {
+      const context: ExecutionContext = { sender: this.moduleAddress, now: this.seconds(), args: [], events: [] };
+      for (const [address, amount] of genesis) {
+        this.mint({ ...context, args: [address, Money.of(amount).toBaseUnits()] });
+      }
+      this.commit(this.moduleAddress, 'genesis', context.events, 'Executed successfully');
+    }
+  }
+
+  /**
+   * The operator account, which signs for the module account. Users sign
+   * their own transactions with their wallet.
+   */
+  operator(): AptosAccount {
+    return this.operatorAccount;
+  }
+
+  async getTokenBalance(address: string, tokenType: string): Promise<Money> {
+    const coin = tokenType.toUpperCase();
+    if (coin !== 'AFJP' && coin !== 'JUVENTUD') {
+      return Money.zero();
+    }
+    return Money.fromBaseUnits(this.account(address).coins[coin]);
+  }
+
+  async getAuthenticationKey(address: string): Promise<string> {
+    return HexString.ensure(this.authenticationKey(address)).toShortString();
+  }
+
+  getSequenceNumber(address: string): string {
+    return this.account(address).sequenceNumber.toString();
+  }
+
+  /**
+   * Sign a transaction with the account's key and submit it, like the SDK
+   * does against a node. The AFJP entry functions take no type arguments.
+   */
+  async executeTransaction(
+    account: AptosAccount,
+    functionName: string,
+    _typeArguments: string[] = [],
+    args: EntryFunctionArgument[] = []
+  ): Promise<string> {
+    const [moduleName, name] = functionName.split('::');
+
+    if (!this.entryFunctions[functionName]) {
+      throw new AppError(`Transaction failed: Function ${this.moduleAddress}::${functionName} does not exist`, 500);
+    }
+
+    let encoded: Uint8Array[];
+    try {
+      encoded = encodeArguments(functionName, args);
+    } catch (error) {
+      throw new AppError(`Transaction failed: Invalid arguments for ${functionName}`, 500);
+    }
+
+    const rawTransaction = new TxnBuilderTypes.RawTransaction(
+      TxnBuilderTypes.AccountAddress.fromHex(account.address()),
+      this.account(account.address().hex()).sequenceNumber,
+      new TxnBuilderTypes.TransactionPayloadEntryFunction(
+        TxnBuilderTypes.EntryFunction.natural(`${this.moduleAddress}::${moduleName}`, name, [], encoded)
+      ),
+      MAX_GAS_AMOUNT,
+      GAS_UNIT_PRICE,
+      this.seconds() + TRANSACTION_TTL_SECONDS,
+      new TxnBuilderTypes.ChainId(SIMULATED_CHAIN_ID)
+    );
+
+    return this.submitSignedTransaction(AptosClient.generateBCSTransaction(account, rawTransaction));
+  }
+
+  async submitSignedTransaction(signedTransaction: Uint8Array): Promise<string> {
+    const signed = decodeSignedTransaction(signedTransaction);
+    const entryFunction = signed.moduleAddress === this.moduleAddress ? this.entryFunctions[signed.functionName] : undefined;
+
+    if (!entryFunction) {
+      throw new AppError(`Transaction failed: Function ${signed.moduleAddress}::${signed.functionName} does not exist`, 500);
+    }
+
+    const sender = signed.sender;
+    const now = this.seconds();
+    const rejection = this.validate(signed, now);
+
+    if (rejection) {
+      throw new AppError(`Transaction rejected: ${rejection}`, 400);
+    }
+
+    let args: EntryFunctionArgument[];
+    try {
+      args = decodeArguments(signed.functionName, signed.args);
+    } catch (error) {
+      throw new AppError(`Transaction failed: Invalid arguments for ${signed.functionName}`, 500);
+    }
+
+    const context: ExecutionContext = { sender, now, args, events: [] };
+    let vmStatus = 'Executed successfully';
+
+    try {
+      entryFunction(context);
+    } catch (error) {
+      if (error instanceof InvalidPayload) {
+        throw new AppError(`Transaction failed: ${error.message}`, 500);
+      }
+      if (!(error instanceof MoveAbort)) {
+        throw error;
+      }
+      vmStatus = `Move abort in ${this.moduleAddress}::${error.moduleName}: ${error.message}`;
+      context.events = [];
+    }
+
+    const transaction = this.commit(sender, signed.functionName, context.events, vmStatus);
+
+    logger.info('Transaction submitted:', {
+      hash: transaction.hash,
+      function: signed.functionName,
+      address: sender
+    });
+
+    return transaction.hash;
+  }
+
+  async getTransactionStatus(hash: string): Promise<ChainTransactionResult> {
+    const transaction = this.transactions.find(committed => committed.hash === hash);
+
+    if (!transaction) {
+      return { status: 'pending' };
+    }
+
+    return {
+      status: transaction.success ? 'confirmed' : 'failed',
+      vmStatus: transaction.vmStatus,
+      version: transaction.version.toString()
+    };
+  }
+
+  // Every transaction is committed in its own block, so heights match versions
+  async getTransactionMeta(version: string): Promise<ChainTransactionMeta> {
+    const transaction = this.transactions.find(committed => committed.version === BigInt(version));
+
+    if (!transaction) {
+      throw new AppError('Unable to fetch transaction from Aptos node', 502);
+    }
+
+    return { hash: transaction.hash, blockHeight: version };
+  }
+
+  async getLedgerInfo(): Promise<LedgerInfo> {
+    const version = String(Math.max(this.transactions.length - 1, 0));
+
+    return {
+      chainId: SIMULATED_CHAIN_ID,
+      ledgerVersion: version,
+      blockHeight: version,
+      ledgerTimestamp: new Date(this.now())
+    };
+  }
+
+  async view(functionName: string, _typeArguments: string[] = [], args: EntryFunctionArgument[] = []): Promise<Types.MoveValue[]> {
+    const account = this.account(String(args[0]));
+    const now = this.seconds();
+
+    switch (functionName) {
+      case 'afjp_token::get_balance':
+        return [account.coins.AFJP.toString()];
+      case 'juventud_token::get_balance':
+        return [account.coins.JUVENTUD.toString()];
+      case 'afjp_staking::calculate_rewards':
+        return [this.pendingRewards(account.stake, now).toString()];
+      case 'afjp_staking::get_staking_info': {
+        const stake = account.stake;
+        return stake
+          ? [stake.staked, stake.totalClaimed, this.pendingRewards(stake, now), stake.lastStakeTime].map(String)
+          : ['0', '0', '0', '0'];
+      }
+      case 'afjp_vesting::get_releasable_amount':
+        return [account.vesting.reduce((sum, grant) => sum + this.releasable(grant, now), BigInt(0)).toString()];
+      default:
+        throw new AppError(`View function failed: ${functionName} is not a view function`, 502);
+    }
+  }
+
+  async getModuleEvents(
+    handleStruct: string,
+    fieldName: string,
+    start: bigint,
+    limit: number
+  ): Promise<Types.VersionedEvent[]> {
+    const events = this.events.get(`${handleStruct}/${fieldName}`) || [];
+    return events.slice(Number(start), Number(start) + limit);
+  }
+
+  private mint({ sender, args, now, events }: ExecutionContext) {
+    const recipient = this.addressArg(args, 0);
+    const amount = this.u64Arg(args, 1);
+
+    if (amount === BigInt(0)) {
+      throw new MoveAbort('afjp_token', 'E_INVALID_AMOUNT', 5);
+    }
+    if (sender !== this.moduleAddress) {
+      throw new MoveAbort('afjp_token', 'E_NOT_ADMIN', 1);
+    }
+
+    this.account(recipient).coins.AFJP += amount;
+    events.push(this.event('afjp_token::TokenEvents/mint_events', 'afjp_token::MintEvent', {
+      recipient,
+      amount: amount.toString(),
+      timestamp: now.toString()
+    }));
+  }
+
+  private transfer({ sender, args, now, events }: ExecutionContext) {
+    const to = this.addressArg(args, 0);
+    const amount = this.u64Arg(args, 1);
+
+    if (amount === BigInt(0)) {
+      throw new MoveAbort('afjp_token', 'E_INVALID_AMOUNT', 5);
+    }
+    if (this.account(sender).coins.AFJP < amount) {
+      throw new MoveAbort('afjp_token', 'E_INSUFFICIENT_BALANCE', 4);
+    }
+
+    this.move('AFJP', sender, to, amount);
+    events.push(this.event('afjp_token::TokenEvents/transfer_events', 'afjp_token::TransferEvent', {
+      from: sender,
+      to,
+      amount: amount.toString(),
+      timestamp: now.toString()
+    }));
+  }
+
+  private burn({ sender, args, now, events }: ExecutionContext) {
+    const amount = this.u64Arg(args, 0);
+
+    if (amount === BigInt(0)) {
+      throw new MoveAbort('afjp_token', 'E_INVALID_AMOUNT', 5);
+    }
+    if (this.account(sender).coins.AFJP < amount) {
+      throw new MoveAbort('afjp_token', 'E_INSUFFICIENT_BALANCE', 4);
+    }
+
+    this.account(sender).coins.AFJP -= amount;
+    events.push(this.event('afjp_token::TokenEvents/burn_events', 'afjp_token::BurnEvent', {
+      burner: sender,
+      amount: amount.toString(),
+      timestamp: now.toString()
+    }));
+  }
+
+  private burnForJuventud(context: ExecutionContext) {
+    const { sender, args, now, events } = context;
+    const amount = this.u64Arg(args, 0);
+
+    if (amount < MIN_BURN_AMOUNT) {
+      throw new MoveAbort('juventud_token', 'E_INVALID_AMOUNT', 3);
+    }
+    if (this.account(sender).coins.AFJP < amount) {
+      throw new MoveAbort('juventud_token', 'E_INSUFFICIENT_AFJP_BALANCE', 4);
+    }
+
+    this.burn(context);
+    const juventud = amount * AFJP_TO_JUVENTUD_RATE;
+    this.account(sender).coins.JUVENTUD += juventud;
+    events.push(this.event('juventud_token::TokenEvents/burn_afjp_events', 'juventud_token::BurnAFJPEvent', {
+      user: sender,
+      afjp_amount: amount.toString(),
+      juventud_received: juventud.toString(),
+      timestamp: now.toString()
+    }));
+  }
+
+  private stake({ sender, args, now, events }: ExecutionContext) {
+    const amount = this.u64Arg(args, 0);
+    const account = this.account(sender);
+
+    if (amount < MIN_STAKE_AMOUNT) {
+      throw new MoveAbort('afjp_staking', 'E_INVALID_AMOUNT', 3);
+    }
+    if (account.coins.AFJP < amount) {
+      throw new MoveAbort('afjp_staking', 'E_INSUFFICIENT_BALANCE', 4);
+    }
+
+    const stake = this.accrue(account.stake, now) || {
+      staked: BigInt(0),
+      pendingRewards: BigInt(0),
+      totalClaimed: BigInt(0),
+      lastUpdate: now,
+      lastStakeTime: now
+    };
+
+    this.move('AFJP', sender, this.moduleAddress, amount);
+    account.stake = { ...stake, staked: stake.staked + amount, lastStakeTime: now };
+    events.push(this.event('afjp_staking::StakingEvents/stake_events', 'afjp_staking::StakeEvent', {
+      user: sender,
+      amount: amount.toString(),
+      timestamp: now.toString()
+    }));
+  }
+
+  private unstake({ sender, args, now, events }: ExecutionContext) {
+    const amount = this.u64Arg(args, 0);
+    const account = this.account(sender);
+
+    if (amount === BigInt(0)) {
+      throw new MoveAbort('afjp_staking', 'E_INVALID_AMOUNT', 3);
+    }
+    if (!account.stake || account.stake.staked < amount) {
+      throw new MoveAbort('afjp_staking', 'E_INSUFFICIENT_STAKED', 5);
+    }
+
+    const stake = this.accrue(account.stake, now)!;
+    this.move('AFJP', this.moduleAddress, sender, amount);
+    account.stake = { ...stake, staked: stake.staked - amount };
+    events.push(this.event('afjp_staking::StakingEvents/unstake_events', 'afjp_staking::UnstakeEvent', {
+      user: sender,
+      amount: amount.toString(),
+      timestamp: now.toString()
+    }));
+  }
+
+  private claimRewards({ sender, now, events }: ExecutionContext) {
+    const account = this.account(sender);
+    const stake = this.accrue(account.stake, now);
+
+    if (!stake || stake.pendingRewards === BigInt(0)) {
+      throw new MoveAbort('afjp_staking', 'E_NO_REWARDS', 6);
+    }
+
+    account.coins.AFJP += stake.pendingRewards;
+    account.stake = { ...stake, pendingRewards: BigInt(0), totalClaimed: stake.totalClaimed + stake.pendingRewards };
+    events.push(this.event('afjp_staking::StakingEvents/claim_events', 'afjp_staking::ClaimEvent', {
+      user: sender,
+      reward_amount: stake.pendingRewards.toString(),
+      timestamp: now.toString()
+    }));
+  }
+
+  private createVestingSchedule({ sender, args, now, events }: ExecutionContext) {
+    const beneficiary = this.addressArg(args, 0);
+    const amount = this.u64Arg(args, 1);
+
+    if (amount === BigInt(0)) {
+      throw new MoveAbort('afjp_vesting', 'E_INVALID_AMOUNT', 6);
+    }
+    if (this.account(sender).coins.AFJP < amount) {
+      throw new MoveAbort('afjp_vesting', 'E_INSUFFICIENT_BALANCE', 8);
+    }
+
+    const grant: VestingGrant = {
+      amount,
+      released: BigInt(0),
+      startTime: now,
+      cliffTime: now + CLIFF_DURATION_SECONDS,
+      endTime: now + VESTING_DURATION_SECONDS
+    };
+
+    this.move('AFJP', sender, this.moduleAddress, amount);
+    this.account(beneficiary).vesting.push(grant);
+    events.push(this.event('afjp_vesting::VestingEvents/schedule_created_events', 'afjp_vesting::ScheduleCreatedEvent', {
+      beneficiary,
+      amount: amount.toString(),
+      start_time: grant.startTime.toString(),
+      cliff_time: grant.cliffTime.toString(),
+      end_time: grant.endTime.toString(),
+      creator: sender
+    }));
+  }
+
+  private releaseVestedTokens({ sender, now, events }: ExecutionContext) {
+    const account = this.account(sender);
+    let amount = BigInt(0);
+
+    for (const grant of account.vesting) {
+      const releasable = this.releasable(grant, now);
+      grant.released += releasable;
+      amount += releasable;
+    }
+
+    this.move('AFJP', this.moduleAddress, sender, amount);
+    events.push(this.event('afjp_vesting::VestingEvents/tokens_released_events', 'afjp_vesting::TokensReleasedEvent', {
+      beneficiary: sender,
+      amount: amount.toString(),
+      timestamp: now.toString(),
+      total_released: account.vesting.reduce((sum, grant) => sum + grant.released, BigInt(0)).toString()
+    }));
+  }
+
+  // Status code a node would reject the transaction with, if any
+  private validate(signed: SignedEntryFunction, now: bigint): string | null {
+    const sequenceNumber = this.account(signed.sender).sequenceNumber;
+
+    if (signed.chainId !== SIMULATED_CHAIN_ID) {
+      return 'BAD_CHAIN_ID';
+    }
+    if (!verifyEd25519(signed.publicKey, signed.signingMessage, signed.signature)) {
+      return 'INVALID_SIGNATURE';
+    }
+    if (authenticationKey(signed.publicKey) !== this.authenticationKey(signed.sender)) {
+      return 'INVALID_AUTH_KEY';
+    }
+    if (signed.sequenceNumber < sequenceNumber) {
+      return 'SEQUENCE_NUMBER_TOO_OLD';
+    }
+    if (signed.sequenceNumber > sequenceNumber) {
+      return 'SEQUENCE_NUMBER_TOO_NEW';
+    }
+    if (signed.expiresAt <= now) {
+      return 'TRANSACTION_EXPIRED';
+    }
+    return null;
+  }
+
+  // Keys are never rotated, except the module account's, which the operator holds
+  private authenticationKey(address: string): string {
+    const key = toAddress(address);
+    return key === this.moduleAddress
+      ? authenticationKey(this.operatorAccount.pubKey().toUint8Array())
+      : key;
+  }
+
+  // Settle rewards earned since the last update into the position
+  private accrue(stake: StakePosition | null, now: bigint): StakePosition | null {
+    return stake && { ...stake, pendingRewards: this.pendingRewards(stake, now), lastUpdate: now };
+  }
+
+  private pendingRewards(stake: StakePosition | null, now: bigint): bigint {
+    if (!stake) {
+      return BigInt(0);
+    }
+    const elapsed = now > stake.lastUpdate ? now - stake.lastUpdate : BigInt(0);
+    return stake.pendingRewards + (stake.staked * BASE_APY_BP * elapsed) / (BigInt(10000) * SECONDS_PER_YEAR);
+  }
+
+  private releasable(grant: VestingGrant, now: bigint): bigint {
+    if (now < grant.cliffTime) {
+      return BigInt(0);
+    }
+    const vested = now >= grant.endTime
+      ? grant.amount
+      : (grant.amount * (now - grant.startTime)) / (grant.endTime - grant.startTime);
+    return vested - grant.released;
+  }
+
+  private move(coin: SimulatedCoin, from: string, to: string, amount: bigint) {
+    this.account(from).coins[coin] -= amount;
+    this.account(to).coins[coin] += amount;
+  }
+
+  private account(address: string): SimulatedAccount {
+    const key = toAddress(address);
+    let account = this.accounts.get(key);
+
+    if (!account) {
+      account = {
+        sequenceNumber: BigInt(0),
+        coins: { AFJP: BigInt(0), JUVENTUD: BigInt(0) },
+        stake: null,
+        vesting: []
+      };
+      this.accounts.set(key, account);
+    }
+
+    return account;
+  }
+
+  private event(handle: string, type: string, data: Record<string, string>): PendingEvent {
+    return { handle, type, data };
+  }
+
+  private commit(sender: string, functionName: string, events: PendingEvent[], vmStatus: string): CommittedTransaction {
+    const account = this.account(sender);
+    const version = BigInt(this.transactions.length);
+    const hash = `0x${crypto
+      .createHash('sha256')
+      .update(`${sender}:${account.sequenceNumber}:${functionName}:${version}`)
+      .digest('hex')}`;
+
+    const transaction: CommittedTransaction = {
+      hash,
+      version,
+      sender,
+      sequenceNumber: account.sequenceNumber,
+      success: vmStatus === 'Executed successfully',
+      vmStatus
+    };
+
+    for (const event of events) {
+      if (!this.events.has(event.handle)) {
+        this.events.set(event.handle, []);
+      }
+      const handleEvents = this.events.get(event.handle)!;
+      handleEvents.push({
+        version: version.toString(),
+        guid: { creation_number: String([...this.events.keys()].indexOf(event.handle)), account_address: this.moduleAddress },
+        sequence_number: String(handleEvents.length),
+        type: `${this.moduleAddress}::${event.type}`,
+        data: event.data
+      });
+    }
+
+    account.sequenceNumber += BigInt(1);
+    this.transactions.push(transaction);
+    return transaction;
+  }
+
+  private seconds(): bigint {
+    return BigInt(Math.floor(this.now() / 1000));
+  }
+
+  private addressArg(args: EntryFunctionArgument[], index: number): string {
+    const value = args[index];
+    if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+      throw new InvalidPayload(`Invalid address argument at position ${index}`);
+    }
+    return toAddress(value);
+  }
+
+  private u64Arg(args: EntryFunctionArgument[], index: number): bigint {
+    const value = args[index];
+    if ((typeof value !== 'string' && typeof value !== 'number') || !/^\d+$/.test(String(value))) {
+      throw new InvalidPayload(`Invalid u64 argument at position ${index}`);
+    }
+    return BigInt(value);
+  }
+}
@@ -0,0 +1,448 @@
+import { ChainTransaction, Prisma } from '@prisma/client';
+import { AptosAccount } from 'aptos';
+import { prisma } from '../index';
+import { chainAdapter, operatorAccount } from './chainAdapter';
+import { ledgerService } from './ledgerService';
+import { AppError, ChainAdapter, ChainTransactionRequest, EntryFunctionArgument } from '../types';
+import { config } from '../utils/config';
+import { ENTRY_FUNCTIONS, decodeSignedTransaction, encodeArguments, entryFunction, standardizeAddress } from '../utils/entryFunctions';
+import { logger } from '../utils/logger';
+import { currentRequestId, runAsJob } from '../utils/requestContext';
+
+const JOB_NAME = 'transaction-queue';
+
+// Submitted by the queue with the operator key, users sign everything else
+const OPERATOR_FUNCTIONS = Object.keys(ENTRY_FUNCTIONS).filter(name => ENTRY_FUNCTIONS[name].signer === 'operator');
+
+export interface TransactionQueueOptions {
+  moduleAddress: string;
+  submitIntervalMs: number;
+  pollIntervalMs: number;
+  batchSize: number;
+  maxAttempts: number;
+  finalityTimeoutMs: number;
+  // How long a transaction waits for its user's signature before it fails
+  signatureTimeoutMs: number;
+}
+
+type ChainClient = Pick<ChainAdapter, 'executeTransaction' | 'submitSignedTransaction' | 'getTransactionStatus' | 'getTransactionMeta'>;
+
+interface Outcome {
+  status: 'confirmed' | 'failed';
+  vmStatus?: string;
+  version?: string;
+  blockHeight?: string;
+  lastError?: string;
+}
+
+export class TransactionQueue {
+  private timers: NodeJS.Timeout[] = [];
+  private submitting = false;
+  private polling = false;
+
+  constructor(
+    private chain: ChainClient,
+    private operator: AptosAccount | null,
+    private options: TransactionQueueOptions
+  ) {}
+
+  /**
+   * Record a transaction to submit. Transactions of functions the user signs
+   * wait for their signature (see submitSigned), the operator's are pending.
+   * Pass `tx` so it commits together with the database changes it belongs to.
+   */
+  async enqueue(request: ChainTransactionRequest, tx?: Prisma.TransactionClient): Promise<ChainTransaction> {
+    const { signer } = entryFunction(request.functionName);
+
+    if (signer === 'sender' && !request.userId) {
+      throw new AppError(`${request.functionName} must be signed by a user`, 500);
+    }
+
+    const client = tx || prisma;
+
+    return client.chainTransaction.create({
+      data: {
+        userId: request.userId,
+        status: signer === 'sender' ? 'awaiting_signature' : 'pending',
+        functionName: request.functionName,
+        typeArguments: request.typeArguments || [],
+        arguments: request.arguments,
+        requestId: currentRequestId()
+      }
+    });
+  }
+
+  /**
+   * Start the submission and finality workers
+   */
+  start() {
+    if (this.timers.length > 0) {
+      return;
+    }
+
+    if (this.operator) {
+      this.timers.push(setInterval(() => this.runSubmitter(), this.options.submitIntervalMs));
+    } else {
+      logger.warn('APTOS_OPERATOR_PRIVATE_KEY is not set, operator transactions will not be submitted');
+    }
+
+    this.timers.push(setInterval(() => this.runPoller(), this.options.pollIntervalMs));
+    logger.info('Transaction queue started');
+  }
+
+  stop() {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  /**
+   * Sign pending operator transactions and submit them, returns how many the
+   * node accepted. A transaction is claimed by moving it to 'submitted'
+   * before it is sent, so two workers never submit the same row. Each one is
+   * handled under the ID of the request that queued it.
+   */
+  async submitPending(): Promise<number> {
+    if (!this.operator) {
+      return 0;
+    }
+
+    const pending = await prisma.chainTransaction.findMany({
+      where: { status: 'pending', functionName: { in: OPERATOR_FUNCTIONS } },
+      include: { user: { select: { walletAddress: true } } },
+      orderBy: { id: 'asc' },
+      take: this.options.batchSize
+    });
+
+    let submitted = 0;
+
+    for (const transaction of pending) {
+      const walletAddress = transaction.user?.walletAddress || null;
+
+      if (await runAsJob(JOB_NAME, transaction.requestId, () => this.submit(transaction), walletAddress || undefined)) {
+        submitted++;
+      }
+    }
+
+    return submitted;
+  }
+
+  /**
+   * Relay a transaction the user signed for a row awaiting their signature.
+   * The signed payload must call the queued function with the queued
+   * arguments from the user's wallet. If the node rejects it the row waits
+   * for a new signature until attempts run out.
+   */
+  async submitSigned(
+    transaction: ChainTransaction,
+    walletAddress: string,
+    signedTransaction: Uint8Array
+  ): Promise<ChainTransaction> {
+    if (transaction.status !== 'awaiting_signature') {
+      throw new AppError('Transaction is not awaiting a signature', 409);
+    }
+
+    const signed = decodeSignedTransaction(signedTransaction);
+    const expectedArgs = encodeArguments(transaction.functionName, transaction.arguments as EntryFunctionArgument[]);
+
+    if (signed.sender !== standardizeAddress(walletAddress)) {
+      throw new AppError('Transaction must be signed by the wallet that requested it', 400);
+    }
+    if (signed.moduleAddress !== standardizeAddress(this.options.moduleAddress) || signed.functionName !== transaction.functionName) {
+      throw new AppError(`Signed transaction must call ${transaction.functionName}`, 400);
+    }
+    if (signed.args.length !== expectedArgs.length
+      || signed.args.some((arg, index) => !Buffer.from(arg).equals(Buffer.from(expectedArgs[index])))) {
+      throw new AppError('Signed transaction arguments do not match the queued transaction', 400);
+    }
+
+    const { count } = await prisma.chainTransaction.updateMany({
+      where: { id: transaction.id, status: 'awaiting_signature' },
+      data: {
+        status: 'submitted',
+        attempts: { increment: 1 },
+        submittedAt: new Date()
+      }
+    });
+
+    if (count === 0) {
+      throw new AppError('Transaction is not awaiting a signature', 409);
+    }
+
+    try {
+      const txHash = await this.chain.submitSignedTransaction(signedTransaction);
+
+      const [submitted] = await prisma.$transaction([
+        prisma.chainTransaction.update({
+          where: { id: transaction.id },
+          data: { txHash, lastError: null }
+        }),
+        prisma.tokenTransaction.updateMany({
+          where: { chainTransactionId: transaction.id },
+          data: { txHash }
+        })
+      ]);
+
+      return submitted;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (transaction.attempts + 1 >= this.options.maxAttempts) {
+        await this.finalize(transaction, { status: 'failed', lastError });
+      } else {
+        await prisma.chainTransaction.update({
+          where: { id: transaction.id },
+          data: { status: 'awaiting_signature', lastError }
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Fail transactions their user did not sign in time, returns how many
+   */
+  async expireUnsigned(): Promise<number> {
+    const unsigned = await prisma.chainTransaction.findMany({
+      where: {
+        status: 'awaiting_signature',
+        createdAt: { lt: new Date(Date.now() - this.options.signatureTimeoutMs) }
+      },
+      orderBy: { id: 'asc' },
+      take: this.options.batchSize
+    });
+
+    for (const transaction of unsigned) {
+      await runAsJob(JOB_NAME, transaction.requestId, () =>
+        this.finalize(transaction, { status: 'failed', lastError: 'Transaction was not signed before it expired' })
+      );
+    }
+
+    return unsigned.length;
+  }
+
+  /**
+   * Check submitted transactions for finality, returns how many were finalized
+   */
+  async pollFinality(): Promise<number> {
+    const submitted = await prisma.chainTransaction.findMany({
+      where: { status: 'submitted' },
+      orderBy: { id: 'asc' },
+      take: this.options.batchSize
+    });
+
+    let finalized = 0;
+
+    for (const transaction of submitted) {
+      if (await runAsJob(JOB_NAME, transaction.requestId, () => this.checkFinality(transaction))) {
+        finalized++;
+      }
+    }
+
+    return finalized;
+  }
+
+  // Returns whether the node accepted the transaction
+  private async submit(transaction: ChainTransaction): Promise<boolean> {
+    const { count } = await prisma.chainTransaction.updateMany({
+      where: { id: transaction.id, status: 'pending' },
+      data: {
+        status: 'submitted',
+        attempts: { increment: 1 },
+        submittedAt: new Date()
+      }
+    });
+
+    if (count === 0 || !this.operator) {
+      return false;
+    }
+
+    try {
+      const txHash = await this.chain.executeTransaction(
+        this.operator,
+        transaction.functionName,
+        transaction.typeArguments as string[],
+        transaction.arguments as EntryFunctionArgument[]
+      );
+
+      await prisma.$transaction([
+        prisma.chainTransaction.update({
+          where: { id: transaction.id },
+          data: { txHash, lastError: null }
+        }),
+        prisma.tokenTransaction.updateMany({
+          where: { chainTransactionId: transaction.id },
+          data: { txHash }
+        })
+      ]);
+
+      return true;
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (transaction.attempts + 1 >= this.options.maxAttempts) {
+        await this.finalize(transaction, { status: 'failed', lastError });
+      } else {
+        // Retried on the next run
+        await prisma.chainTransaction.update({
+          where: { id: transaction.id },
+          data: { status: 'pending', lastError }
+        });
+        logger.warn('Chain transaction submission failed, will retry:', {
+          id: transaction.id,
+          attempts: transaction.attempts + 1,
+          error: lastError
+        });
+      }
+
+      return false;
+    }
+  }
+
+  // Returns whether the transaction was finalized
+  private async checkFinality(transaction: ChainTransaction): Promise<boolean> {
+    const expired = !!transaction.submittedAt
+      && Date.now() - transaction.submittedAt.getTime() > this.options.finalityTimeoutMs;
+
+    try {
+      // Claimed, but the worker stopped before the node returned a hash
+      if (!transaction.txHash) {
+        if (expired) {
+          await this.finalize(transaction, { status: 'failed', lastError: 'Submission was interrupted before the node accepted it' });
+          return true;
+        }
+        return false;
+      }
+
+      const result = await this.chain.getTransactionStatus(transaction.txHash);
+
+      if (result.status === 'pending') {
+        if (expired) {
+          await this.finalize(transaction, { status: 'failed', lastError: 'Transaction was not committed before it expired' });
+          return true;
+        }
+        return false;
+      }
+
+      const blockHeight = result.version
+        ? (await this.chain.getTransactionMeta(result.version)).blockHeight
+        : undefined;
+
+      await this.finalize(transaction, {
+        status: result.status,
+        vmStatus: result.vmStatus,
+        version: result.version,
+        blockHeight
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to check chain transaction finality:', { id: transaction.id, error });
+      return false;
+    }
+  }
+
+  /**
+   * Record the outcome. The ledger entries recorded under `chain_tx:<id>`
+   * when the transaction was queued are reversed if it failed.
+   */
+  private async finalize(transaction: ChainTransaction, outcome: Outcome) {
+    try {
+      await this.applyOutcome(transaction, outcome, outcome.status === 'failed');
+    } catch (error) {
+      if (outcome.status !== 'failed') {
+        throw error;
+      }
+
+      // The credited balance was spent in the meantime, it needs a manual correction
+      logger.error('Could not reverse the ledger entries of a failed chain transaction:', { id: transaction.id, error });
+      await this.applyOutcome(transaction, outcome, false);
+    }
+
+    const details = {
+      id: transaction.id,
+      function: transaction.functionName,
+      txHash: transaction.txHash,
+      vmStatus: outcome.vmStatus,
+      error: outcome.lastError
+    };
+
+    if (outcome.status === 'confirmed') {
+      logger.info('Chain transaction confirmed:', details);
+    } else {
+      logger.warn('Chain transaction failed:', details);
+    }
+  }
+
+  private async applyOutcome(transaction: ChainTransaction, outcome: Outcome, reverseLedger: boolean) {
+    await prisma.$transaction(async (tx) => {
+      await tx.chainTransaction.update({
+        where: { id: transaction.id },
+        data: {
+          status: outcome.status,
+          vmStatus: outcome.vmStatus,
+          version: outcome.version ? BigInt(outcome.version) : undefined,
+          lastError: outcome.lastError,
+          finalizedAt: new Date()
+        }
+      });
+
+      await tx.tokenTransaction.updateMany({
+        where: { chainTransactionId: transaction.id },
+        data: {
+          status: outcome.status,
+          blockNumber: outcome.blockHeight ? BigInt(outcome.blockHeight) : undefined
+        }
+      });
+
+      if (reverseLedger) {
+        await ledgerService.reverse(`chain_tx:${transaction.id}`, tx);
+      }
+    });
+  }
+
+  private async runSubmitter() {
+    if (this.submitting) {
+      return;
+    }
+
+    this.submitting = true;
+    try {
+      await this.submitPending();
+    } catch (error) {
+      logger.error('Transaction submitter run failed:', error);
+    } finally {
+      this.submitting = false;
+    }
+  }
+
+  private async runPoller() {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.pollFinality();
+      await this.expireUnsigned();
+    } catch (error) {
+      logger.error('Transaction finality poller run failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const transactionQueue = new TransactionQueue(
+  chainAdapter,
+  operatorAccount,
+  {
+    moduleAddress: config.afjpModuleAddress,
+    submitIntervalMs: config.txQueueSubmitIntervalMs,
+    pollIntervalMs: config.txQueuePollIntervalMs,
+    batchSize: config.txQueueBatchSize,
+    maxAttempts: config.txQueueMaxAttempts,
+    finalityTimeoutMs: config.txQueueFinalityTimeoutMs,
+    signatureTimeoutMs: config.txQueueSignatureTimeoutMs
+  }
+);
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { HexString, TxnBuilderTypes } from 'aptos';
+import { redis } from '../index';
+import { AppError, WalletChallenge } from '../types';
+import { chainAdapter } from './chainAdapter';
+import { verifyEd25519 } from '../utils/entryFunctions';
+import { logger } from '../utils/logger';
+
+const NONCE_TTL_SECONDS = 300; // 5 minutes
+const NONCE_KEY_PREFIX = 'auth:nonce:';
+
+export interface SignedWalletMessage {
+  address: string;
+  publicKey: string;
+  signature: string;
+  message: string;
+  nonce: string;
+}
+
+export class WalletAuthService {
+  /**
+   * Issue a single-use nonce for a wallet and the message it must sign
+   */
+  async issueChallenge(address: string): Promise<WalletChallenge> {
+    const walletAddress = this.normalizeAddress(address);
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_SECONDS * 1000);
+
+    await redis.set(`${NONCE_KEY_PREFIX}${nonce}`, walletAddress, {
+      EX: NONCE_TTL_SECONDS,
+      NX: true
+    });
+
+    const message = [
+      'AFJP Crypto wants you to sign in with your Aptos account:',
+      walletAddress,
+      '',
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`
+    ].join('\n');
+
+    return { nonce, message, expiresAt: expiresAt.toISOString() };
+  }
+
+  /**
+   * Verify a signed challenge. The nonce is consumed before anything else,
+   * so it can never be accepted twice, even if verification fails.
+   */
+  async verifySignedMessage(signed: SignedWalletMessage): Promise<string> {
+    const walletAddress = this.normalizeAddress(signed.address);
+
+    const owner = await redis.getDel(`${NONCE_KEY_PREFIX}${signed.nonce}`);
+    if (!owner || owner !== walletAddress) {
+      throw new AppError('Invalid or expired nonce', 401);
+    }
+
+    if (!signed.message.includes(signed.nonce)) {
+      throw new AppError('Signed message does not contain the nonce', 401);
+    }
+
+    const publicKey = this.decodeHex(signed.publicKey, 32, 'public key');
+    const signature = this.decodeHex(signed.signature, 64, 'signature');
+
+    if (!verifyEd25519(publicKey, Buffer.from(signed.message, 'utf8'), signature)) {
+      throw new AppError('Invalid signature', 401);
+    }
+
+    // The public key must be the one currently authorised to sign for the account
+    const derivedAuthKey = TxnBuilderTypes.AuthenticationKey
+      .fromEd25519PublicKey(new TxnBuilderTypes.Ed25519PublicKey(publicKey))
+      .derivedAddress()
+      .toShortString();
+    const onChainAuthKey = await chainAdapter.getAuthenticationKey(walletAddress);
+
+    if (derivedAuthKey !== HexString.ensure(onChainAuthKey).toShortString()) {
+      logger.warn('Public key does not match on-chain authentication key', { walletAddress });
+      throw new AppError('Public key does not match account authentication key', 401);
+    }
+
+    return walletAddress;
+  }
+
+  normalizeAddress(address: string): string {
+    const walletAddress = HexString.ensure(address).hex().toLowerCase();
+    if (!/^0x[0-9a-f]{1,64}$/.test(walletAddress)) {
+      throw new AppError('Invalid wallet address', 400);
+    }
+    return walletAddress;
+  }
+
+  private decodeHex(value: string, length: number, label: string): Uint8Array {
+    let bytes: Uint8Array;
+    try {
+      bytes = HexString.ensure(value).toUint8Array();
+    } catch (error) {
+      throw new AppError(`Invalid ${label}`, 401);
+    }
+    if (bytes.length !== length) {
+      throw new AppError(`Invalid ${label}`, 401);
+    }
+    return bytes;
+  }
+}
+
+// Export singleton instance
+export const walletAuthService = new WalletAuthService();
@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { OutboxEvent, WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import { prisma } from '../index';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+import { getRequestContext, runAsJob } from '../utils/requestContext';
+import { publicLookup, webhookUrlProblem } from '../utils/webhookUrl';
+
+export interface WebhookDispatcherOptions {
+  pollIntervalMs: number;
+  batchSize: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  timeoutMs: number;
+}
+
+export interface WebhookRequest {
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+}
+
+// Sends one webhook request and resolves with the HTTP status code
+export type WebhookTransport = (url: string, request: WebhookRequest) => Promise<number>;
+
+type DueDelivery = WebhookDelivery & { subscription: WebhookSubscription; outboxEvent: OutboxEvent };
+
+// Redirects are not followed, and the host must resolve to public addresses only
+const postJson: WebhookTransport = (url, { headers, body, timeoutMs }) =>
+  new Promise((resolve, reject) => {
+    const problem = webhookUrlProblem(url);
+    if (problem) {
+      reject(new Error(`${problem}: ${url}`));
+      return;
+    }
+
+    const target = new URL(url);
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: publicLookup
+    }, response => {
+      clearTimeout(timer);
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+
+    const timer = setTimeout(() => request.destroy(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    request.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    request.end(body);
+  });
+
+/**
+ * Signature sent in X-AFJP-Signature as `t=<timestamp>,v1=<signature>`.
+ * Receivers recompute the HMAC over `<timestamp>.<raw body>` with their secret.
+ */
+export const signPayload = (secret: string, timestamp: number, body: string): string =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export const generateWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+export class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private options: WebhookDispatcherOptions, private transport: WebhookTransport = postJson) {}
+
+  /**
+   * Dispatch on an interval until stopped
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), this.options.pollIntervalMs);
+    logger.info('Webhook dispatcher started');
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fan new outbox events out to subscriptions, then deliver what is due
+   */
+  async runOnce(): Promise<{ dispatched: number; delivered: number }> {
+    const dispatched = await this.dispatchEvents();
+    const delivered = await this.deliverDue();
+    return { dispatched, delivered };
+  }
+
+  /**
+   * Create a delivery for every active subscription of each new outbox event.
+   * Deliveries are unique per event and subscription, so concurrent runs are safe.
+   */
+  async dispatchEvents(): Promise<number> {
+    const events = await prisma.outboxEvent.findMany({
+      where: { dispatchedAt: null },
+      orderBy: { id: 'asc' },
+      take: this.options.batchSize
+    });
+
+    if (events.length === 0) {
+      return 0;
+    }
+
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { isActive: true }
+    });
+
+    for (const event of events) {
+      const subscribers = subscriptions.filter(subscription =>
+        (subscription.eventTypes as string[]).includes(event.eventType)
+      );
+
+      await prisma.$transaction([
+        prisma.webhookDelivery.createMany({
+          data: subscribers.map(subscription => ({
+            subscriptionId: subscription.id,
+            outboxEventId: event.id
+          })),
+          skipDuplicates: true
+        }),
+        prisma.outboxEvent.update({
+          where: { id: event.id },
+          data: { dispatchedAt: new Date() }
+        })
+      ]);
+    }
+
+    return events.length;
+  }
+
+  /**
+   * Send due deliveries, returns how many endpoints accepted theirs.
+   * A delivery is leased by pushing its next attempt past the request
+   * timeout, so a crashed worker's deliveries are picked up again.
+   */
+  async deliverDue(): Promise<number> {
+    const due: DueDelivery[] = await prisma.webhookDelivery.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: { lte: new Date() },
+        subscription: { isActive: true }
+      },
+      include: { subscription: true, outboxEvent: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.options.batchSize
+    });
+
+    let delivered = 0;
+
+    for (const delivery of due) {
+      const { count } = await prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, status: 'pending', nextAttemptAt: delivery.nextAttemptAt },
+        data: {
+          attempts: { increment: 1 },
+          nextAttemptAt: new Date(Date.now() + this.options.timeoutMs * 2)
+        }
+      });
+
+      if (count === 0) {
+        continue;
+      }
+
+      if (await runAsJob('webhook-dispatcher', delivery.outboxEvent.requestId, () => this.deliver(delivery))) {
+        delivered++;
+      }
+    }
+
+    return delivered;
+  }
+
+  private async deliver(delivery: DueDelivery): Promise<boolean> {
+    const { subscription, outboxEvent } = delivery;
+    const attempts = delivery.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const requestId = getRequestContext()?.requestId;
+    const body = JSON.stringify({
+      id: outboxEvent.id,
+      type: outboxEvent.eventType,
+      aggregateType: outboxEvent.aggregateType,
+      aggregateId: outboxEvent.aggregateId,
+      occurredAt: outboxEvent.createdAt,
+      data: outboxEvent.payload
+    });
+
+    let statusCode: number | undefined;
+    let lastError: string;
+
+    try {
+      statusCode = await this.transport(subscription.url, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AFJP-Webhooks/1.0',
+          'X-AFJP-Event': outboxEvent.eventType,
+          'X-AFJP-Delivery': String(delivery.id),
+          // Ties the delivery to the request that caused the event
+          ...(requestId && { 'X-Request-Id': requestId }),
+          'X-AFJP-Signature': `t=${timestamp},v1=${signPayload(subscription.secret, timestamp, body)}`
+        },
+        body,
+        timeoutMs: this.options.timeoutMs
+      });
+
+      if (statusCode >= 200 && statusCode < 300) {
+        await prisma.webhookDelivery.update({
+          where: { id: delivery.id },
+          data: { status: 'delivered', lastStatusCode: statusCode, lastError: null, deliveredAt: new Date() }
+        });
+        return true;
+      }
+
+      lastError = `Endpoint responded with ${statusCode}`;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    const dead = attempts >= this.options.maxAttempts;
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: dead ? 'dead' : 'pending',
+        lastStatusCode: statusCode,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + this.retryDelay(attempts))
+      }
+    });
+
+    logger.warn(dead ? 'Webhook delivery moved to dead letters:' : 'Webhook delivery failed, will retry:', {
+      id: delivery.id,
+      subscriptionId: subscription.id,
+      event: outboxEvent.eventType,
+      attempts,
+      error: lastError
+    });
+
+    return false;
+  }
+
+  // Exponential backoff: base, 2x base, 4x base, ... capped at retryMaxMs
+  private retryDelay(attempts: number): number {
+    return Math.min(this.options.retryBaseMs * 2 ** (attempts - 1), this.options.retryMaxMs);
+  }
+
+  private async tick() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runOnce();
+    } catch (error) {
+      logger.error('Webhook dispatcher run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookDispatcher = new WebhookDispatcher({
+  pollIntervalMs: config.webhookPollIntervalMs,
+  batchSize: config.webhookBatchSize,
+  maxAttempts: config.webhookMaxAttempts,
+  retryBaseMs: config.webhookRetryBaseMs,
+  retryMaxMs: config.webhookRetryMaxMs,
+  timeoutMs: config.webhookTimeoutMs
+});
@@ -1,6 +1,8 @@
 import { authController } from '../../controllers/authController';
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { walletAuthService } from '../../services/walletAuthService';
+import { AppError } from '../../types';
 
 // Mock the dependencies
 jest.mock('../../index', () => ({
@@ -12,6 +14,12 @@ jest.mock('../../index', () => ({
   }
 }));
 
+jest.mock('../../services/walletAuthService', () => ({
+  walletAuthService: {
+    verifySignedMessage: jest.fn(),
+  }
+}));
+
 jest.mock('jsonwebtoken');
 jest.mock('../../utils/logger', () => ({
   logger: {
@@ -39,9 +47,12 @@ describe('AuthController Unit Tests', () => {
     it('should verify signature successfully', async () => {
       mockRequest.body = {
         address: '0x1234567890abcdef1234567890abcdef12345678',
+        publicKey: '0xpublickey',
         signature: '0xsignature',
-        message: 'test message'
+        message: 'test message nonce',
+        nonce: 'nonce'
       };
+      (walletAuthService.verifySignedMessage as jest.Mock).mockResolvedValue(mockRequest.body.address);
 
       await authController.verifySignature(
         mockRequest as Request,
@@ -49,14 +60,25 @@ describe('AuthController Unit Tests', () => {
         mockNext
       );
 
+      expect(walletAuthService.verifySignedMessage).toHaveBeenCalledWith(mockRequest.body);
       expect(mockResponse.json).toHaveBeenCalledWith({
         success: true,
-        message: 'Signature verified successfully'
+        message: 'Signature verified successfully',
+        data: { address: mockRequest.body.address }
       });
     });
 
-    it('should return 400 for missing fields', async () => {
-      mockRequest.body = {};
+    it('should reject an invalid signature', async () => {
+      mockRequest.body = {
+        address: '0x1234567890abcdef1234567890abcdef12345678',
+        publicKey: '0xpublickey',
+        signature: '0xsignature',
+        message: 'test message nonce',
+        nonce: 'nonce'
+      };
+      (walletAuthService.verifySignedMessage as jest.Mock).mockRejectedValue(
+        new AppError('Invalid signature', 401)
+      );
 
       await authController.verifySignature(
         mockRequest as Request,
@@ -64,10 +86,11 @@ describe('AuthController Unit Tests', () => {
         mockNext
       );
 
+      expect(mockResponse.json).not.toHaveBeenCalled();
       expect(mockNext).toHaveBeenCalledWith(
         expect.objectContaining({
-          message: 'Missing required fields',
-          statusCode: 400
+          message: 'Invalid signature',
+          statusCode: 401
         })
       );
     });
@@ -1,17 +1,84 @@
+import crypto from 'crypto';
 import request from 'supertest';
+import { TxnBuilderTypes } from 'aptos';
 import app from '../../index';
-import { mockPrisma } from '../setup';
+import { mockPrisma, mockRedis } from '../setup';
+import { chainAdapter } from '../../services/chainAdapter';
+
+const createWallet = () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const rawPublicKey = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url');
+  const address = TxnBuilderTypes.AuthenticationKey
+    .fromEd25519PublicKey(new TxnBuilderTypes.Ed25519PublicKey(rawPublicKey))
+    .derivedAddress()
+    .hex();
+
+  return {
+    address,
+    publicKey: `0x${rawPublicKey.toString('hex')}`,
+    sign: (message: string) => `0x${crypto.sign(null, Buffer.from(message), privateKey).toString('hex')}`
+  };
+};
 
 describe('AuthController', () => {
+  const nonceStore = new Map<string, string>();
+
+  beforeEach(() => {
+    nonceStore.clear();
+    mockPrisma.session.create.mockResolvedValue({ id: 1 });
+    mockRedis.set.mockImplementation(async (key: string, value: string) => {
+      nonceStore.set(key, value);
+      return 'OK';
+    });
+    mockRedis.getDel.mockImplementation(async (key: string) => {
+      const value = nonceStore.get(key) ?? null;
+      nonceStore.delete(key);
+      return value;
+    });
+  });
+
+  const signIn = async (wallet: ReturnType<typeof createWallet>) => {
+    const challenge = await request(app)
+      .post('/api/auth/challenge')
+      .send({ walletAddress: wallet.address })
+      .expect(200);
+
+    const { nonce, message } = challenge.body.data;
+    return {
+      walletAddress: wallet.address,
+      publicKey: wallet.publicKey,
+      signature: wallet.sign(message),
+      message,
+      nonce,
+      timestamp: Date.now()
+    };
+  };
+
+  describe('POST /api/auth/challenge', () => {
+    it('should issue a nonce bound to the wallet', async () => {
+      const wallet = createWallet();
+
+      const response = await request(app)
+        .post('/api/auth/challenge')
+        .send({ walletAddress: wallet.address })
+        .expect(200);
+
+      expect(response.body.data.nonce).toMatch(/^[0-9a-f]{32}$/);
+      expect(response.body.data.message).toContain(response.body.data.nonce);
+      expect(mockRedis.set).toHaveBeenCalledWith(
+        `auth:nonce:${response.body.data.nonce}`,
+        wallet.address,
+        { EX: 300, NX: true }
+      );
+    });
+  });
+
   describe('POST /api/auth/wallet-connect', () => {
     it('should connect wallet successfully', async () => {
-      const walletData = {
-        walletAddress: '0x1234567890abcdef1234567890abcdef12345678',
-        signature: '0xsignature',
-        message: 'test message',
-        timestamp: Date.now()
-      };
+      const wallet = createWallet();
+      const walletData = await signIn(wallet);
 
+      (chainAdapter.getAuthenticationKey as jest.Mock).mockResolvedValue(wallet.address);
       mockPrisma.user.findUnique.mockResolvedValue(null);
       mockPrisma.user.create.mockResolvedValue({
         id: 1,
@@ -26,9 +93,62 @@ describe('AuthController', () => {
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.token).toBeDefined();
+      expect(response.body.data.refreshToken).toBeDefined();
       expect(response.body.data.user.walletAddress).toBe(walletData.walletAddress);
     });
 
+    it('should never accept the same nonce twice', async () => {
+      const wallet = createWallet();
+      const walletData = await signIn(wallet);
+
+      (chainAdapter.getAuthenticationKey as jest.Mock).mockResolvedValue(wallet.address);
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 1,
+        walletAddress: walletData.walletAddress,
+        kycStatus: 'pending'
+      });
+
+      await request(app)
+        .post('/api/auth/wallet-connect')
+        .send(walletData)
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/wallet-connect')
+        .send(walletData)
+        .expect(401);
+
+      expect(response.body.error).toContain('Invalid or expired nonce');
+    });
+
+    it('should reject a signature from another key', async () => {
+      const wallet = createWallet();
+      const impostor = createWallet();
+      const walletData = await signIn(wallet);
+
+      const response = await request(app)
+        .post('/api/auth/wallet-connect')
+        .send({ ...walletData, signature: impostor.sign(walletData.message) })
+        .expect(401);
+
+      expect(response.body.error).toContain('Invalid signature');
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a key that is not the account authentication key', async () => {
+      const wallet = createWallet();
+      const walletData = await signIn(wallet);
+
+      (chainAdapter.getAuthenticationKey as jest.Mock).mockResolvedValue('0x1');
+
+      const response = await request(app)
+        .post('/api/auth/wallet-connect')
+        .send(walletData)
+        .expect(401);
+
+      expect(response.body.error).toContain('authentication key');
+    });
+
     it('should return 400 for missing fields', async () => {
       const response = await request(app)
         .post('/api/auth/wallet-connect')
@@ -36,20 +156,19 @@ describe('AuthController', () => {
         .expect(400);
 
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toContain('Missing required fields');
+      expect(response.body.error).toBe('Validation failed');
+      expect(response.body.errors.map((error: any) => error.field)).toEqual(
+        expect.arrayContaining(['walletAddress', 'publicKey', 'signature', 'message', 'nonce', 'timestamp'])
+      );
     });
 
     it('should return 401 for expired request', async () => {
-      const walletData = {
-        walletAddress: '0x1234567890abcdef1234567890abcdef12345678',
-        signature: '0xsignature',
-        message: 'test message',
-        timestamp: Date.now() - 400000 // 6+ minutes ago
-      };
+      const wallet = createWallet();
+      const walletData = await signIn(wallet);
 
       const response = await request(app)
         .post('/api/auth/wallet-connect')
-        .send(walletData)
+        .send({ ...walletData, timestamp: Date.now() - 400000 }) // 6+ minutes ago
         .expect(401);
 
       expect(response.body.success).toBe(false);
@@ -59,15 +178,14 @@ describe('AuthController', () => {
 
   describe('POST /api/auth/verify-signature', () => {
     it('should verify signature successfully', async () => {
-      const signatureData = {
-        address: '0x1234567890abcdef1234567890abcdef12345678',
-        signature: '0xsignature',
-        message: 'test message'
-      };
+      const wallet = createWallet();
+      const { walletAddress, ...signed } = await signIn(wallet);
+
+      (chainAdapter.getAuthenticationKey as jest.Mock).mockResolvedValue(wallet.address);
 
       const response = await request(app)
         .post('/api/auth/verify-signature')
-        .send(signatureData)
+        .send({ address: walletAddress, ...signed })
         .expect(200);
 
       expect(response.body.success).toBe(true);
@@ -77,11 +195,15 @@ describe('AuthController', () => {
     it('should return 400 for missing fields', async () => {
       const response = await request(app)
         .post('/api/auth/verify-signature')
-        .send({})
+        .send({ address: 'not-an-address' })
         .expect(400);
 
       expect(response.body.success).toBe(false);
-      expect(response.body.error).toContain('Missing required fields');
+      expect(response.body.errors).toContainEqual(expect.objectContaining({
+        location: 'body',
+        field: 'address',
+        message: 'Must be a 0x-prefixed Aptos address'
+      }));
     });
   });
 });
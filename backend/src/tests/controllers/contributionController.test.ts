@@ -0,0 +1,102 @@
+import { NextFunction, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { contributionController } from '../../controllers/contributionController';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+const contribution = (contributedAt: string, usdAmount: string, tokenAmount: string, status = 'confirmed') => ({
+  id: 1,
+  status,
+  currency: 'USD',
+  fiatAmount: new Prisma.Decimal(usdAmount),
+  exchangeRate: new Prisma.Decimal(1),
+  tokenPrice: new Prisma.Decimal(100),
+  contributedAt: new Date(contributedAt),
+  usdAmount: new Prisma.Decimal(usdAmount),
+  tokenAmount: new Prisma.Decimal(tokenAmount)
+});
+
+describe('ContributionController', () => {
+  let res: Partial<Response>;
+  let next: NextFunction;
+
+  beforeEach(() => {
+    res = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis()
+    };
+    next = jest.fn();
+  });
+
+  describe('getContributionHistory', () => {
+    it('should group confirmed contributions by year and count each paid month once', async () => {
+      const thisYear = new Date().getUTCFullYear();
+      const fullYear = Array.from({ length: 12 }, (_, month) =>
+        contribution(new Date(Date.UTC(2024, 11 - month, 10)).toISOString(), '100.00', '1'));
+
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 1,
+        walletAddress: '0xa11ce',
+        contributions: [
+          contribution(`${thisYear}-02-01T00:00:00Z`, '70.00', '0.7', 'pending'),
+          contribution(`${thisYear}-01-20T00:00:00Z`, '50.50', '0.5'),
+          contribution(`${thisYear}-01-05T00:00:00Z`, '50.00', '0.5'),
+          ...fullYear,
+          contribution('2023-03-01T00:00:00Z', '25.00', '0.25')
+        ]
+      });
+
+      await contributionController.getContributionHistory(
+        { params: { address: '0xa11ce' } } as any,
+        res as Response,
+        next
+      );
+
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith({
+        where: { walletAddress: '0xa11ce' },
+        include: {
+          contributions: {
+            where: { status: { in: ['pending', 'confirmed'] } },
+            orderBy: { contributedAt: 'desc' }
+          }
+        }
+      });
+      expect(next).not.toHaveBeenCalled();
+      const { years, totals, pending } = (res.json as jest.Mock).mock.calls[0][0].data;
+
+      expect(years.map((year: any) => [year.year, year.monthsPaid, year.contributionCount, year.status])).toEqual([
+        [thisYear, 1, 2, 'in_progress'],
+        [2024, 12, 12, 'complete'],
+        [2023, 1, 1, 'incomplete']
+      ]);
+      expect(years[0].usdAmount.toString()).toBe('100.50');
+      expect(years[1].tokenAmount.toString()).toBe('12.00000000');
+
+      expect(totals.contributionCount).toBe(15);
+      expect(totals.monthsPaid).toBe(14);
+      expect(totals.usdAmount.toString()).toBe('1325.50');
+      expect(totals.firstContributionAt).toEqual(new Date('2023-03-01T00:00:00Z'));
+      expect(totals.lastContributionAt).toEqual(new Date(`${thisYear}-01-20T00:00:00Z`));
+
+      expect(pending).toHaveLength(1);
+      expect(pending[0]).toEqual(expect.objectContaining({ status: 'pending', currency: 'USD' }));
+      expect(pending[0].amount.toString()).toBe('70.00');
+    });
+
+    it('should return 404 for an unknown address', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      await contributionController.getContributionHistory(
+        { params: { address: '0xb0b' } } as any,
+        res as Response,
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 404 }));
+    });
+  });
+});
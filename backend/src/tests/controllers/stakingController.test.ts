@@ -0,0 +1,160 @@
+import { NextFunction, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { stakingController } from '../../controllers/stakingController';
+import { transactionQueue } from '../../services/transactionQueue';
+import { Money } from '../../utils/money';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+jest.mock('../../services/transactionQueue', () => ({
+  transactionQueue: { enqueue: jest.fn() }
+}));
+
+jest.mock('../../services/ledgerService', () => ({
+  ledgerService: { record: jest.fn() }
+}));
+
+jest.mock('../../services/analyticsCache', () => ({
+  analyticsCache: { invalidate: jest.fn() }
+}));
+
+const record = (id: number, stakedAmount: number, stakedAt: string) => ({
+  id,
+  userId: 1,
+  stakedAmount: new Prisma.Decimal(stakedAmount),
+  rewardClaimed: new Prisma.Decimal(0),
+  stakedAt: new Date(stakedAt),
+  unstakedAt: null,
+  isActive: true
+});
+
+describe('StakingController', () => {
+  let res: Partial<Response>;
+  let next: NextFunction;
+
+  beforeEach(() => {
+    res = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis()
+    };
+    next = jest.fn();
+
+    (transactionQueue.enqueue as jest.Mock).mockResolvedValue({ id: 40, status: 'pending' });
+    mockPrisma.stakingRecord.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('unstakeTokens', () => {
+    it('should draw down the oldest stakes first and keep the rest active', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 1,
+        walletAddress: '0xa11ce',
+        stakingRecords: [record(7, 100, '2026-01-01T00:00:00Z'), record(8, 50, '2026-02-01T00:00:00Z')]
+      });
+
+      await stakingController.unstakeTokens(
+        { walletAddress: '0xa11ce', body: { amount: Money.of(120) } } as any,
+        res as Response,
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        include: { stakingRecords: { where: { isActive: true }, orderBy: { stakedAt: 'asc' } } }
+      }));
+      expect(mockPrisma.stakingRecord.updateMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.stakingRecord.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: 7, stakedAmount: new Prisma.Decimal(100), isActive: true },
+        data: { stakedAmount: Money.of(0).toDecimal(), isActive: false, unstakedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.stakingRecord.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { id: 8, stakedAmount: new Prisma.Decimal(50), isActive: true },
+        data: { stakedAmount: Money.of(30).toDecimal() }
+      });
+      expect(res.status).toHaveBeenCalledWith(202);
+    });
+
+    it('should refuse to draw on a stake another unstake changed since it was read', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 1,
+        walletAddress: '0xa11ce',
+        stakingRecords: [record(7, 100, '2026-01-01T00:00:00Z')]
+      });
+      mockPrisma.stakingRecord.updateMany.mockResolvedValue({ count: 0 });
+
+      await stakingController.unstakeTokens(
+        { walletAddress: '0xa11ce', body: { amount: Money.of(60) } } as any,
+        res as Response,
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 409 }));
+      expect(mockPrisma.tokenTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse more than the total staked', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: 1,
+        walletAddress: '0xa11ce',
+        stakingRecords: [record(7, 100, '2026-01-01T00:00:00Z')]
+      });
+
+      await stakingController.unstakeTokens(
+        { walletAddress: '0xa11ce', body: { amount: Money.of(101) } } as any,
+        res as Response,
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+      expect(transactionQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rewards', () => {
+    // 10% a year: 100 staked for a year earned 10, 50 staked for half a year earned 2.5
+    const stakes = () => {
+      const now = Date.now();
+      return [
+        { ...record(7, 100, new Date(now - 365 * 24 * 3600 * 1000).toISOString()), rewardClaimed: new Prisma.Decimal(4) },
+        record(8, 50, new Date(now - 182.5 * 24 * 3600 * 1000).toISOString())
+      ];
+    };
+
+    it('should claim the rewards of every active stake', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 1, walletAddress: '0xa11ce', stakingRecords: stakes() });
+
+      await stakingController.claimRewards({ walletAddress: '0xa11ce' } as any, res as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockPrisma.stakingRecord.updateMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.stakingRecord.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: 7, rewardClaimed: new Prisma.Decimal(4) },
+        data: { rewardClaimed: { increment: expect.anything() } }
+      });
+      const { claimedAmount } = (res.json as jest.Mock).mock.calls[0][0].data;
+      expect(claimedAmount.toNumber()).toBeCloseTo(8.5, 4);
+    });
+
+    it('should refuse a claim when another claim updated a stake first', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 1, walletAddress: '0xa11ce', stakingRecords: stakes() });
+      mockPrisma.stakingRecord.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      await stakingController.claimRewards({ walletAddress: '0xa11ce' } as any, res as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 409 }));
+    });
+
+    it('should report the pending rewards of every active stake', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 1, walletAddress: '0xa11ce', stakingRecords: stakes() });
+
+      await stakingController.getPendingRewards({ params: { address: '0xa11ce' } } as any, res as Response, next);
+
+      const { pendingRewards, totalStaked } = (res.json as jest.Mock).mock.calls[0][0].data;
+      expect(pendingRewards.toNumber()).toBeCloseTo(8.5, 4);
+      expect(totalStaked.toString()).toBe('150.00000000');
+    });
+  });
+});
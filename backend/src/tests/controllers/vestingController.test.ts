@@ -0,0 +1,162 @@
+import { NextFunction, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { vestingController } from '../../controllers/vestingController';
+import { ledgerService } from '../../services/ledgerService';
+import { transactionQueue } from '../../services/transactionQueue';
+import { Money } from '../../utils/money';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+jest.mock('../../services/transactionQueue', () => ({
+  transactionQueue: { enqueue: jest.fn() }
+}));
+
+jest.mock('../../services/ledgerService', () => ({
+  ledgerService: { record: jest.fn() }
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 100 day schedules so progress is easy to read off
+const schedule = (id: number, startDaysAgo: number, overrides: Record<string, any> = {}) => {
+  const startTime = new Date(Date.now() - startDaysAgo * DAY_MS);
+  return {
+    id,
+    userId: 1,
+    totalAmount: new Prisma.Decimal(100),
+    releasedAmount: new Prisma.Decimal(0),
+    startTime,
+    endTime: new Date(startTime.getTime() + 100 * DAY_MS),
+    cliffTime: null,
+    curveType: 'linear',
+    milestones: null,
+    isActive: true,
+    eventKey: null,
+    createdAt: startTime,
+    ...overrides
+  };
+};
+
+describe('VestingController', () => {
+  let res: Partial<Response>;
+  let next: NextFunction;
+
+  beforeEach(() => {
+    res = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis()
+    };
+    next = jest.fn();
+
+    (transactionQueue.enqueue as jest.Mock).mockResolvedValue({ id: 40, status: 'pending' });
+    mockPrisma.vestingSchedule.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  const withSchedules = (vestingSchedules: any[]) =>
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 1, walletAddress: '0xa11ce', vestingSchedules });
+
+  describe('getVestingSchedules', () => {
+    it('should page through schedules and total all of them', async () => {
+      const cliffTime = new Date(Date.now() + 30 * DAY_MS);
+      withSchedules([
+        schedule(1, 150, { releasedAmount: new Prisma.Decimal(40) }),
+        schedule(2, 50),
+        schedule(3, 0, { cliffTime })
+      ]);
+
+      await vestingController.getVestingSchedules(
+        { params: { address: '0xa11ce' }, query: { page: '1', limit: '2' } } as any,
+        res as Response,
+        next
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      const body = (res.json as jest.Mock).mock.calls[0][0];
+
+      expect(body.pagination).toEqual({ page: 1, limit: 2, total: 3, totalPages: 2 });
+      expect(body.data.schedules.map((view: any) => view.scheduleId)).toEqual([1, 2]);
+      expect(body.data.schedules[0].releasableAmount.toString()).toBe('60.00000000');
+      expect(body.data.schedules[0].nextUnlockAt).toBeNull();
+
+      const { summary } = body.data;
+      expect(summary.scheduleCount).toBe(3);
+      expect(summary.totalAmount.toString()).toBe('300.00000000');
+      expect(summary.releasedAmount.toString()).toBe('40.00000000');
+      expect(summary.remainingAmount.toString()).toBe('260.00000000');
+      expect(summary.vestedAmount.toNumber()).toBeCloseTo(150, 4);
+      // Schedule 2 is vesting, so more unlocks right away
+      expect(summary.nextUnlockAt.getTime()).toBeLessThan(cliffTime.getTime());
+    });
+
+    it('should report the cliff as the next unlock while every schedule is locked', async () => {
+      const cliffTime = new Date(Date.now() + 30 * DAY_MS);
+      withSchedules([schedule(3, 10, { cliffTime })]);
+
+      await vestingController.getVestingSchedules(
+        { params: { address: '0xa11ce' }, query: {} } as any,
+        res as Response,
+        next
+      );
+
+      const { summary } = (res.json as jest.Mock).mock.calls[0][0].data;
+      expect(summary.vestedAmount.isZero()).toBe(true);
+      expect(summary.nextUnlockAt).toEqual(cliffTime);
+    });
+  });
+
+  describe('releaseVestedTokens', () => {
+    it('should sweep every schedule with vested tokens in one transaction', async () => {
+      withSchedules([
+        schedule(1, 150, { releasedAmount: new Prisma.Decimal(40) }),
+        schedule(2, 200, { releasedAmount: new Prisma.Decimal(100) }),
+        schedule(3, 0, { cliffTime: new Date(Date.now() + 30 * DAY_MS) })
+      ]);
+
+      await vestingController.releaseVestedTokens({ walletAddress: '0xa11ce' } as any, res as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(transactionQueue.enqueue).toHaveBeenCalledTimes(1);
+      expect(ledgerService.record).toHaveBeenCalledWith(expect.objectContaining({
+        postings: [expect.objectContaining({ amount: Money.of(60) })]
+      }), mockPrisma);
+
+      expect(mockPrisma.vestingSchedule.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.vestingSchedule.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, releasedAmount: new Prisma.Decimal(40) },
+        data: { releasedAmount: { increment: Money.of(60).toDecimal() } }
+      });
+
+      expect(res.status).toHaveBeenCalledWith(202);
+      const { data } = (res.json as jest.Mock).mock.calls[0][0];
+      expect(data.releasedAmount.toString()).toBe('60.00000000');
+      expect(data.remainingAmount.toString()).toBe('100.00000000');
+      expect(data.schedules).toEqual([{ scheduleId: 1, releasedAmount: Money.of(60), remainingAmount: Money.zero() }]);
+    });
+
+    it('should roll back the sweep when any schedule changed concurrently', async () => {
+      withSchedules([schedule(1, 150), schedule(2, 120)]);
+      mockPrisma.vestingSchedule.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await vestingController.releaseVestedTokens({ walletAddress: '0xa11ce' } as any, res as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 409 }));
+      expect(mockPrisma.tokenTransaction.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a release when nothing has vested', async () => {
+      withSchedules([schedule(3, 0, { cliffTime: new Date(Date.now() + 30 * DAY_MS) })]);
+
+      await vestingController.releaseVestedTokens({ walletAddress: '0xa11ce' } as any, res as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+      expect(transactionQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,3 +1,15 @@
+import { mockPrisma, mockRedis } from './setup';
+import { chainAdapter } from '../services/chainAdapter';
+import { HealthService } from '../services/healthService';
+import packageJson from '../../package.json';
+
+jest.mock('../index', () => ({
+  prisma: require('./setup').mockPrisma,
+  redis: require('./setup').mockRedis
+}));
+
+const getLedgerInfo = chainAdapter.getLedgerInfo as jest.Mock;
+
 describe('Health Check', () => {
   it('should pass basic test', () => {
     expect(1 + 1).toBe(2);
@@ -7,3 +19,107 @@ describe('Health Check', () => {
     expect(process.env.NODE_ENV).toBeDefined();
   });
 });
+
+describe('HealthService', () => {
+  const options = {
+    timeoutMs: 100,
+    slowMs: 50,
+    maxLedgerAgeMs: 60000,
+    maxIndexerLagMs: 120000,
+    indexerEnabled: true
+  };
+
+  const ledger = (ageMs = 1000) => ({
+    chainId: 2,
+    ledgerVersion: '1100',
+    blockHeight: '520',
+    ledgerTimestamp: new Date(Date.now() - ageMs)
+  });
+
+  beforeEach(() => {
+    mockPrisma.$queryRaw.mockResolvedValue([{ '?column?': 1 }]);
+    mockRedis.ping.mockResolvedValue('PONG');
+    getLedgerInfo.mockResolvedValue(ledger());
+    mockPrisma.indexerCursor.findUnique.mockResolvedValue({
+      eventHandle: 'ledger',
+      lastVersion: BigInt(1000),
+      updatedAt: new Date(Date.now() - 5000)
+    });
+  });
+
+  it('should report every component with latency, chain height and indexer lag', async () => {
+    const health = await new HealthService(options).ready();
+
+    expect(health.status).toBe('healthy');
+    expect(health.build).toEqual(expect.objectContaining({ version: packageJson.version, node: process.version }));
+    expect(health.components!.database).toEqual({ status: 'healthy', critical: true, latencyMs: expect.any(Number) });
+    expect(health.components!.redis).toEqual({ status: 'healthy', critical: false, latencyMs: expect.any(Number) });
+    expect(health.components!.aptos.details).toEqual({
+      chainId: 2,
+      ledgerVersion: '1100',
+      blockHeight: '520',
+      ledgerAgeSeconds: 1,
+      indexer: { synced: true, syncedVersion: '1000', lagVersions: '100', lagSeconds: 5 }
+    });
+  });
+
+  it('should only degrade the service when a non-critical component fails', async () => {
+    mockRedis.ping.mockRejectedValue(new Error('Connection refused'));
+
+    const health = await new HealthService(options).ready();
+
+    expect(health.status).toBe('degraded');
+    expect(health.components!.redis).toEqual(expect.objectContaining({ status: 'unhealthy', error: 'Connection refused' }));
+    expect(health.components!.database.status).toBe('healthy');
+  });
+
+  it('should be unhealthy when the database is unavailable', async () => {
+    mockPrisma.$queryRaw.mockRejectedValue(new Error('Connection refused'));
+
+    const health = await new HealthService(options).ready();
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.components!.aptos.status).toBe('healthy');
+  });
+
+  it('should fail checks that exceed the timeout', async () => {
+    getLedgerInfo.mockReturnValue(new Promise(() => undefined));
+
+    const health = await new HealthService(options).ready();
+
+    expect(health.components!.aptos).toEqual(expect.objectContaining({ status: 'unhealthy', error: 'Timed out after 100ms' }));
+  });
+
+  it('should degrade the chain when the node or the indexer falls behind', async () => {
+    getLedgerInfo.mockResolvedValue(ledger(5 * 60000));
+    expect((await new HealthService(options).ready()).components!.aptos.status).toBe('degraded');
+
+    getLedgerInfo.mockResolvedValue(ledger());
+    mockPrisma.indexerCursor.findUnique.mockResolvedValue({
+      eventHandle: 'ledger',
+      lastVersion: BigInt(900),
+      updatedAt: new Date(Date.now() - 10 * 60000)
+    });
+    expect((await new HealthService(options).ready()).components!.aptos.status).toBe('degraded');
+
+    mockPrisma.indexerCursor.findUnique.mockResolvedValue(null);
+    expect((await new HealthService(options).ready()).components!.aptos.status).toBe('degraded');
+  });
+
+  it('should not check the indexer on instances that do not run it', async () => {
+    mockPrisma.indexerCursor.findUnique.mockResolvedValue(null);
+
+    const health = await new HealthService({ ...options, indexerEnabled: false }).ready();
+
+    expect(health.components!.aptos.status).toBe('healthy');
+    expect(mockPrisma.indexerCursor.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should answer liveness without checking dependencies', () => {
+    const health = new HealthService(options).live();
+
+    expect(health.status).toBe('healthy');
+    expect(health.components).toBeUndefined();
+    expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
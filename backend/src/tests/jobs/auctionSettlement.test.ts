@@ -0,0 +1,83 @@
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { settleEndedAuctions } from '../../jobs/auctionSettlement';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+const context = {
+  scheduledJobId: 1,
+  attempt: 1,
+  scheduledFor: new Date(),
+  payload: {}
+};
+
+const auction = (overrides: Record<string, any> = {}) => ({
+  id: 4,
+  propertyId: 2,
+  startingPrice: new Prisma.Decimal(1000),
+  currentBid: new Prisma.Decimal('1500.5'),
+  highestBidder: '0xb1d',
+  startTime: new Date('2026-01-01T00:00:00Z'),
+  endTime: new Date('2026-02-01T00:00:00Z'),
+  isActive: true,
+  settledAt: null,
+  ...overrides
+});
+
+describe('settleEndedAuctions', () => {
+  beforeEach(() => {
+    mockPrisma.propertyAuction.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should close ended auctions and hand the property to the highest bidder', async () => {
+    mockPrisma.propertyAuction.findMany.mockResolvedValue([auction()]);
+
+    expect(await settleEndedAuctions(context)).toEqual({ settled: 1 });
+
+    expect(mockPrisma.propertyAuction.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { isActive: true, endTime: { lte: expect.any(Date) } }
+    }));
+    expect(mockPrisma.propertyAuction.updateMany).toHaveBeenCalledWith({
+      where: { id: 4, isActive: true },
+      data: { isActive: false, settledAt: expect.any(Date) }
+    });
+    expect(mockPrisma.property.update).toHaveBeenCalledWith({
+      where: { id: 2 },
+      data: { ownerAddress: '0xb1d' }
+    });
+    expect(mockPrisma.chainTransaction.create).not.toHaveBeenCalled();
+    expect(mockPrisma.outboxEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        eventType: 'AuctionSettled',
+        payload: { auctionId: 4, propertyId: 2, winner: '0xb1d', winningBid: '1500.50000000' }
+      })
+    });
+  });
+
+  it('should close auctions without bids without a winner', async () => {
+    mockPrisma.propertyAuction.findMany.mockResolvedValue([auction({ currentBid: null, highestBidder: null })]);
+
+    expect(await settleEndedAuctions(context)).toEqual({ settled: 1 });
+
+    expect(mockPrisma.property.update).not.toHaveBeenCalled();
+    expect(mockPrisma.chainTransaction.create).not.toHaveBeenCalled();
+    expect(mockPrisma.outboxEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        payload: expect.objectContaining({ winner: null, winningBid: null })
+      })
+    });
+  });
+
+  it('should skip auctions a concurrent run already settled', async () => {
+    mockPrisma.propertyAuction.findMany.mockResolvedValue([auction()]);
+    mockPrisma.propertyAuction.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await settleEndedAuctions(context)).toEqual({ settled: 0 });
+
+    expect(mockPrisma.property.update).not.toHaveBeenCalled();
+    expect(mockPrisma.outboxEvent.create).not.toHaveBeenCalled();
+  });
+});
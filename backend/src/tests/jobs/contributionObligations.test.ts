@@ -0,0 +1,129 @@
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { trackContributionObligations } from '../../jobs/contributionObligations';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+const context = {
+  scheduledJobId: 1,
+  attempt: 1,
+  scheduledFor: new Date('2026-06-21T00:15:00Z'),
+  payload: {}
+};
+
+describe('trackContributionObligations', () => {
+  beforeEach(() => {
+    mockPrisma.contributionPlan.findMany.mockResolvedValue([]);
+    mockPrisma.contributionObligation.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.contributionObligation.findMany.mockResolvedValue([]);
+  });
+
+  it("should issue this month's obligations and apply contributions already made", async () => {
+    mockPrisma.contributionPlan.findMany.mockResolvedValueOnce([
+      { id: 7, userId: 4, amount: new Prisma.Decimal('150.00'), currency: 'USD', dueDay: 25 },
+      { id: 8, userId: 5, amount: new Prisma.Decimal('80000.00'), currency: 'ARS', dueDay: 10 }
+    ]);
+    mockPrisma.contributionObligation.create.mockImplementation(async ({ data }: any) => ({ id: data.planId + 100, ...data }));
+    mockPrisma.contribution.findFirst
+      .mockResolvedValueOnce({
+        id: 31,
+        currency: 'USD',
+        fiatAmount: new Prisma.Decimal('150.00'),
+        usdAmount: new Prisma.Decimal('150.00'),
+        contributedAt: new Date('2026-06-02T09:00:00Z')
+      })
+      .mockResolvedValueOnce(null);
+
+    expect(await trackContributionObligations(context)).toEqual({ issued: 2, late: 0, missed: 0 });
+
+    expect(mockPrisma.contributionPlan.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        status: 'active',
+        startPeriod: { lte: new Date('2026-06-01T00:00:00Z') },
+        obligations: { none: { period: new Date('2026-06-01T00:00:00Z') } }
+      }
+    }));
+    expect(mockPrisma.contributionObligation.create).toHaveBeenCalledWith({
+      data: {
+        planId: 7,
+        userId: 4,
+        period: new Date('2026-06-01T00:00:00Z'),
+        dueDate: new Date('2026-06-25T00:00:00Z'),
+        amount: new Prisma.Decimal('150.00'),
+        currency: 'USD'
+      }
+    });
+    // Only contributions whose payment was confirmed pay an obligation
+    expect(mockPrisma.contribution.findFirst).toHaveBeenCalledWith({
+      where: { userId: 4, status: 'confirmed', contributedAt: { gte: new Date('2026-06-01T00:00:00Z') }, obligation: null },
+      orderBy: { contributedAt: 'asc' }
+    });
+    expect(mockPrisma.contributionObligation.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.contributionObligation.update).toHaveBeenCalledWith({
+      where: { id: 107 },
+      data: { status: 'paid', contributionId: 31, paidAt: new Date('2026-06-02T09:00:00Z') }
+    });
+  });
+
+  it('should flag unpaid obligations late after the due date and missed after the grace period', async () => {
+    mockPrisma.contributionObligation.updateMany
+      .mockResolvedValueOnce({ count: 3 })
+      .mockResolvedValueOnce({ count: 1 });
+    mockPrisma.contributionObligation.findMany.mockResolvedValue([{
+      id: 41,
+      planId: 7,
+      userId: 4,
+      period: new Date('2026-06-01T00:00:00Z'),
+      dueDate: new Date('2026-06-05T00:00:00Z'),
+      amount: new Prisma.Decimal('150.00'),
+      currency: 'USD',
+      status: 'late',
+      user: { id: 4, walletAddress: '0xa11ce' }
+    }]);
+
+    expect(await trackContributionObligations(context)).toEqual({ issued: 0, late: 3, missed: 1 });
+
+    expect(mockPrisma.contributionObligation.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { status: 'pending', dueDate: { lt: new Date('2026-06-21T00:00:00Z') } },
+      data: { status: 'late' }
+    });
+    // 10 days of grace
+    expect(mockPrisma.contributionObligation.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'late', dueDate: { lt: new Date('2026-06-11T00:00:00Z') } }
+    }));
+    expect(mockPrisma.contributionObligation.updateMany).toHaveBeenNthCalledWith(2, {
+      where: { id: 41, status: 'late' },
+      data: { status: 'missed' }
+    });
+    expect(mockPrisma.outboxEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        eventType: 'ContributionMissed',
+        payload: expect.objectContaining({ obligationId: 41, address: '0xa11ce', period: '2026-06', amount: '150.00' })
+      })
+    });
+  });
+
+  it('should keep marking obligations missed until a batch comes back short', async () => {
+    const late = (id: number) => ({
+      id,
+      planId: 7,
+      userId: 4,
+      period: new Date('2026-05-01T00:00:00Z'),
+      dueDate: new Date('2026-05-05T00:00:00Z'),
+      amount: new Prisma.Decimal('150.00'),
+      currency: 'USD',
+      status: 'late',
+      user: { id: 4, walletAddress: '0xa11ce' }
+    });
+    mockPrisma.contributionObligation.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.contributionObligation.findMany
+      .mockResolvedValueOnce(Array.from({ length: 500 }, (_, index) => late(index + 1)))
+      .mockResolvedValueOnce([late(501)]);
+
+    expect(await trackContributionObligations(context)).toEqual({ issued: 0, late: 1, missed: 501 });
+    expect(mockPrisma.contributionObligation.findMany).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,44 @@
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { markOverdueLoans } from '../../jobs/overdueLoans';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+const context = {
+  scheduledJobId: 1,
+  attempt: 1,
+  scheduledFor: new Date(),
+  payload: {}
+};
+
+describe('markOverdueLoans', () => {
+  it('should flag each overdue loan once and publish LoanOverdue', async () => {
+    mockPrisma.loan.findMany.mockResolvedValue([{
+      id: 8,
+      borrowerId: 3,
+      borrowedAmount: new Prisma.Decimal(250),
+      collateralAmount: new Prisma.Decimal(500),
+      dueDate: new Date('2026-01-01T00:00:00Z'),
+      isActive: true,
+      overdueAt: null,
+      borrower: { id: 3, walletAddress: '0xb0b' }
+    }]);
+    mockPrisma.loan.updateMany.mockResolvedValue({ count: 1 });
+
+    expect(await markOverdueLoans(context)).toEqual({ marked: 1 });
+
+    expect(mockPrisma.loan.updateMany).toHaveBeenCalledWith({
+      where: { id: 8, isActive: true, overdueAt: null },
+      data: { overdueAt: expect.any(Date) }
+    });
+    expect(mockPrisma.outboxEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        eventType: 'LoanOverdue',
+        payload: expect.objectContaining({ loanId: 8, borrower: '0xb0b', outstanding: '250.00000000' })
+      })
+    });
+  });
+});
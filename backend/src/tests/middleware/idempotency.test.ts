@@ -0,0 +1,154 @@
+import express, { Router } from 'express';
+import request from 'supertest';
+import { mockPrisma, mockRedis } from '../setup';
+import { idempotent } from '../../middleware/idempotency';
+import { errorHandler } from '../../middleware/errorHandler';
+import { applyRequestSchemas } from '../../utils/openapi';
+import { AuthenticatedRequest } from '../../types';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+const stake = jest.fn();
+
+const app = express();
+app.use(express.json());
+app.post(
+  '/api/staking/stake',
+  (req: AuthenticatedRequest, res, next) => {
+    req.walletAddress = '0xa11ce';
+    next();
+  },
+  idempotent,
+  (req, res, next) => stake(req, res, next)
+);
+app.use(errorHandler);
+
+const scope = { key: 'retry-1', owner: '0xa11ce', method: 'POST', path: '/api/staking/stake' };
+
+const send = (body: object, key: string | null = 'retry-1') => {
+  const call = request(app).post('/api/staking/stake');
+  return (key === null ? call : call.set('Idempotency-Key', key)).send(body);
+};
+
+describe('idempotency middleware', () => {
+  let cache: Map<string, string>;
+
+  beforeEach(() => {
+    // Minimal in-memory Redis with SET NX support
+    cache = new Map();
+    mockRedis.get.mockImplementation(async (key: string) => cache.get(key) ?? null);
+    mockRedis.set.mockImplementation(async (key: string, value: string, options: { NX?: boolean } = {}) => {
+      if (options.NX && cache.has(key)) {
+        return null;
+      }
+      cache.set(key, value);
+      return 'OK';
+    });
+    mockRedis.del.mockImplementation(async (key: string) => Number(cache.delete(key)));
+    mockPrisma.idempotencyRecord.findUnique.mockResolvedValue(null);
+    mockPrisma.idempotencyRecord.upsert.mockResolvedValue({});
+
+    let id = 0;
+    stake.mockImplementation((req, res) => res.status(202).json({ success: true, data: { transactionId: ++id } }));
+  });
+
+  it('should not touch requests without the header', async () => {
+    await send({ amount: 100 }, null).expect(202);
+
+    expect(mockRedis.get).not.toHaveBeenCalled();
+    expect(mockPrisma.idempotencyRecord.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should store the first response for the key, wallet and route', async () => {
+    await send({ amount: 100 }).expect(202);
+
+    expect(mockPrisma.idempotencyRecord.upsert).toHaveBeenCalledWith({
+      where: { key_owner_method_path: scope },
+      create: expect.objectContaining({
+        ...scope,
+        statusCode: 202,
+        responseBody: { success: true, data: { transactionId: 1 } },
+        requestHash: expect.stringMatching(/^[0-9a-f]{64}$/)
+      }),
+      update: expect.objectContaining({ statusCode: 202 })
+    });
+  });
+
+  it('should replay the stored response for a retry', async () => {
+    await send({ amount: 100, note: 'x' }).expect(202);
+    const retry = await send({ note: 'x', amount: 100 }).expect(202);
+
+    expect(retry.body.data.transactionId).toBe(1);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(stake).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a reused key with a different body', async () => {
+    await send({ amount: 100 }).expect(202);
+    const retry = await send({ amount: 200 }).expect(409);
+
+    expect(retry.body.error).toBe('Idempotency-Key was already used with a different request body');
+    expect(stake).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a retry while the first request is still running', async () => {
+    let finish: () => void = () => undefined;
+    stake.mockImplementationOnce((req, res) => {
+      finish = () => res.status(202).json({ success: true });
+    });
+
+    const first = send({ amount: 100 }).then(response => response);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    await send({ amount: 100 }).expect(409);
+
+    finish();
+    expect((await first).status).toBe(202);
+  });
+
+  it('should replay responses stored in Postgres when the cache is empty', async () => {
+    await send({ amount: 100 }).expect(202);
+    const { create } = mockPrisma.idempotencyRecord.upsert.mock.calls[0][0];
+    cache.clear();
+    mockPrisma.idempotencyRecord.findUnique.mockResolvedValue({
+      ...create,
+      expiresAt: new Date(Date.now() + 60000)
+    });
+
+    const retry = await send({ amount: 100 }).expect(202);
+
+    expect(retry.body.data.transactionId).toBe(1);
+    expect(stake).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not store server errors so the request can be retried', async () => {
+    stake.mockImplementationOnce((req, res, next) => next(new Error('Database unavailable')));
+
+    await send({ amount: 100 }).expect(500);
+    await send({ amount: 100 }).expect(202);
+
+    expect(stake).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.idempotencyRecord.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject malformed keys', async () => {
+    await send({ amount: 100 }, 'has spaces').expect(400);
+
+    expect(stake).not.toHaveBeenCalled();
+  });
+
+  it('should document the header on idempotent routes', () => {
+    const router = Router();
+    router.post('/claim-rewards', idempotent, jest.fn());
+
+    const spec = applyRequestSchemas({ paths: {} }, { '/api/staking': router });
+    const operation = spec.paths['/api/staking/claim-rewards'].post;
+
+    expect(operation.parameters).toEqual([{ $ref: '#/components/parameters/IdempotencyKey' }]);
+    expect(operation.responses[409]).toBeDefined();
+    expect(operation.responses[400]).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+import express, { Router } from 'express';
+import request from 'supertest';
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { httpMetrics, metricsEndpoint } from '../../middleware/metrics';
+import { errorHandler } from '../../middleware/errorHandler';
+import { config } from '../../utils/config';
+import { instrumentChainAdapter, registry } from '../../utils/metrics';
+import { ChainAdapter } from '../../types';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+const loans = Router();
+loans.get('/loans/:id', (req, res) => res.json({ success: true }));
+
+const app = express();
+app.use(httpMetrics);
+app.get('/metrics', metricsEndpoint);
+app.use('/api/lending', loans);
+app.use(errorHandler);
+
+const scrape = async () => (await request(app).get('/metrics').expect(200)).text;
+
+describe('metrics', () => {
+  beforeEach(() => {
+    registry.resetMetrics();
+    config.metricsToken = null;
+
+    mockPrisma.chainTransaction.groupBy.mockResolvedValue([{ status: 'pending', _count: { _all: 3 } }]);
+    mockPrisma.outboxEvent.count.mockResolvedValue(2);
+    mockPrisma.webhookDelivery.count.mockImplementation(async ({ where }: any) => where.status === 'dead' ? 1 : 4);
+    mockPrisma.stakingRecord.aggregate.mockResolvedValue({ _sum: { stakedAmount: new Prisma.Decimal('1500.5') } });
+    mockPrisma.loan.count.mockResolvedValue(6);
+    mockPrisma.loan.aggregate.mockResolvedValue({ _sum: { borrowedAmount: new Prisma.Decimal('2400') } });
+    mockPrisma.inheritanceRequest.count.mockResolvedValue(1);
+  });
+
+  it('should record request latency by route template and status', async () => {
+    await request(app).get('/api/lending/loans/42').expect(200);
+    await request(app).get('/api/lending/missing').expect(404);
+
+    const text = await scrape();
+
+    expect(text).toContain('http_request_duration_seconds_count{method="GET",route="/api/lending/loans/:id",status_code="200"} 1');
+    expect(text).toContain('http_request_duration_seconds_count{method="GET",route="unmatched",status_code="404"} 1');
+  });
+
+  it('should report queue depths and business gauges from the database', async () => {
+    const text = await scrape();
+
+    expect(text).toContain('chain_transaction_queue_depth{status="pending"} 3');
+    expect(text).toContain('chain_transaction_queue_depth{status="submitted"} 0');
+    expect(text).toContain('outbox_events_undispatched 2');
+    expect(text).toContain('webhook_deliveries{status="dead"} 1');
+    expect(text).toContain('afjp_staked_tokens 1500.5');
+    expect(text).toContain('afjp_loans_active 6');
+    expect(text).toContain('afjp_loan_outstanding_principal 2400');
+    expect(text).toContain('afjp_inheritance_requests_pending 1');
+  });
+
+  it('should still serve the other metrics when a query fails', async () => {
+    mockPrisma.loan.count.mockRejectedValue(new Error('Connection refused'));
+
+    const text = await scrape();
+
+    expect(text).toContain('afjp_inheritance_requests_pending 1');
+    expect(text).toContain('process_cpu_seconds_total');
+  });
+
+  it('should require the bearer token when one is configured', async () => {
+    config.metricsToken = 'scrape-secret';
+
+    await request(app).get('/metrics').expect(401);
+    await request(app).get('/metrics').set('Authorization', 'Bearer wrong').expect(401);
+    await request(app).get('/metrics').set('Authorization', 'Bearer scrape-secret').expect(200);
+  });
+
+  it('should time chain calls and count failures per entry function', async () => {
+    const chain: Record<keyof ChainAdapter, jest.Mock> = {
+      getTokenBalance: jest.fn(),
+      getAuthenticationKey: jest.fn(),
+      executeTransaction: jest.fn()
+        .mockResolvedValueOnce('0xhash')
+        .mockRejectedValueOnce(new Error('SEQUENCE_NUMBER_TOO_OLD')),
+      submitSignedTransaction: jest.fn(),
+      getTransactionStatus: jest.fn(),
+      getTransactionMeta: jest.fn(),
+      getLedgerInfo: jest.fn().mockResolvedValue({}),
+      view: jest.fn(),
+      getModuleEvents: jest.fn()
+    };
+    const instrumented = instrumentChainAdapter(chain as unknown as ChainAdapter);
+    const account = {} as any;
+
+    await instrumented.executeTransaction(account, 'afjp_staking::stake_tokens', [], [100]);
+    await expect(instrumented.executeTransaction(account, 'afjp_staking::stake_tokens', [], [100])).rejects.toThrow('SEQUENCE_NUMBER_TOO_OLD');
+    await instrumented.getLedgerInfo();
+
+    const text = await scrape();
+
+    expect(chain.executeTransaction).toHaveBeenCalledWith(account, 'afjp_staking::stake_tokens', [], [100]);
+    expect(text).toContain('aptos_call_duration_seconds_count{operation="executeTransaction",function="afjp_staking::stake_tokens"} 2');
+    expect(text).toContain('aptos_call_failures_total{operation="executeTransaction",function="afjp_staking::stake_tokens"} 1');
+    expect(text).toContain('aptos_call_duration_seconds_count{operation="getLedgerInfo",function=""} 1');
+  });
+});
@@ -0,0 +1,137 @@
+import express, { Router } from 'express';
+import request from 'supertest';
+import { mockPrisma, mockRedis } from '../setup';
+import { rateLimit } from '../../middleware/rateLimit';
+import { errorHandler } from '../../middleware/errorHandler';
+import { rateLimitOverrideService } from '../../services/rateLimitOverrideService';
+import { applyRequestSchemas } from '../../utils/openapi';
+import { RATE_LIMIT_POLICIES } from '../../utils/rateLimitPolicies';
+import { AuthenticatedRequest } from '../../types';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+const MONEY_MAX = RATE_LIMIT_POLICIES.money.max;
+
+const app = express();
+app.use(express.json());
+app.use(rateLimit('global'));
+app.post(
+  '/api/staking/stake',
+  (req: AuthenticatedRequest, res, next) => {
+    req.walletAddress = req.get('X-Test-Wallet');
+    next();
+  },
+  rateLimit('money'),
+  (req, res) => res.status(202).json({ success: true })
+);
+app.use(errorHandler);
+
+const stake = (wallet = '0xA11CE') =>
+  request(app).post('/api/staking/stake').set('X-Test-Wallet', wallet).send({ amount: 100 });
+
+const override = (fields: object) => ({
+  id: 1,
+  subject: '0xa11ce',
+  policy: '*',
+  maxRequests: 1,
+  reason: 'test',
+  createdBy: null,
+  expiresAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...fields
+});
+
+describe('rate limit middleware', () => {
+  let counters: Map<string, number>;
+
+  beforeEach(() => {
+    // Minimal in-memory version of the hit script
+    counters = new Map();
+    mockRedis.eval.mockImplementation(async (script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) => {
+      const count = (counters.get(keys[0]) || 0) + 1;
+      counters.set(keys[0], count);
+      return [count, Number(args[0])];
+    });
+    mockPrisma.rateLimitOverride.findMany.mockResolvedValue([]);
+    rateLimitOverrideService.invalidate();
+  });
+
+  it('should report the remaining budget in the RateLimit headers', async () => {
+    const response = await stake().expect(202);
+
+    expect(response.headers['ratelimit-limit']).toBe(String(MONEY_MAX));
+    expect(response.headers['ratelimit-remaining']).toBe(String(MONEY_MAX - 1));
+    expect(response.headers['ratelimit-reset']).toBe('60');
+    expect(response.headers['ratelimit-policy']).toBe(`${MONEY_MAX};w=60`);
+  });
+
+  it('should answer 429 with Retry-After once the budget is spent', async () => {
+    for (let i = 0; i < MONEY_MAX; i++) {
+      await stake().expect(202);
+    }
+
+    const response = await stake().expect(429);
+
+    expect(response.body.error).toBe('Too many requests, please try again later');
+    expect(response.headers['retry-after']).toBe('60');
+    expect(response.headers['ratelimit-remaining']).toBe('0');
+  });
+
+  it('should count wallet policies per wallet and the global policy per IP', async () => {
+    await stake('0xA11CE').expect(202);
+    await stake('0xb0b').expect(202);
+
+    expect(counters.get('ratelimit:money:0xa11ce')).toBe(1);
+    expect(counters.get('ratelimit:money:0xb0b')).toBe(1);
+    expect(counters.get('ratelimit:global:ip:127.0.0.1')).toBe(2);
+  });
+
+  it('should apply an override for the wallet', async () => {
+    mockPrisma.rateLimitOverride.findMany.mockResolvedValue([override({ policy: 'money' })]);
+
+    await stake().expect(202);
+    await stake().expect(429);
+    await stake('0xb0b').expect(202);
+  });
+
+  it('should skip limiting for an override without a maximum', async () => {
+    mockPrisma.rateLimitOverride.findMany.mockResolvedValue([override({ maxRequests: null })]);
+
+    const response = await stake().expect(202);
+
+    expect(counters.has('ratelimit:money:0xa11ce')).toBe(false);
+    expect(response.headers['ratelimit-limit']).toBe(String(RATE_LIMIT_POLICIES.global.max));
+  });
+
+  it('should ignore expired overrides', async () => {
+    mockPrisma.rateLimitOverride.findMany.mockResolvedValue([
+      override({ expiresAt: new Date(Date.now() - 1000) })
+    ]);
+
+    await stake().expect(202);
+    await stake().expect(202);
+  });
+
+  it('should let requests through when Redis is unavailable', async () => {
+    mockRedis.eval.mockRejectedValue(new Error('Connection refused'));
+
+    await stake().expect(202);
+  });
+
+  it('should document the 429 on limited routes', () => {
+    const router = Router();
+    router.post('/stake', rateLimit('money'), jest.fn());
+    router.get('/pools', jest.fn());
+
+    const spec = applyRequestSchemas({ paths: {} }, { '/api/staking': router });
+
+    expect(spec.paths['/api/staking/stake'].post.responses[429]).toEqual({
+      $ref: '#/components/responses/TooManyRequests'
+    });
+    expect(spec.paths['/api/staking/pools']).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { Response, NextFunction } from 'express';
+import { mockPrisma } from '../setup';
+import { requirePermission, requireRole } from '../../middleware/rbac';
+import { AuthenticatedRequest } from '../../types';
+import { config } from '../../utils/config';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+const user = {
+  id: 5,
+  walletAddress: '0xabc',
+  kycStatus: 'verified',
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+describe('RBAC middleware', () => {
+  let mockRequest: Partial<AuthenticatedRequest>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    mockRequest = { user };
+    mockNext = jest.fn();
+    config.adminWalletAddresses = [];
+  });
+
+  it('should let a role through when it grants the permission', async () => {
+    mockPrisma.userRole.findMany.mockResolvedValue([{ role: 'inheritance_approver' }]);
+
+    await requirePermission('inheritance:review')(mockRequest as AuthenticatedRequest, {} as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith();
+    expect(mockRequest.roles).toEqual(['inheritance_approver']);
+  });
+
+  it('should reject a role that does not grant the permission', async () => {
+    mockPrisma.userRole.findMany.mockResolvedValue([{ role: 'property_manager' }]);
+
+    await requirePermission('loans:liquidate')(mockRequest as AuthenticatedRequest, {} as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Insufficient permissions', statusCode: 403 })
+    );
+  });
+
+  it('should reject users without any role', async () => {
+    mockPrisma.userRole.findMany.mockResolvedValue([]);
+
+    await requireRole('admin')(mockRequest as AuthenticatedRequest, {} as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+  });
+
+  it('should treat bootstrap wallets as admins', async () => {
+    config.adminWalletAddresses = ['0xdef', '0xabc'];
+    mockPrisma.userRole.findMany.mockResolvedValue([]);
+
+    await requireRole('admin')(mockRequest as AuthenticatedRequest, {} as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+
+  it('should require authentication to run first', async () => {
+    mockRequest = {};
+
+    await requireRole('admin')(mockRequest as AuthenticatedRequest, {} as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 401 }));
+    expect(mockPrisma.userRole.findMany).not.toHaveBeenCalled();
+  });
+});
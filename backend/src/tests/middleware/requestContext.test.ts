@@ -0,0 +1,91 @@
+import { Writable } from 'stream';
+import express from 'express';
+import request from 'supertest';
+import winston from 'winston';
+import { requestContext } from '../../middleware/requestContext';
+import { errorHandler } from '../../middleware/errorHandler';
+import { AppError, AuthenticatedRequest } from '../../types';
+import { logger } from '../../utils/logger';
+import { runAsJob } from '../../utils/requestContext';
+
+const lines: Record<string, unknown>[] = [];
+const capture = new winston.transports.Stream({
+  stream: new Writable({
+    write(chunk, encoding, callback) {
+      lines.push(JSON.parse(chunk.toString()));
+      callback();
+    }
+  })
+});
+
+const app = express();
+app.use(requestContext);
+app.post(
+  '/api/staking/stake',
+  (req: AuthenticatedRequest, res, next) => {
+    req.walletAddress = '0xa11ce';
+    next();
+  },
+  (req, res) => {
+    logger.info('Tokens staked:', { amount: 100 });
+    res.status(202).json({ success: true });
+  }
+);
+app.get('/api/fail', () => {
+  throw new AppError('Nope', 400);
+});
+app.use(errorHandler);
+
+describe('request context', () => {
+  beforeAll(() => {
+    logger.add(capture);
+  });
+
+  afterAll(() => {
+    logger.remove(capture);
+  });
+
+  beforeEach(() => {
+    lines.length = 0;
+  });
+
+  it('should echo a valid caller request ID and replace an invalid one', async () => {
+    const valid = await request(app).post('/api/staking/stake').set('X-Request-Id', 'abc-123');
+    const invalid = await request(app).post('/api/staking/stake').set('X-Request-Id', 'not a valid id!');
+
+    expect(valid.headers['x-request-id']).toBe('abc-123');
+    expect(invalid.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should tag log lines with the request ID, wallet and route', async () => {
+    await request(app).post('/api/staking/stake').set('X-Request-Id', 'abc-123');
+
+    expect(lines.find(line => line.message === 'Tokens staked:')).toMatchObject({
+      amount: 100,
+      requestId: 'abc-123',
+      walletAddress: '0xa11ce',
+      route: 'POST /api/staking/stake'
+    });
+  });
+
+  it('should return the request ID with errors', async () => {
+    const response = await request(app).get('/api/fail').set('X-Request-Id', 'abc-123');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ success: false, error: 'Nope', requestId: 'abc-123' });
+  });
+
+  it('should tag background work with the job and the queuing request', async () => {
+    await runAsJob('transaction-queue', 'abc-123', async () => logger.info('Chain transaction confirmed:', { id: 1 }));
+    runAsJob('transaction-queue', null, () => logger.info('Chain transaction confirmed:', { id: 2 }));
+
+    expect(lines[0]).toMatchObject({ id: 1, requestId: 'abc-123', job: 'transaction-queue' });
+    expect(lines[1].requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should not override fields the caller logged', () => {
+    runAsJob('transaction-queue', 'abc-123', () => logger.info('Replayed:', { requestId: 'original' }));
+
+    expect(lines[0].requestId).toBe('original');
+  });
+});
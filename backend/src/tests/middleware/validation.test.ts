@@ -0,0 +1,108 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { validate } from '../../middleware/validation';
+import { tokenSchemas } from '../../schemas/tokens';
+import { lendingSchemas } from '../../schemas/lending';
+import { inheritanceSchemas } from '../../schemas/inheritance';
+import { applyRequestSchemas } from '../../utils/openapi';
+import { RequestValidationError } from '../../types';
+import { Money } from '../../utils/money';
+
+const run = (schemas: Parameters<typeof validate>[0], req: Partial<Request>) => {
+  const next: NextFunction = jest.fn();
+  validate(schemas)(req as Request, {} as Response, next);
+  return next as jest.Mock;
+};
+
+describe('validate middleware', () => {
+  it('should replace the request with parsed values', () => {
+    const req: Partial<Request> = {
+      body: { to: '0xABC', amount: '12.5' }
+    };
+
+    const next = run(tokenSchemas.transfer, req);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.body).toEqual({ to: '0xabc', amount: expect.any(Money) });
+    expect(req.body.amount.toString()).toBe('12.50000000');
+  });
+
+  it('should apply query defaults and coercion', () => {
+    const req: Partial<Request> = {
+      params: { address: '0x1' },
+      query: { page: '3' }
+    };
+
+    run(tokenSchemas.getTransactions, req);
+
+    expect(req.query).toEqual({ page: 3, limit: 10 });
+  });
+
+  it('should report every invalid field with its location', () => {
+    const next = run(lendingSchemas.repayLoan, { body: { loanId: '7', amount: -1 } });
+    const error = next.mock.calls[0][0] as RequestValidationError;
+
+    expect(error).toBeInstanceOf(RequestValidationError);
+    expect(error.statusCode).toBe(400);
+    expect(error.errors.map(({ location, field }) => `${location}.${field}`)).toEqual(['body.loanId', 'body.amount']);
+  });
+
+  it('should reject amounts with more decimals than the token supports', () => {
+    const next = run(tokenSchemas.burn, { body: { amount: '0.123456789' } });
+
+    expect(next.mock.calls[0][0].errors[0]).toMatchObject({
+      field: 'amount',
+      message: 'Must have at most 8 decimal places'
+    });
+  });
+
+  it('should validate beneficiary addresses and distribution', () => {
+    const invalidAddress = run(inheritanceSchemas.designateBeneficiaries, {
+      body: { primary: '0x1', secondary: ['0x2', 'bob'], percentages: [60, 40] }
+    });
+    const invalidDistribution = run(inheritanceSchemas.designateBeneficiaries, {
+      body: { primary: '0x1', secondary: ['0x2', '0x3'], percentages: [60, 30] }
+    });
+
+    expect(invalidAddress.mock.calls[0][0].errors).toEqual([
+      expect.objectContaining({ field: 'secondary.1' })
+    ]);
+    expect(invalidDistribution.mock.calls[0][0].errors).toEqual([
+      expect.objectContaining({ field: 'percentages', message: 'Distribution percentages must add up to 100' })
+    ]);
+  });
+});
+
+describe('applyRequestSchemas', () => {
+  it('should document validated routes from their schemas', () => {
+    const router = Router();
+    router.get('/transactions/:address', validate(tokenSchemas.getTransactions), jest.fn());
+    router.post('/afjp/transfer', validate(tokenSchemas.transfer), jest.fn());
+
+    const spec = applyRequestSchemas({
+      paths: {
+        '/api/tokens/afjp/transfer': {
+          post: { summary: 'Transfer AFJP tokens', responses: { 200: { description: 'ok' } } }
+        }
+      }
+    }, { '/api/tokens': router });
+
+    const list = spec.paths['/api/tokens/transactions/{address}'].get;
+    expect(list.parameters).toEqual(expect.arrayContaining([
+      expect.objectContaining({ in: 'path', name: 'address', required: true, description: 'Wallet address' }),
+      expect.objectContaining({ in: 'query', name: 'tokenType', required: false, schema: { type: 'string', enum: ['AFJP', 'JUVENTUD', 'LADRILLO'] } }),
+      expect.objectContaining({ in: 'query', name: 'limit', schema: expect.objectContaining({ type: 'integer', default: 10 }) })
+    ]));
+
+    const transfer = spec.paths['/api/tokens/afjp/transfer'].post;
+    expect(transfer.summary).toBe('Transfer AFJP tokens');
+    expect(transfer.responses[200]).toEqual({ description: 'ok' });
+    expect(transfer.responses[400].content['application/json'].schema.$ref).toBe('#/components/schemas/ValidationError');
+    expect(transfer.requestBody.content['application/json'].schema).toMatchObject({
+      type: 'object',
+      required: ['to', 'amount'],
+      properties: {
+        to: { type: 'string', pattern: '^0x[0-9a-fA-F]{1,64}$', description: 'Recipient address' }
+      }
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { mockRedis } from '../setup';
+import { AnalyticsCache } from '../../services/analyticsCache';
+
+jest.mock('../../index', () => ({
+  redis: require('../setup').mockRedis
+}));
+
+const report = (value: number) => ({ totalValue: value });
+
+describe('AnalyticsCache', () => {
+  let store: Map<string, string>;
+  let cache: AnalyticsCache;
+
+  beforeEach(() => {
+    // Minimal in-memory Redis with the commands the cache uses
+    store = new Map();
+    mockRedis.get.mockImplementation(async (key: string) => store.get(key) ?? null);
+    mockRedis.mGet.mockImplementation(async (keys: string[]) => keys.map(key => store.get(key) ?? null));
+    mockRedis.set.mockImplementation(async (key: string, value: string, options: { NX?: boolean } = {}) => {
+      if (options.NX && store.has(key)) {
+        return null;
+      }
+      store.set(key, value);
+      return 'OK';
+    });
+    mockRedis.incr.mockImplementation(async (key: string) => {
+      const value = Number(store.get(key) || 0) + 1;
+      store.set(key, String(value));
+      return value;
+    });
+    mockRedis.eval.mockImplementation(async (script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) =>
+      store.get(keys[0]) === args[0] ? Number(store.delete(keys[0])) : 0
+    );
+
+    cache = new AnalyticsCache({ enabled: true, lockMs: 500, pollMs: 10 });
+  });
+
+  it('should compute a report once and serve it from Redis with the given TTL', async () => {
+    const compute = jest.fn().mockResolvedValue(report(100));
+
+    expect(await cache.getOrCompute('fundPerformance', { period: '7d' }, 300, compute)).toEqual(report(100));
+    expect(await cache.getOrCompute('fundPerformance', { period: '7d' }, 300, compute)).toEqual(report(100));
+
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(mockRedis.set).toHaveBeenCalledWith(expect.stringMatching(/^analytics:fundPerformance:/), JSON.stringify(report(100)), { EX: 300 });
+  });
+
+  it('should cache each set of parameters separately', async () => {
+    const compute = jest.fn().mockResolvedValueOnce(report(1)).mockResolvedValueOnce(report(2));
+
+    await cache.getOrCompute('marketTrends', { period: '1d' }, 60, compute);
+    const yearly = await cache.getOrCompute('marketTrends', { period: '1y' }, 3600, compute);
+
+    expect(yearly).toEqual(report(2));
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should invalidate only the reports computed from the written source', async () => {
+    const valuations = jest.fn().mockResolvedValue(report(1));
+    const performance = jest.fn().mockResolvedValue(report(2));
+    const load = () => Promise.all([
+      cache.getOrCompute('propertyValuations', {}, 3600, valuations),
+      cache.getOrCompute('fundPerformance', { period: '30d' }, 900, performance)
+    ]);
+
+    await load();
+    await cache.invalidate('staking');
+    await load();
+
+    expect(valuations).toHaveBeenCalledTimes(1);
+    expect(performance).toHaveBeenCalledTimes(2);
+
+    await cache.invalidate('properties');
+    await load();
+
+    expect(valuations).toHaveBeenCalledTimes(2);
+    expect(performance).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share one computation between concurrent requests', async () => {
+    const compute = jest.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return report(100);
+    });
+
+    const results = await Promise.all([1, 2, 3].map(() =>
+      cache.getOrCompute('fundPerformance', { period: '30d' }, 900, compute)
+    ));
+
+    expect(results).toEqual([report(100), report(100), report(100)]);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for the instance holding the lock instead of computing again', async () => {
+    const compute = jest.fn().mockResolvedValue(report(1));
+    const other = new AnalyticsCache({ enabled: true, lockMs: 500, pollMs: 10 });
+    let finish: (value: object) => void = () => undefined;
+
+    const first = other.getOrCompute('fundPerformance', { period: '1d' }, 60, () =>
+      new Promise(resolve => { finish = resolve; })
+    );
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const second = cache.getOrCompute('fundPerformance', { period: '1d' }, 60, compute);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    finish(report(7));
+
+    expect(await first).toEqual(report(7));
+    expect(await second).toEqual(report(7));
+    expect(compute).not.toHaveBeenCalled();
+    expect([...store.keys()].some(key => key.endsWith(':lock'))).toBe(false);
+  });
+
+  it('should not cache failed computations', async () => {
+    const compute = jest.fn()
+      .mockRejectedValueOnce(new Error('Database unavailable'))
+      .mockResolvedValueOnce(report(1));
+
+    await expect(cache.getOrCompute('propertyValuations', {}, 3600, compute)).rejects.toThrow('Database unavailable');
+    expect(await cache.getOrCompute('propertyValuations', {}, 3600, compute)).toEqual(report(1));
+  });
+
+  it('should compute reports directly when Redis is unavailable', async () => {
+    mockRedis.mGet.mockRejectedValue(new Error('Connection refused'));
+    const compute = jest.fn().mockResolvedValue(report(1));
+
+    expect(await cache.getOrCompute('marketTrends', { period: '7d' }, 300, compute)).toEqual(report(1));
+    await expect(cache.invalidate('users')).resolves.toBeUndefined();
+  });
+});
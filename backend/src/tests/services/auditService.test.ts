@@ -0,0 +1,220 @@
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { AuditService, GENESIS_HASH } from '../../services/auditService';
+import { runWithContext } from '../../utils/requestContext';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+const entry = (overrides: Record<string, any> = {}) => ({
+  actorWallet: '0xa11ce',
+  action: 'loan.repay',
+  entityType: 'loan',
+  entityId: 5,
+  before: { borrowedAmount: new Prisma.Decimal('100.5'), isActive: true },
+  after: { borrowedAmount: new Prisma.Decimal('0'), isActive: false },
+  ...overrides
+});
+
+describe('AuditService', () => {
+  const auditService = new AuditService();
+  let events: any[];
+
+  beforeEach(() => {
+    // Append-only in-memory table, reads return JSON as Postgres would
+    events = [];
+    mockPrisma.auditEvent.create.mockImplementation(async ({ data }: any) => {
+      const stored = {
+        ...data,
+        id: events.length + 1,
+        before: data.before === Prisma.DbNull ? null : data.before,
+        after: data.after === Prisma.DbNull ? null : data.after
+      };
+      const event = JSON.parse(JSON.stringify(stored));
+      events.push({ ...event, createdAt: new Date(event.createdAt) });
+      return events[events.length - 1];
+    });
+    mockPrisma.auditEvent.findFirst.mockImplementation(async () => events[events.length - 1] || null);
+    mockPrisma.auditEvent.findMany.mockImplementation(async ({ where, take }: any) =>
+      events.filter(event => event.id > where.id.gt).slice(0, take)
+    );
+  });
+
+  it('should link each event to the hash of the previous one', async () => {
+    const first = await auditService.record(entry());
+    const second = await auditService.record(entry({ action: 'loan.liquidate' }));
+
+    expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(2);
+    expect(first.prevHash).toBe(GENESIS_HASH);
+    expect(second.prevHash).toBe(first.hash);
+    expect(second.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(second.hash).not.toBe(first.hash);
+  });
+
+  it('should append several events in one transaction, taking the chain lock once', async () => {
+    const appended = await auditService.append([entry(), entry({ entityId: 6 })]);
+
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(appended.map(event => event.entityId)).toEqual(['5', '6']);
+    expect(appended[1].prevHash).toBe(appended[0].hash);
+  });
+
+  it('should store snapshots as plain JSON', async () => {
+    const event = await auditService.record(entry({ after: { totalFractions: BigInt(1000) }, before: undefined }));
+
+    expect(mockPrisma.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        entityId: '5',
+        before: Prisma.DbNull,
+        after: { totalFractions: '1000' }
+      })
+    });
+    expect(event.after).toEqual({ totalFractions: '1000' });
+    expect(await auditService.verifyChain()).toEqual({ valid: true, checked: 1 });
+  });
+
+  it('should take the request ID and IP from the request context', async () => {
+    await runWithContext({ requestId: 'req-1', ip: '203.0.113.7' }, () => auditService.record(entry()));
+    await auditService.record(entry({ actorWallet: null }));
+
+    expect(events[0]).toEqual(expect.objectContaining({ requestId: 'req-1', ip: '203.0.113.7' }));
+    expect(events[1]).toEqual(expect.objectContaining({ requestId: null, ip: null, actorWallet: null }));
+  });
+
+  it('should verify an untouched chain', async () => {
+    for (let i = 0; i < 3; i++) {
+      await auditService.record(entry({ entityId: i }));
+    }
+
+    expect(await auditService.verifyChain()).toEqual({ valid: true, checked: 3 });
+  });
+
+  it('should detect a modified event', async () => {
+    for (let i = 0; i < 3; i++) {
+      await auditService.record(entry({ entityId: i }));
+    }
+    events[1].after = { borrowedAmount: '50', isActive: true };
+
+    expect(await auditService.verifyChain()).toEqual(expect.objectContaining({ valid: false, checked: 1, brokenAt: 2 }));
+  });
+
+  it('should detect a removed event', async () => {
+    for (let i = 0; i < 3; i++) {
+      await auditService.record(entry({ entityId: i }));
+    }
+    events.splice(1, 1);
+
+    expect(await auditService.verifyChain()).toEqual(expect.objectContaining({ valid: false, checked: 1, brokenAt: 3 }));
+  });
+
+  describe('auditing mutations', () => {
+    const before = { id: 5, borrowedAmount: new Prisma.Decimal('100'), isActive: true };
+    const after = { id: 5, borrowedAmount: new Prisma.Decimal('0'), isActive: false };
+    const repay = (query: jest.Mock) => auditService.audit({
+      model: 'Loan',
+      operation: 'update',
+      args: { where: { id: 5 }, data: { borrowedAmount: 0, isActive: false } },
+      query
+    });
+
+    beforeEach(() => {
+      mockPrisma.loan.findUnique.mockResolvedValue(before);
+    });
+
+    it('should record the row before and after a change under the wallet of the request', async () => {
+      const query = jest.fn().mockResolvedValue(after);
+
+      const result = await runWithContext({ requestId: 'req-1', walletAddress: '0xa11ce' }, () => repay(query));
+
+      expect(result).toBe(after);
+      expect(mockPrisma.loan.findUnique).toHaveBeenCalledWith({ where: { id: 5 } });
+      expect(events).toEqual([expect.objectContaining({
+        actorWallet: '0xa11ce',
+        action: 'loan.update',
+        entityType: 'loan',
+        entityId: '5',
+        requestId: 'req-1',
+        before: { id: 5, borrowedAmount: '100', isActive: true },
+        after: { id: 5, borrowedAmount: '0', isActive: false }
+      })]);
+    });
+
+    it('should append changes made in a transaction only once it commits', async () => {
+      const query = jest.fn().mockResolvedValue(after);
+
+      await auditService.transaction(async () => {
+        await repay(query);
+        expect(events).toHaveLength(0);
+      }, run => run(mockPrisma as any));
+      expect(events).toHaveLength(1);
+
+      await expect(auditService.transaction(() => repay(query), async run => {
+        await run(mockPrisma as any);
+        throw new Error('Transaction rolled back');
+      })).rejects.toThrow('Transaction rolled back');
+      expect(events).toHaveLength(1);
+    });
+
+    it('should record every row changed by updateMany and deleteMany, and skip no-ops', async () => {
+      mockPrisma.loan.findMany
+        .mockResolvedValueOnce([before, { ...before, id: 6 }])
+        .mockResolvedValueOnce([after, { ...after, id: 6 }])
+        .mockResolvedValueOnce([before]);
+
+      await auditService.audit({
+        model: 'Loan',
+        operation: 'updateMany',
+        args: { where: { isActive: true }, data: { isActive: false } },
+        query: jest.fn().mockResolvedValue({ count: 2 })
+      });
+      await auditService.audit({
+        model: 'Loan',
+        operation: 'deleteMany',
+        args: { where: { id: 5 } },
+        query: jest.fn().mockResolvedValue({ count: 0 })
+      });
+      await auditService.audit({
+        model: 'Loan',
+        operation: 'upsert',
+        args: { where: { id: 5 }, create: {}, update: {} },
+        query: jest.fn().mockResolvedValue(before)
+      });
+
+      expect(events.map(event => `${event.action} ${event.entityId}`)).toEqual(['loan.update 5', 'loan.update 6']);
+      expect(mockPrisma.loan.findMany).toHaveBeenNthCalledWith(2, { where: { id: { in: [5, 6] } } });
+    });
+
+    it('should leave secrets out of snapshots and bookkeeping out of the trail', async () => {
+      const subscription = { id: 3, url: 'https://partner.example.com/hooks', secret: 'whsec_123' };
+
+      await auditService.audit({
+        model: 'WebhookSubscription',
+        operation: 'create',
+        args: { data: subscription },
+        query: jest.fn().mockResolvedValue(subscription)
+      });
+      await auditService.audit({
+        model: 'OutboxEvent',
+        operation: 'create',
+        args: { data: {} },
+        query: jest.fn().mockResolvedValue({ id: 1 })
+      });
+
+      expect(events).toEqual([expect.objectContaining({
+        action: 'webhook_subscription.create',
+        before: null,
+        after: { id: 3, url: 'https://partner.example.com/hooks' }
+      })]);
+    });
+
+    it('should refuse createMany, whose rows cannot be told apart', async () => {
+      const query = jest.fn();
+
+      await expect(auditService.audit({ model: 'Loan', operation: 'createMany', args: { data: [] }, query }))
+        .rejects.toThrow('Loan.createMany is not audited, use createManyAndReturn');
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
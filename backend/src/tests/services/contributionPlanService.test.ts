@@ -0,0 +1,148 @@
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { contributionPlanService } from '../../services/contributionPlanService';
+import { Money } from '../../utils/money';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+const user = { id: 4, walletAddress: '0xa11ce' };
+
+const obligation = (id: number, period: string, status: string) => ({
+  id,
+  planId: 7,
+  userId: 4,
+  period: new Date(`${period}-01T00:00:00Z`),
+  dueDate: new Date(`${period}-10T00:00:00Z`),
+  amount: new Prisma.Decimal('150.00'),
+  currency: 'USD',
+  status,
+  contributionId: status === 'paid' ? id + 100 : null,
+  paidAt: null
+});
+
+const plan = {
+  id: 7,
+  userId: 4,
+  amount: new Prisma.Decimal('150.00'),
+  currency: 'USD',
+  dueDay: 10,
+  fundingSource: 'bank_transfer',
+  status: 'active',
+  startPeriod: new Date('2026-01-01T00:00:00Z'),
+  cancelledAt: null,
+  createdAt: new Date('2025-12-20T00:00:00Z'),
+  updatedAt: new Date('2025-12-20T00:00:00Z')
+};
+
+describe('ContributionPlanService', () => {
+  beforeEach(() => {
+  });
+
+  describe('create', () => {
+    it('should start owing this month while the due day has not passed', () => {
+      expect(contributionPlanService.firstPeriod(10, new Date('2026-03-10T23:00:00Z'))).toEqual(new Date('2026-03-01T00:00:00Z'));
+      expect(contributionPlanService.firstPeriod(10, new Date('2026-03-11T00:00:00Z'))).toEqual(new Date('2026-04-01T00:00:00Z'));
+      expect(contributionPlanService.firstPeriod(28, new Date('2026-12-29T00:00:00Z'))).toEqual(new Date('2027-01-01T00:00:00Z'));
+    });
+
+    it('should enforce the minimum monthly amount in the plan currency', async () => {
+      // 50 USD at 1000 ARS per USD
+      expect(contributionPlanService.minimumAmount('ARS').toString()).toBe('50000.00');
+
+      await expect(contributionPlanService.create(user, {
+        amount: Money.of('49999.99', 'down', 2),
+        currency: 'ARS',
+        dueDay: 5,
+        fundingSource: 'payroll'
+      })).rejects.toThrow('Monthly amount must be at least 50000.00 ARS');
+      expect(mockPrisma.contributionPlan.create).not.toHaveBeenCalled();
+    });
+
+    it('should allow only one open plan per member', async () => {
+      mockPrisma.contributionPlan.findFirst.mockResolvedValue(plan);
+
+      await expect(contributionPlanService.create(user, {
+        amount: Money.of(200, 'down', 2),
+        currency: 'USD',
+        dueDay: 5,
+        fundingSource: 'debit_card'
+      })).rejects.toMatchObject({ statusCode: 409 });
+      // Checked under the member's row lock, so concurrent requests cannot both pass
+      expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(mockPrisma.contributionPlan.findFirst.mock.invocationCallOrder[0]);
+      expect(mockPrisma.contributionPlan.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should withdraw the pending obligation and keep late ones', async () => {
+      mockPrisma.contributionPlan.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.contributionPlan.findUniqueOrThrow.mockResolvedValue({ ...plan, status: 'cancelled' });
+
+      const cancelled = await contributionPlanService.cancel(plan);
+
+      expect(cancelled.status).toBe('cancelled');
+      expect(mockPrisma.contributionObligation.deleteMany).toHaveBeenCalledWith({
+        where: { planId: 7, status: 'pending' }
+      });
+      await expect(contributionPlanService.cancel(cancelled)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('stats', () => {
+    it('should count streaks over settled obligations and skip open ones', async () => {
+      mockPrisma.contributionObligation.findMany.mockResolvedValue([
+        obligation(1, '2026-01', 'paid'),
+        obligation(2, '2026-02', 'paid'),
+        obligation(3, '2026-03', 'paid'),
+        obligation(4, '2026-04', 'missed'),
+        obligation(5, '2026-05', 'paid'),
+        obligation(6, '2026-06', 'late'),
+        obligation(7, '2026-07', 'paid')
+      ]);
+      mockPrisma.contribution.findMany.mockResolvedValue([
+        { contributedAt: new Date('2025-12-24T00:00:00Z') },
+        { contributedAt: new Date('2026-01-08T00:00:00Z') },
+        { contributedAt: new Date('2026-01-30T00:00:00Z') },
+        { contributedAt: new Date('2026-02-10T00:00:00Z') }
+      ]);
+      mockPrisma.contributionPlan.findFirst.mockResolvedValue(plan);
+
+      const stats = await contributionPlanService.stats(4, new Date('2026-07-20T00:00:00Z'));
+
+      expect(mockPrisma.contribution.findMany).toHaveBeenCalledWith({
+        where: { userId: 4, status: 'confirmed' },
+        select: { contributedAt: true }
+      });
+      expect(stats.currentStreak).toBe(2);
+      expect(stats.longestStreak).toBe(3);
+      expect(stats.coverage).toBe(83.3);
+      expect(stats.obligations).toEqual({ pending: 0, late: 1, paid: 5, missed: 1 });
+      expect(stats.monthsPaid).toBe(3);
+      expect(stats.yearsAccumulated).toBe(0.3);
+      // The late June obligation comes first
+      expect(stats.nextPayment).toEqual({
+        period: '2026-06',
+        dueDate: new Date('2026-06-10T00:00:00Z'),
+        amount: Money.of('150.00', 'down', 2),
+        currency: 'USD'
+      });
+    });
+
+    it('should point at the next month the plan issues once everything is settled', async () => {
+      mockPrisma.contributionObligation.findMany.mockResolvedValue([obligation(7, '2026-07', 'paid')]);
+      mockPrisma.contribution.findMany.mockResolvedValue([]);
+      mockPrisma.contributionPlan.findFirst.mockResolvedValue(plan);
+
+      const stats = await contributionPlanService.stats(4, new Date('2026-07-20T00:00:00Z'));
+
+      expect(stats.nextPayment).toEqual(expect.objectContaining({ period: '2026-08', dueDate: new Date('2026-08-10T00:00:00Z') }));
+
+      mockPrisma.contributionPlan.findFirst.mockResolvedValue({ ...plan, status: 'paused' });
+      expect((await contributionPlanService.stats(4)).nextPayment).toBeNull();
+    });
+  });
+});
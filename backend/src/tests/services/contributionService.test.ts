@@ -0,0 +1,248 @@
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { contributionService } from '../../services/contributionService';
+import { ledgerService } from '../../services/ledgerService';
+import { Money } from '../../utils/money';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+jest.mock('../../services/ledgerService', () => ({
+  ledgerService: { record: jest.fn() }
+}));
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+describe('ContributionService', () => {
+  beforeEach(() => {
+    mockPrisma.fundSnapshot.findFirst.mockResolvedValue({ navPerToken: new Prisma.Decimal('120.75') });
+    mockPrisma.chainTransaction.create
+      .mockResolvedValueOnce({ id: 11, status: 'pending' })
+      .mockResolvedValueOnce({ id: 12, status: 'pending' });
+    mockPrisma.vestingSchedule.create.mockImplementation(async ({ data }: any) => ({ id: 21, ...data }));
+    mockPrisma.contribution.create.mockImplementation(async ({ data }: any) => ({ id: 31, ...data }));
+  });
+
+  describe('quote', () => {
+    it('should convert ARS to USD and price AFJP at the latest net asset value', async () => {
+      const quote = await contributionService.quote(Money.of(150000, 'down', 2), 'ARS');
+
+      expect(quote.exchangeRate.toString()).toBe('1000');
+      expect(quote.usdAmount.toString()).toBe('150.00');
+      expect(quote.tokenPrice.toString()).toBe('120.75');
+      // 150 / 120.75 = 1.2422360248..., rounded down
+      expect(quote.tokenAmount.toString()).toBe('1.24223602');
+    });
+
+    it('should use the reference price until a snapshot has a net asset value', async () => {
+      mockPrisma.fundSnapshot.findFirst.mockResolvedValue(null);
+
+      const quote = await contributionService.quote(Money.of(250, 'down', 2), 'USD');
+
+      expect(quote.tokenPrice.toString()).toBe('100');
+      expect(quote.tokenAmount.toString()).toBe('2.50000000');
+    });
+  });
+
+  describe('create', () => {
+    it('should record a pending contribution at the current price without minting', async () => {
+      const contribution = await contributionService.create({
+        userId: 4,
+        walletAddress: '0xa11ce',
+        amount: Money.of('241.50', 'down', 2),
+        currency: 'USD'
+      });
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.contribution.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 4,
+          currency: 'USD',
+          usdAmount: Money.of('241.50', 'down', 2).toDecimal(),
+          tokenAmount: Money.of(2).toDecimal(),
+          status: 'pending'
+        })
+      });
+      expect(contribution).toEqual(expect.objectContaining({ id: 31, status: 'pending' }));
+      expect(mockPrisma.chainTransaction.create).not.toHaveBeenCalled();
+      expect(mockPrisma.vestingSchedule.create).not.toHaveBeenCalled();
+      expect(ledgerService.record).not.toHaveBeenCalled();
+      expect(mockPrisma.outboxEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject contributions too small to buy any AFJP', async () => {
+      mockPrisma.fundSnapshot.findFirst.mockResolvedValue({ navPerToken: new Prisma.Decimal('2000000000') });
+
+      await expect(contributionService.create({
+        userId: 4,
+        walletAddress: '0xa11ce',
+        amount: Money.of('0.01', 'down', 2),
+        currency: 'USD'
+      })).rejects.toThrow('too small');
+      expect(mockPrisma.contribution.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirm', () => {
+    const pending = (overrides: Record<string, unknown> = {}) => ({
+      id: 31,
+      userId: 4,
+      status: 'pending',
+      currency: 'USD',
+      fiatAmount: new Prisma.Decimal('241.50'),
+      usdAmount: new Prisma.Decimal('241.50'),
+      tokenAmount: Money.of(2).toDecimal(),
+      employerId: null,
+      contributedAt: new Date('2026-10-01T00:00:00Z'),
+      user: { id: 4, walletAddress: '0xa11ce' },
+      ...overrides
+    });
+
+    let stored: ReturnType<typeof pending>;
+
+    beforeEach(() => {
+      stored = pending();
+      mockPrisma.contribution.findUnique.mockImplementation(async () => stored);
+      mockPrisma.contribution.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.contribution.update.mockImplementation(async ({ data }: any) => {
+        const { user, ...contribution } = stored;
+        return { ...contribution, status: 'confirmed', ...data };
+      });
+    });
+
+    it('should mint, open a 5 year schedule and escrow the tokens once the payment settles', async () => {
+      const before = Date.now();
+      const result = await contributionService.confirm(31, { paymentReference: 'TRF-001' });
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.contribution.updateMany).toHaveBeenCalledWith({
+        where: { id: 31, status: 'pending' },
+        data: { status: 'confirmed' }
+      });
+      expect(mockPrisma.chainTransaction.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({ functionName: 'afjp_token::mint', arguments: ['0xaf1b', '200000000'] })
+      });
+      expect(mockPrisma.chainTransaction.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({ functionName: 'afjp_vesting::create_vesting_schedule', arguments: ['0xa11ce', '200000000'] })
+      });
+
+      const schedule = result.vestingSchedule;
+      expect(schedule.totalAmount).toEqual(Money.of(2).toDecimal());
+      expect(schedule.startTime.getTime()).toBeGreaterThanOrEqual(before);
+      expect(schedule.cliffTime!.getTime() - schedule.startTime.getTime()).toBe(YEAR_MS);
+      expect(schedule.endTime.getTime() - schedule.startTime.getTime()).toBe(5 * YEAR_MS);
+
+      expect(mockPrisma.contribution.update).toHaveBeenCalledWith({
+        where: { id: 31 },
+        data: expect.objectContaining({
+          paymentReference: 'TRF-001',
+          vestingScheduleId: 21,
+          mintTransactionId: 11,
+          vestingTransactionId: 12
+        })
+      });
+      expect(ledgerService.record).toHaveBeenCalledWith({
+        entryType: 'contribution',
+        tokenType: 'AFJP',
+        reference: 'contribution:31',
+        postings: [{ from: { system: 'contributions' }, to: { system: 'vesting_escrow' }, amount: Money.of(2) }]
+      }, mockPrisma);
+      expect(mockPrisma.outboxEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: 'ContributionReceived', aggregateId: '31' })
+      });
+    });
+
+    it('should only settle a contribution that is still pending', async () => {
+      stored = pending({ status: 'confirmed' });
+      mockPrisma.contribution.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(contributionService.confirm(31, { paymentReference: 'TRF-001' }))
+        .rejects.toMatchObject({ statusCode: 409, message: 'Contribution is confirmed, only pending contributions can be settled' });
+      expect(mockPrisma.chainTransaction.create).not.toHaveBeenCalled();
+
+      mockPrisma.contribution.findUnique.mockResolvedValue(null);
+      await expect(contributionService.confirm(99, { paymentReference: 'TRF-001' }))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should pay the oldest open plan obligation the contribution covers', async () => {
+      stored = pending({
+        currency: 'ARS',
+        fiatAmount: new Prisma.Decimal('150000.00'),
+        usdAmount: new Prisma.Decimal('150.00')
+      });
+      mockPrisma.contributionObligation.findFirst.mockResolvedValue({
+        id: 41,
+        userId: 4,
+        status: 'late',
+        currency: 'USD',
+        amount: new Prisma.Decimal('150.00'),
+        contributionId: null
+      });
+      mockPrisma.contributionObligation.updateMany.mockResolvedValue({ count: 1 });
+
+      // 150000 ARS at 1000 per USD covers 150 USD
+      const result = await contributionService.confirm(31, { paymentReference: 'TRF-001' });
+
+      expect(mockPrisma.contributionObligation.findFirst).toHaveBeenCalledWith({
+        where: { userId: 4, status: { in: ['pending', 'late'] } },
+        orderBy: [{ period: 'asc' }, { id: 'asc' }]
+      });
+      expect(mockPrisma.contributionObligation.updateMany).toHaveBeenCalledWith({
+        where: { id: 41, status: 'late', contributionId: null },
+        data: { status: 'paid', contributionId: 31, paidAt: expect.any(Date) }
+      });
+      expect(result.obligation).toEqual(expect.objectContaining({ id: 41, status: 'paid', contributionId: 31 }));
+    });
+
+    it('should leave an obligation open when the contribution falls short of it', async () => {
+      stored = pending({
+        currency: 'ARS',
+        fiatAmount: new Prisma.Decimal('149999.99'),
+        usdAmount: new Prisma.Decimal('150.00')
+      });
+      mockPrisma.contributionObligation.findFirst.mockResolvedValue({
+        id: 41,
+        userId: 4,
+        status: 'pending',
+        currency: 'ARS',
+        amount: new Prisma.Decimal('150000.00'),
+        contributionId: null
+      });
+
+      const result = await contributionService.confirm(31, { paymentReference: 'TRF-001' });
+
+      expect(mockPrisma.contributionObligation.updateMany).not.toHaveBeenCalled();
+      expect(result.obligation).toBeNull();
+    });
+  });
+
+  describe('reject', () => {
+    it('should close a pending contribution without minting and announce it', async () => {
+      mockPrisma.contribution.findUnique.mockResolvedValue({ id: 31, userId: 4, status: 'pending', user: { walletAddress: '0xa11ce' } });
+      mockPrisma.contribution.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.contribution.update.mockImplementation(async ({ data }: any) => ({
+        id: 31,
+        status: 'rejected',
+        currency: 'USD',
+        fiatAmount: new Prisma.Decimal('241.50'),
+        employerId: null,
+        ...data
+      }));
+
+      const contribution = await contributionService.reject(31, { reason: 'Transfer bounced' });
+
+      expect(mockPrisma.contribution.updateMany).toHaveBeenCalledWith({
+        where: { id: 31, status: 'pending' },
+        data: { status: 'rejected' }
+      });
+      expect(contribution).toEqual(expect.objectContaining({ status: 'rejected', rejectionReason: 'Transfer bounced' }));
+      expect(mockPrisma.chainTransaction.create).not.toHaveBeenCalled();
+      expect(mockPrisma.outboxEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ eventType: 'ContributionRejected', aggregateId: '31' })
+      });
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { employerService } from '../../services/employerService';
+import { contributionService } from '../../services/contributionService';
+import { PayrollValidationError } from '../../types';
+import { Money } from '../../utils/money';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+jest.mock('../../services/contributionService', () => ({
+  contributionService: { quote: jest.fn(), create: jest.fn(), confirm: jest.fn() }
+}));
+
+const now = new Date('2026-06-15T12:00:00Z');
+
+const employer = {
+  id: 3,
+  name: 'Acme SA',
+  cuit: '30712345671',
+  employeeRate: new Prisma.Decimal('11'),
+  employerRate: new Prisma.Decimal('16'),
+  isActive: true,
+  createdAt: now,
+  updatedAt: now
+};
+
+const employee = (id: number, cuil: string, walletAddress: string) => ({
+  id,
+  employerId: 3,
+  userId: id + 10,
+  role: 'employee',
+  cuil,
+  isActive: true,
+  joinedAt: new Date('2026-01-01T00:00:00Z'),
+  leftAt: null,
+  user: { id: id + 10, walletAddress }
+});
+
+const alice = employee(1, '20123456786', '0xa11ce');
+const bob = employee(2, '27333333339', '0xb0b');
+
+const uploader = { id: 9, walletAddress: '0x0ff1ce' } as any;
+
+describe('EmployerService', () => {
+  beforeEach(() => {
+    mockPrisma.employerMember.findMany.mockResolvedValue([alice, bob]);
+    mockPrisma.payrollEntry.findMany.mockResolvedValue([]);
+    mockPrisma.payrollBatch.findUnique.mockResolvedValue(null);
+    (contributionService.quote as jest.Mock).mockImplementation(async (amount: Money) => ({
+      tokenAmount: Money.of(amount.toString()).dividedBy(100000)
+    }));
+  });
+
+  it('should split a gross salary into employee and employer parts', () => {
+    const { employeeAmount, employerAmount, totalAmount } = employerService.split(employer, Money.of('1234567.89', 'down', 2));
+
+    // 11% and 16%, half-even to the cent
+    expect(employeeAmount.toString()).toBe('135802.47');
+    expect(employerAmount.toString()).toBe('197530.86');
+    expect(totalAmount.toString()).toBe('333333.33');
+  });
+
+  describe('validatePayroll', () => {
+    it('should report every problem of every row', async () => {
+      mockPrisma.payrollEntry.findMany.mockResolvedValue([{ userId: 12, period: new Date('2026-05-01T00:00:00Z') }]);
+
+      const csv = [
+        'cuil,wallet,gross_salary,period',
+        '20-12345678-6,,1500000,2026-06',
+        '20-12345678-3,,1500000,2026-06',
+        ',0xb0b,900000.50,2026-05',
+        '20123456786,0xb0b,1000,2026-06',
+        '20-30111222-0,,1000,2026-06',
+        '20123456786,,-5,2026-7',
+        ',,1000,2026-06',
+        '20123456786,,1000,2026-06',
+        '27333333339,,1000,2026-07'
+      ].join('\n');
+
+      const { rowCount, rows, rejected } = await employerService.validatePayroll(employer, csv, 'ARS', now);
+
+      expect(mockPrisma.payrollEntry.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ employerId: 3, contribution: { status: { not: 'rejected' } } })
+      }));
+
+      expect(rowCount).toBe(9);
+      expect(rows.map(row => row.row)).toEqual([2]);
+      expect(rows[0].member).toBe(alice);
+      expect(rows[0].period).toEqual(new Date('2026-06-01T00:00:00Z'));
+      expect(rows[0].totalAmount.toString()).toBe('405000.00');
+      expect(rejected).toEqual([
+        { row: 3, errors: ['Invalid CUIL'] },
+        { row: 4, errors: ['Already contributed for 2026-05'] },
+        { row: 5, errors: ['CUIL and wallet do not belong to the same employee'] },
+        { row: 6, errors: ['Not an employee of this employer'] },
+        {
+          row: 7,
+          errors: ['Gross salary must be a positive amount with at most 2 decimals', 'Period must be a month as YYYY-MM']
+        },
+        { row: 8, errors: ['A CUIL or wallet address is required'] },
+        { row: 9, errors: ['Duplicate of row 2'] },
+        { row: 10, errors: ['Period has not started yet'] }
+      ]);
+    });
+
+    it('should refuse a file without the required columns', async () => {
+      await expect(employerService.validatePayroll(employer, 'name,gross_salary\nAna,1000\n', 'ARS', now))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('processPayroll', () => {
+    const csv = 'cuil,gross_salary,period\n20-12345678-6,1500000,2026-06\n27-33333333-9,1000000,2026-06\n20-30111222-0,1000,2026-06\n';
+
+    it('should turn valid rows into pending contributions in one transaction', async () => {
+      mockPrisma.payrollBatch.create.mockImplementation(async ({ data }: any) => ({ id: 51, ...data }));
+      (contributionService.create as jest.Mock)
+        .mockResolvedValueOnce({ id: 101, status: 'pending' })
+        .mockResolvedValueOnce({ id: 102, status: 'pending' });
+
+      const { batch, created } = await employerService.processPayroll(employer, uploader, { csv, currency: 'ARS' });
+
+      expect(created).toBe(true);
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(batch).toEqual(expect.objectContaining({
+        status: 'partially_processed',
+        rowCount: 3,
+        processedCount: 2,
+        rejectedRows: [{ row: 4, errors: ['Not an employee of this employer'] }],
+        grossSalary: Money.of(2500000, 'down', 2).toDecimal(),
+        employeeAmount: Money.of(275000, 'down', 2).toDecimal(),
+        employerAmount: Money.of(400000, 'down', 2).toDecimal()
+      }));
+      expect(contributionService.create).toHaveBeenNthCalledWith(1, {
+        userId: 11,
+        walletAddress: '0xa11ce',
+        amount: Money.of(405000, 'down', 2),
+        currency: 'ARS',
+        employerId: 3
+      }, mockPrisma);
+      expect(mockPrisma.payrollEntry.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({ batchId: 51, userId: 12, rowNumber: 3, cuil: '27333333339', contributionId: 102 })
+      });
+      expect(mockPrisma.outboxEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          eventType: 'PayrollBatchProcessed',
+          payload: expect.objectContaining({ batchId: 51, processedCount: 2, rejectedCount: 1, totalAmount: '675000.00' })
+        })
+      });
+    });
+
+    it('should return the earlier batch when the same file is uploaded again', async () => {
+      const existing = { id: 51, status: 'processed' };
+      mockPrisma.payrollBatch.findUnique.mockResolvedValue(existing);
+
+      expect(await employerService.processPayroll(employer, uploader, { csv, currency: 'ARS' })).toEqual({ batch: existing, created: false });
+      expect(mockPrisma.payrollBatch.findUnique).toHaveBeenCalledWith({
+        where: { employerId_checksum: { employerId: 3, checksum: expect.stringMatching(/^[0-9a-f]{64}$/) } }
+      });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not record a batch when no row is valid', async () => {
+      const upload = { csv: 'wallet,gross_salary,period\n0xdead,1000,2026-06\n', currency: 'ARS' as const };
+
+      await expect(employerService.processPayroll(employer, uploader, upload)).rejects.toBeInstanceOf(PayrollValidationError);
+      await expect(employerService.processPayroll(employer, uploader, upload)).rejects.toMatchObject({
+        statusCode: 422,
+        rows: [{ row: 2, errors: ['Not an employee of this employer'] }]
+      });
+      expect(mockPrisma.payrollBatch.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmPayroll', () => {
+    const batch = { id: 51, employerId: 3 } as any;
+
+    it('should confirm every pending contribution of the batch in one transaction', async () => {
+      mockPrisma.payrollEntry.findMany.mockResolvedValue([{ contributionId: 101 }, { contributionId: 102 }]);
+
+      const confirmed = await employerService.confirmPayroll(batch, { paymentReference: 'TRF-9' });
+
+      expect(confirmed).toBe(2);
+      expect(mockPrisma.payrollEntry.findMany).toHaveBeenCalledWith({
+        where: { batchId: 51, contribution: { status: 'pending' } },
+        orderBy: { rowNumber: 'asc' }
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(contributionService.confirm).toHaveBeenNthCalledWith(1, 101, { paymentReference: 'TRF-9' }, mockPrisma);
+      expect(contributionService.confirm).toHaveBeenNthCalledWith(2, 102, { paymentReference: 'TRF-9' }, mockPrisma);
+    });
+
+    it('should refuse a batch with nothing awaiting payment', async () => {
+      await expect(employerService.confirmPayroll(batch, { paymentReference: 'TRF-9' }))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(contributionService.confirm).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should compare the payroll of a month with the employees of that month', async () => {
+      mockPrisma.payrollEntry.findMany.mockResolvedValue([{
+        id: 62,
+        batchId: 50,
+        rowNumber: 3,
+        userId: 12,
+        cuil: '27333333339',
+        grossSalary: new Prisma.Decimal('1000000.00'),
+        employeeAmount: new Prisma.Decimal('110000.00'),
+        employerAmount: new Prisma.Decimal('160000.00'),
+        user: bob.user,
+        contribution: {
+          id: 100,
+          status: 'rejected',
+          currency: 'ARS',
+          tokenAmount: new Prisma.Decimal('2.23602484'),
+          mintTransaction: null,
+          vestingTransaction: null
+        }
+      }, {
+        id: 61,
+        batchId: 51,
+        rowNumber: 2,
+        userId: 11,
+        cuil: '20123456786',
+        grossSalary: new Prisma.Decimal('1500000.00'),
+        employeeAmount: new Prisma.Decimal('165000.00'),
+        employerAmount: new Prisma.Decimal('240000.00'),
+        user: alice.user,
+        contribution: {
+          id: 101,
+          status: 'confirmed',
+          currency: 'ARS',
+          tokenAmount: new Prisma.Decimal('3.35403726'),
+          mintTransaction: { status: 'confirmed' },
+          vestingTransaction: { status: 'pending' }
+        }
+      }]);
+
+      const report = await employerService.reconcile(employer, new Date('2026-06-01T00:00:00Z'));
+
+      expect(mockPrisma.employerMember.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          employerId: 3,
+          role: 'employee',
+          joinedAt: { lt: new Date('2026-07-01T00:00:00Z') },
+          OR: [{ leftAt: null }, { leftAt: { gte: new Date('2026-06-01T00:00:00Z') } }]
+        }
+      }));
+      expect(report.period).toBe('2026-06');
+      expect(report.employees).toEqual({
+        expected: 2,
+        contributed: 1,
+        missing: [{ walletAddress: '0xb0b', cuil: '27333333339' }]
+      });
+      expect(report.transactions).toEqual({ awaiting_payment: 0, confirmed: 0, pending: 1, failed: 0, rejected: 1 });
+      expect(report.entries.map(entry => [entry.entryId, entry.status])).toEqual([[62, 'rejected'], [61, 'pending']]);
+      expect(report.totals).toEqual([expect.objectContaining({
+        currency: 'ARS',
+        totalAmount: Money.of(405000, 'down', 2),
+        tokenAmount: Money.of('3.35403726')
+      })]);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { Prisma } from '@prisma/client';
+import { ApiError, AptosClient } from 'aptos';
+import { mockPrisma } from '../setup';
+import { EVENT_HANDLES, EventIndexer, EventIndexerOptions, decodeEvent } from '../../services/eventIndexer';
+import fixture from '../fixtures/aptosNodeEvents.json';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma,
+  redis: require('../setup').mockRedis
+}));
+
+// setup.ts mocks the singleton, the indexer runs against the real service
+const { AptosService } = jest.requireActual<typeof import('../../services/aptosService')>('../../services/aptosService');
+
+const responses: Record<string, any> = fixture.responses;
+
+const recorded = (path: string) => {
+  if (!(path in responses)) {
+    throw new ApiError(404, `No recorded response for ${path}`);
+  }
+  return responses[path];
+};
+
+// Serves the recorded node responses the way the REST API pages them
+const fixtureClient = {
+  getEventsByEventHandle: jest.fn(async (address: string, struct: string, field: string, query: { start: bigint; limit: number }) =>
+    recorded(`accounts/${address}/events/${struct}/${field}`)
+      .filter((event: any) => BigInt(event.sequence_number) >= query.start)
+      .slice(0, query.limit)
+  ),
+  getTransactionByVersion: jest.fn(async (version: bigint) => recorded(`transactions/by_version/${version}`)),
+  getBlockByVersion: jest.fn(async (version: number) => recorded(`blocks/by_version/${version}`)),
+  getLedgerInfo: jest.fn(async () => recorded(''))
+};
+
+const users = [
+  { id: 1, walletAddress: '0xa11ce' },
+  { id: 2, walletAddress: '0x0000000000000000000000000000000000000000000000000000000000000b0b' }
+];
+
+const handle = (field: string) => EVENT_HANDLES.find(spec => spec.field === field)!;
+
+const schedule = (overrides: Record<string, unknown>) => ({
+  totalAmount: new Prisma.Decimal(0),
+  releasedAmount: new Prisma.Decimal(0),
+  startTime: new Date(1600000000 * 1000),
+  endTime: new Date(1650000000 * 1000),
+  cliffTime: null,
+  curveType: 'linear',
+  milestones: null,
+  ...overrides
+});
+
+const createIndexer = (options: Partial<EventIndexerOptions> = {}) => new EventIndexer(
+  new AptosService({ aptosNodeUrl: 'http://fixture', afjpModuleAddress: fixture.moduleAddress }, fixtureClient as unknown as AptosClient),
+  { startVersion: BigInt(0), pageSize: 100, pollIntervalMs: 1000, ...options }
+);
+
+describe('EventIndexer', () => {
+  beforeEach(() => {
+    mockPrisma.user.findFirst.mockImplementation(({ where }: any) =>
+      Promise.resolve(users.find(user => where.walletAddress.in.includes(user.walletAddress)) || null)
+    );
+    mockPrisma.indexerCursor.findUnique.mockResolvedValue(null);
+    mockPrisma.tokenTransaction.findUnique.mockResolvedValue(null);
+    mockPrisma.tokenTransaction.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.vestingSchedule.findUnique.mockResolvedValue(null);
+    mockPrisma.vestingSchedule.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.stakingRecord.findMany.mockResolvedValue([{ id: 7, stakedAmount: new Prisma.Decimal(100) }]);
+    mockPrisma.stakingRecord.findFirst.mockResolvedValue({ id: 7 });
+    mockPrisma.vestingSchedule.findFirst.mockResolvedValue({ id: 3 });
+    mockPrisma.vestingSchedule.findMany.mockResolvedValue([
+      // Fully vested with 20 AFJP left to release
+      schedule({ id: 3, totalAmount: new Prisma.Decimal(100), releasedAmount: new Prisma.Decimal(80) }),
+      // Still before its cliff
+      schedule({
+        id: 4,
+        totalAmount: new Prisma.Decimal(1000),
+        startTime: new Date(1700000300 * 1000),
+        endTime: new Date((1700000300 + 5 * 31536000) * 1000),
+        cliffTime: new Date((1700000300 + 31536000) * 1000)
+      })
+    ]);
+  });
+
+  it('should index the recorded events into transactions, stakes and schedules', async () => {
+    const applied = await createIndexer().runOnce();
+
+    // Every recorded event except the mint to an unknown wallet
+    expect(applied).toBe(8);
+    expect(mockPrisma.tokenTransaction.create).toHaveBeenCalledTimes(7);
+    expect(mockPrisma.tokenTransaction.create).toHaveBeenCalledWith({
+      data: {
+        userId: 1,
+        tokenType: 'AFJP',
+        transactionType: 'mint',
+        amount: '1500.00000000',
+        txHash: responses['transactions/by_version/1000'].hash,
+        blockNumber: BigInt(500),
+        status: 'confirmed',
+        eventKey: 'afjp_token::TokenEvents/mint_events#0'
+      }
+    });
+    expect(mockPrisma.stakingRecord.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { eventKey: 'afjp_staking::StakingEvents/stake_events#0' },
+      create: expect.objectContaining({ userId: 1, stakedAmount: '100.00000000', stakedAt: new Date(1700000240 * 1000) })
+    }));
+    expect(mockPrisma.stakingRecord.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { stakedAmount: new Prisma.Decimal(60) }
+    });
+    expect(mockPrisma.vestingSchedule.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: expect.objectContaining({
+        userId: 2,
+        totalAmount: '1000.00000000',
+        cliffTime: new Date((1700000300 + 31536000) * 1000)
+      })
+    }));
+    expect(mockPrisma.vestingSchedule.findMany).toHaveBeenCalledWith({
+      where: { userId: 2, isActive: true },
+      orderBy: [{ startTime: 'asc' }, { id: 'asc' }]
+    });
+    expect(mockPrisma.vestingSchedule.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: { releasedAmount: { increment: new Prisma.Decimal(20) } }
+    });
+    expect(mockPrisma.vestingSchedule.update).toHaveBeenCalledWith({
+      where: { id: 4 },
+      data: { releasedAmount: { increment: new Prisma.Decimal(30) } }
+    });
+    expect(mockPrisma.indexerCursor.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { eventHandle: 'afjp_token::TokenEvents/mint_events' },
+      update: { nextSequence: BigInt(3), lastVersion: BigInt(1030) }
+    }));
+  });
+
+  it('should record the ledger version read before indexing as synced', async () => {
+    await createIndexer().runOnce();
+
+    expect(mockPrisma.indexerCursor.upsert).toHaveBeenLastCalledWith({
+      where: { eventHandle: 'ledger' },
+      update: { lastVersion: BigInt(1100) },
+      create: { eventHandle: 'ledger', lastVersion: BigInt(1100) }
+    });
+  });
+
+  it('should read the chain height and ledger time from the node', async () => {
+    const ledger = await new AptosService({ aptosNodeUrl: 'http://fixture', afjpModuleAddress: fixture.moduleAddress }, fixtureClient as unknown as AptosClient).getLedgerInfo();
+
+    expect(ledger).toEqual({
+      chainId: 2,
+      ledgerVersion: '1100',
+      blockHeight: '520',
+      ledgerTimestamp: new Date(1700000500 * 1000)
+    });
+  });
+
+  it('should resume from the stored cursor', async () => {
+    mockPrisma.indexerCursor.findUnique.mockResolvedValue({ nextSequence: BigInt(2) });
+
+    const applied = await createIndexer().indexHandle(handle('mint_events'));
+
+    expect(fixtureClient.getEventsByEventHandle).toHaveBeenCalledWith(
+      fixture.moduleAddress,
+      `${fixture.moduleAddress}::afjp_token::TokenEvents`,
+      'mint_events',
+      { start: BigInt(2), limit: 100 }
+    );
+    expect(applied).toBe(0);
+    expect(mockPrisma.tokenTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it('should page through handles with more events than the page size', async () => {
+    await createIndexer({ pageSize: 2 }).indexHandle(handle('mint_events'));
+
+    const starts = fixtureClient.getEventsByEventHandle.mock.calls.map(call => call[3].start);
+    expect(starts).toEqual([BigInt(0), BigInt(2)]);
+  });
+
+  it('should not apply an event twice', async () => {
+    mockPrisma.tokenTransaction.findUnique.mockResolvedValue({ id: 9 });
+
+    const applied = await createIndexer().indexHandle(handle('unstake_events'));
+
+    expect(applied).toBe(0);
+    expect(mockPrisma.stakingRecord.update).not.toHaveBeenCalled();
+    expect(mockPrisma.tokenTransaction.create).not.toHaveBeenCalled();
+    expect(mockPrisma.indexerCursor.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('should adopt a transaction the API already recorded', async () => {
+    mockPrisma.tokenTransaction.updateMany.mockResolvedValue({ count: 1 });
+
+    await createIndexer().indexHandle(handle('stake_events'));
+
+    expect(mockPrisma.tokenTransaction.updateMany).toHaveBeenCalledWith({
+      where: { txHash: responses['transactions/by_version/1040'].hash, transactionType: 'stake', eventKey: null },
+      data: { eventKey: 'afjp_staking::StakingEvents/stake_events#0', blockNumber: BigInt(504), status: 'confirmed' }
+    });
+    expect(mockPrisma.stakingRecord.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.tokenTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it('should adopt the vesting schedule of a contribution', async () => {
+    mockPrisma.vestingSchedule.updateMany.mockResolvedValue({ count: 1 });
+
+    const applied = await createIndexer().indexHandle(handle('schedule_created_events'));
+
+    expect(applied).toBe(0);
+    expect(mockPrisma.vestingSchedule.updateMany).toHaveBeenCalledWith({
+      where: {
+        userId: 2,
+        eventKey: null,
+        contribution: { vestingTransaction: { txHash: responses['transactions/by_version/1050'].hash } }
+      },
+      data: expect.objectContaining({
+        cliffTime: new Date((1700000300 + 31536000) * 1000),
+        eventKey: 'afjp_vesting::VestingEvents/schedule_created_events#0'
+      })
+    });
+    expect(mockPrisma.vestingSchedule.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should only move the cursor for events before the start version', async () => {
+    const applied = await createIndexer({ startVersion: BigInt(1005) }).indexHandle(handle('mint_events'));
+
+    expect(applied).toBe(1);
+    expect(fixtureClient.getTransactionByVersion).not.toHaveBeenCalledWith(BigInt(1000));
+    expect(mockPrisma.tokenTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 2, amount: '200.00000000' })
+    });
+    expect(mockPrisma.indexerCursor.upsert).toHaveBeenCalledTimes(3);
+  });
+
+  it('should treat a handle that does not exist on-chain as empty', async () => {
+    const applied = await createIndexer().indexHandle(handle('burn_events'));
+
+    expect(applied).toBe(0);
+    expect(mockPrisma.indexerCursor.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should decode u64 amounts and addresses', () => {
+    const [event] = responses[
+      `accounts/${fixture.moduleAddress}/events/${fixture.moduleAddress}::afjp_staking::StakingEvents/claim_events`
+    ];
+
+    expect(decodeEvent(handle('claim_events'), event)).toEqual({
+      key: 'afjp_staking::StakingEvents/claim_events#0',
+      handle: 'afjp_staking::StakingEvents/claim_events',
+      sequenceNumber: '0',
+      version: '1070',
+      type: 'ClaimEvent',
+      user: '0xa11ce',
+      rewardAmount: '1.23456789',
+      timestamp: new Date(1700000420 * 1000)
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { mockPrisma } from '../setup';
+import { JobLock, JobScheduler, JobSchedulerOptions } from '../../services/jobScheduler';
+import { getRequestContext } from '../../utils/requestContext';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+const options: JobSchedulerOptions = {
+  pollIntervalMs: 1000,
+  batchSize: 10,
+  lockTtlMs: 60000,
+  maxAttempts: 3,
+  retryBaseMs: 1000,
+  retryMaxMs: 60000
+};
+
+const scheduledJob = (overrides: Record<string, any> = {}) => ({
+  id: 5,
+  jobName: 'auction-settlement',
+  payload: {},
+  runAt: new Date('2026-03-01T10:00:00Z'),
+  scheduledFor: new Date('2026-03-01T10:00:00Z'),
+  status: 'pending',
+  attempts: 0,
+  maxAttempts: 3,
+  requestId: null,
+  ...overrides
+});
+
+describe('JobScheduler', () => {
+  const handler = jest.fn();
+  const lock: JobLock = {
+    acquire: jest.fn(),
+    release: jest.fn()
+  };
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    scheduler = new JobScheduler(options, lock);
+    scheduler.register({
+      name: 'auction-settlement',
+      description: 'Close ended auctions',
+      schedule: '* * * * *',
+      handler
+    }, new Date('2026-03-01T09:59:30Z'));
+
+    handler.mockResolvedValue({ settled: 2 });
+    (lock.acquire as jest.Mock).mockResolvedValue('token');
+    (lock.release as jest.Mock).mockResolvedValue(undefined);
+    mockPrisma.scheduledJob.findMany.mockResolvedValue([]);
+    mockPrisma.scheduledJob.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.jobRun.create.mockResolvedValue({ id: 9 });
+  });
+
+  it('should queue each cron slot once, keyed by job and slot', async () => {
+    mockPrisma.scheduledJob.upsert.mockResolvedValue(scheduledJob());
+
+    expect(await scheduler.queueCronJobs(new Date('2026-03-01T09:59:50Z'))).toBe(0);
+    expect(await scheduler.queueCronJobs(new Date('2026-03-01T10:00:05Z'))).toBe(1);
+    expect(await scheduler.queueCronJobs(new Date('2026-03-01T10:00:20Z'))).toBe(0);
+
+    expect(mockPrisma.scheduledJob.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.scheduledJob.upsert).toHaveBeenCalledWith({
+      where: { dedupeKey: 'auction-settlement@2026-03-01T10:00:00.000Z' },
+      create: expect.objectContaining({
+        jobName: 'auction-settlement',
+        runAt: new Date('2026-03-01T10:00:00Z'),
+        scheduledFor: new Date('2026-03-01T10:00:00Z'),
+        maxAttempts: 3
+      }),
+      update: {}
+    });
+    expect(scheduler.definitions()[0].nextRunAt).toEqual(new Date('2026-03-01T10:01:00Z'));
+  });
+
+  it('should reject unknown jobs and invalid schedules', async () => {
+    await expect(scheduler.schedule('missing')).rejects.toThrow('Unknown job missing');
+    expect(() => scheduler.register({ name: 'auction-settlement', description: '', handler })).toThrow('already registered');
+    expect(() => scheduler.register({ name: 'broken', description: '', schedule: '* *', handler })).toThrow('Invalid cron expression');
+  });
+
+  it('should run a due job under its lock and record the run', async () => {
+    mockPrisma.scheduledJob.findMany.mockResolvedValue([scheduledJob({ requestId: 'req-1' })]);
+    handler.mockImplementation(async () => {
+      expect(getRequestContext()).toEqual({ requestId: 'req-1', job: 'auction-settlement' });
+      return { settled: 2 };
+    });
+
+    expect(await scheduler.runDue()).toBe(1);
+
+    expect(lock.acquire).toHaveBeenCalledWith('auction-settlement', 60000);
+    expect(mockPrisma.scheduledJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 5, status: 'pending', runAt: new Date('2026-03-01T10:00:00Z') },
+      data: { attempts: { increment: 1 }, runAt: expect.any(Date) }
+    });
+    expect(handler).toHaveBeenCalledWith({
+      scheduledJobId: 5,
+      attempt: 1,
+      scheduledFor: new Date('2026-03-01T10:00:00Z'),
+      payload: {}
+    });
+    expect(mockPrisma.jobRun.create).toHaveBeenCalledWith({
+      data: { scheduledJobId: 5, jobName: 'auction-settlement', attempt: 1, requestId: 'req-1' }
+    });
+    expect(mockPrisma.jobRun.update).toHaveBeenCalledWith({
+      where: { id: 9 },
+      data: expect.objectContaining({ status: 'succeeded', result: { settled: 2 } })
+    });
+    expect(mockPrisma.scheduledJob.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: expect.objectContaining({ status: 'completed' })
+    });
+    expect(lock.release).toHaveBeenCalledWith('auction-settlement', 'token');
+  });
+
+  it('should skip jobs another instance is running', async () => {
+    mockPrisma.scheduledJob.findMany.mockResolvedValue([scheduledJob()]);
+    (lock.acquire as jest.Mock).mockResolvedValue(null);
+
+    expect(await scheduler.runDue()).toBe(0);
+
+    expect(mockPrisma.scheduledJob.updateMany).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should not run a job whose lease was taken', async () => {
+    mockPrisma.scheduledJob.findMany.mockResolvedValue([scheduledJob()]);
+    mockPrisma.scheduledJob.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await scheduler.runDue()).toBe(0);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(lock.release).toHaveBeenCalledWith('auction-settlement', 'token');
+  });
+
+  it('should retry failed runs with backoff and give up after the last attempt', async () => {
+    handler.mockRejectedValue(new Error('Database unavailable'));
+
+    mockPrisma.scheduledJob.findMany.mockResolvedValue([scheduledJob({ attempts: 1 })]);
+    const before = Date.now();
+    expect(await scheduler.runDue()).toBe(0);
+
+    expect(mockPrisma.jobRun.update).toHaveBeenCalledWith({
+      where: { id: 9 },
+      data: expect.objectContaining({ status: 'failed', error: 'Database unavailable' })
+    });
+    const retry = mockPrisma.scheduledJob.update.mock.calls[0][0].data;
+    expect(retry.status).toBe('pending');
+    expect(retry.runAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+
+    mockPrisma.scheduledJob.findMany.mockResolvedValue([scheduledJob({ attempts: 2 })]);
+    await scheduler.runDue();
+
+    expect(mockPrisma.scheduledJob.update.mock.calls[1][0].data.status).toBe('failed');
+  });
+});
@@ -0,0 +1,125 @@
+import { Response, NextFunction } from 'express';
+import { mockPrisma } from '../setup';
+import { kycService, canTransition, isKycRequired } from '../../services/kycService';
+import { requireKyc } from '../../middleware/kyc';
+import { AuthenticatedRequest } from '../../types';
+import { config } from '../../utils/config';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+const submissionData = {
+  firstName: 'Ana',
+  lastName: 'García',
+  dateOfBirth: '1990-04-12',
+  nationality: 'ar',
+  documentType: 'dni' as const,
+  documentNumber: '30123456',
+  documents: [{ type: 'id_front' as const, reference: 'kyc/30123456/front.jpg' }]
+};
+
+describe('KycService', () => {
+  beforeEach(() => {
+    config.kycRequiredFor = ['lending', 'property_tokenization', 'inheritance_claims'];
+  });
+
+  it('should only allow the documented status transitions', () => {
+    expect(canTransition('pending', 'submitted')).toBe(true);
+    expect(canTransition('submitted', 'under_review')).toBe(true);
+    expect(canTransition('under_review', 'verified')).toBe(true);
+    expect(canTransition('rejected', 'submitted')).toBe(true);
+    expect(canTransition('pending', 'verified')).toBe(false);
+    expect(canTransition('verified', 'submitted')).toBe(false);
+    expect(canTransition('unknown', 'submitted')).toBe(false);
+  });
+
+  it('should record a submission and move the user to submitted', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 1, kycStatus: 'pending' });
+    mockPrisma.kycSubmission.create.mockResolvedValue({ id: 10, status: 'submitted' });
+
+    const submission = await kycService.submit(1, submissionData);
+
+    expect(submission.id).toBe(10);
+    expect(mockPrisma.kycSubmission.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 1, nationality: 'AR', documentNumber: '30123456' })
+    });
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ kycStatus: 'submitted' })
+    });
+  });
+
+  it('should refuse to resubmit for a verified user', async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ id: 1, kycStatus: 'verified' });
+
+    await expect(kycService.submit(1, submissionData)).rejects.toMatchObject({ statusCode: 409 });
+    expect(mockPrisma.kycSubmission.create).not.toHaveBeenCalled();
+  });
+
+  it('should verify a submission and its user', async () => {
+    mockPrisma.kycSubmission.findUnique.mockResolvedValue({
+      id: 10,
+      userId: 1,
+      status: 'under_review',
+      user: { id: 1, walletAddress: '0xabc', kycStatus: 'under_review' }
+    });
+    mockPrisma.kycSubmission.update.mockResolvedValue({ id: 10, status: 'verified' });
+
+    await kycService.review(10, 'verified', '0xreviewer');
+
+    expect(mockPrisma.kycSubmission.update).toHaveBeenCalledWith({
+      where: { id: 10 },
+      data: expect.objectContaining({ status: 'verified', reviewedBy: '0xreviewer', rejectionReason: null })
+    });
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { kycStatus: 'verified' } });
+  });
+
+  it('should not let reviewers review themselves', async () => {
+    mockPrisma.kycSubmission.findUnique.mockResolvedValue({
+      id: 10,
+      userId: 1,
+      status: 'submitted',
+      user: { id: 1, walletAddress: '0xabc', kycStatus: 'submitted' }
+    });
+
+    await expect(kycService.review(10, 'verified', '0xabc')).rejects.toMatchObject({ statusCode: 403 });
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('should enforce only the configured gates', () => {
+    expect(isKycRequired('lending')).toBe(true);
+
+    config.kycRequiredFor = ['lending'];
+
+    expect(isKycRequired('lending')).toBe(true);
+    expect(isKycRequired('inheritance_claims')).toBe(false);
+  });
+});
+
+describe('requireKyc middleware', () => {
+  const mockNext: NextFunction = jest.fn();
+  const user = { id: 1, walletAddress: '0xabc', createdAt: new Date(), updatedAt: new Date() };
+
+  beforeEach(() => {
+    config.kycRequiredFor = ['lending', 'property_tokenization', 'inheritance_claims'];
+  });
+
+  it('should block users that are not verified', () => {
+    const req = { user: { ...user, kycStatus: 'submitted' } } as AuthenticatedRequest;
+
+    requireKyc('lending')(req, {} as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'KYC verification required', statusCode: 403 })
+    );
+  });
+
+  it('should let verified users through', () => {
+    const req = { user: { ...user, kycStatus: 'verified' } } as AuthenticatedRequest;
+
+    requireKyc('lending')(req, {} as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+});
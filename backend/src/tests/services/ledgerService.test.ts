@@ -0,0 +1,124 @@
+import { Prisma } from '@prisma/client';
+import { mockPrisma } from '../setup';
+import { ledgerService, toLedgerAmount } from '../../services/ledgerService';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+describe('LedgerService', () => {
+  beforeEach(() => {
+    mockPrisma.journalEntry.create.mockResolvedValue({ id: 1 });
+    mockPrisma.tokenBalance.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should debit and credit balances with one balanced entry', async () => {
+    await ledgerService.record({
+      entryType: 'transfer',
+      tokenType: 'AFJP',
+      reference: '0xhash',
+      postings: [{ from: { userId: 1, bucket: 'available' }, to: { userId: 2, bucket: 'available' }, amount: 25.5 }]
+    });
+
+    expect(mockPrisma.tokenBalance.updateMany).toHaveBeenCalledWith({
+      where: { userId: 1, tokenType: 'AFJP', balance: { gte: new Prisma.Decimal(25.5) } },
+      data: { balance: { decrement: new Prisma.Decimal(25.5) } }
+    });
+    expect(mockPrisma.tokenBalance.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId_tokenType: { userId: 2, tokenType: 'AFJP' } },
+      update: { balance: { increment: new Prisma.Decimal(25.5) } }
+    }));
+
+    const { lines } = mockPrisma.journalEntry.create.mock.calls[0][0].data;
+    expect(lines.create).toEqual([
+      expect.objectContaining({ account: 'user:1:available', debit: new Prisma.Decimal(25.5) }),
+      expect.objectContaining({ account: 'user:2:available', credit: new Prisma.Decimal(25.5) })
+    ]);
+  });
+
+  it('should reject a debit the balance cannot cover', async () => {
+    mockPrisma.tokenBalance.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(ledgerService.record({
+      entryType: 'stake',
+      tokenType: 'AFJP',
+      postings: [{ from: { userId: 1, bucket: 'available' }, to: { userId: 1, bucket: 'locked' }, amount: 100 }]
+    })).rejects.toMatchObject({ message: 'Insufficient AFJP balance', statusCode: 400 });
+
+    expect(mockPrisma.tokenBalance.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.journalEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('should not touch balances for system and external accounts', async () => {
+    await ledgerService.record({
+      entryType: 'burn',
+      tokenType: 'AFJP',
+      postings: [{ from: { system: 'staking_rewards' }, to: { external: '0xabc' }, amount: '1' }]
+    });
+
+    expect(mockPrisma.tokenBalance.updateMany).not.toHaveBeenCalled();
+    expect(mockPrisma.tokenBalance.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.journalEntry.create.mock.calls[0][0].data.lines.create.map((line: any) => line.account))
+      .toEqual(['system:staking_rewards', 'external:0xabc']);
+  });
+
+  it('should truncate computed amounts to 8 decimals', () => {
+    expect(toLedgerAmount(0.123456789).toString()).toBe('0.12345678');
+    expect(() => toLedgerAmount(0.000000001)).toThrow('Ledger amounts must be positive');
+  });
+
+  it('should report buckets that drifted from the journal', async () => {
+    mockPrisma.journalLine.groupBy.mockResolvedValue([
+      { account: 'user:1:available', tokenType: 'AFJP', _sum: { debit: new Prisma.Decimal(10), credit: new Prisma.Decimal(50) } },
+      { account: 'user:1:locked', tokenType: 'AFJP', _sum: { debit: null, credit: new Prisma.Decimal(10) } }
+    ]);
+    mockPrisma.tokenBalance.findMany.mockResolvedValue([
+      { tokenType: 'AFJP', balance: new Prisma.Decimal(40), lockedBalance: new Prisma.Decimal(12) }
+    ]);
+
+    const results = await ledgerService.reconcile(1);
+
+    expect(results).toEqual([
+      { tokenType: 'AFJP', bucket: 'available', journalBalance: '40.00000000', recordedBalance: '40.00000000', matches: true },
+      { tokenType: 'AFJP', bucket: 'locked', journalBalance: '10.00000000', recordedBalance: '12.00000000', matches: false }
+    ]);
+  });
+
+  describe('reverse', () => {
+    const entry = {
+      id: 5,
+      entryType: 'transfer',
+      reference: 'chain_tx:3',
+      lines: [
+        { id: 1, account: 'user:1:available', tokenType: 'AFJP', debit: new Prisma.Decimal(25), credit: new Prisma.Decimal(0) },
+        { id: 2, account: 'external:0xb0b', tokenType: 'AFJP', debit: new Prisma.Decimal(0), credit: new Prisma.Decimal(25) }
+      ]
+    };
+
+    it('should record each entry again with its postings swapped', async () => {
+      mockPrisma.journalEntry.findMany.mockResolvedValue([entry]);
+
+      await ledgerService.reverse('chain_tx:3');
+
+      expect(mockPrisma.tokenBalance.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.tokenBalance.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId_tokenType: { userId: 1, tokenType: 'AFJP' } },
+        update: { balance: { increment: new Prisma.Decimal(25) } }
+      }));
+
+      const { data } = mockPrisma.journalEntry.create.mock.calls[0][0];
+      expect(data).toEqual(expect.objectContaining({ entryType: 'reversal', reference: 'chain_tx:3', memo: 'Reverses journal entry #5' }));
+      expect(data.lines.create).toEqual([
+        expect.objectContaining({ account: 'external:0xb0b', debit: new Prisma.Decimal(25) }),
+        expect.objectContaining({ account: 'user:1:available', credit: new Prisma.Decimal(25) })
+      ]);
+    });
+
+    it('should not reverse a reference twice', async () => {
+      mockPrisma.journalEntry.findMany.mockResolvedValue([entry, { ...entry, id: 6, entryType: 'reversal' }]);
+
+      expect(await ledgerService.reverse('chain_tx:3')).toEqual([]);
+      expect(mockPrisma.journalEntry.create).not.toHaveBeenCalled();
+    });
+  });
+});
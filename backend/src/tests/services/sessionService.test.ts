@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { mockPrisma } from '../setup';
+import { sessionService } from '../../services/sessionService';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+const user = {
+  id: 7,
+  walletAddress: '0x1234567890abcdef1234567890abcdef12345678',
+  kycStatus: 'pending',
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const storedToken = (overrides: Record<string, unknown> = {}) => ({
+  id: 11,
+  sessionId: 3,
+  tokenHash: hash('refresh-token'),
+  expiresAt: new Date(Date.now() + 60000),
+  usedAt: null,
+  session: {
+    id: 3,
+    userId: user.id,
+    ipAddress: '127.0.0.1',
+    expiresAt: new Date(Date.now() + 60000),
+    revokedAt: null,
+    user
+  },
+  ...overrides
+});
+
+describe('SessionService', () => {
+  describe('createSession', () => {
+    it('should issue an access token bound to the new session and store only the refresh token hash', async () => {
+      mockPrisma.session.create.mockResolvedValue({ id: 3 });
+
+      const tokens = await sessionService.createSession(user, { userAgent: 'jest', ipAddress: '127.0.0.1' });
+
+      const decoded = jwt.verify(tokens.accessToken, process.env.JWT_SECRET!) as any;
+      expect(decoded).toMatchObject({ userId: user.id, sid: 3 });
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sessionId: 3, tokenHash: hash(tokens.refreshToken) })
+      });
+    });
+  });
+
+  describe('rotateRefreshToken', () => {
+    it('should mark the token used and issue a new one', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(storedToken());
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      const tokens = await sessionService.rotateRefreshToken('refresh-token', {});
+
+      expect(tokens.refreshToken).not.toBe('refresh-token');
+      expect(mockPrisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 11, usedAt: null },
+        data: { usedAt: expect.any(Date) }
+      });
+      expect(mockPrisma.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sessionId: 3, tokenHash: hash(tokens.refreshToken) })
+      });
+      expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole session when a used token is presented again', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(storedToken({ usedAt: new Date() }));
+
+      await expect(sessionService.rotateRefreshToken('refresh-token', {}))
+        .rejects.toMatchObject({ message: 'Refresh token reuse detected', statusCode: 401 });
+
+      expect(mockPrisma.refreshToken.create).not.toHaveBeenCalled();
+      expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 3, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'refresh_token_reuse' }
+      });
+    });
+
+    it('should treat losing a concurrent rotation as reuse', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(storedToken());
+      mockPrisma.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(sessionService.rotateRefreshToken('refresh-token', {}))
+        .rejects.toMatchObject({ message: 'Refresh token reuse detected' });
+
+      expect(mockPrisma.session.updateMany).toHaveBeenCalled();
+    });
+
+    it('should reject tokens of a revoked session', async () => {
+      mockPrisma.refreshToken.findUnique.mockResolvedValue(
+        storedToken({ session: { ...storedToken().session, revokedAt: new Date() } })
+      );
+
+      await expect(sessionService.rotateRefreshToken('refresh-token', {}))
+        .rejects.toMatchObject({ message: 'Session has been revoked' });
+    });
+  });
+
+  describe('verifyAccessToken', () => {
+    it('should reject access tokens of a revoked session', async () => {
+      const token = jwt.sign({ userId: user.id, walletAddress: user.walletAddress, sid: 3 }, process.env.JWT_SECRET!);
+      mockPrisma.session.findUnique.mockResolvedValue({
+        id: 3,
+        userId: user.id,
+        expiresAt: new Date(Date.now() + 60000),
+        revokedAt: new Date(),
+        user
+      });
+
+      await expect(sessionService.verifyAccessToken(token))
+        .rejects.toMatchObject({ message: 'Session has been revoked', statusCode: 401 });
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { AptosAccount } from 'aptos';
+import { mockPrisma, signEntryFunction } from '../setup';
+import { SimulatedChain } from '../../services/simulatedChain';
+import { TransactionQueue } from '../../services/transactionQueue';
+import { EventIndexer } from '../../services/eventIndexer';
+import { Money } from '../../utils/money';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+const MODULE_ADDRESS = '0x1234567890abcdef1234567890abcdef12345678';
+const alice = new AptosAccount(new Uint8Array(32).fill(0xa1));
+const bob = new AptosAccount(new Uint8Array(32).fill(0xb0));
+const ALICE = alice.address().hex();
+const BOB = bob.address().hex();
+const YEAR_MS = 31536000 * 1000;
+
+const base = (tokens: number) => Money.of(tokens).toBaseUnits();
+
+describe('SimulatedChain', () => {
+  let clock: number;
+  let chain: SimulatedChain;
+
+  const execute = (sender: AptosAccount | null, functionName: string, args: any[] = []) =>
+    chain.executeTransaction(sender || chain.operator(), functionName, [], args);
+
+  beforeEach(() => {
+    clock = Date.UTC(2026, 0, 1);
+    chain = new SimulatedChain(MODULE_ADDRESS, { genesis: { [ALICE]: '1000' }, now: () => clock });
+  });
+
+  it('should mint genesis balances in the first block', async () => {
+    expect((await chain.getTokenBalance(ALICE, 'AFJP')).toBaseUnits()).toBe(base(1000));
+    expect(await chain.getTransactionMeta('0')).toEqual({ hash: expect.any(String), blockHeight: '0' });
+    expect(await chain.getLedgerInfo()).toEqual({ chainId: 4, ledgerVersion: '0', blockHeight: '0', ledgerTimestamp: new Date(clock) });
+
+    const [mint] = await chain.getModuleEvents('afjp_token::TokenEvents', 'mint_events', BigInt(0), 10);
+    expect(mint).toEqual(expect.objectContaining({
+      version: '0',
+      sequence_number: '0',
+      data: expect.objectContaining({ amount: base(1000) })
+    }));
+  });
+
+  it('should transfer coins and advance the sender sequence number', async () => {
+    const hash = await execute(alice, 'afjp_token::transfer', [BOB, base(250)]);
+
+    expect(await chain.getTransactionStatus(hash)).toEqual({ status: 'confirmed', vmStatus: 'Executed successfully', version: '1' });
+    expect((await chain.getTokenBalance(ALICE, 'AFJP')).toBaseUnits()).toBe(base(750));
+    expect((await chain.getTokenBalance(BOB, 'AFJP')).toBaseUnits()).toBe(base(250));
+    expect(chain.getSequenceNumber(ALICE)).toBe('1');
+    expect(await chain.view('afjp_token::get_balance', [], [BOB])).toEqual([base(250)]);
+  });
+
+  it('should produce the same hashes for the same transactions', async () => {
+    const replay = new SimulatedChain(MODULE_ADDRESS, { genesis: { [ALICE]: '1000' }, now: () => clock });
+
+    const first = await execute(alice, 'afjp_token::burn', [base(1)]);
+    const second = await replay.executeTransaction(alice, 'afjp_token::burn', [], [base(1)]);
+
+    expect(second).toBe(first);
+  });
+
+  it('should commit aborted transactions as failed without changing balances', async () => {
+    const hash = await execute(bob, 'afjp_token::transfer', [ALICE, base(1)]);
+
+    expect(await chain.getTransactionStatus(hash)).toEqual({
+      status: 'failed',
+      vmStatus: expect.stringMatching(/^Move abort in 0x0+1234567890abcdef1234567890abcdef12345678::afjp_token: E_INSUFFICIENT_BALANCE\(0x4\)$/),
+      version: '1'
+    });
+    expect((await chain.getTokenBalance(ALICE, 'AFJP')).toBaseUnits()).toBe(base(1000));
+    expect(chain.getSequenceNumber(BOB)).toBe('1');
+    expect(await chain.getModuleEvents('afjp_token::TokenEvents', 'transfer_events', BigInt(0), 10)).toEqual([]);
+  });
+
+  it('should only let the module account mint', async () => {
+    const hash = await execute(alice, 'afjp_token::mint', [ALICE, base(1)]);
+    expect((await chain.getTransactionStatus(hash)).vmStatus).toContain('E_NOT_ADMIN(0x1)');
+
+    await execute(null, 'afjp_token::mint', [BOB, base(5)]);
+    expect((await chain.getTokenBalance(BOB, 'AFJP')).toBaseUnits()).toBe(base(5));
+  });
+
+  it('should validate signed transactions like a node', async () => {
+    const transfer = (signer: AptosAccount, options: Record<string, number> = {}) =>
+      chain.submitSignedTransaction(signEntryFunction(signer, MODULE_ADDRESS, 'afjp_token::transfer', [BOB, base(1)], {
+        expiresAt: Math.floor(clock / 1000) + 600,
+        ...options
+      }));
+
+    await expect(transfer(alice, { sequenceNumber: 1 }))
+      .rejects.toMatchObject({ message: 'Transaction rejected: SEQUENCE_NUMBER_TOO_NEW', statusCode: 400 });
+    await expect(transfer(alice, { chainId: 1 })).rejects.toThrow('Transaction rejected: BAD_CHAIN_ID');
+    await expect(transfer(alice, { expiresAt: Math.floor(clock / 1000) })).rejects.toThrow('Transaction rejected: TRANSACTION_EXPIRED');
+
+    // Signed by a key that is not the sender's
+    const forged = signEntryFunction(bob, MODULE_ADDRESS, 'afjp_token::transfer', [BOB, base(1)], { expiresAt: Math.floor(clock / 1000) + 600 });
+    forged.set(alice.address().toUint8Array(), 0);
+    await expect(chain.submitSignedTransaction(forged)).rejects.toThrow('Transaction rejected: INVALID_SIGNATURE');
+
+    const hash = await transfer(alice);
+    expect((await chain.getTransactionStatus(hash)).status).toBe('confirmed');
+    await expect(transfer(alice)).rejects.toThrow('Transaction rejected: SEQUENCE_NUMBER_TOO_OLD');
+    expect((await chain.getTokenBalance(BOB, 'AFJP')).toBaseUnits()).toBe(base(1));
+  });
+
+  it('should only let the operator key sign for the module account', async () => {
+    const impostor = new AptosAccount(undefined, MODULE_ADDRESS);
+
+    await expect(execute(impostor, 'afjp_token::mint', [ALICE, base(1)])).rejects.toThrow('Transaction rejected: INVALID_AUTH_KEY');
+    expect(chain.getSequenceNumber(MODULE_ADDRESS)).toBe('1');
+  });
+
+  it('should reject functions of modules that are not deployed', async () => {
+    await expect(execute(alice, 'afjp_lending::create_loan', ['1', '1'])).rejects.toThrow(
+      'Transaction failed: Function 0x0000000000000000000000001234567890abcdef1234567890abcdef12345678::afjp_lending::create_loan does not exist'
+    );
+    expect(chain.getSequenceNumber(ALICE)).toBe('0');
+  });
+
+  it('should burn AFJP for JUVENTUD at the exchange rate', async () => {
+    await execute(alice, 'juventud_token::burn_afjp_for_juventud', [base(10)]);
+
+    expect((await chain.getTokenBalance(ALICE, 'AFJP')).toBaseUnits()).toBe(base(990));
+    expect((await chain.getTokenBalance(ALICE, 'JUVENTUD')).toBaseUnits()).toBe(base(100));
+  });
+
+  it('should stake, accrue rewards at the base APY and unstake', async () => {
+    await execute(alice, 'afjp_staking::stake_tokens', [base(500)]);
+    expect((await chain.getTokenBalance(ALICE, 'AFJP')).toBaseUnits()).toBe(base(500));
+
+    clock += YEAR_MS;
+    expect(await chain.view('afjp_staking::calculate_rewards', [], [ALICE])).toEqual([base(60)]);
+
+    await execute(alice, 'afjp_staking::claim_rewards');
+    await execute(alice, 'afjp_staking::unstake_tokens', [base(500)]);
+
+    expect((await chain.getTokenBalance(ALICE, 'AFJP')).toBaseUnits()).toBe(base(1060));
+    expect(await chain.view('afjp_staking::get_staking_info', [], [ALICE])).toEqual([
+      '0',
+      base(60),
+      '0',
+      String(Math.floor(Date.UTC(2026, 0, 1) / 1000))
+    ]);
+
+    const hash = await execute(alice, 'afjp_staking::claim_rewards');
+    expect((await chain.getTransactionStatus(hash)).vmStatus).toContain('E_NO_REWARDS(0x6)');
+  });
+
+  it('should release vested tokens linearly after the cliff', async () => {
+    await execute(alice, 'afjp_vesting::create_vesting_schedule', [BOB, base(1000)]);
+    expect((await chain.getTokenBalance(ALICE, 'AFJP')).isZero()).toBe(true);
+
+    clock += YEAR_MS / 2;
+    await execute(bob, 'afjp_vesting::release_vested_tokens');
+    expect((await chain.getTokenBalance(BOB, 'AFJP')).isZero()).toBe(true);
+
+    clock += YEAR_MS * 2;
+    expect(await chain.view('afjp_vesting::get_releasable_amount', [], [BOB])).toEqual([base(500)]);
+
+    await execute(bob, 'afjp_vesting::release_vested_tokens');
+    expect((await chain.getTokenBalance(BOB, 'AFJP')).toBaseUnits()).toBe(base(500));
+
+    const released = await chain.getModuleEvents('afjp_vesting::VestingEvents', 'tokens_released_events', BigInt(0), 10);
+    expect(released[1].data).toEqual(expect.objectContaining({ amount: base(500), total_released: base(500) }));
+  });
+
+  describe('with the transaction queue and indexer', () => {
+    const options = {
+      moduleAddress: MODULE_ADDRESS,
+      submitIntervalMs: 1000,
+      pollIntervalMs: 1000,
+      batchSize: 10,
+      maxAttempts: 3,
+      finalityTimeoutMs: 60000,
+      signatureTimeoutMs: 900000
+    };
+    const users = [{ id: 1, walletAddress: ALICE }];
+
+    const queued = (overrides: Record<string, any>) => ({
+      id: 1,
+      userId: 1,
+      typeArguments: [],
+      txHash: null,
+      attempts: 0,
+      submittedAt: null,
+      user: { walletAddress: ALICE },
+      ...overrides
+    }) as any;
+
+    beforeEach(() => {
+      mockPrisma.chainTransaction.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.chainTransaction.update.mockImplementation(async ({ data }: any) => data);
+      mockPrisma.tokenTransaction.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.tokenTransaction.findUnique.mockResolvedValue(null);
+      mockPrisma.indexerCursor.findUnique.mockResolvedValue(null);
+      mockPrisma.user.findFirst.mockImplementation(({ where }: any) =>
+        Promise.resolve(users.find(user => where.walletAddress.in.includes(user.walletAddress)) || null)
+      );
+    });
+
+    it('should mint with the operator key', async () => {
+      const queue = new TransactionQueue(chain, chain.operator(), options);
+
+      mockPrisma.chainTransaction.findMany.mockResolvedValue([
+        queued({ userId: null, user: null, functionName: 'afjp_token::mint', arguments: [BOB, base(5)], status: 'pending' })
+      ]);
+      expect(await queue.submitPending()).toBe(1);
+
+      expect((await chain.getTokenBalance(BOB, 'AFJP')).toBaseUnits()).toBe(base(5));
+    });
+
+    it('should run a stake the user signed through to a confirmed balance change', async () => {
+      const queue = new TransactionQueue(chain, chain.operator(), options);
+      const row = queued({ functionName: 'afjp_staking::stake_tokens', arguments: [base(100)], status: 'awaiting_signature' });
+      const signed = signEntryFunction(alice, MODULE_ADDRESS, 'afjp_staking::stake_tokens', [base(100)], {
+        expiresAt: Math.floor(clock / 1000) + 600
+      });
+
+      await queue.submitSigned(row, ALICE, signed);
+
+      const { txHash } = mockPrisma.chainTransaction.update.mock.calls[0][0].data;
+      mockPrisma.chainTransaction.findMany.mockResolvedValue([{ ...row, status: 'submitted', txHash, submittedAt: new Date(clock) }]);
+      expect(await queue.pollFinality()).toBe(1);
+
+      expect(mockPrisma.tokenTransaction.updateMany).toHaveBeenCalledWith({
+        where: { chainTransactionId: 1 },
+        data: { status: 'confirmed', blockNumber: BigInt(1) }
+      });
+      expect((await chain.getTokenBalance(ALICE, 'AFJP')).toBaseUnits()).toBe(base(900));
+
+      await new EventIndexer(chain, { startVersion: BigInt(0), pageSize: 100, pollIntervalMs: 1000 }).runOnce();
+
+      expect(mockPrisma.tokenTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 1, transactionType: 'mint', amount: '1000.00000000', blockNumber: BigInt(0) })
+      });
+      expect(mockPrisma.stakingRecord.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ userId: 1, stakedAmount: '100.00000000' })
+      }));
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import { AptosAccount } from 'aptos';
+import { Prisma } from '@prisma/client';
+import { mockPrisma, signEntryFunction } from '../setup';
+import { TransactionQueue, TransactionQueueOptions } from '../../services/transactionQueue';
+import { Money } from '../../utils/money';
+import { getRequestContext, runWithContext } from '../../utils/requestContext';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+const chain = {
+  executeTransaction: jest.fn(),
+  submitSignedTransaction: jest.fn(),
+  getTransactionStatus: jest.fn(),
+  getTransactionMeta: jest.fn()
+};
+
+const MODULE_ADDRESS = '0xaf1b';
+const operator = new AptosAccount();
+const alice = new AptosAccount(new Uint8Array(32).fill(7));
+
+const options: TransactionQueueOptions = {
+  moduleAddress: MODULE_ADDRESS,
+  submitIntervalMs: 1000,
+  pollIntervalMs: 1000,
+  batchSize: 10,
+  maxAttempts: 3,
+  finalityTimeoutMs: 60000,
+  signatureTimeoutMs: 900000
+};
+
+const queued = (overrides: Record<string, any> = {}) => ({
+  id: 1,
+  userId: 7,
+  functionName: 'afjp_token::mint',
+  typeArguments: [],
+  arguments: ['0xa11ce', '10000000000'],
+  status: 'pending',
+  txHash: null,
+  attempts: 0,
+  submittedAt: null,
+  user: { walletAddress: '0xa11ce' },
+  ...overrides
+});
+
+describe('TransactionQueue', () => {
+  const queue = new TransactionQueue(chain, operator, options);
+
+  beforeEach(() => {
+    mockPrisma.chainTransaction.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.journalEntry.findMany.mockResolvedValue([]);
+  });
+
+  it('should record a pending operator transaction', async () => {
+    mockPrisma.chainTransaction.create.mockResolvedValue(queued());
+
+    await queue.enqueue({ functionName: 'afjp_token::mint', arguments: ['0xa11ce', Money.of(100).toBaseUnits()] });
+
+    expect(mockPrisma.chainTransaction.create).toHaveBeenCalledWith({
+      data: {
+        userId: undefined,
+        status: 'pending',
+        functionName: 'afjp_token::mint',
+        typeArguments: [],
+        arguments: ['0xa11ce', '10000000000'],
+        requestId: null
+      }
+    });
+  });
+
+  it('should leave transactions of user functions awaiting the user\'s signature', async () => {
+    await queue.enqueue({ userId: 7, functionName: 'afjp_staking::stake_tokens', arguments: [Money.of(100).toBaseUnits()] });
+
+    expect(mockPrisma.chainTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 7, status: 'awaiting_signature', functionName: 'afjp_staking::stake_tokens' })
+    });
+
+    await expect(queue.enqueue({ functionName: 'afjp_staking::stake_tokens', arguments: ['1'] }))
+      .rejects.toMatchObject({ statusCode: 500 });
+  });
+
+  it('should refuse entry functions the modules do not publish', async () => {
+    await expect(queue.enqueue({ userId: 7, functionName: 'afjp_lending::create_loan', arguments: [] }))
+      .rejects.toMatchObject({ message: 'Unknown entry function afjp_lending::create_loan', statusCode: 500 });
+    expect(mockPrisma.chainTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it('should remember the request that queued the transaction', async () => {
+    await runWithContext({ requestId: 'req-1' }, () =>
+      queue.enqueue({ userId: 7, functionName: 'afjp_staking::stake_tokens', arguments: ['1'] })
+    );
+
+    expect(mockPrisma.chainTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ requestId: 'req-1' })
+    });
+  });
+
+  it('should submit under the queuing request\'s context', async () => {
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([queued({ requestId: 'req-1' })]);
+    chain.executeTransaction.mockImplementation(async () => {
+      expect(getRequestContext()).toEqual({ requestId: 'req-1', job: 'transaction-queue', walletAddress: '0xa11ce' });
+      return '0xhash';
+    });
+
+    expect(await queue.submitPending()).toBe(1);
+    expect(chain.executeTransaction).toHaveBeenCalled();
+  });
+
+  it('should submit pending transactions and store their hash', async () => {
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([queued()]);
+    chain.executeTransaction.mockResolvedValue('0xabc');
+
+    const submitted = await queue.submitPending();
+
+    expect(submitted).toBe(1);
+    expect(mockPrisma.chainTransaction.updateMany).toHaveBeenCalledWith({
+      where: { id: 1, status: 'pending' },
+      data: expect.objectContaining({ status: 'submitted', attempts: { increment: 1 } })
+    });
+    expect(chain.executeTransaction).toHaveBeenCalledWith(operator, 'afjp_token::mint', [], ['0xa11ce', '10000000000']);
+    expect(mockPrisma.chainTransaction.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { txHash: '0xabc', lastError: null }
+    });
+    expect(mockPrisma.tokenTransaction.updateMany).toHaveBeenCalledWith({
+      where: { chainTransactionId: 1 },
+      data: { txHash: '0xabc' }
+    });
+  });
+
+  it('should skip transactions another worker already claimed', async () => {
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([queued()]);
+    mockPrisma.chainTransaction.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await queue.submitPending()).toBe(0);
+    expect(chain.executeTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should put a failed submission back in the queue until attempts run out', async () => {
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([queued()]);
+    chain.executeTransaction.mockRejectedValue(new Error('Transaction failed: SEQUENCE_NUMBER_TOO_OLD'));
+
+    await queue.submitPending();
+
+    expect(mockPrisma.chainTransaction.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { status: 'pending', lastError: 'Transaction failed: SEQUENCE_NUMBER_TOO_OLD' }
+    });
+
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([queued({ attempts: 2 })]);
+
+    await queue.submitPending();
+
+    expect(mockPrisma.chainTransaction.update).toHaveBeenLastCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ status: 'failed', lastError: 'Transaction failed: SEQUENCE_NUMBER_TOO_OLD' })
+    });
+    expect(mockPrisma.tokenTransaction.updateMany).toHaveBeenCalledWith({
+      where: { chainTransactionId: 1 },
+      data: { status: 'failed', blockNumber: undefined }
+    });
+  });
+
+  it('should only submit operator functions with the operator key', async () => {
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([]);
+
+    await queue.submitPending();
+
+    const { where } = mockPrisma.chainTransaction.findMany.mock.calls[0][0];
+    expect(where.status).toBe('pending');
+    expect(where.functionName.in).toEqual(expect.arrayContaining(['afjp_token::mint', 'afjp_vesting::create_vesting_schedule']));
+    expect(where.functionName.in).not.toContain('afjp_token::transfer');
+    expect(where.functionName.in).not.toContain('afjp_staking::stake_tokens');
+  });
+
+  it('should not submit without an operator key', async () => {
+    const unsigned = new TransactionQueue(chain, null, options);
+
+    expect(await unsigned.submitPending()).toBe(0);
+    expect(mockPrisma.chainTransaction.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should confirm committed transactions with their version and block', async () => {
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([queued({ status: 'submitted', txHash: '0xabc', submittedAt: new Date() })]);
+    chain.getTransactionStatus.mockResolvedValue({ status: 'confirmed', vmStatus: 'Executed successfully', version: '1042' });
+    chain.getTransactionMeta.mockResolvedValue({ hash: '0xabc', blockHeight: '512' });
+
+    expect(await queue.pollFinality()).toBe(1);
+    expect(mockPrisma.chainTransaction.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ status: 'confirmed', vmStatus: 'Executed successfully', version: BigInt(1042) })
+    });
+    expect(mockPrisma.tokenTransaction.updateMany).toHaveBeenCalledWith({
+      where: { chainTransactionId: 1 },
+      data: { status: 'confirmed', blockNumber: BigInt(512) }
+    });
+  });
+
+  it('should fail transactions the VM aborted with their VM status', async () => {
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([queued({ status: 'submitted', txHash: '0xabc', submittedAt: new Date() })]);
+    chain.getTransactionStatus.mockResolvedValue({ status: 'failed', vmStatus: 'Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)', version: '1043' });
+    chain.getTransactionMeta.mockResolvedValue({ hash: '0xabc', blockHeight: '513' });
+
+    await queue.pollFinality();
+
+    expect(mockPrisma.chainTransaction.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ status: 'failed', vmStatus: 'Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)' })
+    });
+  });
+
+  it('should leave pending transactions alone until they expire', async () => {
+    chain.getTransactionStatus.mockResolvedValue({ status: 'pending' });
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([queued({ status: 'submitted', txHash: '0xabc', submittedAt: new Date() })]);
+
+    expect(await queue.pollFinality()).toBe(0);
+    expect(mockPrisma.chainTransaction.update).not.toHaveBeenCalled();
+
+    mockPrisma.chainTransaction.findMany.mockResolvedValue([
+      queued({ status: 'submitted', txHash: '0xabc', submittedAt: new Date(Date.now() - 120000) })
+    ]);
+
+    expect(await queue.pollFinality()).toBe(1);
+    expect(mockPrisma.chainTransaction.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ status: 'failed', lastError: 'Transaction was not committed before it expired' })
+    });
+  });
+
+  describe('signed transactions', () => {
+    const awaiting = (overrides: Record<string, any> = {}) => queued({
+      functionName: 'afjp_token::transfer',
+      arguments: ['0xb0b', '2500000000'],
+      status: 'awaiting_signature',
+      ...overrides
+    }) as any;
+
+    it('should relay a transaction the user signed for the queued call', async () => {
+      const signed = signEntryFunction(alice, MODULE_ADDRESS, 'afjp_token::transfer', ['0xb0b', '2500000000']);
+      chain.submitSignedTransaction.mockResolvedValue('0xsigned');
+      mockPrisma.chainTransaction.update.mockResolvedValue(awaiting({ status: 'submitted', txHash: '0xsigned' }));
+
+      const submitted = await queue.submitSigned(awaiting(), alice.address().hex(), signed);
+
+      expect(submitted).toEqual(expect.objectContaining({ status: 'submitted', txHash: '0xsigned' }));
+      expect(mockPrisma.chainTransaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: 'awaiting_signature' },
+        data: expect.objectContaining({ status: 'submitted', attempts: { increment: 1 } })
+      });
+      expect(chain.submitSignedTransaction).toHaveBeenCalledWith(signed);
+      expect(chain.executeTransaction).not.toHaveBeenCalled();
+      expect(mockPrisma.tokenTransaction.updateMany).toHaveBeenCalledWith({
+        where: { chainTransactionId: 1 },
+        data: { txHash: '0xsigned' }
+      });
+    });
+
+    it('should refuse a transaction that does not match the queued one', async () => {
+      const wallet = alice.address().hex();
+
+      await expect(queue.submitSigned(awaiting(), wallet, signEntryFunction(alice, MODULE_ADDRESS, 'afjp_token::transfer', ['0xb0b', '2500000001'])))
+        .rejects.toMatchObject({ message: 'Signed transaction arguments do not match the queued transaction', statusCode: 400 });
+      await expect(queue.submitSigned(awaiting(), wallet, signEntryFunction(alice, MODULE_ADDRESS, 'afjp_token::burn', ['2500000000'])))
+        .rejects.toMatchObject({ message: 'Signed transaction must call afjp_token::transfer', statusCode: 400 });
+      await expect(queue.submitSigned(awaiting(), wallet, signEntryFunction(alice, '0xbad', 'afjp_token::transfer', ['0xb0b', '2500000000'])))
+        .rejects.toMatchObject({ statusCode: 400 });
+      await expect(queue.submitSigned(awaiting(), '0xb0b', signEntryFunction(alice, MODULE_ADDRESS, 'afjp_token::transfer', ['0xb0b', '2500000000'])))
+        .rejects.toMatchObject({ message: 'Transaction must be signed by the wallet that requested it', statusCode: 400 });
+      await expect(queue.submitSigned(awaiting(), wallet, new Uint8Array([1, 2, 3])))
+        .rejects.toMatchObject({ message: 'Invalid signed transaction', statusCode: 400 });
+      await expect(queue.submitSigned(awaiting({ status: 'submitted' }), wallet, new Uint8Array()))
+        .rejects.toMatchObject({ statusCode: 409 });
+
+      expect(mockPrisma.chainTransaction.updateMany).not.toHaveBeenCalled();
+      expect(chain.submitSignedTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should wait for a new signature when the node rejects it', async () => {
+      const signed = signEntryFunction(alice, MODULE_ADDRESS, 'afjp_token::transfer', ['0xb0b', '2500000000']);
+      chain.submitSignedTransaction.mockRejectedValue(new Error('Transaction rejected: SEQUENCE_NUMBER_TOO_OLD'));
+
+      await expect(queue.submitSigned(awaiting(), alice.address().hex(), signed)).rejects.toThrow('SEQUENCE_NUMBER_TOO_OLD');
+
+      expect(mockPrisma.chainTransaction.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { status: 'awaiting_signature', lastError: 'Transaction rejected: SEQUENCE_NUMBER_TOO_OLD' }
+      });
+    });
+
+    it('should fail transactions that were not signed in time', async () => {
+      mockPrisma.chainTransaction.findMany.mockResolvedValue([awaiting()]);
+
+      expect(await queue.expireUnsigned()).toBe(1);
+
+      expect(mockPrisma.chainTransaction.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'awaiting_signature', createdAt: { lt: expect.any(Date) } }
+      }));
+      expect(mockPrisma.chainTransaction.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'failed', lastError: 'Transaction was not signed before it expired' })
+      });
+      expect(mockPrisma.journalEntry.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { reference: 'chain_tx:1' } }));
+    });
+  });
+
+  describe('ledger reversal', () => {
+    const stakeEntry = {
+      id: 90,
+      entryType: 'stake',
+      reference: 'chain_tx:1',
+      lines: [
+        { id: 1, account: 'user:7:available', tokenType: 'AFJP', debit: new Prisma.Decimal(100), credit: new Prisma.Decimal(0) },
+        { id: 2, account: 'user:7:locked', tokenType: 'AFJP', debit: new Prisma.Decimal(0), credit: new Prisma.Decimal(100) }
+      ]
+    };
+
+    beforeEach(() => {
+      mockPrisma.chainTransaction.findMany.mockResolvedValue([queued({ status: 'submitted', txHash: '0xabc', submittedAt: new Date() })]);
+      chain.getTransactionStatus.mockResolvedValue({ status: 'failed', vmStatus: 'Move abort', version: '1043' });
+      chain.getTransactionMeta.mockResolvedValue({ hash: '0xabc', blockHeight: '513' });
+      mockPrisma.journalEntry.findMany.mockResolvedValue([stakeEntry]);
+      mockPrisma.journalEntry.create.mockResolvedValue({ id: 91 });
+    });
+
+    it('should reverse the ledger entries of a failed transaction', async () => {
+      mockPrisma.tokenBalance.updateMany.mockResolvedValue({ count: 1 });
+
+      expect(await queue.pollFinality()).toBe(1);
+
+      expect(mockPrisma.journalEntry.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { reference: 'chain_tx:1' } }));
+      expect(mockPrisma.tokenBalance.updateMany).toHaveBeenCalledWith({
+        where: { userId: 7, tokenType: 'AFJP', lockedBalance: { gte: new Prisma.Decimal(100) } },
+        data: { lockedBalance: { decrement: new Prisma.Decimal(100) } }
+      });
+      expect(mockPrisma.journalEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ entryType: 'reversal', reference: 'chain_tx:1', memo: 'Reverses journal entry #90' })
+      });
+    });
+
+    it('should not reverse the ledger entries of a confirmed transaction', async () => {
+      chain.getTransactionStatus.mockResolvedValue({ status: 'confirmed', vmStatus: 'Executed successfully', version: '1043' });
+
+      await queue.pollFinality();
+
+      expect(mockPrisma.journalEntry.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should still mark the transaction failed when the credit was spent', async () => {
+      mockPrisma.tokenBalance.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await queue.pollFinality()).toBe(1);
+
+      expect(mockPrisma.journalEntry.create).not.toHaveBeenCalled();
+      expect(mockPrisma.chainTransaction.update).toHaveBeenLastCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'failed', vmStatus: 'Move abort' })
+      });
+    });
+  });
+});
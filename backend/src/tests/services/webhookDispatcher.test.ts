@@ -0,0 +1,159 @@
+import { mockPrisma } from '../setup';
+import { WebhookDispatcher, WebhookDispatcherOptions, signPayload } from '../../services/webhookDispatcher';
+import { outboxService } from '../../services/outboxService';
+
+jest.mock('../../index', () => ({
+  prisma: require('../setup').mockPrisma
+}));
+
+const options: WebhookDispatcherOptions = {
+  pollIntervalMs: 1000,
+  batchSize: 10,
+  maxAttempts: 3,
+  retryBaseMs: 1000,
+  retryMaxMs: 60000,
+  timeoutMs: 5000
+};
+
+const subscription = (overrides: Record<string, any> = {}) => ({
+  id: 1,
+  userId: 3,
+  url: 'https://partner.example.com/hooks',
+  secret: 'whsec_test',
+  eventTypes: ['LoanCreated'],
+  isActive: true,
+  ...overrides
+});
+
+const outboxEvent = {
+  id: 11,
+  eventType: 'LoanCreated',
+  aggregateType: 'loan',
+  aggregateId: '5',
+  payload: { loanId: 5, borrowAmount: '100' },
+  dispatchedAt: new Date(),
+  createdAt: new Date('2026-01-01T00:00:00Z')
+};
+
+const due = (overrides: Record<string, any> = {}) => ({
+  id: 21,
+  subscriptionId: 1,
+  outboxEventId: 11,
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: new Date(),
+  subscription: subscription(),
+  outboxEvent,
+  ...overrides
+});
+
+describe('WebhookDispatcher', () => {
+  const transport = jest.fn();
+  const dispatcher = new WebhookDispatcher(options, transport);
+
+  beforeEach(() => {
+    transport.mockResolvedValue(200);
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.outboxEvent.findMany.mockResolvedValue([]);
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([]);
+  });
+
+  it('should record events in the caller\'s transaction', async () => {
+    const tx = { outboxEvent: { create: jest.fn() } };
+
+    await outboxService.record({ type: 'LoanRepaid', aggregateType: 'loan', aggregateId: 5, data: { amount: '10' } }, tx as any);
+
+    expect(tx.outboxEvent.create).toHaveBeenCalledWith({
+      data: { eventType: 'LoanRepaid', aggregateType: 'loan', aggregateId: '5', payload: { amount: '10' }, requestId: null }
+    });
+    expect(mockPrisma.outboxEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('should fan new events out to matching subscriptions', async () => {
+    mockPrisma.outboxEvent.findMany.mockResolvedValue([{ ...outboxEvent, dispatchedAt: null }]);
+    mockPrisma.webhookSubscription.findMany.mockResolvedValue([
+      subscription(),
+      subscription({ id: 2, eventTypes: ['BidPlaced'] }),
+      subscription({ id: 3, eventTypes: ['BidPlaced', 'LoanCreated'] })
+    ]);
+
+    expect(await dispatcher.dispatchEvents()).toBe(1);
+
+    expect(mockPrisma.webhookDelivery.createMany).toHaveBeenCalledWith({
+      data: [{ subscriptionId: 1, outboxEventId: 11 }, { subscriptionId: 3, outboxEventId: 11 }],
+      skipDuplicates: true
+    });
+    expect(mockPrisma.outboxEvent.update).toHaveBeenCalledWith({
+      where: { id: 11 },
+      data: { dispatchedAt: expect.any(Date) }
+    });
+  });
+
+  it('should sign the body with the subscription secret', async () => {
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([due()]);
+
+    expect(await dispatcher.deliverDue()).toBe(1);
+
+    const [url, request] = transport.mock.calls[0];
+    const [, timestamp, signature] = request.headers['X-AFJP-Signature'].match(/^t=(\d+),v1=([0-9a-f]{64})$/);
+
+    expect(url).toBe('https://partner.example.com/hooks');
+    expect(signature).toBe(signPayload('whsec_test', Number(timestamp), request.body));
+    expect(request.headers['X-AFJP-Event']).toBe('LoanCreated');
+    expect(request.headers['X-Request-Id']).toEqual(expect.any(String));
+    expect(JSON.parse(request.body)).toEqual({
+      id: 11,
+      type: 'LoanCreated',
+      aggregateType: 'loan',
+      aggregateId: '5',
+      occurredAt: '2026-01-01T00:00:00.000Z',
+      data: { loanId: 5, borrowAmount: '100' }
+    });
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 21 },
+      data: expect.objectContaining({ status: 'delivered', lastStatusCode: 200 })
+    });
+  });
+
+  it('should send the ID of the request that raised the event', async () => {
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([due({ outboxEvent: { ...outboxEvent, requestId: 'req-1' } })]);
+
+    await dispatcher.deliverDue();
+
+    expect(transport.mock.calls[0][1].headers['X-Request-Id']).toBe('req-1');
+  });
+
+  it('should retry failed deliveries with exponential backoff', async () => {
+    transport.mockResolvedValue(503);
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([due({ attempts: 1 })]);
+    const before = Date.now();
+
+    expect(await dispatcher.deliverDue()).toBe(0);
+
+    const { data } = mockPrisma.webhookDelivery.update.mock.calls[0][0];
+    expect(data).toEqual(expect.objectContaining({ status: 'pending', lastStatusCode: 503, lastError: 'Endpoint responded with 503' }));
+    expect(data.nextAttemptAt.getTime() - before).toBeGreaterThanOrEqual(2000);
+    expect(data.nextAttemptAt.getTime() - before).toBeLessThan(3000);
+  });
+
+  it('should move deliveries to the dead letters after the last attempt', async () => {
+    transport.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([due({ attempts: 2 })]);
+
+    await dispatcher.deliverDue();
+
+    expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 21 },
+      data: expect.objectContaining({ status: 'dead', lastError: 'connect ECONNREFUSED' })
+    });
+  });
+
+  it('should skip deliveries leased by another worker', async () => {
+    mockPrisma.webhookDelivery.findMany.mockResolvedValue([due()]);
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await dispatcher.deliverDue()).toBe(0);
+
+    expect(transport).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,13 @@
 import { PrismaClient } from '@prisma/client';
+import { AptosAccount, AptosClient, TxnBuilderTypes } from 'aptos';
+import { EntryFunctionArgument } from '../types';
+import { encodeArguments } from '../utils/entryFunctions';
 
 // Mock Prisma client for testing
 export const mockPrisma = {
   user: {
     findUnique: jest.fn(),
+    findFirst: jest.fn(),
     findMany: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
@@ -15,22 +19,90 @@ export const mockPrisma = {
     findMany: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
+    upsert: jest.fn(),
     delete: jest.fn(),
   },
+  journalEntry: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+  },
+  journalLine: {
+    groupBy: jest.fn(),
+  },
   tokenTransaction: {
+    findUnique: jest.fn(),
     findMany: jest.fn(),
     create: jest.fn(),
+    updateMany: jest.fn(),
     aggregate: jest.fn(),
   },
   vestingSchedule: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
     findMany: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    upsert: jest.fn(),
+    updateMany: jest.fn(),
   },
   stakingRecord: {
+    aggregate: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    upsert: jest.fn(),
+  },
+  chainTransaction: {
+    groupBy: jest.fn(),
+    findUnique: jest.fn(),
     findMany: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  idempotencyRecord: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+  },
+  rateLimitOverride: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
+    delete: jest.fn(),
+  },
+  auditEvent: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    count: jest.fn(),
+  },
+  outboxEvent: {
+    count: jest.fn(),
+    create: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  webhookSubscription: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  webhookDelivery: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    count: jest.fn(),
+    createMany: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  indexerCursor: {
+    findUnique: jest.fn(),
+    upsert: jest.fn(),
   },
   property: {
     findMany: jest.fn(),
@@ -44,13 +116,17 @@ export const mockPrisma = {
     findUnique: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     count: jest.fn(),
   },
   loan: {
+    count: jest.fn(),
+    aggregate: jest.fn(),
     findMany: jest.fn(),
     findUnique: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
   },
   beneficiary: {
     findMany: jest.fn(),
@@ -58,35 +134,149 @@ export const mockPrisma = {
     deleteMany: jest.fn(),
   },
   inheritanceRequest: {
+    count: jest.fn(),
     findMany: jest.fn(),
     findUnique: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  session: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  refreshToken: {
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  userRole: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    upsert: jest.fn(),
+    deleteMany: jest.fn(),
   },
+  kycSubmission: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+  },
+  scheduledJob: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+    upsert: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    count: jest.fn(),
+  },
+  jobRun: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+  },
+  fundSnapshot: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    upsert: jest.fn(),
+    count: jest.fn(),
+  },
+  contribution: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  contributionPlan: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    create: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  contributionObligation: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    deleteMany: jest.fn(),
+    count: jest.fn(),
+  },
+  employer: {
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  employerMember: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+  },
+  payrollBatch: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    count: jest.fn(),
+  },
+  payrollEntry: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+  // The audit extension is left out, tests use the mock as is
+  $extends: jest.fn(function (this: unknown) { return this; }),
   $connect: jest.fn(),
   $disconnect: jest.fn(),
   $queryRaw: jest.fn(),
+  $executeRaw: jest.fn(),
+};
+
+// Mock Redis client for testing
+export const mockRedis = {
+  connect: jest.fn(),
+  quit: jest.fn(),
+  ping: jest.fn(),
+  get: jest.fn(),
+  set: jest.fn(),
+  del: jest.fn(),
+  getDel: jest.fn(),
+  mGet: jest.fn(),
+  incr: jest.fn(),
+  eval: jest.fn(),
 };
 
 // Mock the prisma module
 jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
   PrismaClient: jest.fn(() => mockPrisma),
 }));
 
 // Mock Redis
 jest.mock('redis', () => ({
-  createClient: jest.fn(() => ({
-    connect: jest.fn(),
-    quit: jest.fn(),
-    ping: jest.fn(),
-  })),
+  createClient: jest.fn(() => mockRedis),
 }));
 
 // Mock Aptos service
 jest.mock('../services/aptosService', () => ({
   aptosService: {
     getTokenBalance: jest.fn(),
+    getAuthenticationKey: jest.fn(),
     executeTransaction: jest.fn(),
+    submitSignedTransaction: jest.fn(),
     contribute: jest.fn(),
     burnAFJPForJuventud: jest.fn(),
     burnAFJPForLadrillo: jest.fn(),
@@ -103,13 +293,69 @@ jest.mock('../services/aptosService', () => ({
     getStakingInfo: jest.fn(),
     getLoanInfo: jest.fn(),
     getPropertyInfo: jest.fn(),
+    getModuleEvents: jest.fn(),
+    getTransactionMeta: jest.fn(),
+    getLedgerInfo: jest.fn(),
+    getTransactionStatus: jest.fn(),
+  },
+}));
+
+// Mock the selected chain adapter
+jest.mock('../services/chainAdapter', () => ({
+  chainAdapter: {
+    getTokenBalance: jest.fn(),
+    getAuthenticationKey: jest.fn(),
+    executeTransaction: jest.fn(),
+    submitSignedTransaction: jest.fn(),
+    getTransactionStatus: jest.fn(),
+    getTransactionMeta: jest.fn(),
+    getLedgerInfo: jest.fn(),
+    view: jest.fn(),
+    getModuleEvents: jest.fn(),
   },
+  operatorAccount: null,
 }));
 
+/**
+ * Sign an entry function call the way a wallet does, as BCS bytes
+ */
+export const signEntryFunction = (
+  account: AptosAccount,
+  moduleAddress: string,
+  functionName: string,
+  args: EntryFunctionArgument[],
+  options: { sequenceNumber?: number; expiresAt?: number; chainId?: number } = {}
+): Uint8Array => {
+  const [moduleName, name] = functionName.split('::');
+  const rawTransaction = new TxnBuilderTypes.RawTransaction(
+    TxnBuilderTypes.AccountAddress.fromHex(account.address()),
+    BigInt(options.sequenceNumber ?? 0),
+    new TxnBuilderTypes.TransactionPayloadEntryFunction(
+      TxnBuilderTypes.EntryFunction.natural(`${moduleAddress}::${moduleName}`, name, [], encodeArguments(functionName, args))
+    ),
+    BigInt(200000),
+    BigInt(100),
+    BigInt(options.expiresAt ?? Math.floor(Date.now() / 1000) + 600),
+    new TxnBuilderTypes.ChainId(options.chainId ?? 4)
+  );
+
+  return AptosClient.generateBCSTransaction(account, rawTransaction);
+};
+
 // Set up test environment
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
+process.env.TX_QUEUE_ENABLED = 'false';
+process.env.WEBHOOKS_ENABLED = 'false';
+process.env.JOBS_ENABLED = 'false';
+
 beforeEach(() => {
   jest.clearAllMocks();
+  // Interactive transactions run against the same mock client
+  mockPrisma.$transaction.mockImplementation((arg: any) =>
+    typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg)
+  );
 });
 
 // Global test utilities
 (global as any).mockPrisma = mockPrisma;
+(global as any).mockRedis = mockRedis;
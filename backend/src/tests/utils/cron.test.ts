@@ -0,0 +1,34 @@
+import { parseCron } from '../../utils/cron';
+
+const next = (expression: string, after: string) => parseCron(expression).next(new Date(after)).toISOString();
+
+describe('parseCron', () => {
+  it('should find the next matching minute strictly after the given time', () => {
+    expect(next('* * * * *', '2026-03-01T10:15:30Z')).toBe('2026-03-01T10:16:00.000Z');
+    expect(next('* * * * *', '2026-03-01T10:15:00Z')).toBe('2026-03-01T10:16:00.000Z');
+    expect(next('0 * * * *', '2026-03-01T10:15:00Z')).toBe('2026-03-01T11:00:00.000Z');
+    expect(next('5 0 * * *', '2026-03-01T00:05:00Z')).toBe('2026-03-02T00:05:00.000Z');
+  });
+
+  it('should support lists, ranges and steps', () => {
+    expect(next('*/15 * * * *', '2026-03-01T10:16:00Z')).toBe('2026-03-01T10:30:00.000Z');
+    expect(next('0 9-17/4 * * *', '2026-03-01T13:30:00Z')).toBe('2026-03-01T17:00:00.000Z');
+    expect(next('0 0 1,15 * *', '2026-03-02T00:00:00Z')).toBe('2026-03-15T00:00:00.000Z');
+    expect(next('30 6 * 12 *', '2026-03-01T00:00:00Z')).toBe('2026-12-01T06:30:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2026-03-01 is a Sunday
+    expect(next('0 0 13 * 5', '2026-03-01T00:00:00Z')).toBe('2026-03-06T00:00:00.000Z');
+    expect(next('0 0 * * 7', '2026-03-01T00:00:00Z')).toBe('2026-03-08T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('bad minute "60"');
+    expect(() => parseCron('* * * * mon')).toThrow('bad day of week "mon"');
+    expect(() => parseCron('*/0 * * * *')).toThrow('bad minute');
+    expect(() => parseCron('0 0 31 2 *').next(new Date())).toThrow('never matches');
+  });
+});
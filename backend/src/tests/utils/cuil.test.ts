@@ -0,0 +1,30 @@
+import { normalizeCuil } from '../../utils/cuil';
+import { parseCsv } from '../../utils/csv';
+
+describe('normalizeCuil', () => {
+  it('should accept CUILs and CUITs with or without dashes', () => {
+    expect(normalizeCuil('20-12345678-6')).toBe('20123456786');
+    expect(normalizeCuil(' 27333333339 ')).toBe('27333333339');
+    expect(normalizeCuil('30-71234567-1')).toBe('30712345671');
+  });
+
+  it('should reject a wrong check digit or a malformed value', () => {
+    expect(normalizeCuil('20-12345678-3')).toBeNull();
+    expect(normalizeCuil('20-1234567-6')).toBeNull();
+    expect(normalizeCuil('20.12345678.6')).toBeNull();
+  });
+});
+
+describe('parseCsv', () => {
+  it('should unquote fields and skip blank lines', () => {
+    expect(parseCsv('\uFEFFwallet,note\r\n0xa11ce,"Pérez, ""Juan"""\n\n0xb0b,\n')).toEqual([
+      ['wallet', 'note'],
+      ['0xa11ce', 'Pérez, "Juan"'],
+      ['0xb0b', '']
+    ]);
+  });
+
+  it('should refuse a quote that is never closed', () => {
+    expect(() => parseCsv('cuil\n"20123456786\n')).toThrow('Unterminated quoted field');
+  });
+});
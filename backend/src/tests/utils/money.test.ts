@@ -0,0 +1,47 @@
+import { Prisma } from '@prisma/client';
+import { Money } from '../../utils/money';
+
+describe('Money', () => {
+  it('should add and subtract without floating point drift', () => {
+    expect(Money.of(0.1).plus(0.2).toString()).toBe('0.30000000');
+    expect(Money.sum(['0.1', '0.2', '0.3']).minus('0.6').isZero()).toBe(true);
+  });
+
+  it('should round to the token decimals using the given policy', () => {
+    expect(Money.of('1.123456789').toString()).toBe('1.12345678');
+    expect(Money.of('1.123456785', 'half-up').toString()).toBe('1.12345679');
+    expect(Money.of('1.123456785', 'half-even').toString()).toBe('1.12345678');
+    expect(Money.of('1.000000001', 'up').toString()).toBe('1.00000001');
+  });
+
+  it('should round products and quotients down unless told otherwise', () => {
+    expect(Money.of(10).dividedBy(3).toString()).toBe('3.33333333');
+    expect(Money.of(20).dividedBy(3, 'half-even').toString()).toBe('6.66666667');
+    expect(Money.of(100).times(new Prisma.Decimal(1).div(3)).toString()).toBe('33.33333333');
+  });
+
+  it('should convert to and from u64 base units', () => {
+    expect(Money.of(1.5).toBaseUnits()).toBe('150000000');
+    expect(Money.of('0.000000019').toBaseUnits()).toBe('1');
+    expect(Money.fromBaseUnits('150000000').toString()).toBe('1.50000000');
+    expect(Money.of(1234.5, 'half-up', 0).toBaseUnits()).toBe('1235');
+  });
+
+  it('should reject amounts the chain cannot represent', () => {
+    expect(() => Money.of(-1).toBaseUnits()).toThrow(RangeError);
+    expect(() => Money.of('184467440737.09551616').toBaseUnits()).toThrow(RangeError);
+    expect(() => Money.fromBaseUnits('1.5')).toThrow(RangeError);
+    expect(() => Money.of(Number.NaN)).toThrow(RangeError);
+  });
+
+  it('should not mix amounts with different decimals', () => {
+    expect(() => Money.of(Money.of(1), 'down', 2)).toThrow(RangeError);
+  });
+
+  it('should compare and serialize as a decimal string', () => {
+    expect(Money.min('2.5', 3).toString()).toBe('2.50000000');
+    expect(Money.max(-1, 0).isZero()).toBe(true);
+    expect(Money.of(1).ratioTo(4)).toBe(0.25);
+    expect(JSON.stringify({ amount: Money.of(42) })).toBe('{"amount":"42.00000000"}');
+  });
+});
@@ -0,0 +1,45 @@
+import { LookupAddress } from 'dns';
+import { config } from '../../utils/config';
+import { isPublicAddress, publicLookup, webhookUrlProblem } from '../../utils/webhookUrl';
+
+const lookup = (hostname: string, all: boolean) =>
+  new Promise<string | LookupAddress[]>((resolve, reject) =>
+    publicLookup(hostname, { all }, (error, address) => (error ? reject(error) : resolve(address)))
+  );
+
+describe('webhook URLs', () => {
+  const profile = config.profile;
+
+  afterEach(() => {
+    config.profile = profile;
+  });
+
+  it('should tell public addresses from local and private ones', () => {
+    ['8.8.8.8', '2606:4700:4700::1111'].forEach(address => expect(isPublicAddress(address)).toBe(true));
+    ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']
+      .forEach(address => expect(isPublicAddress(address)).toBe(false));
+  });
+
+  it('should only accept https outside the dev and local-sim profiles', () => {
+    config.profile = 'prod';
+    expect(webhookUrlProblem('https://partner.example.com/hooks')).toBeNull();
+    expect(webhookUrlProblem('http://partner.example.com/hooks')).toBe('Must be an https URL');
+
+    config.profile = 'local-sim';
+    expect(webhookUrlProblem('http://partner.example.com/hooks')).toBeNull();
+    expect(webhookUrlProblem('ftp://partner.example.com/hooks')).toBe('Must be an http(s) URL');
+  });
+
+  it('should refuse local and private hosts in every profile', () => {
+    config.profile = 'dev';
+
+    ['http://localhost:3000', 'http://api.localhost', 'http://127.0.0.1', 'http://169.254.169.254/latest/meta-data', 'http://10.0.0.8:8080', 'http://[::1]/', 'http://[::ffff:192.168.0.1]/']
+      .forEach(url => expect(webhookUrlProblem(url)).toBe('Must not point at a local or private network address'));
+  });
+
+  it('should fail lookups that resolve to local or private addresses', async () => {
+    await expect(lookup('localhost', false)).rejects.toThrow('Must not point at a local or private network address');
+    await expect(lookup('8.8.8.8', false)).resolves.toBe('8.8.8.8');
+    await expect(lookup('8.8.8.8', true)).resolves.toEqual([{ address: '8.8.8.8', family: 4 }]);
+  });
+});
@@ -1,4 +1,7 @@
 import { Request } from 'express';
+import { AptosAccount, Types } from 'aptos';
+import type { Prisma } from '@prisma/client';
+import type { Money, MoneyInput } from '../utils/money';
 
 // User types
 export interface User {
@@ -12,6 +15,29 @@ export interface User {
   updatedAt: Date;
 }
 
+// KYC types
+export type KycStatus = 'pending' | 'submitted' | 'under_review' | 'verified' | 'rejected';
+
+export type KycGate = 'lending' | 'property_tokenization' | 'inheritance_claims';
+
+export interface KycDocument {
+  type: 'id_front' | 'id_back' | 'selfie' | 'proof_of_address';
+  reference: string;
+  sha256?: string;
+}
+
+export interface CreateKycSubmissionRequest {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  nationality: string;
+  documentType: 'dni' | 'passport';
+  documentNumber: string;
+  cuil?: string;
+  address?: string;
+  documents: KycDocument[];
+}
+
 export interface CreateUserRequest {
   walletAddress: string;
   email?: string;
@@ -43,7 +69,59 @@ export interface TokenTransaction {
   createdAt: Date;
 }
 
+// Ledger types
+export type LedgerBucket = 'available' | 'locked';
+
+export type SystemAccount =
+  | 'burned'
+  | 'staking_rewards'
+  | 'vesting_escrow'
+  | 'lending_pool'
+  | 'contributions';
+
+// Where tokens sit: a user's TokenBalance bucket, a platform account or an outside wallet
+export type LedgerAccount =
+  | { userId: number; bucket: LedgerBucket }
+  | { system: SystemAccount }
+  | { external: string };
+
+export type JournalEntryType =
+  | 'transfer'
+  | 'burn'
+  | 'stake'
+  | 'unstake'
+  | 'staking_reward'
+  | 'vesting_release'
+  | 'contribution'
+  | 'loan_open'
+  | 'loan_repay'
+  | 'loan_liquidation'
+  | 'inheritance'
+  | 'reversal';
+
+export interface LedgerPosting {
+  from: LedgerAccount;
+  to: LedgerAccount;
+  amount: MoneyInput;
+}
+
+export interface JournalEntryInput {
+  entryType: JournalEntryType;
+  tokenType: TokenType;
+  postings: LedgerPosting[];
+  reference?: string;
+  memo?: string;
+}
+
 // Vesting types
+export type VestingCurveType = 'linear' | 'monthly_step' | 'graded_yearly' | 'all_at_end' | 'custom';
+
+// Cumulative share vested once `month` whole months have passed since the start
+export interface VestingMilestone {
+  month: number;
+  percent: number;
+}
+
 export interface VestingSchedule {
   id: number;
   userId: number;
@@ -52,6 +130,8 @@ export interface VestingSchedule {
   startTime: Date;
   endTime: Date;
   cliffTime?: Date;
+  curveType: VestingCurveType;
+  milestones?: VestingMilestone[];
   isActive: boolean;
   createdAt: Date;
 }
@@ -61,6 +141,102 @@ export interface CreateVestingRequest {
   amount: number;
 }
 
+// Contribution types
+export type ContributionCurrency = 'USD' | 'ARS';
+
+// What a fiat contribution buys at the current price
+export interface ContributionQuote {
+  currency: ContributionCurrency;
+  fiatAmount: Money;
+  exchangeRate: Prisma.Decimal; // Currency units per USD
+  usdAmount: Money;
+  tokenPrice: Prisma.Decimal; // USD per AFJP
+  tokenAmount: Money;
+}
+
+export type ContributionStatus = 'pending' | 'confirmed' | 'rejected';
+
+export interface CreateContributionInput {
+  userId: number;
+  walletAddress: string;
+  amount: Money;
+  currency: ContributionCurrency;
+  employerId?: number; // Paid through the employer's payroll
+}
+
+// Payment settlement a pending contribution is confirmed against
+export interface ConfirmContributionRequest {
+  paymentReference: string;
+}
+
+export interface RejectContributionRequest {
+  reason: string;
+}
+
+export type ContributionPlanStatus = 'active' | 'paused' | 'cancelled';
+export type ContributionFundingSource = 'bank_transfer' | 'debit_card' | 'credit_card' | 'payroll';
+export type ContributionObligationStatus = 'pending' | 'late' | 'paid' | 'missed';
+
+export interface CreateContributionPlanRequest {
+  amount: Money;
+  currency: ContributionCurrency;
+  dueDay: number;
+  fundingSource: ContributionFundingSource;
+}
+
+// Payment record of a member, from their obligations and contributions
+export interface ContributionStats {
+  monthsPaid: number; // Calendar months with at least one contribution
+  yearsAccumulated: number;
+  currentStreak: number; // Obligations paid in a row, up to the latest settled one
+  longestStreak: number;
+  coverage: number; // Percentage of settled obligations that were paid
+  obligations: Record<ContributionObligationStatus, number>;
+  nextPayment: {
+    period: string; // 'YYYY-MM'
+    dueDate: Date;
+    amount: Money;
+    currency: ContributionCurrency;
+  } | null;
+}
+
+// Employer types
+export type EmployerMemberRole = 'manager' | 'employee';
+export type PayrollBatchStatus = 'processed' | 'partially_processed';
+
+export interface CreateEmployerRequest {
+  name: string;
+  cuit: string;
+  employeeRate: number;
+  employerRate: number;
+  managerAddress: string;
+}
+
+export interface EmployerChanges {
+  name?: string;
+  employeeRate?: number;
+  employerRate?: number;
+  isActive?: boolean;
+}
+
+export interface AddEmployerMemberRequest {
+  address: string;
+  role: EmployerMemberRole;
+  cuil?: string;
+}
+
+export interface PayrollUploadRequest {
+  csv: string;
+  currency: ContributionCurrency;
+  dryRun?: boolean;
+}
+
+// A payroll row that was not processed, `row` is its line in the file
+export interface PayrollRowError {
+  row: number;
+  errors: string[];
+}
+
 // Staking types
 export interface StakingRecord {
   id: number;
@@ -150,7 +326,7 @@ export interface InheritanceRequest {
   requesterId: number;
   deceasedAddress: string;
   requestTime: Date;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'completed';
   approvedBy?: string;
   approvedAt?: Date;
   notes?: string;
@@ -177,15 +353,56 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
 export interface AuthenticatedRequest extends Request {
   user?: User;
   walletAddress?: string;
+  sessionId?: number;
+  roles?: Role[];
+}
+
+// Access control types
+export type Role = 'admin' | 'property_manager' | 'inheritance_approver' | 'kyc_reviewer' | 'partner';
+
+export type Permission =
+  | 'roles:manage'
+  | 'properties:register'
+  | 'properties:tokenize'
+  | 'inheritance:review'
+  | 'loans:liquidate'
+  | 'kyc:review'
+  | 'ledger:audit'
+  | 'webhooks:manage'
+  | 'audit:read'
+  | 'rate_limits:manage'
+  | 'jobs:manage'
+  | 'employers:manage'
+  | 'contributions:confirm';
+
+export interface AccessTokenPayload {
+  userId: number;
+  walletAddress: string;
+  sid: number;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+  sessionId: number;
 }
 
 export interface WalletSignature {
   walletAddress: string;
+  publicKey: string;
   signature: string;
   message: string;
+  nonce: string;
   timestamp: number;
 }
 
+export interface WalletChallenge {
+  nonce: string;
+  message: string;
+  expiresAt: string;
+}
+
 // Aptos types
 export interface AptosTransaction {
   hash: string;
@@ -204,6 +421,241 @@ export interface AptosResource {
   data: any;
 }
 
+// Transaction queue types
+export type ChainTransactionStatus = 'awaiting_signature' | 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+export type EntryFunctionArgument = string | number | boolean | string[] | number[];
+
+export interface ChainTransactionRequest {
+  userId?: number;
+  functionName: string; // '<module>::<function>' on the AFJP module address
+  typeArguments?: string[];
+  arguments: EntryFunctionArgument[];
+}
+
+// Outcome of a submitted transaction as reported by the node
+export interface ChainTransactionResult {
+  status: 'pending' | 'confirmed' | 'failed';
+  vmStatus?: string;
+  version?: string;
+}
+
+// Ledger position of a committed transaction
+export interface ChainTransactionMeta {
+  hash: string;
+  blockHeight: string;
+}
+
+export interface LedgerInfo {
+  chainId: number;
+  ledgerVersion: string;
+  blockHeight: string;
+  ledgerTimestamp: Date;
+}
+
+// Chain access the services depend on, implemented by AptosService and the simulated ledger
+export interface ChainAdapter {
+  getTokenBalance(address: string, tokenType: string): Promise<Money>;
+  getAuthenticationKey(address: string): Promise<string>;
+  executeTransaction(
+    account: AptosAccount,
+    functionName: string,
+    typeArguments?: string[],
+    args?: EntryFunctionArgument[]
+  ): Promise<string>;
+  submitSignedTransaction(signedTransaction: Uint8Array): Promise<string>;
+  getTransactionStatus(hash: string): Promise<ChainTransactionResult>;
+  getTransactionMeta(version: string): Promise<ChainTransactionMeta>;
+  getLedgerInfo(): Promise<LedgerInfo>;
+  view(functionName: string, typeArguments?: string[], args?: EntryFunctionArgument[]): Promise<Types.MoveValue[]>;
+  getModuleEvents(handleStruct: string, fieldName: string, start: bigint, limit: number): Promise<Types.VersionedEvent[]>;
+}
+
+// Outbox types
+export type DomainEventType =
+  | 'TokensTransferred'
+  | 'TokensBurned'
+  | 'TokensStaked'
+  | 'TokensUnstaked'
+  | 'RewardsClaimed'
+  | 'VestingReleased'
+  | 'ContributionReceived'
+  | 'ContributionRejected'
+  | 'ContributionMissed'
+  | 'PayrollBatchProcessed'
+  | 'LoanCreated'
+  | 'LoanRepaid'
+  | 'LoanLiquidated'
+  | 'LoanOverdue'
+  | 'PropertyRegistered'
+  | 'PropertyTokenized'
+  | 'BidPlaced'
+  | 'AuctionSettled'
+  | 'BeneficiariesDesignated'
+  | 'InheritanceRequested'
+  | 'InheritanceApproved'
+  | 'InheritanceRejected'
+  | 'InheritanceExecuted';
+
+export interface DomainEvent {
+  type: DomainEventType;
+  aggregateType: string; // e.g. 'loan', 'property'
+  aggregateId: string | number;
+  data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface CreateWebhookSubscriptionRequest {
+  url: string;
+  eventTypes: DomainEventType[];
+  description?: string;
+}
+
+// Rate limiting types
+export type RateLimitPolicyName = 'global' | 'auth' | 'money' | 'analytics';
+
+export interface RateLimitPolicy {
+  windowMs: number;
+  max: number;
+  // 'wallet' keys by the authenticated wallet and falls back to the client IP
+  keyBy: 'ip' | 'wallet';
+}
+
+// Analytics cache types
+export type AnalyticsPeriod = '1d' | '7d' | '30d' | '90d' | '1y';
+
+export type AnalyticsReport = 'fundPerformance' | 'propertyValuations' | 'marketTrends';
+
+// Data the cached reports are computed from, writes invalidate by source
+export type AnalyticsSource = 'users' | 'properties' | 'transactions' | 'staking' | 'loans' | 'auctions';
+
+// Health check types
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface ComponentHealth {
+  status: HealthStatus;
+  // An unhealthy critical component makes the whole service unhealthy
+  critical: boolean;
+  latencyMs: number;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface BuildInfo {
+  version: string;
+  commit: string | null;
+  builtAt: string | null;
+  node: string;
+  environment: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  timestamp: string;
+  uptime: number;
+  build: BuildInfo;
+  components?: Record<string, ComponentHealth>;
+}
+
+// Request context, available to everything running for a request
+export interface RequestContext {
+  requestId: string;
+  ip?: string;
+  walletAddress?: string;
+  // e.g. 'POST /api/staking/stake', the route template once a route matched
+  route?: string;
+  // Set instead of `route` for background work, e.g. 'transaction-queue'
+  job?: string;
+}
+
+// Job scheduler types
+export type ScheduledJobStatus = 'pending' | 'completed' | 'failed';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface JobContext {
+  scheduledJobId: number;
+  attempt: number;
+  // When the run was due, the cron slot for recurring jobs
+  scheduledFor: Date;
+  payload: Record<string, unknown>;
+}
+
+// Whatever the handler returns is stored with the run, e.g. { settled: 3 }
+export type JobHandler = (context: JobContext) => Promise<Record<string, unknown> | void>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // Cron expression (minute hour day-of-month month day-of-week, UTC), omit for delayed-only jobs
+  schedule?: string;
+  maxAttempts?: number;
+  handler: JobHandler;
+}
+
+export interface ScheduleJobOptions {
+  runAt?: Date;
+  payload?: Record<string, unknown>;
+  // Scheduling the same key twice creates a single run
+  dedupeKey?: string;
+}
+
+// Audit types
+export interface AuditEntry {
+  actorWallet: string | null; // null for system actions
+  action: string; // '<entity>.<verb>', e.g. 'loan.update'
+  entityType: string;
+  entityId: string | number;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt?: number; // ID of the first event that does not match
+  reason?: string;
+}
+
+// Indexer types
+export type ChainEventType =
+  | 'MintEvent'
+  | 'BurnEvent'
+  | 'TransferEvent'
+  | 'StakeEvent'
+  | 'UnstakeEvent'
+  | 'ClaimEvent'
+  | 'ScheduleCreatedEvent'
+  | 'TokensReleasedEvent';
+
+interface ChainEventMeta {
+  key: string; // '<handle>#<sequence number>', unique per event
+  handle: string;
+  sequenceNumber: string;
+  version: string;
+}
+
+// Amounts are decimal strings in whole tokens, addresses are 0x-prefixed
+export type DecodedChainEvent = ChainEventMeta & (
+  | { type: 'MintEvent'; recipient: string; amount: string; timestamp: Date }
+  | { type: 'BurnEvent'; burner: string; amount: string; timestamp: Date }
+  | { type: 'TransferEvent'; from: string; to: string; amount: string; timestamp: Date }
+  | { type: 'StakeEvent'; user: string; amount: string; timestamp: Date }
+  | { type: 'UnstakeEvent'; user: string; amount: string; timestamp: Date }
+  | { type: 'ClaimEvent'; user: string; rewardAmount: string; timestamp: Date }
+  | {
+      type: 'ScheduleCreatedEvent';
+      beneficiary: string;
+      creator: string;
+      amount: string;
+      startTime: Date;
+      cliffTime: Date;
+      endTime: Date;
+    }
+  | { type: 'TokensReleasedEvent'; beneficiary: string; amount: string; totalReleased: string; timestamp: Date }
+);
+
 // Error types
 export class AppError extends Error {
   public statusCode: number;
@@ -218,21 +670,120 @@ export class AppError extends Error {
   }
 }
 
+export interface FieldError {
+  location: 'body' | 'params' | 'query';
+  field: string;
+  message: string;
+  code: string;
+}
+
+export class RequestValidationError extends AppError {
+  public errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super('Validation failed', 400);
+    this.errors = errors;
+  }
+}
+
+// A payroll file without a single row that can be processed
+export class PayrollValidationError extends AppError {
+  public rows: PayrollRowError[];
+
+  constructor(rows: PayrollRowError[]) {
+    super('No valid rows in the payroll file', 422);
+    this.rows = rows;
+  }
+}
+
+// How amounts are rounded to their decimals: 'down' truncates towards zero
+export type RoundingPolicy = 'down' | 'up' | 'half-up' | 'half-even';
+
 // Configuration types
+export type ConfigProfile = 'dev' | 'test' | 'prod' | 'local-sim';
+
 export interface AppConfig {
+  profile: ConfigProfile;
   port: number;
   nodeEnv: string;
   databaseUrl: string;
   redisUrl: string;
+  corsOrigin: string;
+  // Proxies in front of the API, so req.ip is the client and not the load balancer
+  trustProxyHops: number | null;
+  chainAdapter: 'aptos' | 'simulated';
   aptosNodeUrl: string;
   aptosFaucetUrl: string;
   afjpModuleAddress: string;
+  aptosOperatorPrivateKey: string | null;
+  // Whole AFJP minted by the simulated ledger at startup, by wallet
+  simulatedChainGenesis: Record<string, string>;
   jwtSecret: string;
   jwtExpiresIn: string;
-  corsOrigin: string;
-  rateLimitWindowMs: number;
-  rateLimitMaxRequests: number;
+  refreshTokenTtlDays: number;
+  adminWalletAddresses: string[];
+  rateLimits: Record<RateLimitPolicyName, Pick<RateLimitPolicy, 'windowMs' | 'max'>>;
+  rateLimitOverrideRefreshMs: number;
+  // AFJP price until a fund snapshot has a net asset value
+  afjpReferencePriceUsd: string;
+  arsPerUsd: string;
+  // Smallest monthly amount a contribution plan may commit to
+  contributionPlanMinUsd: string;
+  // Days after the due date before an unpaid obligation is missed
+  contributionGraceDays: number;
+  // Gates that require verified KYC
+  kycRequiredFor: KycGate[];
+  idempotencyTtlHours: number;
+  txQueueEnabled: boolean;
+  txQueueSubmitIntervalMs: number;
+  txQueuePollIntervalMs: number;
+  txQueueBatchSize: number;
+  txQueueMaxAttempts: number;
+  txQueueFinalityTimeoutMs: number;
+  // How long a transaction waits for the user's signature
+  txQueueSignatureTimeoutMs: number;
+  indexerEnabled: boolean;
+  // First ledger version the indexer applies, digits so it fits a u64
+  indexerStartVersion: string;
+  indexerPageSize: number;
+  indexerPollIntervalMs: number;
+  webhooksEnabled: boolean;
+  webhookPollIntervalMs: number;
+  webhookBatchSize: number;
+  webhookMaxAttempts: number;
+  webhookRetryBaseMs: number;
+  webhookRetryMaxMs: number;
+  webhookTimeoutMs: number;
+  jobsEnabled: boolean;
+  jobsPollIntervalMs: number;
+  jobsBatchSize: number;
+  jobsLockTtlMs: number;
+  jobsMaxAttempts: number;
+  jobsRetryBaseMs: number;
+  jobsRetryMaxMs: number;
+  analyticsCacheEnabled: boolean;
+  analyticsCacheLockMs: number;
+  healthCheckTimeoutMs: number;
+  healthCheckSlowMs: number;
+  healthMaxLedgerAgeMs: number;
+  healthMaxIndexerLagMs: number;
+  // Bearer token the scraper sends to /metrics, open when null
+  metricsToken: string | null;
+  // Base URL the API docs point clients at, localhost on the configured port when null
+  publicApiUrl: string | null;
+  // Build info reported by the health endpoints, set by CI
+  appVersion: string | null;
+  gitCommit: string | null;
+  buildTime: string | null;
   logLevel: string;
-  logFile: string;
-  healthCheckInterval: number;
+}
+
+export class ConfigError extends Error {
+  public problems: string[];
+
+  constructor(profile: string, problems: string[]) {
+    super(`Invalid configuration for profile '${profile}':\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
 }
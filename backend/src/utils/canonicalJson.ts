@@ -0,0 +1,16 @@
+// Sort object keys so the same value always serializes, and hashes, the same
+export const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+export const canonicalJson = (value: unknown): string => JSON.stringify(canonicalize(value));
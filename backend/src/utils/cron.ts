@@ -0,0 +1,107 @@
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+] as const;
+
+const MINUTE_MS = 60 * 1000;
+
+// Four years of minutes covers every schedule that can match at all, e.g. Feb 29
+const MAX_ITERATIONS = 4 * 366 * 24 * 60;
+
+export interface CronSchedule {
+  expression: string;
+  // First matching minute strictly after `after`
+  next(after: Date): Date;
+}
+
+const parseField = (value: string, field: typeof FIELDS[number], expression: string): Set<number> => {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid cron expression "${expression}": bad ${field.name} "${value}"`);
+
+  for (const part of value.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw invalid();
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText === undefined ? 1 : parseInt(stepText);
+    let [from, to] = range === '*'
+      ? [field.min, field.max]
+      : range.split('-').map(bound => parseInt(bound)) as [number, number?];
+
+    // 'a/n' runs from a to the end of the range
+    to = to ?? (stepText === undefined ? from : field.max);
+
+    if (step < 1 || from < field.min || to > field.max || from > to) {
+      throw invalid();
+    }
+
+    for (let i = from; i <= to; i += step) {
+      values.add(i);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parse a five-field cron expression (minute, hour, day of month, month,
+ * day of week) evaluated in UTC. Supports `*`, lists, ranges and steps.
+ * Like cron, a day matches either day field when both are restricted.
+ */
+export const parseCron = (expression: string): CronSchedule => {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected ${FIELDS.length} fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i], expression));
+
+  // Sunday is 0 or 7
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const anyDayOfMonth = parts[2] === '*';
+  const anyDayOfWeek = parts[4] === '*';
+
+  const dayMatches = (date: Date): boolean => {
+    const dayOfMonth = daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = daysOfWeek.has(date.getUTCDay());
+
+    if (anyDayOfMonth || anyDayOfWeek) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  };
+
+  return {
+    expression,
+
+    next(after: Date): Date {
+      const candidate = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+      for (let i = 0; i < MAX_ITERATIONS; i++) {
+        if (!months.has(candidate.getUTCMonth() + 1)) {
+          candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+          candidate.setUTCHours(0, 0);
+        } else if (!dayMatches(candidate)) {
+          candidate.setUTCDate(candidate.getUTCDate() + 1);
+          candidate.setUTCHours(0, 0);
+        } else if (!hours.has(candidate.getUTCHours())) {
+          candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+        } else if (!minutes.has(candidate.getUTCMinutes())) {
+          candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+        } else {
+          return candidate;
+        }
+      }
+
+      throw new Error(`Cron expression "${expression}" never matches`);
+    }
+  };
+};
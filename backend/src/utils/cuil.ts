@@ -0,0 +1,20 @@
+// Weights of the first 10 digits in the CUIL/CUIT check digit
+const WEIGHTS = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Normalize an Argentine CUIL or CUIT ("20-12345678-6" or "20123456786")
+ * to its 11 digits, or null when it is malformed or its check digit is wrong
+ */
+export const normalizeCuil = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!/^\d{2}-?\d{8}-?\d$/.test(trimmed)) {
+    return null;
+  }
+
+  const digits = trimmed.replace(/-/g, '');
+  const sum = WEIGHTS.reduce((total, weight, i) => total + weight * Number(digits[i]), 0);
+  const remainder = 11 - (sum % 11);
+  const check = remainder === 11 ? 0 : remainder;
+
+  return check !== 10 && check === Number(digits[10]) ? digits : null;
+};
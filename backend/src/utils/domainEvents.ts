@@ -0,0 +1,27 @@
+import { DomainEventType } from '../types';
+
+export const DOMAIN_EVENT_TYPES: DomainEventType[] = [
+  'TokensTransferred',
+  'TokensBurned',
+  'TokensStaked',
+  'TokensUnstaked',
+  'RewardsClaimed',
+  'VestingReleased',
+  'ContributionReceived',
+  'ContributionRejected',
+  'ContributionMissed',
+  'PayrollBatchProcessed',
+  'LoanCreated',
+  'LoanRepaid',
+  'LoanLiquidated',
+  'LoanOverdue',
+  'PropertyRegistered',
+  'PropertyTokenized',
+  'BidPlaced',
+  'AuctionSettled',
+  'BeneficiariesDesignated',
+  'InheritanceRequested',
+  'InheritanceApproved',
+  'InheritanceRejected',
+  'InheritanceExecuted'
+];
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { BCS, HexString, TransactionBuilder, TxnBuilderTypes } from 'aptos';
+import { AppError, EntryFunctionArgument } from '../types';
+
+// Who signs a transaction: the platform operator account, or the user it belongs to
+export type EntryFunctionSigner = 'operator' | 'sender';
+
+type MoveType = 'address' | 'u64';
+
+export interface EntryFunctionSpec {
+  signer: EntryFunctionSigner;
+  // Parameters after the &signer
+  params: MoveType[];
+}
+
+// Entry functions of the modules in contracts/sources
+export const ENTRY_FUNCTIONS: Record<string, EntryFunctionSpec> = {
+  'afjp_token::mint': { signer: 'operator', params: ['address', 'u64'] },
+  'afjp_token::burn': { signer: 'sender', params: ['u64'] },
+  'afjp_token::transfer': { signer: 'sender', params: ['address', 'u64'] },
+  'afjp_staking::stake_tokens': { signer: 'sender', params: ['u64'] },
+  'afjp_staking::unstake_tokens': { signer: 'sender', params: ['u64'] },
+  'afjp_staking::claim_rewards': { signer: 'sender', params: [] },
+  'afjp_staking::add_rewards': { signer: 'operator', params: ['u64'] },
+  'afjp_vesting::create_vesting_schedule': { signer: 'operator', params: ['address', 'u64'] },
+  'afjp_vesting::release_vested_tokens': { signer: 'sender', params: [] },
+  'juventud_token::burn_afjp_for_juventud': { signer: 'sender', params: ['u64'] },
+  'juventud_token::apply_rental_discount': { signer: 'sender', params: ['u64', 'u64'] },
+  'juventud_token::update_exchange_rate': { signer: 'operator', params: ['u64'] }
+};
+
+// A signed transaction that calls an entry function, as a wallet submits it
+export interface SignedEntryFunction {
+  sender: string;
+  sequenceNumber: bigint;
+  expiresAt: bigint;
+  chainId: number;
+  moduleAddress: string;
+  functionName: string;
+  args: Uint8Array[];
+  publicKey: Uint8Array;
+  signature: Uint8Array;
+  signingMessage: Uint8Array;
+}
+
+export const entryFunction = (functionName: string): EntryFunctionSpec => {
+  const spec = ENTRY_FUNCTIONS[functionName];
+
+  if (!spec) {
+    throw new AppError(`Unknown entry function ${functionName}`, 500);
+  }
+
+  return spec;
+};
+
+// Addresses as 0x followed by 64 lowercase hex digits
+export const standardizeAddress = (address: string): string =>
+  TxnBuilderTypes.AccountAddress.standardizeAddress(HexString.ensure(address).hex().toLowerCase());
+
+// Address an Ed25519 key signs for until the account rotates it
+export const authenticationKey = (publicKey: Uint8Array): string =>
+  standardizeAddress(TxnBuilderTypes.AuthenticationKey
+    .fromEd25519PublicKey(new TxnBuilderTypes.Ed25519PublicKey(publicKey))
+    .derivedAddress()
+    .hex());
+
+export const verifyEd25519 = (publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean => {
+  try {
+    const key = crypto.createPublicKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Buffer.from(publicKey).toString('base64url')
+      },
+      format: 'jwk'
+    });
+    return crypto.verify(null, message, key, signature);
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * BCS-encode the arguments of an entry function call the way a wallet
+ * puts them in the transaction payload
+ */
+export const encodeArguments = (functionName: string, args: EntryFunctionArgument[]): Uint8Array[] => {
+  const { params } = entryFunction(functionName);
+
+  if (args.length !== params.length) {
+    throw new AppError(`${functionName} takes ${params.length} arguments`, 500);
+  }
+
+  return params.map((type, index) => type === 'address'
+    ? BCS.bcsToBytes(TxnBuilderTypes.AccountAddress.fromHex(String(args[index])))
+    : BCS.bcsSerializeUint64(BigInt(String(args[index]))));
+};
+
+export const decodeArguments = (functionName: string, args: Uint8Array[]): EntryFunctionArgument[] => {
+  const { params } = entryFunction(functionName);
+
+  if (args.length !== params.length) {
+    throw new AppError(`${functionName} takes ${params.length} arguments`, 400);
+  }
+
+  return params.map((type, index) => {
+    const deserializer = new BCS.Deserializer(args[index]);
+    return type === 'address'
+      ? standardizeAddress(HexString.fromUint8Array(TxnBuilderTypes.AccountAddress.deserialize(deserializer).address).hex())
+      : deserializer.deserializeU64().toString();
+  });
+};
+
+/**
+ * Decode a BCS signed transaction. Only single-key transactions that call
+ * a non-generic entry function are accepted, which covers every AFJP call.
+ */
+export const decodeSignedTransaction = (bytes: Uint8Array): SignedEntryFunction => {
+  let signed: TxnBuilderTypes.SignedTransaction;
+  try {
+    signed = TxnBuilderTypes.SignedTransaction.deserialize(new BCS.Deserializer(bytes));
+  } catch (error) {
+    throw new AppError('Invalid signed transaction', 400);
+  }
+
+  const { raw_txn: raw, authenticator } = signed;
+
+  if (!(raw.payload instanceof TxnBuilderTypes.TransactionPayloadEntryFunction) || raw.payload.value.ty_args.length > 0) {
+    throw new AppError('Signed transaction must call an AFJP entry function', 400);
+  }
+  if (!(authenticator instanceof TxnBuilderTypes.TransactionAuthenticatorEd25519)) {
+    throw new AppError('Signed transaction must be signed with a single Ed25519 key', 400);
+  }
+
+  const { module_name: module, function_name: fn, args } = raw.payload.value;
+
+  return {
+    sender: standardizeAddress(HexString.fromUint8Array(raw.sender.address).hex()),
+    sequenceNumber: BigInt(raw.sequence_number),
+    expiresAt: BigInt(raw.expiration_timestamp_secs),
+    chainId: raw.chain_id.value,
+    moduleAddress: standardizeAddress(HexString.fromUint8Array(module.address.address).hex()),
+    functionName: `${module.name.value}::${fn.value}`,
+    args,
+    publicKey: authenticator.public_key.value,
+    signature: authenticator.signature.value,
+    signingMessage: TransactionBuilder.getSigningMessage(raw)
+  };
+};
@@ -1,7 +1,24 @@
 import winston from 'winston';
 import path from 'path';
+import { config } from './config';
+import { getRequestContext } from './requestContext';
+
+// Tag every line logged during a request or job with its context, unless the call set the field itself
+const requestContext = winston.format(info => {
+  const context = getRequestContext();
+
+  if (context) {
+    info.requestId = info.requestId ?? context.requestId;
+    info.walletAddress = info.walletAddress ?? context.walletAddress;
+    info.route = info.route ?? context.route;
+    info.job = info.job ?? context.job;
+  }
+
+  return info;
+});
 
 const logFormat = winston.format.combine(
+  requestContext(),
   winston.format.timestamp({
     format: 'YYYY-MM-DD HH:mm:ss'
   }),
@@ -10,7 +27,7 @@ const logFormat = winston.format.combine(
 );
 
 const logger = winston.createLogger({
-  level: process.env.LOG_LEVEL || 'info',
+  level: config.logLevel,
   format: logFormat,
   defaultMeta: { service: 'afjp-crypto-backend' },
   transports: [
@@ -31,7 +48,7 @@ const logger = winston.createLogger({
 });
 
 // If we're not in production, log to the console as well
-if (process.env.NODE_ENV !== 'production') {
+if (config.nodeEnv !== 'production') {
   logger.add(new winston.transports.Console({
     format: winston.format.combine(
       winston.format.colorize(),
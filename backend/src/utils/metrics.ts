@@ -0,0 +1,185 @@
+import { collectDefaultMetrics, Counter, Gauge, GaugeConfiguration, Histogram, Registry } from 'prom-client';
+import { prisma } from '../index';
+import { ChainAdapter } from '../types';
+import { logger } from './logger';
+
+export const registry = new Registry();
+
+collectDefaultMetrics({ register: registry });
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by route template and status code',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry]
+});
+
+export const chainCallDuration = new Histogram({
+  name: 'aptos_call_duration_seconds',
+  help: 'Duration of calls to the Aptos node by operation and entry or view function',
+  labelNames: ['operation', 'function'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry]
+});
+
+export const chainCallFailures = new Counter({
+  name: 'aptos_call_failures_total',
+  help: 'Failed calls to the Aptos node by operation and entry or view function',
+  labelNames: ['operation', 'function'] as const,
+  registers: [registry]
+});
+
+export const jobRunDuration = new Histogram({
+  name: 'job_run_duration_seconds',
+  help: 'Duration of background job runs by job and outcome',
+  labelNames: ['job', 'status'] as const,
+  buckets: [0.1, 0.5, 1, 5, 15, 60, 300, 900],
+  registers: [registry]
+});
+
+/**
+ * Time every chain call. Entry and view functions are labelled by name,
+ * everything else by operation only.
+ */
+export const instrumentChainAdapter = (chain: ChainAdapter): ChainAdapter => {
+  const timed = <A extends unknown[], R>(
+    operation: string,
+    call: (...args: A) => Promise<R>,
+    functionOf: (args: A) => string = () => ''
+  ) => async (...args: A): Promise<R> => {
+    const labels = { operation, function: functionOf(args) };
+    const stopTimer = chainCallDuration.startTimer(labels);
+
+    try {
+      return await call(...args);
+    } catch (error) {
+      chainCallFailures.inc(labels);
+      throw error;
+    } finally {
+      stopTimer();
+    }
+  };
+
+  return {
+    getTokenBalance: timed('getTokenBalance', chain.getTokenBalance.bind(chain)),
+    getAuthenticationKey: timed('getAuthenticationKey', chain.getAuthenticationKey.bind(chain)),
+    executeTransaction: timed('executeTransaction', chain.executeTransaction.bind(chain), args => args[1]),
+    submitSignedTransaction: timed('submitSignedTransaction', chain.submitSignedTransaction.bind(chain)),
+    getTransactionStatus: timed('getTransactionStatus', chain.getTransactionStatus.bind(chain)),
+    getTransactionMeta: timed('getTransactionMeta', chain.getTransactionMeta.bind(chain)),
+    getLedgerInfo: timed('getLedgerInfo', chain.getLedgerInfo.bind(chain)),
+    view: timed('view', chain.view.bind(chain), args => args[0]),
+    getModuleEvents: timed('getModuleEvents', chain.getModuleEvents.bind(chain), args => `${args[0]}/${args[1]}`)
+  };
+};
+
+/**
+ * Gauge read from the database on every scrape. Queue depths and KPIs are
+ * global, so aggregate them across instances with max() rather than sum().
+ * A failing query keeps the last value, so the rest of the scrape still works.
+ */
+const databaseGauge = <L extends string = string>(
+  config: Omit<GaugeConfiguration<L>, 'registers' | 'collect'>,
+  read: (gauge: Gauge<L>) => Promise<void>
+) => new Gauge<L>({
+  ...config,
+  registers: [registry],
+  async collect() {
+    try {
+      await read(this);
+    } catch (error) {
+      logger.error('Failed to collect metric:', { metric: config.name, error });
+    }
+  }
+});
+
+databaseGauge({
+  name: 'chain_transaction_queue_depth',
+  help: 'Chain transactions waiting to be signed, submitted or confirmed',
+  labelNames: ['status'] as const
+}, async gauge => {
+  const groups = await prisma.chainTransaction.groupBy({
+    by: ['status'],
+    where: { status: { in: ['awaiting_signature', 'pending', 'submitted'] } },
+    _count: { _all: true }
+  });
+
+  gauge.set({ status: 'awaiting_signature' }, 0);
+  gauge.set({ status: 'pending' }, 0);
+  gauge.set({ status: 'submitted' }, 0);
+  groups.forEach(group => gauge.set({ status: group.status }, group._count._all));
+});
+
+databaseGauge({
+  name: 'outbox_events_undispatched',
+  help: 'Domain events not yet fanned out to webhook subscriptions'
+}, async gauge => {
+  gauge.set(await prisma.outboxEvent.count({ where: { dispatchedAt: null } }));
+});
+
+databaseGauge({
+  name: 'webhook_deliveries',
+  help: 'Webhook deliveries awaiting delivery or dead-lettered',
+  labelNames: ['status'] as const
+}, async gauge => {
+  const [pending, dead] = await Promise.all([
+    prisma.webhookDelivery.count({ where: { status: 'pending' } }),
+    prisma.webhookDelivery.count({ where: { status: 'dead' } })
+  ]);
+
+  gauge.set({ status: 'pending' }, pending);
+  gauge.set({ status: 'dead' }, dead);
+});
+
+databaseGauge({
+  name: 'scheduled_jobs',
+  help: 'Job runs waiting to run or given up after their last attempt',
+  labelNames: ['status'] as const
+}, async gauge => {
+  const [pending, failed] = await Promise.all([
+    prisma.scheduledJob.count({ where: { status: 'pending' } }),
+    prisma.scheduledJob.count({ where: { status: 'failed' } })
+  ]);
+
+  gauge.set({ status: 'pending' }, pending);
+  gauge.set({ status: 'failed' }, failed);
+});
+
+databaseGauge({
+  name: 'afjp_staked_tokens',
+  help: 'AFJP currently staked'
+}, async gauge => {
+  const staked = await prisma.stakingRecord.aggregate({
+    where: { isActive: true },
+    _sum: { stakedAmount: true }
+  });
+
+  gauge.set(Number(staked._sum.stakedAmount || 0));
+});
+
+databaseGauge({
+  name: 'afjp_loans_active',
+  help: 'Loans not yet repaid or liquidated'
+}, async gauge => {
+  gauge.set(await prisma.loan.count({ where: { isActive: true } }));
+});
+
+databaseGauge({
+  name: 'afjp_loan_outstanding_principal',
+  help: 'Principal outstanding on active loans'
+}, async gauge => {
+  const loans = await prisma.loan.aggregate({
+    where: { isActive: true },
+    _sum: { borrowedAmount: true }
+  });
+
+  gauge.set(Number(loans._sum.borrowedAmount || 0));
+});
+
+databaseGauge({
+  name: 'afjp_inheritance_requests_pending',
+  help: 'Inheritance requests awaiting approval'
+}, async gauge => {
+  gauge.set(await prisma.inheritanceRequest.count({ where: { status: 'pending' } }));
+});
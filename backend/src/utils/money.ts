@@ -0,0 +1,173 @@
+import { Prisma } from '@prisma/client';
+import { RoundingPolicy } from '../types';
+
+// On-chain tokens use 8 decimals, matching the Decimal(20, 8) columns
+export const TOKEN_DECIMALS = 8;
+
+// Fiat amounts (contributions, salaries) are kept in cents
+export const FIAT_DECIMALS = 2;
+
+const U64_MAX = BigInt('18446744073709551615');
+
+const ROUNDING_MODES: Record<RoundingPolicy, Prisma.Decimal.Rounding> = {
+  down: Prisma.Decimal.ROUND_DOWN,
+  up: Prisma.Decimal.ROUND_UP,
+  'half-up': Prisma.Decimal.ROUND_HALF_UP,
+  'half-even': Prisma.Decimal.ROUND_HALF_EVEN
+};
+
+export type MoneyInput = Money | Prisma.Decimal | number | string;
+
+// Multipliers and divisors are plain ratios, not amounts
+type Factor = Prisma.Decimal | number | string;
+
+/**
+ * Token amount with a fixed number of decimals, backed by a decimal so sums
+ * and differences are exact. Anything that can produce more decimals
+ * (multiplying, dividing, parsing) rounds explicitly, towards zero unless a
+ * policy is given. Serializes to a string with every decimal, e.g. "1.50000000".
+ */
+export class Money {
+  private constructor(private readonly value: Prisma.Decimal, readonly decimals: number) {}
+
+  static of(input: MoneyInput, rounding: RoundingPolicy = 'down', decimals: number = TOKEN_DECIMALS): Money {
+    if (input instanceof Money) {
+      if (input.decimals !== decimals) {
+        throw new RangeError(`Cannot use an amount with ${input.decimals} decimals as one with ${decimals}`);
+      }
+      return input;
+    }
+
+    const value = new Prisma.Decimal(input);
+    if (!value.isFinite()) {
+      throw new RangeError(`Invalid amount: ${String(input)}`);
+    }
+
+    return new Money(value.toDecimalPlaces(decimals, ROUNDING_MODES[rounding]), decimals);
+  }
+
+  static zero(decimals: number = TOKEN_DECIMALS): Money {
+    return new Money(new Prisma.Decimal(0), decimals);
+  }
+
+  /**
+   * Amount from the u64 base units entry functions and resources use
+   */
+  static fromBaseUnits(units: string | bigint | number, decimals: number = TOKEN_DECIMALS): Money {
+    const value = new Prisma.Decimal(units.toString());
+    if (!value.isInteger()) {
+      throw new RangeError(`Base units must be a whole number: ${units}`);
+    }
+
+    return new Money(value.div(new Prisma.Decimal(10).pow(decimals)), decimals);
+  }
+
+  static sum(inputs: MoneyInput[], decimals: number = TOKEN_DECIMALS): Money {
+    return inputs.reduce<Money>((total, input) => total.plus(input), Money.zero(decimals));
+  }
+
+  static min(first: MoneyInput, second: MoneyInput): Money {
+    const a = Money.of(first);
+    const b = Money.of(second, 'down', a.decimals);
+    return a.lte(b) ? a : b;
+  }
+
+  static max(first: MoneyInput, second: MoneyInput): Money {
+    const a = Money.of(first);
+    const b = Money.of(second, 'down', a.decimals);
+    return a.gte(b) ? a : b;
+  }
+
+  plus(other: MoneyInput): Money {
+    return new Money(this.value.plus(this.operand(other)), this.decimals);
+  }
+
+  minus(other: MoneyInput): Money {
+    return new Money(this.value.minus(this.operand(other)), this.decimals);
+  }
+
+  times(factor: Factor, rounding: RoundingPolicy = 'down'): Money {
+    return Money.of(this.value.mul(factor), rounding, this.decimals);
+  }
+
+  dividedBy(divisor: Factor, rounding: RoundingPolicy = 'down'): Money {
+    return Money.of(this.value.div(divisor), rounding, this.decimals);
+  }
+
+  // How many times `other` fits, e.g. a share or a coverage ratio
+  ratioTo(other: MoneyInput): number {
+    return this.value.div(this.operand(other)).toNumber();
+  }
+
+  cmp(other: MoneyInput): number {
+    return this.value.cmp(this.operand(other));
+  }
+
+  eq(other: MoneyInput): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  gt(other: MoneyInput): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: MoneyInput): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  lt(other: MoneyInput): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: MoneyInput): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  isZero(): boolean {
+    return this.value.isZero();
+  }
+
+  isPositive(): boolean {
+    return this.value.gt(0);
+  }
+
+  isNegative(): boolean {
+    return this.value.lt(0);
+  }
+
+  /**
+   * u64 base units for entry function arguments. Throws for amounts the
+   * chain cannot represent.
+   */
+  toBaseUnits(): string {
+    const units = BigInt(this.value.mul(new Prisma.Decimal(10).pow(this.decimals)).toFixed(0));
+
+    if (units < BigInt(0) || units > U64_MAX) {
+      throw new RangeError(`Amount ${this.toString()} does not fit in a u64`);
+    }
+
+    return units.toString();
+  }
+
+  // For Prisma writes
+  toDecimal(): Prisma.Decimal {
+    return this.value;
+  }
+
+  // Lossy, only for metrics and display ratios
+  toNumber(): number {
+    return this.value.toNumber();
+  }
+
+  toString(): string {
+    return this.value.toFixed(this.decimals);
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private operand(other: MoneyInput): Prisma.Decimal {
+    return Money.of(other, 'down', this.decimals).value;
+  }
+}
@@ -0,0 +1,215 @@
+import { Router } from 'express';
+import { ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+import { RequestSchemas } from '../middleware/validation';
+
+type OpenApiSchema = Record<string, any>;
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * Convert a zod schema into an OpenAPI 3.0 schema object. Only the zod
+ * features used by src/schemas are covered; effects (refine/transform)
+ * are documented by their input type.
+ */
+export const zodToOpenApi = (schema: ZodTypeAny): OpenApiSchema => {
+  const def = schema._def;
+  const withDescription = (result: OpenApiSchema): OpenApiSchema =>
+    schema.description ? { ...result, description: schema.description } : result;
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: OpenApiSchema = { type: 'string' };
+      for (const check of def.checks) {
+        switch (check.kind) {
+          case 'min': result.minLength = check.value; break;
+          case 'max': result.maxLength = check.value; break;
+          case 'length': result.minLength = result.maxLength = check.value; break;
+          case 'regex': result.pattern = check.regex.source; break;
+          case 'email': result.format = 'email'; break;
+          case 'uuid': result.format = 'uuid'; break;
+          case 'date': result.format = 'date'; break;
+          case 'datetime': result.format = 'date-time'; break;
+        }
+      }
+      return withDescription(result);
+    }
+
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const result: OpenApiSchema = { type: 'number' };
+      for (const check of def.checks) {
+        if (check.kind === 'int') {
+          result.type = 'integer';
+        } else if (check.kind === 'min') {
+          result.minimum = check.value;
+          if (!check.inclusive) result.exclusiveMinimum = true;
+        } else if (check.kind === 'max') {
+          result.maximum = check.value;
+          if (!check.inclusive) result.exclusiveMaximum = true;
+        }
+      }
+      return withDescription(result);
+    }
+
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription({ type: 'boolean' });
+
+    case ZodFirstPartyTypeKind.ZodDate:
+      return withDescription({ type: 'string', format: 'date-time' });
+
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription({ type: 'string', enum: def.values });
+
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return withDescription({ type: typeof def.value, enum: [def.value] });
+
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const result: OpenApiSchema = { type: 'array', items: zodToOpenApi(def.type) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      return withDescription(result);
+    }
+
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+      const result: OpenApiSchema = {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [key, zodToOpenApi(value)])
+        )
+      };
+      if (required.length > 0) result.required = required;
+      return withDescription(result);
+    }
+
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription({ type: 'object', additionalProperties: zodToOpenApi(def.valueType) });
+
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return withDescription({ oneOf: def.options.map(zodToOpenApi) });
+
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return withDescription(zodToOpenApi(def.innerType));
+
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return withDescription({ ...zodToOpenApi(def.innerType), nullable: true });
+
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return withDescription({ ...zodToOpenApi(def.innerType), default: def.defaultValue() });
+
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return withDescription(zodToOpenApi(def.schema));
+
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return withDescription(zodToOpenApi(def.in));
+
+    default:
+      return withDescription({});
+  }
+};
+
+const toParameters = (location: 'path' | 'query', schema?: ZodTypeAny): OpenApiSchema[] => {
+  if (!schema) {
+    return [];
+  }
+
+  const { properties = {}, required = [] } = zodToOpenApi(schema);
+
+  return Object.entries(properties as Record<string, OpenApiSchema>).map(([name, { description, ...property }]) => ({
+    in: location,
+    name,
+    required: location === 'path' || required.includes(name),
+    schema: property,
+    ...(description && { description })
+  }));
+};
+
+/**
+ * Build the `parameters` and `requestBody` of an OpenAPI operation
+ */
+export const toOperation = (schemas: RequestSchemas): OpenApiSchema => {
+  const operation: OpenApiSchema = {};
+  const parameters = [
+    ...toParameters('path', schemas.params),
+    ...toParameters('query', schemas.query)
+  ];
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  if (schemas.body) {
+    operation.requestBody = {
+      required: !schemas.body.isOptional(),
+      content: {
+        'application/json': { schema: zodToOpenApi(schemas.body) }
+      }
+    };
+  }
+
+  return operation;
+};
+
+/**
+ * Merge the request schemas of every validated route, the Idempotency-Key
+ * header of idempotent ones and the 429 of rate limited ones into an OpenAPI
+ * spec whose summaries and responses come from the @swagger JSDoc blocks
+ */
+export const applyRequestSchemas = (spec: OpenApiSchema, routers: Record<string, Router>): OpenApiSchema => {
+  spec.paths = spec.paths || {};
+
+  for (const [basePath, router] of Object.entries(routers)) {
+    for (const layer of router.stack) {
+      // Express does not type the route internals it keeps on the stack
+      const route: any = layer.route;
+      if (!route || typeof route.path !== 'string') {
+        continue;
+      }
+
+      const validator = route.stack.find((routeLayer: any) => routeLayer.handle.schemas);
+      const idempotent = route.stack.some((routeLayer: any) => routeLayer.handle.idempotent);
+      const rateLimited = route.stack.some((routeLayer: any) => routeLayer.handle.rateLimitPolicy);
+      if (!validator && !idempotent && !rateLimited) {
+        continue;
+      }
+
+      const path = `${basePath}${route.path === '/' ? '' : route.path}`.replace(/:(\w+)/g, '{$1}');
+      const methods = Object.keys(route.methods).filter(method => HTTP_METHODS.includes(method));
+
+      for (const method of methods) {
+        spec.paths[path] = spec.paths[path] || {};
+        const operation = spec.paths[path][method] || {};
+        const responses = { ...operation.responses };
+
+        const generated = validator ? toOperation(validator.handle.schemas) : {};
+
+        if (validator) {
+          responses[400] = {
+            description: responses[400]?.description || 'Validation failed',
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } }
+            }
+          };
+        }
+
+        if (idempotent) {
+          generated.parameters = [
+            ...(generated.parameters || []),
+            { $ref: '#/components/parameters/IdempotencyKey' }
+          ];
+          responses[409] = responses[409] || {
+            description: 'Idempotency-Key reused with a different body, or its first request is still in progress'
+          };
+        }
+
+        if (rateLimited) {
+          responses[429] = responses[429] || { $ref: '#/components/responses/TooManyRequests' };
+        }
+
+        spec.paths[path][method] = { ...operation, ...generated, responses };
+      }
+    }
+  }
+
+  return spec;
+};
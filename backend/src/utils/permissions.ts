@@ -0,0 +1,50 @@
+import { Permission, Role } from '../types';
+import { config } from './config';
+
+export const ROLES: Role[] = ['admin', 'property_manager', 'inheritance_approver', 'kyc_reviewer', 'partner'];
+
+// Permissions granted by each role. Admins can do everything.
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'roles:manage',
+    'properties:register',
+    'properties:tokenize',
+    'inheritance:review',
+    'loans:liquidate',
+    'kyc:review',
+    'ledger:audit',
+    'audit:read',
+    'rate_limits:manage',
+    'webhooks:manage',
+    'jobs:manage',
+    'employers:manage',
+    'contributions:confirm'
+  ],
+  property_manager: [
+    'properties:register',
+    'properties:tokenize'
+  ],
+  inheritance_approver: [
+    'inheritance:review'
+  ],
+  kyc_reviewer: [
+    'kyc:review'
+  ],
+  partner: [
+    'webhooks:manage'
+  ]
+};
+
+export const isRole = (value: string): value is Role => ROLES.includes(value as Role);
+
+export const hasPermission = (roles: Role[], permission: Permission): boolean =>
+  roles.some(role => ROLE_PERMISSIONS[role].includes(permission));
+
+/**
+ * Wallets listed in ADMIN_WALLET_ADDRESSES are always admins, so the first
+ * admin can be bootstrapped before any role has been granted.
+ */
+export const isBootstrapAdmin = (
+  walletAddress: string,
+  adminWalletAddresses: string[] = config.adminWalletAddresses
+): boolean => adminWalletAddresses.includes(walletAddress.toLowerCase());
@@ -0,0 +1,23 @@
+import { AppConfig, RateLimitPolicy, RateLimitPolicyName } from '../types';
+import { config } from './config';
+
+/**
+ * Request budgets per window. 'global' applies to every request by client IP.
+ * The others are attached to routes: 'auth' to sign-in endpoints, 'money' to
+ * endpoints that move tokens and 'analytics' to the analytics queries.
+ */
+export const buildRateLimitPolicies = (
+  limits: AppConfig['rateLimits']
+): Record<RateLimitPolicyName, RateLimitPolicy> => ({
+  global: { ...limits.global, keyBy: 'ip' },
+  auth: { ...limits.auth, keyBy: 'ip' },
+  money: { ...limits.money, keyBy: 'wallet' },
+  analytics: { ...limits.analytics, keyBy: 'wallet' }
+});
+
+export const RATE_LIMIT_POLICIES = buildRateLimitPolicies(config.rateLimits);
+
+export const RATE_LIMIT_POLICY_NAMES = Object.keys(RATE_LIMIT_POLICIES) as RateLimitPolicyName[];
+
+// Overrides apply to one policy or, with this name, to all of them
+export const ALL_POLICIES = '*';
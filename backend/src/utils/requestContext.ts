@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestContext } from '../types';
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with `context` available to everything it calls, including
+ * async continuations, through getRequestContext()
+ */
+export const runWithContext = <T>(context: RequestContext, fn: () => T): T => storage.run(context, fn);
+
+// Undefined outside of a request or job
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+// Stored with queued work, so the worker can pick the request ID up again
+export const currentRequestId = (): string | null => storage.getStore()?.requestId || null;
+
+/**
+ * Run background work for a row a request queued under that request's ID, so
+ * the worker's logs can be traced back to it. Work without one gets a new ID.
+ */
+export const runAsJob = <T>(
+  job: string,
+  requestId: string | null,
+  fn: () => T,
+  walletAddress?: string
+): T => storage.run({ requestId: requestId || crypto.randomUUID(), job, walletAddress }, fn);
@@ -1,6 +1,8 @@
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
-import { Express } from 'express';
+import { Express, Router } from 'express';
+import { config } from './config';
+import { applyRequestSchemas } from './openapi';
 
 const options = {
   definition: {
@@ -16,10 +18,8 @@ const options = {
     },
     servers: [
       {
-        url: process.env.NODE_ENV === 'production' 
-          ? 'https://api.afjpcrypto.com' 
-          : `http://localhost:${process.env.PORT || 3000}`,
-        description: process.env.NODE_ENV === 'production' ? 'Production server' : 'Development server'
+        url: config.publicApiUrl || `http://localhost:${config.port}`,
+        description: config.profile === 'prod' ? 'Production server' : 'Development server'
       }
     ],
     components: {
@@ -32,7 +32,31 @@ const options = {
         walletAuth: {
           type: 'apiKey',
           in: 'header',
-          name: 'X-Wallet-Signature'
+          name: 'X-Wallet-Signature',
+          description: 'Ed25519 signature of a challenge from /api/auth/challenge. Also requires X-Wallet-Address, X-Wallet-Public-Key, X-Wallet-Nonce, X-Wallet-Timestamp and the base64-encoded signed message in X-Wallet-Message.'
+        }
+      },
+      parameters: {
+        IdempotencyKey: {
+          in: 'header',
+          name: 'Idempotency-Key',
+          required: false,
+          schema: { type: 'string', minLength: 1, maxLength: 255 },
+          description: 'Unique key for this operation. Retries with the same key and body replay the first response (marked with Idempotent-Replayed: true).'
+        }
+      },
+      responses: {
+        TooManyRequests: {
+          description: 'Rate limit exceeded, retry after the number of seconds in Retry-After',
+          headers: {
+            'RateLimit-Limit': { schema: { type: 'integer' }, description: 'Requests allowed in the window' },
+            'RateLimit-Remaining': { schema: { type: 'integer' }, description: 'Requests left in the window' },
+            'RateLimit-Reset': { schema: { type: 'integer' }, description: 'Seconds until the window resets' },
+            'Retry-After': { schema: { type: 'integer' } }
+          },
+          content: {
+            'application/json': { schema: { $ref: '#/components/schemas/Error' } }
+          }
         }
       },
       schemas: {
@@ -44,7 +68,7 @@ const options = {
             email: { type: 'string' },
             firstName: { type: 'string' },
             lastName: { type: 'string' },
-            kycStatus: { type: 'string', enum: ['pending', 'verified', 'rejected'] },
+            kycStatus: { type: 'string', enum: ['pending', 'submitted', 'under_review', 'verified', 'rejected'] },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' }
           }
@@ -76,6 +100,247 @@ const options = {
             error: { type: 'string' },
             message: { type: 'string' }
           }
+        },
+        ChainTransaction: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            function: { type: 'string', example: 'afjp_staking::stake_tokens' },
+            status: { type: 'string', enum: ['awaiting_signature', 'pending', 'submitted', 'confirmed', 'failed'] },
+            txHash: { type: 'string', nullable: true },
+            version: { type: 'string', nullable: true },
+            vmStatus: { type: 'string', nullable: true, example: 'Executed successfully' },
+            attempts: { type: 'integer' },
+            error: { type: 'string', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            submittedAt: { type: 'string', format: 'date-time', nullable: true },
+            finalizedAt: { type: 'string', format: 'date-time', nullable: true },
+            payload: {
+              type: 'object',
+              nullable: true,
+              description: 'Entry function payload for the wallet to sign while the transaction is awaiting_signature'
+            }
+          }
+        },
+        AuditEvent: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            actorWallet: { type: 'string', nullable: true },
+            action: { type: 'string', example: 'loan.update' },
+            entityType: { type: 'string', example: 'loan' },
+            entityId: { type: 'string' },
+            before: { type: 'object', nullable: true },
+            after: { type: 'object', nullable: true },
+            ip: { type: 'string', nullable: true },
+            requestId: { type: 'string', nullable: true },
+            prevHash: { type: 'string' },
+            hash: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        HealthReport: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['healthy', 'degraded', 'unhealthy'] },
+            timestamp: { type: 'string', format: 'date-time' },
+            uptime: { type: 'number', description: 'Seconds since the process started' },
+            build: {
+              type: 'object',
+              properties: {
+                version: { type: 'string', example: '1.0.0' },
+                commit: { type: 'string', nullable: true },
+                builtAt: { type: 'string', nullable: true },
+                node: { type: 'string', example: 'v20.11.0' },
+                environment: { type: 'string', example: 'production' }
+              }
+            },
+            components: {
+              type: 'object',
+              description: 'database, redis and aptos, readiness only',
+              additionalProperties: {
+                type: 'object',
+                properties: {
+                  status: { type: 'string', enum: ['healthy', 'degraded', 'unhealthy'] },
+                  critical: { type: 'boolean' },
+                  latencyMs: { type: 'integer' },
+                  error: { type: 'string' },
+                  details: { type: 'object', description: 'Chain height and indexer lag for aptos' }
+                }
+              }
+            }
+          }
+        },
+        ContributionPlan: {
+          type: 'object',
+          properties: {
+            planId: { type: 'integer' },
+            amount: { type: 'string', example: '150.00' },
+            currency: { type: 'string', enum: ['USD', 'ARS'] },
+            dueDay: { type: 'integer', minimum: 1, maximum: 28 },
+            fundingSource: { type: 'string', enum: ['bank_transfer', 'debit_card', 'credit_card', 'payroll'] },
+            status: { type: 'string', enum: ['active', 'paused', 'cancelled'] },
+            startPeriod: { type: 'string', example: '2026-11', description: 'First month with an obligation' },
+            cancelledAt: { type: 'string', format: 'date-time', nullable: true },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        Contribution: {
+          type: 'object',
+          properties: {
+            contributionId: { type: 'integer' },
+            status: { type: 'string', enum: ['pending', 'confirmed', 'rejected'], description: 'AFJP is minted once the payment is confirmed' },
+            currency: { type: 'string', enum: ['USD', 'ARS'] },
+            amount: { type: 'string', example: '150.00' },
+            exchangeRate: { type: 'string', description: 'Currency units per USD' },
+            usdAmount: { type: 'string', example: '150.00' },
+            tokenPrice: { type: 'string', description: 'USD per AFJP' },
+            tokenAmount: { type: 'string' },
+            paymentReference: { type: 'string', nullable: true },
+            rejectionReason: { type: 'string', nullable: true },
+            contributedAt: { type: 'string', format: 'date-time' },
+            settledAt: { type: 'string', format: 'date-time', nullable: true }
+          }
+        },
+        ContributionObligation: {
+          type: 'object',
+          properties: {
+            obligationId: { type: 'integer' },
+            planId: { type: 'integer' },
+            period: { type: 'string', example: '2026-11' },
+            dueDate: { type: 'string', format: 'date' },
+            amount: { type: 'string', example: '150.00' },
+            currency: { type: 'string', enum: ['USD', 'ARS'] },
+            status: { type: 'string', enum: ['pending', 'late', 'paid', 'missed'] },
+            contributionId: { type: 'integer', nullable: true },
+            paidAt: { type: 'string', format: 'date-time', nullable: true }
+          }
+        },
+        ContributionStats: {
+          type: 'object',
+          properties: {
+            monthsPaid: { type: 'integer', description: 'Calendar months (UTC) with at least one contribution' },
+            yearsAccumulated: { type: 'number', example: 11.8 },
+            currentStreak: { type: 'integer', description: 'Obligations paid in a row, up to the latest paid or missed one' },
+            longestStreak: { type: 'integer' },
+            coverage: { type: 'number', example: 91.7, description: 'Percentage of paid or missed obligations that were paid' },
+            obligations: {
+              type: 'object',
+              properties: {
+                pending: { type: 'integer' },
+                late: { type: 'integer' },
+                paid: { type: 'integer' },
+                missed: { type: 'integer' }
+              }
+            },
+            nextPayment: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                period: { type: 'string', example: '2026-11' },
+                dueDate: { type: 'string', format: 'date' },
+                amount: { type: 'string', example: '150.00' },
+                currency: { type: 'string', enum: ['USD', 'ARS'] }
+              }
+            }
+          }
+        },
+        Employer: {
+          type: 'object',
+          properties: {
+            employerId: { type: 'integer' },
+            name: { type: 'string' },
+            cuit: { type: 'string', example: '30712345671' },
+            employeeRate: { type: 'string', example: '11', description: 'Percent of the gross salary withheld from the employee' },
+            employerRate: { type: 'string', example: '16', description: 'Percent of the gross salary the employer adds' },
+            isActive: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        EmployerMember: {
+          type: 'object',
+          properties: {
+            memberId: { type: 'integer' },
+            walletAddress: { type: 'string' },
+            role: { type: 'string', enum: ['manager', 'employee'] },
+            cuil: { type: 'string', nullable: true, example: '20123456786' },
+            isActive: { type: 'boolean' },
+            joinedAt: { type: 'string', format: 'date-time' },
+            leftAt: { type: 'string', format: 'date-time', nullable: true }
+          }
+        },
+        PayrollBatch: {
+          type: 'object',
+          properties: {
+            batchId: { type: 'integer' },
+            status: { type: 'string', enum: ['processed', 'partially_processed'] },
+            currency: { type: 'string', enum: ['USD', 'ARS'] },
+            checksum: { type: 'string', description: 'SHA-256 of the file' },
+            rowCount: { type: 'integer' },
+            processedCount: { type: 'integer' },
+            rejectedCount: { type: 'integer' },
+            rejectedRows: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  row: { type: 'integer', description: 'Line of the file, the header is line 1' },
+                  errors: { type: 'array', items: { type: 'string', example: 'Not an employee of this employer' } }
+                }
+              }
+            },
+            grossSalary: { type: 'string', example: '1500000.00' },
+            employeeAmount: { type: 'string', example: '165000.00' },
+            employerAmount: { type: 'string', example: '240000.00' },
+            totalAmount: { type: 'string', example: '405000.00' },
+            createdAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        WebhookSubscription: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            url: { type: 'string', example: 'https://partner.example.com/afjp-events' },
+            eventTypes: { type: 'array', items: { type: 'string', example: 'LoanCreated' } },
+            description: { type: 'string', nullable: true },
+            isActive: { type: 'boolean' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        WebhookDelivery: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            outboxEventId: { type: 'integer' },
+            status: { type: 'string', enum: ['pending', 'delivered', 'dead'] },
+            attempts: { type: 'integer' },
+            nextAttemptAt: { type: 'string', format: 'date-time' },
+            lastStatusCode: { type: 'integer', nullable: true },
+            lastError: { type: 'string', nullable: true },
+            deliveredAt: { type: 'string', format: 'date-time', nullable: true }
+          }
+        },
+        ValidationError: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: false },
+            error: { type: 'string', example: 'Validation failed' },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  location: { type: 'string', enum: ['body', 'params', 'query'] },
+                  field: { type: 'string', example: 'amount' },
+                  message: { type: 'string', example: 'Must be greater than 0' },
+                  code: { type: 'string', example: 'custom' }
+                }
+              }
+            }
+          }
         }
       }
     },
@@ -91,9 +356,9 @@ const options = {
   apis: ['./src/routes/*.ts', './src/controllers/*.ts']
 };
 
-const specs = swaggerJsdoc(options);
+export const swaggerSetup = (app: Express, routers: Record<string, Router>) => {
+  const specs = applyRequestSchemas(swaggerJsdoc(options) as Record<string, any>, routers);
 
-export const swaggerSetup = (app: Express) => {
   app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(specs, {
     explorer: true,
     customCss: '.swagger-ui .topbar { display: none }',
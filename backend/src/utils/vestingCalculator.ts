@@ -0,0 +1,213 @@
+import { Prisma } from '@prisma/client';
+import { VestingCurveType, VestingMilestone } from '../types';
+import { Money, MoneyInput } from './money';
+
+export const VESTING_CURVES: VestingCurveType[] = ['linear', 'monthly_step', 'graded_yearly', 'all_at_end', 'custom'];
+
+// Fields the calculator reads, a VestingSchedule row has all of them
+export interface VestingTerms {
+  totalAmount: MoneyInput;
+  releasedAmount: MoneyInput;
+  startTime: Date;
+  endTime: Date;
+  cliffTime: Date | null;
+  curveType: string;
+  milestones: Prisma.JsonValue | null;
+}
+
+interface UnlockPoint {
+  at: Date;
+  fraction: Prisma.Decimal;
+}
+
+/**
+ * Add calendar months in UTC, clamped to the end of shorter months so
+ * Jan 31 + 1 month is Feb 28 (or 29)
+ */
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+
+  return result;
+};
+
+// Whole calendar months from start to end
+const monthsBetween = (start: Date, end: Date): number => {
+  const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  return addMonths(start, months) > end ? months - 1 : months;
+};
+
+/**
+ * Validate a custom milestone table: months and percentages strictly
+ * increasing, ending at 100 percent
+ */
+export const parseMilestones = (value: unknown): VestingMilestone[] => {
+  const invalid = (reason: string) => new RangeError(`Invalid vesting milestones: ${reason}`);
+
+  if (!Array.isArray(value) || value.length === 0) {
+    throw invalid('expected a non-empty array');
+  }
+
+  return value.map((entry, i) => {
+    const { month, percent } = (entry || {}) as Record<string, unknown>;
+    if (typeof month !== 'number' || !Number.isInteger(month) || month < 0) {
+      throw invalid(`month of entry ${i} must be a whole number of months`);
+    }
+    if (typeof percent !== 'number' || !(percent > 0 && percent <= 100)) {
+      throw invalid(`percent of entry ${i} must be above 0 and at most 100`);
+    }
+
+    const previous = value[i - 1] as VestingMilestone | undefined;
+    if (previous && (month <= previous.month || percent <= previous.percent)) {
+      throw invalid('months and percentages must increase');
+    }
+    if (i === value.length - 1 && percent !== 100) {
+      throw invalid('the last milestone must vest 100 percent');
+    }
+
+    return { month, percent };
+  });
+};
+
+/**
+ * Vesting math for one schedule. The curve decides how much has vested
+ * between start and end; nothing vests before the cliff, after which
+ * whatever the curve reached unlocks at once. Everything has vested by
+ * `endTime` whatever the curve. Amounts round down so the vested amount
+ * never exceeds what the schedule allows.
+ */
+export class VestingCalculator {
+  private readonly points: UnlockPoint[] | null;
+
+  constructor(private readonly terms: VestingTerms) {
+    if (!(VESTING_CURVES as string[]).includes(terms.curveType)) {
+      throw new RangeError(`Unknown vesting curve: ${terms.curveType}`);
+    }
+
+    this.points = terms.curveType === 'linear' ? null : this.unlockPoints();
+  }
+
+  static for(terms: VestingTerms): VestingCalculator {
+    return new VestingCalculator(terms);
+  }
+
+  /**
+   * Share vested at `at`, between 0 and 1
+   */
+  vestedFraction(at: Date = new Date()): Prisma.Decimal {
+    const { startTime, endTime, cliffTime } = this.terms;
+
+    if (cliffTime && at < cliffTime) {
+      return new Prisma.Decimal(0);
+    }
+    if (at >= endTime) {
+      return new Prisma.Decimal(1);
+    }
+    if (at < startTime) {
+      return new Prisma.Decimal(0);
+    }
+
+    if (!this.points) {
+      return new Prisma.Decimal(at.getTime() - startTime.getTime()).div(endTime.getTime() - startTime.getTime());
+    }
+
+    const reached = this.points.filter(point => point.at <= at);
+    return reached.length > 0 ? reached[reached.length - 1].fraction : new Prisma.Decimal(0);
+  }
+
+  vestedAmount(at: Date = new Date()): Money {
+    return Money.of(this.terms.totalAmount).times(this.vestedFraction(at));
+  }
+
+  releasableAmount(at: Date = new Date()): Money {
+    return Money.max(this.vestedAmount(at).minus(this.terms.releasedAmount), 0);
+  }
+
+  /**
+   * When more tokens next vest after `after`: the next step of a stepped
+   * curve, `after` itself while a linear curve is vesting and null once
+   * fully vested. Steps that fall before the cliff all unlock at the cliff.
+   */
+  nextUnlockAt(after: Date = new Date()): Date | null {
+    const { startTime, cliffTime } = this.terms;
+    const vested = this.vestedFraction(after);
+
+    if (vested.eq(1)) {
+      return null;
+    }
+
+    if (!this.points) {
+      const unlocksAt = cliffTime && cliffTime > startTime ? cliffTime : startTime;
+      return after < unlocksAt ? unlocksAt : after;
+    }
+
+    if (cliffTime && after < cliffTime && this.points.some(point => point.at <= cliffTime)) {
+      return cliffTime;
+    }
+
+    const next = this.points.find(point => point.at > after && point.fraction.gt(vested));
+    return next ? next.at : null;
+  }
+
+  // Steps of a stepped curve, the last one always at endTime
+  private unlockPoints(): UnlockPoint[] {
+    const { startTime, endTime, curveType } = this.terms;
+    const months = monthsBetween(startTime, endTime);
+
+    const steps = (count: number, monthsPerStep: number): UnlockPoint[] =>
+      Array.from({ length: count }, (_, i) => ({
+        at: i === count - 1 ? endTime : addMonths(startTime, (i + 1) * monthsPerStep),
+        fraction: new Prisma.Decimal(i + 1).div(count)
+      }));
+
+    switch (curveType) {
+      case 'monthly_step':
+        return steps(Math.max(months, 1), 1);
+      case 'graded_yearly':
+        return steps(Math.max(Math.floor(months / 12), 1), 12);
+      case 'all_at_end':
+        return steps(1, 0);
+      default:
+        return parseMilestones(this.terms.milestones)
+          .map(({ month, percent }) => ({ at: addMonths(startTime, month), fraction: new Prisma.Decimal(percent).div(100) }))
+          .filter(point => point.at < endTime)
+          .concat({ at: endTime, fraction: new Prisma.Decimal(1) });
+    }
+  }
+}
+
+export interface ScheduleRelease<T> {
+  schedule: T;
+  amount: Money;
+}
+
+/**
+ * Split one release across schedules in the order given, the way the module
+ * releases every grant of a beneficiary in one call: each schedule takes what
+ * it can release at `at`. Whatever is left, when the chain vested more than
+ * these terms do, fills what each schedule has not released yet.
+ */
+export const allocateRelease = <T extends VestingTerms>(schedules: T[], amount: MoneyInput, at: Date): ScheduleRelease<T>[] => {
+  const allocated = schedules.map(() => Money.zero());
+  let remaining = Money.of(amount);
+
+  const fill = (capacity: (schedule: T, index: number) => Money) => {
+    schedules.forEach((schedule, index) => {
+      const share = Money.min(remaining, Money.max(capacity(schedule, index), 0));
+      allocated[index] = allocated[index].plus(share);
+      remaining = remaining.minus(share);
+    });
+  };
+
+  fill(schedule => VestingCalculator.for(schedule).releasableAmount(at));
+  fill((schedule, index) => Money.of(schedule.totalAmount).minus(schedule.releasedAmount).minus(allocated[index]));
+
+  return schedules
+    .map((schedule, index) => ({ schedule, amount: allocated[index] }))
+    .filter(release => release.amount.isPositive());
+};
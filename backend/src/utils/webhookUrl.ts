@@ -0,0 +1,86 @@
+import dns from 'dns';
+import net from 'net';
+import { config } from './config';
+
+// Loopback, private, link-local (cloud metadata), shared and other ranges no partner endpoint lives in
+const NON_PUBLIC = new net.BlockList();
+([
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  // Multicast, reserved and broadcast
+  ['224.0.0.0', 3]
+] as [string, number][]).forEach(([network, prefix]) => NON_PUBLIC.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 128],
+  ['::1', 128],
+  // NAT64, which can embed any IPv4 address
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as [string, number][]).forEach(([network, prefix]) => NON_PUBLIC.addSubnet(network, prefix, 'ipv6'));
+
+const NON_PUBLIC_HOST = 'Must not point at a local or private network address';
+
+export const isPublicAddress = (address: string): boolean =>
+  !NON_PUBLIC.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+/**
+ * Why a webhook URL cannot be subscribed to, or null when it can. Only
+ * https is accepted outside the dev and local-sim profiles, and hosts that
+ * are local or private addresses are refused everywhere. Host names are
+ * checked again when the dispatcher resolves them, see `publicLookup`.
+ */
+export const webhookUrlProblem = (value: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (error) {
+    return 'Must be a URL';
+  }
+
+  const allowHttp = config.profile === 'dev' || config.profile === 'local-sim';
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    return allowHttp ? 'Must be an http(s) URL' : 'Must be an https URL';
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || (net.isIP(host) && !isPublicAddress(host))) {
+    return NON_PUBLIC_HOST;
+  }
+
+  return null;
+};
+
+/**
+ * DNS lookup for outgoing webhook requests that fails when the host resolves
+ * to a local or private address. It runs on every connection, so a host
+ * whose records change after it was subscribed cannot reach internal services.
+ */
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`${hostname} resolves to ${blocked?.address ?? 'no address'}: ${NON_PUBLIC_HOST}`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};